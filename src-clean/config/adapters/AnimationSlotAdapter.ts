@@ -53,32 +53,65 @@ import {
     AnimationMode,
     AnimationBehavior,
     ElementScope,
-    CriteriaType,
     ScopeDepth,
     ElementSelection,
-    SelectionCriteria,
     ReverseMode,
     InterruptBehavior, // 🚨 NEW: Import interrupt behavior
+    ReducedMotionPolicy,
     // 🎨 FEATURE 2B: Text Processing Types (Phase 1)
     TextProcessingConfig,
     TextSplitType,
     TextCanvasFallback,
+    TextAccessibilityMode,
+    TextEffect,
     // 📊 FEATURE 3A: Distributed Properties Types
     DistributedPropertyConfig,
+    KeyTriggerConfig,
+    // 📡 Event bus
+    CustomEventTriggerConfig,
+    SlotEventEmit,
+    EventBusScope,
+    AnimationLifecycleEvent,
+    // 🔗 Slot sequencing
+    SlotSequenceConfig,
+    SequencePoint,
+    // 🎞️ Keyframe tracks and labels
+    AnimationKeyframe,
+    TimelineLabel,
+    // ↔️ Scroll axis
+    ScrollAxisConfig,
+    // 📱 Breakpoint variants
+    SlotBreakpointOverride,
+    AnimationPropertyOverride,
 } from "../../types/index.ts"
 
 // 📊 FEATURE 3A: Import distributed properties pattern generator and data extraction
 import { distributedPropertyPatternGenerator } from "../../utils/DistributedPropertyPatternGenerator.ts"
 import { extractDistributedPropertyConfig } from "../propertyControls/animationControls/DistributedPropertyControls.ts"
+import { convertSelectionFilters } from "./ElementSelectionAdapter.ts"
+import type { ConvertedSelectionFilters } from "./ElementSelectionAdapter.ts"
+import { convertBreakpointRange } from "./BreakpointAdapter.ts"
+
+// 🎨 Color interpolation settings (validated from property controls)
+import {
+    resolveColorInterpolationSpace,
+    resolveHueInterpolationMethod,
+} from "../../utils/color/index.ts"
+
+// ⌨️ Key filtering for KEYDOWN/KEYUP triggers
+import { isKeyboardEventType, parseKeyList } from "../../events/KeyEventFilter.ts"
+import { parseSequencePosition } from "../../core/sequencing/SlotSequencer.ts"
 
 // 🚀 NEW: Import enhanced stagger types
 import type {
     StaggerConfig,
     DirectionalStaggerConfig,
     GridReverseMode,
+    CustomStaggerOrderConfig,
 } from "../../utils/staggering/types/StaggerTypes.ts"
 
 import { migrateLegacyDirection } from "../../utils/staggering/types/StaggerTypes.ts"
+import { ensurePointerTracking } from "../../utils/staggering/order/CustomOrderResolver.ts"
 
 // 🚀 PHASE 4.3: Import multi-property utilities
 // ❌ REMOVED: Legacy imports - functions removed from PropertyRegistry.ts
@@ -92,6 +125,9 @@ import {
 } from "../../core/timeline/MasterTimeline.ts"
 // ❌ REMOVED: Timeline validation import - test file removed, Timeline-First Architecture is stable
 
+// ✨ Text effects run as master timeline channels
+import { createTextEffectProperties } from "../../utils/text/effects/TextEffectChannels.ts"
+
 //=======================================
 //          🚀 TIMELINE FEATURE FLAG
 //=======================================
@@ -131,16 +167,55 @@ export interface PropertyControlsAnimationSlot {
             criteriaValue2?: string
             criteriaType3?: string
             criteriaValue3?: string
+            // 🔀 Filter list (OR groups, exclusion, positional filters)
+            filters?: Array<{
+                type?: string
+                value?: string
+                exclude?: boolean
+                group?: number
+            }>
+            pick?: string
         }
         behavior: AnimationBehavior
         overrideState?: boolean // NEW: Override State Feature
         reverseMode?: ReverseMode // NEW: Reverse Mode Options
+        targetLabel?: string // 🏷️ Label for PLAY_TO_LABEL
         // 🎯 NEW: Scroll-specific configuration (only present when event is SCROLL)
         scrollThresholds?: {
             elementStart: number
             viewportThreshold: number
             thresholdCrossedBackward: string
         }
+        // ↔️ Scroll axis / container (only used when event is SCROLL or SCROLL_DIRECTION_CHANGE)
+        scrollAxis?: {
+            axis?: string
+            scrollContainer?: string
+        }
+        // ⌨️ Keyboard filter (only used when event is KEYDOWN/KEYUP)
+        keyConfig?: {
+            keys?: string // Comma-separated KeyboardEvent.key values
+            codes?: string // Comma-separated KeyboardEvent.code values
+            shift?: boolean
+            alt?: boolean
+            ctrl?: boolean
+            meta?: boolean
+            exactModifiers?: boolean
+            ignoreRepeat?: boolean
+            listenOnDocument?: boolean
+            preventDefault?: boolean
+        }
+        // 📡 Event bus channel (only used when event is CUSTOM_EVENT)
+        customEventConfig?: {
+            channel?: string
+            scope?: EventBusScope
+            payloadFilter?: string
+        }
+        // 🔗 Slot sequencing (only used when event is SLOT_SEQUENCE)
+        sequenceConfig?: {
+            afterSlot?: string
+            position?: string
+            followReverse?: boolean
+        }
     }>
 
     // 🚀 NEW: Animated elements array (using individual criteria fields)
@@ -153,17 +228,27 @@ export interface PropertyControlsAnimationSlot {
         criteriaValue2?: string
         criteriaType3?: string
         criteriaValue3?: string
+        // 🔀 Filter list (OR groups, exclusion, positional filters)
+        filters?: Array<{
+            type?: string
+            value?: string
+            exclude?: boolean
+            group?: number
+        }>
+        pick?: string
         // 🎨 FEATURE 2B: Text Processing Configuration (Phase 2.1) - Line Masking System
         textProcessingEnabled?: boolean
         textProcessingConfig?: {
             animateBy?: "characters" | "words" | "lines"
             maskLines?: boolean
+            accessibleText?: TextAccessibilityMode
+            locale?: string
             canvasMode?: {
                 enableInCanvas?: boolean
                 fallbackBehavior?: TextCanvasFallback
                 maxTextLength?: number
             }
-            textEffects?: any[] // Phase 3: To be expanded
+            textEffects?: any[] // Flat control items, see convertTextEffects()
         }
     }>
 
@@ -176,24 +261,37 @@ export interface PropertyControlsAnimationSlot {
         from?: string // Starting value
         to?: string // Ending value
         easing?: string // Easing function
+        customEasing?: string // CSS easing string (overrides easing when set)
         springConfig?: {
             // Spring configuration (when using spring easing)
             amplitude: number
             period: number
+            // Physics spring parameters (spring.physics easing)
+            mass?: number
+            stiffness?: number
+            damping?: number
         }
+        colorSpace?: "oklab" | "oklch" | "srgb" | "linear-rgb" // Color interpolation space (color properties)
+        hueInterpolation?: "shorter" | "longer" // Hue arc for oklch
         useGlobalSettings?: boolean // Whether to use global timeline settings
         duration?: number // Override duration
         delay?: number // Override delay
+        useKeyframes?: boolean // Use the keyframe track instead of from/to
+        keyframes?: Array<{
+            offset?: number // Percent of the property duration (0-100)
+            value?: string
+            easing?: string // Easing into this stop (empty = property easing)
+        }>
         useDistributedValues?: boolean // Whether to use distributed values
         
         // 📊 NEW FLATTENED DISTRIBUTED PROPERTIES: Framer-friendly structure
-        distributedFromPattern?: "comma-separated" | "linear-range" // From pattern type
+        distributedFromPattern?: "comma-separated" | "linear-range" | "random" | "grid-aware" // From pattern type
         distributedFromValues?: string // From comma-separated values
         distributedFromMinValue?: string // From linear range min value
         distributedFromMaxValue?: string // From linear range max value
         distributedFromProgression?: "linear" | "linear-reverse" | "bell-curve" | "roof" | "reverse-roof" | "ramp-up" | "ramp-down" | "ease-in-out" | "steps" | "random" | "cubic-in-out" | "bounce" | "elastic" | "exponential" // From progression type
         
-        distributedToPattern?: "comma-separated" | "linear-range" // To pattern type
+        distributedToPattern?: "comma-separated" | "linear-range" | "random" | "grid-aware" // To pattern type
         distributedToValues?: string // To comma-separated values
         distributedToMinValue?: string // To linear range min value
         distributedToMaxValue?: string // To linear range max value
@@ -201,37 +299,61 @@ export interface PropertyControlsAnimationSlot {
         
         // 🔄 LEGACY: Nested structure for backward compatibility (deprecated)
         distributedFromConfig?: {
-            pattern: "comma-separated" | "linear-range"
+            pattern: "comma-separated" | "linear-range" | "random" | "grid-aware"
             values?: string // For comma-separated
             linearRange?: {
                 minValue: string
                 maxValue: string
                 progression: "linear" | "linear-reverse" | "bell-curve" | "roof" | "reverse-roof" | "ramp-up" | "ramp-down" | "ease-in-out" | "steps" | "random" | "cubic-in-out" | "bounce" | "elastic" | "exponential"
             }
+            minValue?: string // For linear-range, random and grid-aware
+            maxValue?: string // For linear-range, random and grid-aware
+            progression?: "linear" | "linear-reverse" | "bell-curve" | "roof" | "reverse-roof" | "ramp-up" | "ramp-down" | "ease-in-out" | "steps" | "random" | "cubic-in-out" | "bounce" | "elastic" | "exponential" // For linear-range and grid-aware
+            seed?: number // For random
+            distribution?: "uniform" | "gaussian" // For random
+            gridDirection?: "row-wise" | "column-wise" | "diagonal" // For grid-aware
+            gridStartCorner?: "top-left" | "top-right" | "bottom-left" | "bottom-right" // For grid-aware
         }
         distributedToConfig?: {
-            pattern: "comma-separated" | "linear-range"
+            pattern: "comma-separated" | "linear-range" | "random" | "grid-aware"
             values?: string // For comma-separated
             linearRange?: {
                 minValue: string
                 maxValue: string
                 progression: "linear" | "linear-reverse" | "bell-curve" | "roof" | "reverse-roof" | "ramp-up" | "ramp-down" | "ease-in-out" | "steps" | "random" | "cubic-in-out" | "bounce" | "elastic" | "exponential"
             }
+            minValue?: string // For linear-range, random and grid-aware
+            maxValue?: string // For linear-range, random and grid-aware
+            progression?: "linear" | "linear-reverse" | "bell-curve" | "roof" | "reverse-roof" | "ramp-up" | "ramp-down" | "ease-in-out" | "steps" | "random" | "cubic-in-out" | "bounce" | "elastic" | "exponential" // For linear-range and grid-aware
+            seed?: number // For random
+            distribution?: "uniform" | "gaussian" // For random
+            gridDirection?: "row-wise" | "column-wise" | "diagonal" // For grid-aware
+            gridStartCorner?: "top-left" | "top-right" | "bottom-left" | "bottom-right" // For grid-aware
         }
     }>
 
     // 🔄 LEGACY: Keep for backward compatibility (will be deprecated)
     activeProperties?: string[]
 
+    // 🏷️ Named points in time on the slot's timeline
+    timelineLabels?: Array<{
+        name?: string
+        time?: number // Seconds
+    }>
+
     // 🌐 PHASE 4.2: Global timeline support
     globalTimelineEnabled?: boolean
     globalTimelineConfig?: {
         duration?: number
         delay?: number
         easing?: string
+        customEasing?: string
         springConfig?: {
             amplitude: number
             period: number
+            mass?: number
+            stiffness?: number
+            damping?: number
         }
     }
 
@@ -245,6 +367,50 @@ export interface PropertyControlsAnimationSlot {
     // 🚨 NEW: Interrupt behavior configuration
     interruptBehavior?: InterruptBehavior
 
+    // ♿ Reduced motion policy ("inherit" = use component default)
+    reducedMotion?: ReducedMotionPolicy | "inherit"
+
+    // ⏩ Playback speed multiplier (default 1)
+    timeScale?: number
+
+    // 👁️ Pause while off-screen (default true)
+    pauseWhenOffscreen?: boolean
+
+    // 🧊 Compositor backend (default false)
+    useCompositor?: boolean
+
+    // 🔭 Re-resolve elements on DOM changes (default false)
+    observeDomChanges?: boolean
+
+    // 📡 Event bus messages emitted at lifecycle moments
+    emitEvents?: Array<{
+        channel?: string
+        on?: AnimationLifecycleEvent
+        payload?: string // Text or JSON
+        scope?: EventBusScope
+    }>
+
+    // 📱 Per-viewport overrides
+    breakpoints?: Array<{
+        range?: "phone" | "tablet" | "desktop" | "custom"
+        minWidth?: number // Custom range only (0 = no minimum)
+        maxWidth?: number // Custom range only (0 = no maximum)
+        disabled?: boolean
+        properties?: Array<{
+            property?: string
+            from?: string // Empty = keep
+            to?: string // Empty = keep
+            overrideTiming?: boolean
+            duration?: number
+            delay?: number
+            easing?: string // Empty = keep
+        }>
+        stagger?: "inherit" | "off" | "linear" | "grid"
+        staggerDelay?: number
+        staggerOrder?: string
+        gridOrigin?: string
+    }>
+
     // 🔄 LEGACY: Dynamic property configurations (for backward compatibility)
     [key: string]: any // Property-specific configurations like translateX, opacity, etc.
 }
@@ -254,42 +420,259 @@ export interface PropertyControlsAnimationSlot {
 //=======================================
 
 /**
- * Convert selectors array to criteria array
- * Uses the working reference implementation pattern
+ * Convert keyboard trigger controls from property controls to internal format
+ *
+ * @param config - Flat key controls (comma-separated keys/codes + modifier toggles)
+ * @returns Internal KeyTriggerConfig
  */
-function convertIndividualCriteriaToArray(element: any): SelectionCriteria[] {
-    console.log(
-        "[TEXTSPLITTERDOMTESTING] CRITICAL --- convertIndividualCriteriaToArray: element:",
-        element
-    )
-    const criteria: SelectionCriteria[] = []
-
-    // Handle individual criteria fields (criteriaType1, criteriaValue1, etc.)
-    for (let i = 1; i <= 3; i++) {
-        const typeField = `criteriaType${i}`
-        const valueField = `criteriaValue${i}`
-
-        const criteriaType = element[typeField]
-        const criteriaValue = element[valueField]
-
-        // Only add if type is not "none" and value is provided
-        if (
-            criteriaType &&
-            criteriaType !== "none" &&
-            criteriaValue &&
-            criteriaValue.trim() !== ""
-        ) {
-            criteria.push({
-                type: criteriaType as CriteriaType,
-                value: criteriaValue.trim(),
-            })
-        }
+function convertKeyTriggerConfig(config: any): KeyTriggerConfig {
+    return {
+        keys: parseKeyList(config.keys),
+        codes: parseKeyList(config.codes),
+        modifiers: {
+            shift: config.shift === true,
+            alt: config.alt === true,
+            ctrl: config.ctrl === true,
+            meta: config.meta === true,
+        },
+        exactModifiers: config.exactModifiers !== false,
+        ignoreRepeat: config.ignoreRepeat !== false,
+        listenOnDocument: config.listenOnDocument === true,
+        preventDefault: config.preventDefault === true,
     }
-    console.log(
-        "[TEXTSPLITTERDOMTESTING] CRITICAL --- convertIndividualCriteriaToArray: criteria:",
-        criteria
+}
+
+/**
+ * Convert CUSTOM_EVENT channel controls from property controls to internal format
+ *
+ * @param config - Channel controls
+ * @returns Internal CustomEventTriggerConfig, or null when no channel is set
+ */
+function convertCustomEventTriggerConfig(
+    config: any
+): CustomEventTriggerConfig | null {
+    const channel = typeof config?.channel === "string" ? config.channel.trim() : ""
+    if (!channel) return null
+
+    const payloadFilter =
+        typeof config.payloadFilter === "string" ? config.payloadFilter.trim() : ""
+
+    return {
+        channel,
+        scope: config.scope === EventBusScope.SITE ? EventBusScope.SITE : EventBusScope.PAGE,
+        ...(payloadFilter && { payloadFilter }),
+    }
+}
+
+/**
+ * Convert scroll axis controls from property controls to internal format
+ *
+ * @param config - Axis + container selector controls
+ * @returns Internal ScrollAxisConfig, or undefined for the default (vertical, auto-detected container)
+ */
+function convertScrollAxisConfig(config: any): ScrollAxisConfig | undefined {
+    const axis = config?.axis === "x" || config?.axis === "auto" ? config.axis : "y"
+    const scrollContainer =
+        typeof config?.scrollContainer === "string" ? config.scrollContainer.trim() : ""
+
+    if (axis === "y" && !scrollContainer) return undefined
+
+    return {
+        axis,
+        ...(scrollContainer && { scrollContainer }),
+    }
+}
+
+/**
+ * Convert SLOT_SEQUENCE controls from property controls to internal format
+ * Only end positions can start early (">-0.3"); negative offsets elsewhere are clamped to 0.
+ *
+ * @param config - Sequence controls
+ * @returns Internal SlotSequenceConfig, or null when no slot is set or the position is invalid
+ */
+function convertSlotSequenceConfig(config: any): SlotSequenceConfig | null {
+    const afterSlot = typeof config?.afterSlot === "string" ? config.afterSlot.trim() : ""
+
+    // "hero/intro" follows slot "intro" of the FAME instance named "hero"
+    const separatorIndex = afterSlot.indexOf("/")
+    const afterInstance = separatorIndex > 0 ? afterSlot.slice(0, separatorIndex).trim() : ""
+    const afterSlotId = separatorIndex >= 0 ? afterSlot.slice(separatorIndex + 1).trim() : afterSlot
+    if (!afterSlotId) return null
+
+    const position = parseSequencePosition(config.position)
+    if (!position) {
+        console.warn(`🔗 [AnimationSlotAdapter] Invalid sequence position "${config.position}"`)
+        return null
+    }
+
+    if (position.offset < 0 && position.point !== SequencePoint.COMPLETE) {
+        console.warn(`🔗 [AnimationSlotAdapter] Negative offset only works relative to the end (">"), using 0 for "${config.position}"`)
+        position.offset = 0
+    }
+
+    return {
+        afterSlotId,
+        ...(afterInstance && { afterInstance }),
+        ...position,
+        followReverse: config.followReverse !== false,
+    }
+}
+
+/**
+ * Convert emit controls from property controls to internal format
+ * Entries without a channel are dropped. Payloads that parse as JSON are sent parsed.
+ *
+ * @param emitEvents - Emit controls array
+ * @returns Internal SlotEventEmit list
+ */
+function convertEmitEvents(emitEvents: any[] | undefined): SlotEventEmit[] {
+    if (!Array.isArray(emitEvents)) return []
+
+    const validMoments = Object.values(AnimationLifecycleEvent) as string[]
+
+    return emitEvents.flatMap((emitConfig) => {
+        const channel =
+            typeof emitConfig?.channel === "string" ? emitConfig.channel.trim() : ""
+        if (!channel) return []
+
+        const on = validMoments.includes(emitConfig.on)
+            ? (emitConfig.on as AnimationLifecycleEvent)
+            : AnimationLifecycleEvent.COMPLETE
+
+        return [
+            {
+                channel,
+                on,
+                payload: parseEmitPayload(emitConfig.payload),
+                scope:
+                    emitConfig.scope === EventBusScope.SITE
+                        ? EventBusScope.SITE
+                        : EventBusScope.PAGE,
+            },
+        ]
+    })
+}
+
+/**
+ * Parse an emit payload: JSON when valid, otherwise the trimmed string (empty = no payload)
+ */
+function parseEmitPayload(payload: unknown): unknown {
+    if (typeof payload !== "string") return payload
+    const trimmed = payload.trim()
+    if (!trimmed) return undefined
+
+    try {
+        return JSON.parse(trimmed)
+    } catch {
+        return trimmed
+    }
+}
+
+/**
+ * Convert breakpoint override controls from property controls to internal format
+ * Overrides without a valid range are dropped. Empty values keep the slot's own value.
+ *
+ * @param breakpoints - Breakpoint override controls array
+ * @returns Internal SlotBreakpointOverride list
+ */
+export function convertSlotBreakpoints(
+    breakpoints: any[] | undefined
+): SlotBreakpointOverride[] {
+    if (!Array.isArray(breakpoints)) return []
+
+    return breakpoints.flatMap((breakpoint): SlotBreakpointOverride[] => {
+        const range = convertBreakpointRange(breakpoint)
+        if (!range) return []
+
+        if (breakpoint.disabled === true) {
+            return [{ ...range, disabled: true }]
+        }
+
+        const properties = convertPropertyOverrides(breakpoint.properties)
+
+        // "inherit" keeps the slot's stagger, "off" removes it, a strategy replaces it
+        const stagger = breakpoint.stagger || "inherit"
+        const staggering =
+            stagger === "off"
+                ? null
+                : stagger === "linear" || stagger === "grid"
+                  ? convertEnhancedStaggerConfig({
+                        staggerEnabled: true,
+                        staggerConfig: {
+                            strategy: stagger,
+                            delay: breakpoint.staggerDelay,
+                            simpleOrder: breakpoint.staggerOrder,
+                            gridOrigin: breakpoint.gridOrigin,
+                        },
+                    })
+                  : undefined
+
+        return [
+            {
+                ...range,
+                ...(properties.length > 0 && { properties }),
+                ...(staggering !== undefined && { staggering }),
+            },
+        ]
+    })
+}
+
+/**
+ * Convert the property overrides of one breakpoint override
+ */
+function convertPropertyOverrides(
+    properties: any[] | undefined
+): AnimationPropertyOverride[] {
+    if (!Array.isArray(properties)) return []
+
+    return properties.flatMap((propertyOverride): AnimationPropertyOverride[] => {
+        if (!propertyOverride?.property) return []
+
+        const from = nonEmptyString(propertyOverride.from)
+        const to = nonEmptyString(propertyOverride.to)
+        const easing = nonEmptyString(propertyOverride.easing)
+        const overrideTiming = propertyOverride.overrideTiming === true
+
+        return [
+            {
+                property: propertyOverride.property,
+                ...(from !== undefined && { from }),
+                ...(to !== undefined && { to }),
+                ...(overrideTiming &&
+                    typeof propertyOverride.duration === "number" && {
+                        duration: propertyOverride.duration,
+                    }),
+                ...(overrideTiming &&
+                    typeof propertyOverride.delay === "number" && {
+                        delay: propertyOverride.delay,
+                    }),
+                ...(easing !== undefined && { easing }),
+            },
+        ]
+    })
+}
+
+/**
+ * Trimmed string, or undefined when empty
+ */
+function nonEmptyString(value: unknown): string | undefined {
+    return typeof value === "string" && value.trim() ? value.trim() : undefined
+}
+
+/**
+ * Resolve a reduced motion policy from property controls
+ *
+ * @param value - Policy value ("inherit" or unknown values resolve to undefined)
+ * @returns ReducedMotionPolicy, or undefined to inherit the component default
+ */
+export function resolveReducedMotionPolicy(
+    value: unknown
+): ReducedMotionPolicy | undefined {
+    return Object.values(ReducedMotionPolicy).includes(
+        value as ReducedMotionPolicy
     )
-    return criteria
+        ? (value as ReducedMotionPolicy)
+        : undefined
 }
 
 /**
@@ -321,6 +704,8 @@ function convertTextProcessingConfig(config: any): TextProcessingConfig {
         enabled: true, // If we're calling this function, it's enabled
         animateBy: animateBy,
         maskLines: config.maskLines || false,
+        accessibleText: config.accessibleText || TextAccessibilityMode.AUTO,
+        ...(config.locale && config.locale.trim() && { locale: config.locale.trim() }),
         canvasMode: config.canvasMode
             ? {
                   enableInCanvas: config.canvasMode.enableInCanvas !== false, // Default to true
@@ -334,7 +719,7 @@ function convertTextProcessingConfig(config: any): TextProcessingConfig {
                   fallbackBehavior: TextCanvasFallback.ANIMATE_CONTAINER,
                   maxTextLength: 500,
               },
-        textEffects: config.textEffects || [], // Phase 3: Text effects array
+        textEffects: convertTextEffects(config.textEffects),
 
         // 🔧 INTERNAL: Derived properties for backward compatibility
         splitType: derivedSplitType,
@@ -343,6 +728,92 @@ function convertTextProcessingConfig(config: any): TextProcessingConfig {
     }
 }
 
+/**
+ * Text effects converter
+ * Accepts property control items (flat, timing in seconds) or internal TextEffect objects
+ *
+ * @param rawEffects - textEffects array from property controls
+ * @returns Internal TextEffect array (timing in milliseconds)
+ */
+function convertTextEffects(rawEffects: any): TextEffect[] {
+    if (!Array.isArray(rawEffects)) return []
+
+    return rawEffects
+        .filter((rawEffect: any) => rawEffect && rawEffect.type)
+        .map((rawEffect: any): TextEffect => {
+            // Already in internal format (e.g. presets)
+            if (rawEffect.config && typeof rawEffect.config === "object") {
+                return {
+                    type: rawEffect.type,
+                    config: rawEffect.config,
+                    enabled: rawEffect.enabled !== false,
+                    ...(rawEffect.timing && { timing: rawEffect.timing }),
+                }
+            }
+
+            const { type, enabled, duration, delay, easing, ...effectConfig } =
+                rawEffect
+            const hasTiming = duration > 0 || delay > 0 || !!easing
+
+            return {
+                type,
+                config: effectConfig,
+                enabled: enabled !== false,
+                // Controls use seconds, EffectTimingConfig uses milliseconds
+                ...(hasTiming && {
+                    timing: {
+                        duration: duration > 0 ? duration * 1000 : 0,
+                        delay: delay > 0 ? delay * 1000 : 0,
+                        easing: easing || "linear",
+                    },
+                }),
+            }
+        })
+}
+
+/**
+ * Convert custom stagger order controls to CustomStaggerOrderConfig
+ *
+ * @description
+ * Shared by time-based (staggerConfig) and scroll (scrollStaggerConfig) stagger controls.
+ * Pointer tracking starts here so pointer-distance orders know the pointer position
+ * before the first trigger fires.
+ *
+ * @param controls - Stagger controls object holding the customOrder* fields
+ * @returns Custom order configuration
+ */
+function convertCustomStaggerOrder(controls: any): CustomStaggerOrderConfig {
+    const source = controls.customOrderSource || "index-list"
+
+    switch (source) {
+        case "attribute":
+            return {
+                source,
+                attribute: controls.customOrderAttribute || "data-stagger-order",
+                descending: controls.customOrderDescending === true,
+            }
+
+        case "metric": {
+            const metric = controls.customOrderMetric || "area"
+            if (metric === "pointer-distance") {
+                ensurePointerTracking()
+            }
+            return {
+                source,
+                metric,
+                descending: controls.customOrderDescending === true,
+            }
+        }
+
+        case "index-list":
+        default:
+            return {
+                source: "index-list",
+                indices: controls.customOrderIndices || "",
+            }
+    }
+}
+
 /**
  * Enhanced stagger configuration converter
  * Converts property controls stagger settings to internal StaggerConfig with grid and directional order support
@@ -431,6 +902,11 @@ function convertEnhancedStaggerConfig(props: any): StaggerConfig | undefined {
             }
         }
 
+        // 🔀 Custom sequence for whichever direction uses the 'custom' order
+        if (orderConfig.forward === "custom" || orderConfig.backward === "custom") {
+            orderConfig.custom = convertCustomStaggerOrder(staggerConfig)
+        }
+
         config.order = orderConfig
 
         // Add advanced options for linear stagger
@@ -597,14 +1073,11 @@ export function toInternalFormat(
                     triggerElement.behavior || AnimationBehavior.TOGGLE
                 const targetElement = triggerElement.targetElement
 
-                // Convert multi-criteria format to selection array
-                const criteria = convertIndividualCriteriaToArray(targetElement)
-
                 // 🎯 NEW: Handle scroll-specific configuration
                 const internalTrigger: TriggerElement = {
                     selection: {
                         scope: targetElement.scope || ElementScope.SELF,
-                        criteria,
+                        ...convertSelectionFilters(targetElement),
                     },
                     event,
                     behavior,
@@ -613,6 +1086,16 @@ export function toInternalFormat(
                         triggerElement.reverseMode ||
                         ReverseMode.EASING_PRESERVATION,
                 }
+
+                // 🏷️ Label targeted by PLAY_TO_LABEL
+                if (behavior === AnimationBehavior.PLAY_TO_LABEL) {
+                    const targetLabel = triggerElement.targetLabel?.trim()
+                    if (!targetLabel) {
+                        console.warn(`🏷️ [AnimationSlotAdapter] Trigger ${index} plays to a label but has no label, skipping`)
+                        return
+                    }
+                    internalTrigger.targetLabel = targetLabel
+                }
                 
                 // 🔄 CRITICAL FIX: Transfer loopConfig and pingPongConfig from property controls
                 if (triggerElement.loopConfig) {
@@ -629,6 +1112,41 @@ export function toInternalFormat(
                     internalTrigger.delayedTriggerConfig = triggerElement.delayedTriggerConfig;
                     console.log(`⏱️ [AnimationSlotAdapter] Added delayedTriggerConfig:`, triggerElement.delayedTriggerConfig);
                 }
+                
+                // ⌨️ Keyboard triggers: convert flat key controls to KeyTriggerConfig
+                if (isKeyboardEventType(event) && triggerElement.keyConfig) {
+                    internalTrigger.keyConfig = convertKeyTriggerConfig(triggerElement.keyConfig);
+                    console.log(`⌨️ [AnimationSlotAdapter] Added keyConfig:`, internalTrigger.keyConfig);
+                }
+
+                // ↔️ Scroll triggers: only non-default axes/containers are stored
+                if (event === EventType.SCROLL || event === EventType.SCROLL_DIRECTION_CHANGE) {
+                    const scrollAxis = convertScrollAxisConfig(triggerElement.scrollAxis)
+                    if (scrollAxis) {
+                        internalTrigger.scrollAxis = scrollAxis
+                        console.log(`↔️ [AnimationSlotAdapter] Added scrollAxis:`, scrollAxis)
+                    }
+                }
+
+                // 📡 Channel triggers: skip when no channel is set (they could never fire)
+                if (event === EventType.CUSTOM_EVENT) {
+                    const customEventConfig = convertCustomEventTriggerConfig(triggerElement.customEventConfig)
+                    if (!customEventConfig) {
+                        console.warn(`📡 [AnimationSlotAdapter] Trigger ${index} is a custom event without channel, skipping`)
+                        return
+                    }
+                    internalTrigger.customEventConfig = customEventConfig
+                }
+
+                // 🔗 Sequenced triggers: skip when the followed slot or position is missing
+                if (event === EventType.SLOT_SEQUENCE) {
+                    const sequenceConfig = convertSlotSequenceConfig(triggerElement.sequenceConfig)
+                    if (!sequenceConfig) {
+                        console.warn(`🔗 [AnimationSlotAdapter] Trigger ${index} is a slot sequence without valid slot/position, skipping`)
+                        return
+                    }
+                    internalTrigger.sequenceConfig = sequenceConfig
+                }
 
                 // Add scroll configuration if this is a scroll trigger
                 if (event === EventType.SCROLL) {
@@ -773,11 +1291,9 @@ export function toInternalFormat(
         propertyControlsSlot.animatedElements.forEach(
             (animatedElement: any, index: number) => {
                 // Convert multi-criteria format
-                const criteria =
-                    convertIndividualCriteriaToArray(animatedElement)
                 const selection = convertToElementSelection(
                     animatedElement.scope || ElementScope.SELF,
-                    criteria,
+                    convertSelectionFilters(animatedElement),
                     animatedElement.depth
                 )
 
@@ -840,6 +1356,23 @@ export function toInternalFormat(
         )
     }
 
+    // ✨ TEXT EFFECTS: Add scramble/typewriter/reveal/glitch as timeline channels
+    // Channels default to the span of the slot's properties, so they finish together
+    const textEffectProperties = createTextEffectProperties(
+        animatedElements.flatMap(
+            (animatedElement) => animatedElement.textProcessing?.textEffects || []
+        ),
+        totalDuration
+    )
+    if (textEffectProperties.length > 0) {
+        const builder = new MasterTimelineBuilder()
+        animationProperties = [...animationProperties, ...textEffectProperties]
+        masterTimeline = masterTimeline
+            ? builder.extendMasterTimeline(masterTimeline, textEffectProperties)
+            : builder.buildMasterTimeline(textEffectProperties)
+        totalDuration = masterTimeline.totalDuration
+    }
+
     // 🔕 SIMPLIFIED: Basic properties summary (detailed logs removed for clarity)
 
     // Convert enhanced stagger configuration
@@ -912,13 +1445,10 @@ export function toInternalFormat(
                     triggerElementConfig
                 )
 
-                // Convert individual criteria fields to internal format
-                const criteria =
-                    convertIndividualCriteriaToArray(triggerElementConfig)
-
+                // Convert filter fields to internal format
                 triggerElement = {
                     scope: triggerElementConfig.scope || "self",
-                    criteria: criteria,
+                    ...convertSelectionFilters(triggerElementConfig),
                 }
 
                 console.log(
@@ -947,6 +1477,9 @@ export function toInternalFormat(
                         // 🚨 NEW: Extract grid stagger properties
                         strategy: config.strategy || "linear",
                         order: config.order,
+                        ...(config.order === "custom" && {
+                            customOrder: convertCustomStaggerOrder(config),
+                        }),
                         gridMode: config.gridMode,
                         gridOrigin: config.gridOrigin,
                         gridRowDirection: config.gridRowDirection,
@@ -978,6 +1511,9 @@ export function toInternalFormat(
                 )
             }
 
+            // ↔️ Only non-default axes/containers are stored
+            const scrollAxis = convertScrollAxisConfig(scrollSettings.scrollAxis)
+
             // Process scroll configuration based on the types defined in ScrollTypes.ts
             scrollConfig = {
                 mode: "scrubbed",
@@ -987,6 +1523,11 @@ export function toInternalFormat(
                         scrollSettings.boundaries
                     ),
                     ...(staggerConfig && { stagger: staggerConfig }), // Only include stagger if it's defined
+                    ...(scrollSettings.smoothing?.mode &&
+                        scrollSettings.smoothing.mode !== "none" && {
+                            smoothing: { ...scrollSettings.smoothing },
+                        }), // Only include smoothing if it's enabled
+                    ...(scrollAxis && { scrollAxis }),
                 },
             }
         } else {
@@ -1013,6 +1554,9 @@ export function toInternalFormat(
                         // 🚨 NEW: Extract grid stagger properties
                         strategy: config.strategy || "linear",
                         order: config.order,
+                        ...(config.order === "custom" && {
+                            customOrder: convertCustomStaggerOrder(config),
+                        }),
                         gridMode: config.gridMode,
                         gridOrigin: config.gridOrigin,
                         gridRowDirection: config.gridRowDirection,
@@ -1070,9 +1614,34 @@ export function toInternalFormat(
         )
     }
 
+    // ♿ Slot-level reduced motion policy ("inherit" resolves to undefined)
+    const reducedMotion = resolveReducedMotionPolicy(
+        propertyControlsSlot.reducedMotion
+    )
+
+    // ⏩ Slot-level playback speed (invalid or non-positive values play at normal speed)
+    const timeScale =
+        typeof propertyControlsSlot.timeScale === "number" &&
+        Number.isFinite(propertyControlsSlot.timeScale) &&
+        propertyControlsSlot.timeScale > 0
+            ? propertyControlsSlot.timeScale
+            : 1
+
+    // 📡 Event bus messages emitted by this slot
+    const emitEvents = convertEmitEvents(propertyControlsSlot.emitEvents)
+
+    // 📱 Per-viewport overrides (resolved against the viewport at execution time)
+    const breakpoints = convertSlotBreakpoints(propertyControlsSlot.breakpoints)
+
     // Build internal AnimationSlot
     const internalSlot: AnimationSlot = {
         id: slotId,
+
+        // 🏷️ Authored ID, so other slots and code can reference this slot
+        ...(typeof propertyControlsSlot.id === "string" &&
+            propertyControlsSlot.id.trim() && {
+                name: propertyControlsSlot.id.trim(),
+            }),
         triggers: triggers,
         animatedElements: animatedElements,
         animationMode: detectedMode,
@@ -1099,6 +1668,33 @@ export function toInternalFormat(
             propertyControlsSlot.interruptBehavior ||
             InterruptBehavior.IMMEDIATE,
 
+        // ♿ Reduced motion policy (undefined = inherit component default)
+        ...(reducedMotion && { reducedMotion }),
+
+        // ⏩ Playback speed (only stored when it differs from normal speed)
+        ...(timeScale !== 1 && { timeScale }),
+
+        // 👁️ Off-screen suspension (only stored when opted out)
+        ...(propertyControlsSlot.pauseWhenOffscreen === false && {
+            pauseWhenOffscreen: false,
+        }),
+
+        // 🧊 Compositor backend (only stored when opted in)
+        ...(propertyControlsSlot.useCompositor === true && {
+            useCompositor: true,
+        }),
+
+        // 🔭 Live elements (only stored when opted in)
+        ...(propertyControlsSlot.observeDomChanges === true && {
+            observeDomChanges: true,
+        }),
+
+        // 📡 Event bus messages (only stored when configured)
+        ...(emitEvents.length > 0 && { emitEvents }),
+
+        // 📱 Breakpoint overrides (only stored when configured)
+        ...(breakpoints.length > 0 && { breakpoints }),
+
         // 🔧 Timeline coordination metadata
         totalTimelineDuration: totalDuration,
 
@@ -1135,11 +1731,13 @@ export function fromInternalFormat(
  * Batch convert multiple slots from property controls to internal format
  *
  * @param propertyControlsSlots - Array of raw property controls slots
+ * @param defaultReducedMotion - Component-wide reduced motion policy for slots that inherit
  * @returns Array of converted internal AnimationSlots
  * @throws Error if any conversion fails
  */
 export function convertSlotArray(
-    propertyControlsSlots: any[]
+    propertyControlsSlots: any[],
+    defaultReducedMotion?: ReducedMotionPolicy
 ): AnimationSlot[] {
     if (!Array.isArray(propertyControlsSlots)) {
         throw new Error("propertyControlsSlots must be an array")
@@ -1147,7 +1745,14 @@ export function convertSlotArray(
 
     return propertyControlsSlots.map((slot, index) => {
         try {
-            return toInternalFormat(slot)
+            const internalSlot = toInternalFormat(slot)
+
+            // ♿ Slots without their own policy inherit the component default
+            if (!internalSlot.reducedMotion && defaultReducedMotion) {
+                internalSlot.reducedMotion = defaultReducedMotion
+            }
+
+            return internalSlot
         } catch (error) {
             console.error(
                 `🔄 [AnimationSlotAdapter] Failed to convert slot ${index}:`,
@@ -1413,6 +2018,76 @@ export function validateInternalSlot(slot: AnimationSlot): boolean {
 //          HELPER FUNCTIONS
 //=======================================
 
+/**
+ * Resolve the easing of a timing config
+ * A non-empty customEasing (CSS easing string) wins over the easing enum
+ *
+ * @param config Global timeline or property configuration
+ * @returns Easing string, or undefined when neither is set
+ */
+function resolveEasingSetting(config: any): string | undefined {
+    const customEasing =
+        typeof config?.customEasing === "string"
+            ? config.customEasing.trim()
+            : ""
+    return customEasing || config?.easing
+}
+
+/**
+ * 🎞️ Convert keyframe track controls to internal keyframes
+ * Stops without a value are dropped; offsets are percentages of the property duration.
+ *
+ * @param keyframes Keyframe controls
+ * @returns Keyframes sorted by offset
+ */
+function convertKeyframeTrack(keyframes: any): AnimationKeyframe[] {
+    if (!Array.isArray(keyframes)) return []
+
+    return keyframes
+        .filter(
+            (stop: any) =>
+                typeof stop?.value === "string" && stop.value.trim() !== ""
+        )
+        .map((stop: any) => {
+            const offset =
+                typeof stop.offset === "number" && Number.isFinite(stop.offset)
+                    ? Math.min(Math.max(stop.offset, 0), 100) / 100
+                    : 0
+            const easing =
+                typeof stop.easing === "string" ? stop.easing.trim() : ""
+            return {
+                offset,
+                value: stop.value.trim(),
+                ...(easing && { easing }),
+            }
+        })
+        .sort((a: AnimationKeyframe, b: AnimationKeyframe) => a.offset - b.offset)
+}
+
+/**
+ * 🏷️ Convert label controls to timeline labels
+ * Labels without a name are dropped; a missing time means the start of the timeline.
+ *
+ * @param labels Label controls
+ * @returns Timeline labels
+ */
+function convertTimelineLabels(labels: any): TimelineLabel[] {
+    if (!Array.isArray(labels)) return []
+
+    return labels
+        .filter(
+            (label: any) =>
+                typeof label?.name === "string" && label.name.trim() !== ""
+        )
+        .map((label: any) => ({
+            name: label.name.trim(),
+            time:
+                typeof label.time === "number" && Number.isFinite(label.time)
+                    ? Math.max(0, label.time)
+                    : 0,
+        }))
+}
+
 /**
  * 🌐 PHASE 4.3: Merge global timeline settings with property-specific settings
  * Simplified approach: property controls decide independently whether to use global settings
@@ -1438,12 +2113,12 @@ function mergeGlobalTimelineSettings(
     if (wantsGlobalSettings && hasGlobalSettings) {
         // Use global timeline settings
         finalDuration = globalConfig.duration || 0.6
-        finalEasing = globalConfig.easing || "ease"
+        finalEasing = resolveEasingSetting(globalConfig) || "ease"
         finalSpringConfig = globalConfig.springConfig
     } else {
         // Use property-specific settings (or defaults if global timeline is disabled)
         finalDuration = propertyConfig.duration || 0.6
-        finalEasing = propertyConfig.easing || "ease"
+        finalEasing = resolveEasingSetting(propertyConfig) || "ease"
         finalSpringConfig = propertyConfig.springConfig
     }
 
@@ -1609,15 +2284,31 @@ function processNewPropertyConfigurationArray(
                   ? propertyConfig.to
                   : "100"
 
+            // 🎞️ Keyframe track: from/to mirror its first and last stop
+            // Distributed values replace from/to per element, so they take precedence over a track
+            const keyframes =
+                propertyConfig.useKeyframes === true && !isDistributedEnabled
+                    ? convertKeyframeTrack(propertyConfig.keyframes)
+                    : []
+            if (propertyConfig.useKeyframes === true && keyframes.length < 2) {
+                console.warn(
+                    `🎞️ [NEW APPROACH] "${propertyName}" keyframes need at least two stops and no distributed values, using from/to`
+                )
+            }
+            const hasKeyframeTrack = keyframes.length >= 2
+
             // Create AnimationProperty with properly merged settings
             const animationProperty: AnimationProperty = {
                 property: propertyName,
-                from: fromValue,
-                to: toValue,
+                from: hasKeyframeTrack ? keyframes[0].value : fromValue,
+                to: hasKeyframeTrack ? keyframes[keyframes.length - 1].value : toValue,
+                ...(hasKeyframeTrack && { keyframes }),
                 duration: mergedSettings.duration,
                 delay: mergedSettings.delay,
                 easing: mergedSettings.easing,
                 springConfig: mergedSettings.springConfig,
+                colorSpace: resolveColorInterpolationSpace(propertyConfig.colorSpace),
+                hueInterpolation: resolveHueInterpolationMethod(propertyConfig.hueInterpolation),
                 instanceId: `${propertyName}_${index}`, // Use index for unique instances
 
                 // 📊 FEATURE 3A: Add distributed property configurations if present
@@ -1640,14 +2331,15 @@ function processNewPropertyConfigurationArray(
                   enabled: true,
                   duration: globalTimelineConfig?.duration,
                   delay: globalTimelineConfig?.delay,
-                  easing: globalTimelineConfig?.easing,
+                  easing: resolveEasingSetting(globalTimelineConfig),
                   springConfig: globalTimelineConfig?.springConfig,
               }
             : undefined
 
     const masterTimeline = builder.buildMasterTimeline(
         animationProperties,
-        globalSettings
+        globalSettings,
+        convertTimelineLabels(propertyControlsSlot.timelineLabels)
     )
 
     console.log(
@@ -1742,6 +2434,8 @@ function processLegacyActiveProperties(
             delay: mergedSettings.delay,
             easing: mergedSettings.easing,
             springConfig: mergedSettings.springConfig,
+            colorSpace: resolveColorInterpolationSpace(propertyConfig.colorSpace),
+            hueInterpolation: resolveHueInterpolationMethod(propertyConfig.hueInterpolation),
             instanceId: controlId,
 
             // 📊 FEATURE 3A: Add distributed property configurations if present
@@ -1765,14 +2459,15 @@ function processLegacyActiveProperties(
                   enabled: true,
                   duration: globalTimelineConfig?.duration,
                   delay: globalTimelineConfig?.delay,
-                  easing: globalTimelineConfig?.easing,
+                  easing: resolveEasingSetting(globalTimelineConfig),
                   springConfig: globalTimelineConfig?.springConfig,
               }
             : undefined
 
     const masterTimeline = builder.buildMasterTimeline(
         animationProperties,
-        globalSettings
+        globalSettings,
+        convertTimelineLabels(propertyControlsSlot.timelineLabels)
     )
 
     console.log(
@@ -1854,12 +2549,15 @@ function extractAnimationProperties(/* TODO: Add parameters */): AnimationProper
  */
 function convertToElementSelection(
     scope: ElementScope,
-    criteria?: SelectionCriteria[],
+    filters?: ConvertedSelectionFilters,
     depth?: ScopeDepth
 ): ElementSelection {
+    const criteria = filters?.criteria
     return {
         scope,
         criteria: criteria && criteria.length > 0 ? criteria : undefined,
+        ...(filters?.criteriaGroups && { criteriaGroups: filters.criteriaGroups }),
+        ...(filters?.mode && { mode: filters.mode }),
         depth: depth || ScopeDepth.DIRECT, // Default to DIRECT for backward compatibility
     }
 }
@@ -0,0 +1,67 @@
+/**
+ * FAME Animation System - Breakpoint Adapter
+ *
+ * @fileOverview Converts breakpoint range controls into ViewportRange bounds
+ * @version 2.0.0-clean
+ * @status ACTIVE - Shared by AnimationSlotAdapter and StyleSlotAdapter
+ *
+ * @description
+ * Breakpoint overrides in property controls pick a Framer breakpoint preset (Phone,
+ * Tablet, Desktop) or a custom range where 0 leaves a bound open. This adapter turns
+ * them into the pixel bounds of ViewportRange. The override values themselves are
+ * converted by the slot adapters.
+ *
+ * @data_flow
+ * Framer breakpoint controls → BreakpointAdapter → ViewportRange → SlotVariantResolver
+ */
+
+import { ViewportRange } from "../../types/index.ts"
+
+/**
+ * Framer's default breakpoint widths (Phone < 810px ≤ Tablet < 1200px ≤ Desktop)
+ */
+export const BREAKPOINT_PRESET_RANGES: Record<string, ViewportRange> = {
+    phone: { maxWidth: 809 },
+    tablet: { minWidth: 810, maxWidth: 1199 },
+    desktop: { minWidth: 1200 },
+}
+
+/**
+ * Convert the range fields of a breakpoint override control
+ *
+ * @param override - Raw override with range ("phone" | "tablet" | "desktop" | "custom"), minWidth, maxWidth
+ * @returns Width bounds, or null for an empty custom range or an unknown preset
+ */
+export function convertBreakpointRange(override: any): ViewportRange | null {
+    const range = override?.range || "custom"
+
+    if (range !== "custom") {
+        const preset = BREAKPOINT_PRESET_RANGES[range]
+        if (!preset) {
+            console.warn(`📱 [BreakpointAdapter] Unknown breakpoint "${range}", skipping override`)
+            return null
+        }
+        return { ...preset }
+    }
+
+    const minWidth = toBound(override.minWidth)
+    const maxWidth = toBound(override.maxWidth)
+    if (minWidth === undefined && maxWidth === undefined) {
+        console.warn(`📱 [BreakpointAdapter] Custom breakpoint without min or max width, skipping override`)
+        return null
+    }
+
+    return {
+        ...(minWidth !== undefined && { minWidth }),
+        ...(maxWidth !== undefined && { maxWidth }),
+    }
+}
+
+/**
+ * Positive pixel widths are bounds, 0 and invalid values leave the bound open
+ */
+function toBound(value: unknown): number | undefined {
+    return typeof value === "number" && Number.isFinite(value) && value > 0
+        ? Math.round(value)
+        : undefined
+}
@@ -0,0 +1,109 @@
+/**
+ * FAME Animation System - Element Selection Adapter
+ *
+ * @fileOverview Converts element selection filter controls into ElementSelection criteria
+ * @version 2.0.0-clean
+ * @status ACTIVE - Shared by AnimationSlotAdapter and StyleSlotAdapter
+ *
+ * @description
+ * Element selections in property controls carry two filter formats:
+ * - Legacy fixed fields (criteriaType1..3 / criteriaValue1..3), always AND-ed
+ * - The filter list (`filters`) with include/exclude and a group number, plus `pick`
+ *
+ * Legacy fields and group 1 filters form `criteria`. Every higher group becomes an
+ * entry of `criteriaGroups` (ordered by group number), which ElementFinder OR-s with
+ * `criteria`. `pick` becomes the selection `mode` when it narrows the matches.
+ *
+ * @data_flow
+ * Framer element selection controls → ElementSelectionAdapter → ElementSelection filter fields
+ */
+
+import {
+    CriteriaType,
+    SelectionCriteria,
+    SelectionMode,
+} from "../../types/index.ts"
+
+/**
+ * Filter fields of an ElementSelection produced from property controls
+ */
+export interface ConvertedSelectionFilters {
+    criteria: SelectionCriteria[]
+    criteriaGroups?: SelectionCriteria[][]
+    mode?: SelectionMode
+}
+
+/**
+ * Convert legacy fixed criteria fields (criteriaType1, criteriaValue1, etc.)
+ */
+function convertLegacyCriteria(element: any): SelectionCriteria[] {
+    const criteria: SelectionCriteria[] = []
+
+    for (let i = 1; i <= 3; i++) {
+        const criteriaType = element[`criteriaType${i}`]
+        const criteriaValue = element[`criteriaValue${i}`]
+
+        // Only add if type is not "none" and value is provided
+        if (
+            criteriaType &&
+            criteriaType !== "none" &&
+            typeof criteriaValue === "string" &&
+            criteriaValue.trim() !== ""
+        ) {
+            criteria.push({
+                type: criteriaType as CriteriaType,
+                value: criteriaValue.trim(),
+            })
+        }
+    }
+
+    return criteria
+}
+
+/**
+ * Convert the filters and pick controls of an element selection
+ *
+ * @param element - Element selection object from property controls
+ * @returns Criteria, OR groups and selection mode for the ElementSelection
+ */
+export function convertSelectionFilters(element: any): ConvertedSelectionFilters {
+    const criteria = convertLegacyCriteria(element || {})
+    const groups = new Map<number, SelectionCriteria[]>()
+
+    const filters = Array.isArray(element?.filters) ? element.filters : []
+    filters.forEach((filter: any) => {
+        const value = typeof filter?.value === "string" ? filter.value.trim() : ""
+        if (!filter?.type || value === "") {
+            return
+        }
+
+        const criterion: SelectionCriteria = {
+            type: filter.type as CriteriaType,
+            value,
+            ...(filter.exclude && { negate: true }),
+        }
+
+        const group = Math.max(1, Math.round(Number(filter.group) || 1))
+        if (group === 1) {
+            criteria.push(criterion)
+            return
+        }
+
+        if (!groups.has(group)) {
+            groups.set(group, [])
+        }
+        groups.get(group)!.push(criterion)
+    })
+
+    const criteriaGroups = Array.from(groups.keys())
+        .sort((a, b) => a - b)
+        .map((group) => groups.get(group)!)
+
+    const mode = element?.pick as SelectionMode | undefined
+
+    return {
+        criteria,
+        ...(criteriaGroups.length > 0 && { criteriaGroups }),
+        ...(mode && mode !== SelectionMode.ALL && { mode }),
+    }
+}
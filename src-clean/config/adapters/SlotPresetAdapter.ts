@@ -0,0 +1,158 @@
+/**
+ * FAME Animation System - Slot Preset Adapter
+ *
+ * @fileOverview Converts between slot property controls data and portable SlotPreset JSON
+ * @version 1.0.0
+ * @status ACTIVE - Used by FAME for the "Preset" control and FAMEHandle.exportPreset()
+ *
+ * @description
+ * Presets let a library of house animations move between Framer projects as a JSON string
+ * instead of being re-clicked control by control. A preset holds slots in property controls
+ * format, so imported slots go through AnimationSlotAdapter and StyleSlotAdapter like any
+ * slot edited in the panel.
+ *
+ * Import runs three steps and stops at the first that fails:
+ * 1. Parse the JSON
+ * 2. Migrate it to the current schema version (PresetMigrations)
+ * 3. Validate it against the property controls (PresetSchema)
+ *
+ * @data_flow
+ * Export: Framer property controls → exportSlotPreset → SlotPreset JSON
+ * Import: SlotPreset JSON → importSlotPreset → applySlotPreset → slot adapters
+ *
+ * @example
+ * ```typescript
+ * const json = getFAME("hero").exportPreset("Hero intro")
+ * const result = importSlotPreset(json)
+ * if (!result.isValid) result.errors.forEach((error) => console.error(error.message))
+ * ```
+ */
+
+import {
+    PresetErrorCode,
+    PresetImportMode,
+    PresetImportResult,
+    SlotPreset,
+} from "../../types/index.ts"
+import {
+    CURRENT_PRESET_VERSION,
+    SLOT_PRESET_FORMAT,
+    migratePreset,
+} from "../presets/PresetMigrations.ts"
+import { validatePreset } from "../presets/PresetSchema.ts"
+
+/**
+ * Serialize slots to SlotPreset JSON
+ *
+ * @param animationSlots - Raw animation slots from property controls
+ * @param styleSlots - Raw style slots from property controls
+ * @param presetName - Optional name stored in the preset
+ * @returns Pretty-printed JSON of a current-version preset
+ */
+export function exportSlotPreset(
+    animationSlots: any[],
+    styleSlots: any[],
+    presetName?: string
+): string {
+    const name = presetName?.trim()
+    const preset: SlotPreset = {
+        format: SLOT_PRESET_FORMAT,
+        version: CURRENT_PRESET_VERSION,
+        ...(name && { name }),
+        animationSlots: Array.isArray(animationSlots) ? animationSlots : [],
+        styleSlots: Array.isArray(styleSlots) ? styleSlots : [],
+    }
+
+    return JSON.stringify(preset, null, 2)
+}
+
+/**
+ * Parse, migrate and validate SlotPreset JSON
+ *
+ * @param json - Preset JSON as pasted into the Preset control
+ * @returns Import result; `preset` is set only when the JSON is a valid preset.
+ *          Empty input is valid and yields no preset.
+ */
+export function importSlotPreset(json: string | undefined): PresetImportResult {
+    if (typeof json !== "string" || json.trim() === "") {
+        return { isValid: true, errors: [], preset: null }
+    }
+
+    let raw: unknown
+    try {
+        raw = JSON.parse(json)
+    } catch (error) {
+        return {
+            isValid: false,
+            errors: [
+                {
+                    code: PresetErrorCode.INVALID_JSON,
+                    message: `Preset is not valid JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
+                    context: { path: "" },
+                },
+            ],
+            preset: null,
+        }
+    }
+
+    const migration = migratePreset(raw)
+    if (!migration.preset) {
+        return { isValid: false, errors: migration.errors, preset: null }
+    }
+
+    const validation = validatePreset(migration.preset)
+    return {
+        ...validation,
+        preset: validation.isValid ? migration.preset : null,
+        ...(migration.migratedFrom !== undefined && {
+            migratedFrom: migration.migratedFrom,
+        }),
+    }
+}
+
+/**
+ * Combine the slots from property controls with an imported preset
+ *
+ * @param animationSlots - Raw animation slots from property controls
+ * @param styleSlots - Raw style slots from property controls
+ * @param preset - Imported preset, or null to keep the property controls slots
+ * @param mode - Whether preset slots are added after or replace the property controls slots
+ * @returns Raw slots to convert
+ */
+export function applySlotPreset(
+    animationSlots: any[],
+    styleSlots: any[],
+    preset: SlotPreset | null,
+    mode: PresetImportMode = PresetImportMode.APPEND
+): { animationSlots: any[]; styleSlots: any[] } {
+    if (!preset) {
+        return { animationSlots, styleSlots }
+    }
+
+    if (mode === PresetImportMode.REPLACE) {
+        return {
+            animationSlots: preset.animationSlots,
+            styleSlots: preset.styleSlots,
+        }
+    }
+
+    // Slots reference each other by Animation ID, so a clash changes which slot is meant
+    const controlIds = new Set(
+        animationSlots
+            .map((slot) => (typeof slot?.id === "string" ? slot.id.trim() : ""))
+            .filter(Boolean)
+    )
+    preset.animationSlots.forEach((slot) => {
+        const id = typeof slot?.id === "string" ? slot.id.trim() : ""
+        if (id && controlIds.has(id)) {
+            console.warn(
+                `📦 [SlotPresetAdapter] Preset slot "${id}" has the same Animation ID as a slot in the panel`
+            )
+        }
+    })
+
+    return {
+        animationSlots: [...animationSlots, ...preset.animationSlots],
+        styleSlots: [...styleSlots, ...preset.styleSlots],
+    }
+}
@@ -28,13 +28,14 @@ import {
     StyleValidationError,
     AnimatedElement,
     ElementSelection,
-    SelectionCriteria,
     ElementScope,
-    CriteriaType,
-    ScopeDepth
+    ScopeDepth,
+    StyleSlotBreakpointOverride
 } from "../../types/index.ts";
 
 import { validateCSSProperty } from "../properties/PropertyRegistry.ts";
+import { convertSelectionFilters } from "./ElementSelectionAdapter.ts";
+import { convertBreakpointRange } from "./BreakpointAdapter.ts";
 
 /**
  * Convert from style property controls format to internal StyleSlot format
@@ -63,15 +64,52 @@ export function toInternalFormat(propertyControlsSlot: any): StyleSlot {
         });
     }
 
+    // Per-viewport overrides (resolved against the viewport when styles are applied)
+    const breakpoints = convertStyleBreakpoints(propertyControlsSlot.breakpoints, name);
+
     return {
         id,
         name,
         targetElements,
         styleProperties,
-        validationErrors: validationErrors.length > 0 ? validationErrors : undefined
+        validationErrors: validationErrors.length > 0 ? validationErrors : undefined,
+        ...(breakpoints.length > 0 && { breakpoints })
     };
 }
 
+/**
+ * Convert breakpoint overrides from property controls
+ * Each override lists { property, value } pairs, validated like the slot's own properties
+ */
+function convertStyleBreakpoints(breakpointsData: any[] | undefined, slotName: string): StyleSlotBreakpointOverride[] {
+    if (!Array.isArray(breakpointsData)) return [];
+
+    return breakpointsData.flatMap((breakpointData): StyleSlotBreakpointOverride[] => {
+        const range = convertBreakpointRange(breakpointData);
+        if (!range) return [];
+
+        if (breakpointData.disabled === true) {
+            return [{ ...range, disabled: true }];
+        }
+
+        // Reuse the slot property conversion through its name → { value } lookup shape
+        const styles: any[] = Array.isArray(breakpointData.styles) ? breakpointData.styles : [];
+        const propertyData: Record<string, { value: string }> = {};
+        styles.forEach(style => {
+            if (style?.property) {
+                propertyData[style.property] = { value: style.value };
+            }
+        });
+
+        const { styleProperties, validationErrors } = convertStyleProperties(Object.keys(propertyData), propertyData);
+        validationErrors.forEach(error => {
+            console.warn(`🎨 [StyleSlot] Invalid CSS in breakpoint override of "${slotName}": ${error.property}="${error.value}" - ${error.error}`);
+        });
+
+        return styleProperties.length > 0 ? [{ ...range, styleProperties }] : [];
+    });
+}
+
 /**
  * Convert target elements from property controls format to AnimatedElement array
  */
@@ -89,34 +127,11 @@ function convertTargetElements(targetElementsData: any[]): AnimatedElement[] {
     return targetElementsData.map(targetData => {
         const scope = targetData.scope || ElementScope.SELF;
         const depth = targetData.depth || ScopeDepth.DIRECT; // Default to DIRECT for backward compatibility
-        const criteria: SelectionCriteria[] = [];
-
-        // Build criteria array from individual criteria fields
-        if (targetData.criteriaType1 && targetData.criteriaType1 !== "none" && targetData.criteriaValue1) {
-            criteria.push({
-                type: targetData.criteriaType1 as CriteriaType,
-                value: targetData.criteriaValue1
-            });
-        }
-
-        if (targetData.criteriaType2 && targetData.criteriaType2 !== "none" && targetData.criteriaValue2) {
-            criteria.push({
-                type: targetData.criteriaType2 as CriteriaType,
-                value: targetData.criteriaValue2
-            });
-        }
-
-        if (targetData.criteriaType3 && targetData.criteriaType3 !== "none" && targetData.criteriaValue3) {
-            criteria.push({
-                type: targetData.criteriaType3 as CriteriaType,
-                value: targetData.criteriaValue3
-            });
-        }
 
         return {
             selection: {
                 scope,
-                criteria,
+                ...convertSelectionFilters(targetData),
                 depth
             }
         };
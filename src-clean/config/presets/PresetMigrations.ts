@@ -0,0 +1,172 @@
+/**
+ * FAME Animation System - Preset Migrations
+ *
+ * @fileOverview Brings SlotPreset JSON from any known schema version to the current one
+ * @version 1.0.0
+ * @status ACTIVE - Used by SlotPresetAdapter before validation
+ *
+ * @description
+ * Every preset carries the schema `version` it was exported with. On import, the migration
+ * registered for that version runs, then the one for the next version, and so on until the
+ * preset reaches CURRENT_PRESET_VERSION. Validation only ever sees current-version presets.
+ *
+ * Known versions:
+ * - 0: unversioned JSON - a bare `animationSlots` array, or an object holding
+ *      `animationSlots` / `styleSlots` without `format` and `version`
+ * - 1: `{ format: "fame-slot-preset", version: 1, name?, animationSlots, styleSlots }`
+ *
+ * @adding_a_version
+ * 1. Bump CURRENT_PRESET_VERSION
+ * 2. Register a migration keyed by the previous version that returns the new shape
+ * 3. Update PresetSchema validation for the new shape
+ *
+ * @data_flow
+ * Parsed JSON → migratePreset → current-version SlotPreset → PresetSchema validation
+ */
+
+import { FAMEError, PresetErrorCode, SlotPreset } from "../../types/index.ts"
+
+/**
+ * Identifies JSON as a FAME slot preset
+ */
+export const SLOT_PRESET_FORMAT = "fame-slot-preset"
+
+/**
+ * Schema version written by exports
+ */
+export const CURRENT_PRESET_VERSION = 1
+
+/**
+ * Migration from one schema version to the next
+ * Receives the preset as parsed JSON and returns it in the next version's shape
+ */
+type PresetMigration = (preset: any) => any
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+const PRESET_MIGRATIONS: Record<number, PresetMigration> = {
+    // 0 → 1: wrap unversioned slot data
+    0: (preset) => {
+        const slots = Array.isArray(preset) ? { animationSlots: preset } : preset
+        return {
+            format: SLOT_PRESET_FORMAT,
+            version: 1,
+            ...(typeof slots.name === "string" && { name: slots.name }),
+            animationSlots: slots.animationSlots ?? [],
+            styleSlots: slots.styleSlots ?? [],
+        }
+    },
+}
+
+/**
+ * Result of migrating parsed preset JSON
+ */
+export interface PresetMigrationResult {
+    preset: SlotPreset | null
+    migratedFrom?: number
+    errors: FAMEError[]
+}
+
+/**
+ * Detect the schema version of parsed preset JSON
+ *
+ * @param raw - Parsed JSON
+ * @returns Schema version, or null when the JSON is not a preset at all
+ */
+export function detectPresetVersion(raw: unknown): number | null {
+    if (Array.isArray(raw)) {
+        return 0
+    }
+    if (!raw || typeof raw !== "object") {
+        return null
+    }
+
+    const preset = raw as Record<string, unknown>
+    if (preset.format === undefined && preset.version === undefined) {
+        return "animationSlots" in preset || "styleSlots" in preset ? 0 : null
+    }
+    if (preset.format !== SLOT_PRESET_FORMAT) {
+        return null
+    }
+    return typeof preset.version === "number" ? preset.version : null
+}
+
+/**
+ * Migrate parsed preset JSON to the current schema version
+ *
+ * @param raw - Parsed JSON of any known version
+ * @returns The preset in the current version's shape, or errors when it cannot be migrated
+ */
+export function migratePreset(raw: unknown): PresetMigrationResult {
+    const version = detectPresetVersion(raw)
+
+    if (version === null && (raw as any)?.format === SLOT_PRESET_FORMAT) {
+        return {
+            preset: null,
+            errors: [
+                {
+                    code: PresetErrorCode.INVALID_TYPE,
+                    message: `version: expected a number, got ${JSON.stringify((raw as any).version) ?? "nothing"}`,
+                    context: { path: "version", value: (raw as any).version },
+                },
+            ],
+        }
+    }
+
+    if (version === null) {
+        return {
+            preset: null,
+            errors: [
+                {
+                    code: PresetErrorCode.INVALID_FORMAT,
+                    message: `Not a FAME preset: expected an object with format "${SLOT_PRESET_FORMAT}" and a numeric version`,
+                    context: { path: "" },
+                },
+            ],
+        }
+    }
+
+    if (!Number.isInteger(version) || version < 0 || version > CURRENT_PRESET_VERSION) {
+        return {
+            preset: null,
+            errors: [
+                {
+                    code: PresetErrorCode.UNSUPPORTED_VERSION,
+                    message: `version: preset version ${version} is not supported (this FAME reads versions 0-${CURRENT_PRESET_VERSION}, update FAME to import newer presets)`,
+                    context: { path: "version", value: version, supported: CURRENT_PRESET_VERSION },
+                },
+            ],
+        }
+    }
+
+    let preset: any = raw
+    for (let from = version; from < CURRENT_PRESET_VERSION; from++) {
+        try {
+            preset = PRESET_MIGRATIONS[from](preset)
+        } catch (error) {
+            return {
+                preset: null,
+                errors: [
+                    {
+                        code: PresetErrorCode.MIGRATION_FAILED,
+                        message: `Migrating preset from version ${from} to ${from + 1} failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+                        context: { path: "", from, to: from + 1 },
+                    },
+                ],
+            }
+        }
+    }
+
+    if (version < CURRENT_PRESET_VERSION) {
+        console.log(
+            `📦 [PresetMigrations] Migrated preset from version ${version} to ${CURRENT_PRESET_VERSION}`
+        )
+    }
+
+    return {
+        preset: preset as SlotPreset,
+        ...(version < CURRENT_PRESET_VERSION && { migratedFrom: version }),
+        errors: [],
+    }
+}
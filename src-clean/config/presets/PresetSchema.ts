@@ -0,0 +1,249 @@
+/**
+ * FAME Animation System - Preset Schema
+ *
+ * @fileOverview Validates current-version SlotPreset JSON against FAME's property controls
+ * @version 1.0.0
+ * @status ACTIVE - Used by SlotPresetAdapter after migration
+ *
+ * @description
+ * Preset slots are property controls data, so the property controls themselves are the
+ * schema: each slot is checked against the control definitions of CreateAnimationSlotsObject
+ * and CreateStyleSlotsObject. Whatever the panel cannot produce is reported with the path of
+ * the offending value:
+ *
+ * - Wrong value types (a string where a Number control expects a number)
+ * - Enum values outside the control's options (easing enums also take the CSS easing the
+ *   adapters resolve, such as the legacy "ease" default or cubic-bezier())
+ * - Numbers outside a control's min/max
+ * - Arrays longer than a control's maxCount
+ *
+ * Missing fields are fine - the adapters fall back to the control defaults, exactly as for
+ * slots edited in Framer. Fields no control defines (legacy or foreign data) are reported as
+ * warnings; the adapters read the legacy ones they still support.
+ *
+ * @data_flow
+ * migratePreset → validatePreset → SlotPresetAdapter
+ */
+
+import { ControlType } from "framer"
+
+import {
+    FAMEError,
+    PresetErrorCode,
+    SlotPreset,
+    ValidationResult,
+} from "../../types/index.ts"
+import { CreateAnimationSlotsObject } from "../propertyControls/AnimationSlots.ts"
+import { CreateStyleSlotsObject } from "../propertyControls/StyleSlots.ts"
+import { EASING_OPTIONS } from "../../utils/easings/EasingFunctions.ts"
+import { isCssEasing } from "../../utils/easings/CssEasing.ts"
+import { CURRENT_PRESET_VERSION, SLOT_PRESET_FORMAT } from "./PresetMigrations.ts"
+
+/**
+ * Top-level preset fields
+ */
+const PRESET_FIELDS = ["format", "version", "name", "animationSlots", "styleSlots"]
+
+/**
+ * Enum options listed in an error message before it is cut short
+ */
+const MAX_LISTED_OPTIONS = 12
+
+/**
+ * Errors and warnings collected while walking a preset
+ */
+interface SchemaValidationState {
+    errors: FAMEError[]
+    warnings: string[]
+}
+
+// Built on first validation - the slot controls are large and rarely needed
+let slotArrayControls: { animationSlots: any; styleSlots: any } | null = null
+
+function getSlotArrayControls(): { animationSlots: any; styleSlots: any } {
+    if (!slotArrayControls) {
+        slotArrayControls = {
+            animationSlots: CreateAnimationSlotsObject().animationSlots,
+            styleSlots: CreateStyleSlotsObject().styleSlots,
+        }
+    }
+    return slotArrayControls
+}
+
+/**
+ * Validate a preset that has been migrated to the current schema version
+ *
+ * @param preset - Preset in the current version's shape
+ * @returns Validation result; error contexts carry the `path` of the offending value
+ */
+export function validatePreset(preset: SlotPreset): ValidationResult {
+    const state: SchemaValidationState = { errors: [], warnings: [] }
+
+    if (preset.format !== SLOT_PRESET_FORMAT) {
+        addError(state, PresetErrorCode.INVALID_FORMAT, "format", `expected "${SLOT_PRESET_FORMAT}", got ${describeValue(preset.format)}`)
+    }
+    if (preset.version !== CURRENT_PRESET_VERSION) {
+        addError(state, PresetErrorCode.UNSUPPORTED_VERSION, "version", `expected ${CURRENT_PRESET_VERSION}, got ${describeValue(preset.version)}`)
+    }
+    if (preset.name !== undefined && typeof preset.name !== "string") {
+        addError(state, PresetErrorCode.INVALID_TYPE, "name", `expected text, got ${describeValue(preset.name)}`)
+    }
+
+    Object.keys(preset).forEach((key) => {
+        if (!PRESET_FIELDS.includes(key)) {
+            state.warnings.push(`${key}: not a preset field, ignored`)
+        }
+    })
+
+    const controls = getSlotArrayControls()
+    validateControlValue(preset.animationSlots, controls.animationSlots, "animationSlots", state)
+    validateControlValue(preset.styleSlots, controls.styleSlots, "styleSlots", state)
+
+    const slotCount =
+        (Array.isArray(preset.animationSlots) ? preset.animationSlots.length : 0) +
+        (Array.isArray(preset.styleSlots) ? preset.styleSlots.length : 0)
+    if (state.errors.length === 0 && slotCount === 0) {
+        state.warnings.push("Preset contains no slots")
+    }
+
+    return {
+        isValid: state.errors.length === 0,
+        errors: state.errors,
+        ...(state.warnings.length > 0 && { warnings: state.warnings }),
+    }
+}
+
+/**
+ * Check a value against the property control that produces it
+ * Null and missing values are left to the control default.
+ */
+function validateControlValue(
+    value: unknown,
+    control: any,
+    path: string,
+    state: SchemaValidationState
+): void {
+    if (value === undefined || value === null || !control) {
+        return
+    }
+
+    switch (control.type) {
+        case ControlType.Boolean:
+            if (typeof value !== "boolean") {
+                addError(state, PresetErrorCode.INVALID_TYPE, path, `expected true or false, got ${describeValue(value)}`)
+            }
+            return
+
+        case ControlType.Number:
+            if (typeof value !== "number" || !Number.isFinite(value)) {
+                addError(state, PresetErrorCode.INVALID_TYPE, path, `expected a number, got ${describeValue(value)}`)
+                return
+            }
+            if (
+                (typeof control.min === "number" && value < control.min) ||
+                (typeof control.max === "number" && value > control.max)
+            ) {
+                addError(state, PresetErrorCode.OUT_OF_RANGE, path, `${value} is outside ${control.min ?? "-∞"} to ${control.max ?? "∞"}`, {
+                    value,
+                    min: control.min,
+                    max: control.max,
+                })
+            }
+            return
+
+        case ControlType.String:
+        case ControlType.Color:
+            if (typeof value !== "string") {
+                addError(state, PresetErrorCode.INVALID_TYPE, path, `expected text, got ${describeValue(value)}`)
+            }
+            return
+
+        case ControlType.Enum: {
+            const options: unknown[] = Array.isArray(control.options) ? control.options : []
+            if (!options.includes(value as any) && !isSupportedEasing(control, value)) {
+                const listed = options.slice(0, MAX_LISTED_OPTIONS).map(String).join(", ")
+                const more = options.length > MAX_LISTED_OPTIONS ? `, … (${options.length} options)` : ""
+                addError(state, PresetErrorCode.INVALID_OPTION, path, `${describeValue(value)} is not one of ${listed}${more}`, {
+                    value,
+                    options,
+                })
+            }
+            return
+        }
+
+        case ControlType.Array: {
+            if (!Array.isArray(value)) {
+                addError(state, PresetErrorCode.INVALID_TYPE, path, `expected a list, got ${describeValue(value)}`)
+                return
+            }
+            if (typeof control.maxCount === "number" && value.length > control.maxCount) {
+                addError(state, PresetErrorCode.TOO_MANY_ITEMS, path, `${value.length} items, at most ${control.maxCount} allowed`, {
+                    count: value.length,
+                    maxCount: control.maxCount,
+                })
+            }
+            const itemControl = control.control ?? control.propertyControl
+            value.forEach((item, index) => validateControlValue(item, itemControl, `${path}[${index}]`, state))
+            return
+        }
+
+        case ControlType.Object: {
+            if (typeof value !== "object" || Array.isArray(value)) {
+                addError(state, PresetErrorCode.INVALID_TYPE, path, `expected an object, got ${describeValue(value)}`)
+                return
+            }
+            const controls = control.controls || {}
+            Object.entries(value as Record<string, unknown>).forEach(([key, fieldValue]) => {
+                const fieldPath = `${path}.${key}`
+                if (!(key in controls)) {
+                    state.warnings.push(`${fieldPath}: no FAME control sets this field`)
+                    return
+                }
+                validateControlValue(fieldValue, controls[key], fieldPath, state)
+            })
+            return
+        }
+
+        default:
+            // Other control types (images, links, ...) are not used by slots
+            return
+    }
+}
+
+function addError(
+    state: SchemaValidationState,
+    code: PresetErrorCode,
+    path: string,
+    detail: string,
+    context?: Record<string, any>
+): void {
+    state.errors.push({
+        code,
+        message: `${path}: ${detail}`,
+        context: { path, ...context },
+    })
+}
+
+/**
+ * Whether an easing enum value is CSS easing the adapters resolve
+ * Covers the legacy "ease" default and the keywords/functions of the Custom Easing control.
+ */
+function isSupportedEasing(control: any, value: unknown): boolean {
+    return (
+        control.options === EASING_OPTIONS &&
+        typeof value === "string" &&
+        isCssEasing(value)
+    )
+}
+
+/**
+ * Short description of a value for error messages
+ */
+function describeValue(value: unknown): string {
+    if (value === undefined) return "nothing"
+    if (Array.isArray(value)) return "a list"
+    if (value !== null && typeof value === "object") return "an object"
+
+    const json = JSON.stringify(value)
+    return json.length > 40 ? `${json.slice(0, 37)}...` : json
+}
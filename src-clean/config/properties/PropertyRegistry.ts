@@ -37,6 +37,9 @@ import {
 // ✅ PHASE 1 - STEP 1: Import enhanced easing utilities 
 import { EASING_OPTIONS, DEFAULT_EASING } from '../../utils/easings/EasingFunctions.ts';
 
+// 🎨 Color subsystem for validation of all CSS color formats
+import { isValidColor } from '../../utils/color/index.ts';
+
 // �� FEATURE 3A: Import NEW distributed property controls (single toggle approach)
 import { 
     getDistributedToggleControl, 
@@ -567,7 +570,7 @@ export function createPropertyControls(property: PropertyConfig) {
             "Smooth Out", "Smooth In",
             "Pause", "Out-N-In", "Dramatic Out-N-In",
             "Back Out", "Back In",
-            "Spring", "Spring In", "Spring Out",
+            "Spring", "Spring In", "Spring Out", "Spring (Physics)",
         ],
         defaultValue: DEFAULT_EASING,
     };
@@ -592,6 +595,33 @@ export function createPropertyControls(property: PropertyConfig) {
                 max: 2,
                 step: 0.1,
             },
+            mass: {
+                type: ControlType.Number,
+                title: "Mass",
+                description: "Physics spring only",
+                defaultValue: 1,
+                min: 0.1,
+                max: 10,
+                step: 0.1,
+            },
+            stiffness: {
+                type: ControlType.Number,
+                title: "Stiffness",
+                description: "Physics spring only",
+                defaultValue: 170,
+                min: 1,
+                max: 1000,
+                step: 1,
+            },
+            damping: {
+                type: ControlType.Number,
+                title: "Damping",
+                description: "Physics spring only",
+                defaultValue: 26,
+                min: 0,
+                max: 100,
+                step: 1,
+            },
         },
         hidden: (props: any) => !props.easing?.toLowerCase().includes("spring"),
     };
@@ -642,6 +672,19 @@ export function createPropertyControls(property: PropertyConfig) {
         },
     };
 
+    // Custom CSS easing (overrides the easing enum when set)
+    const customEasingControl = {
+        type: ControlType.String,
+        title: "Custom Easing",
+        description: "CSS easing, e.g. cubic-bezier(.16,1,.3,1), steps(4) or linear(0, 0.8 30%, 1)",
+        placeholder: "cubic-bezier(.16,1,.3,1)",
+        defaultValue: "",
+        // Hidden when using global settings
+        hidden: (props: any) => {
+            return props.useGlobalSettings === true;
+        },
+    };
+
     // 🌐 PHASE 4.2: Spring config controls with global timeline override
     const springConfigControlsWithOverride = {
         ...springConfigControls,
@@ -753,6 +796,7 @@ export function createPropertyControls(property: PropertyConfig) {
             
             // Timing controls with global timeline override
             easing: easingControlWithOverride,
+            customEasing: customEasingControl,
             springConfig: springConfigControlsWithOverride,
             duration: durationControl,
             delay: delayControl,
@@ -782,8 +826,8 @@ export function validateCSSProperty(propertyName: string, value: string): { isVa
         }
     }
 
-    if (propertyName.includes("Color") && !value.startsWith("#") && !value.startsWith("rgb") && !value.startsWith("hsl")) {
-        return { isValid: false, error: `Color value '${value}' should start with #, rgb(), or hsl()` };
+    if (isColorProperty(propertyName) && !isValidColor(value)) {
+        return { isValid: false, error: `Color value '${value}' is not a valid CSS color (hex, rgb(), hsl(), oklch(), var(), ...)` };
     }
 
     return { isValid: true };
@@ -155,6 +155,7 @@ import {
 import {
     createTriggerElementControls,
     createAnimatedElementControls,
+    createEmitEventControls,
 } from "./animationControls/ElementSelectionControls.ts"
 
 // ✅ PHASE 3 - STEP 1: Import scroll configuration controls from new modular structure
@@ -165,6 +166,11 @@ import {
     createRegularStaggerControls,
     createScrollStaggerControls,
     createInterruptBehaviorControls,
+    createReducedMotionControls,
+    createTimeScaleControls,
+    createViewportSuspensionControls,
+    createRendererControls,
+    createLiveElementControls,
 } from "./animationControls/StaggerControls.ts"
 
 // ✅ PHASE 5 - STEP 1: Import animation mode and property selection controls from new modular structure
@@ -178,6 +184,9 @@ import {
     createGlobalTimelineControls,
 } from "./animationControls/PropertySelectionControls.ts"
 
+// 📱 Per-viewport overrides
+import { createAnimationBreakpointControls } from "./animationControls/BreakpointControls.ts"
+
 //=======================================
 //          🚀 NEW APPROACH: PROPERTY CONFIGURATION ARRAY
 //          Similar to triggers array - much more efficient
@@ -246,24 +255,71 @@ function createPropertyConfigurationArray() {
  */
 function createAdaptivePropertyControls() {
     return {
-        // From value - simple mode (hidden when distributed)
+        // From value - simple mode (hidden when distributed or keyframed)
         from: {
             type: ControlType.String,
             title: "From",
             placeholder: "Starting value (e.g., 0px, #ff0000, 0)",
             defaultValue: "",
-            hidden: (props: any) => props.useDistributedValues === true,
+            hidden: (props: any) =>
+                props.useDistributedValues === true || props.useKeyframes === true,
         },
 
-        // To value - simple mode (hidden when distributed)
+        // To value - simple mode (hidden when distributed or keyframed)
         to: {
             type: ControlType.String,
             title: "To",
             placeholder: "Ending value (e.g., 100px, #00ff00, 1)",
             defaultValue: "",
+            hidden: (props: any) =>
+                props.useDistributedValues === true || props.useKeyframes === true,
+        },
+
+        // 🎞️ KEYFRAME TRACK: Several stops instead of from → to
+        useKeyframes: {
+            type: ControlType.Boolean,
+            title: "Use Keyframes",
+            description: "Animate through several values, e.g. 0 → 1 → 0.4 → 1",
+            defaultValue: false,
             hidden: (props: any) => props.useDistributedValues === true,
         },
 
+        keyframes: {
+            type: ControlType.Array,
+            title: "Keyframes",
+            maxCount: 12,
+            hidden: (props: any) =>
+                props.useKeyframes !== true || props.useDistributedValues === true,
+            control: {
+                type: ControlType.Object,
+                title: "Keyframe",
+                controls: {
+                    offset: {
+                        type: ControlType.Number,
+                        title: "At (%)",
+                        min: 0,
+                        max: 100,
+                        step: 1,
+                        defaultValue: 0,
+                        unit: "%",
+                    },
+                    value: {
+                        type: ControlType.String,
+                        title: "Value",
+                        placeholder: "e.g., 0px, #ff0000, 0.4",
+                        defaultValue: "",
+                    },
+                    easing: {
+                        type: ControlType.String,
+                        title: "Easing In",
+                        description: "Easing into this keyframe. Empty = property easing",
+                        placeholder: "e.g., ease-out or cubic-bezier(.16,1,.3,1)",
+                        defaultValue: "",
+                    },
+                },
+            },
+        },
+
         // 📊 DISTRIBUTED PROPERTIES: Main toggle
         useDistributedValues: {
             type: ControlType.Boolean,
@@ -275,6 +331,28 @@ function createAdaptivePropertyControls() {
         // 📊 DISTRIBUTED PROPERTY CONTROLS: Using modular function from DistributedPropertyControls.ts
         ...createDistributedPropertyArrayControls(),
 
+        // 🎨 Color interpolation space (color properties only)
+        colorSpace: {
+            type: ControlType.Enum,
+            title: "Color Space",
+            options: ["oklab", "oklch", "srgb", "linear-rgb"],
+            optionTitles: ["OKLab", "OKLCH", "sRGB", "Linear RGB"],
+            defaultValue: "oklab",
+            hidden: (props: any) => !/color/i.test(props.property || ""),
+        },
+
+        // 🎨 Hue arc for OKLCH interpolation
+        hueInterpolation: {
+            type: ControlType.Enum,
+            title: "Hue",
+            options: ["shorter", "longer"],
+            optionTitles: ["Shorter", "Longer"],
+            defaultValue: "shorter",
+            displaySegmentedControl: true,
+            hidden: (props: any) =>
+                !/color/i.test(props.property || "") || props.colorSpace !== "oklch",
+        },
+
         // Global settings toggle
         useGlobalSettings: {
             type: ControlType.Boolean,
@@ -293,11 +371,21 @@ function createAdaptivePropertyControls() {
                 "Cubic", "Cubic In", "Cubic Out", "Cubic In-Out",
                 "Expo", "Expo In", "Expo Out", "Expo In-Out",
                 "Smooth Out", "Smooth In", "Pause", "Out-N-In", "Dramatic Out-N-In",
-                "Back Out", "Back In", "Spring", "Spring In", "Spring Out",
+                "Back Out", "Back In", "Spring", "Spring In", "Spring Out", "Spring (Physics)",
             ],
             defaultValue: DEFAULT_EASING,
             hidden: (props: any) => props.useGlobalSettings === true,
         },
+
+        // Custom CSS easing (overrides Easing when set)
+        customEasing: {
+            type: ControlType.String,
+            title: "Custom Easing",
+            description: "CSS easing, e.g. cubic-bezier(.16,1,.3,1), steps(4) or linear(0, 0.8 30%, 1)",
+            placeholder: "cubic-bezier(.16,1,.3,1)",
+            defaultValue: "",
+            hidden: (props: any) => props.useGlobalSettings === true,
+        },
         
 
         // Spring configuration
@@ -321,6 +409,33 @@ function createAdaptivePropertyControls() {
                     max: 2,
                     step: 0.1,
                 },
+                mass: {
+                    type: ControlType.Number,
+                    title: "Mass",
+                    description: "Physics spring only",
+                    defaultValue: 1,
+                    min: 0.1,
+                    max: 10,
+                    step: 0.1,
+                },
+                stiffness: {
+                    type: ControlType.Number,
+                    title: "Stiffness",
+                    description: "Physics spring only",
+                    defaultValue: 170,
+                    min: 1,
+                    max: 1000,
+                    step: 1,
+                },
+                damping: {
+                    type: ControlType.Number,
+                    title: "Damping",
+                    description: "Physics spring only",
+                    defaultValue: 26,
+                    min: 0,
+                    max: 100,
+                    step: 1,
+                },
             },
             hidden: (props: any) => !props.easing?.toLowerCase().includes("spring"),
         },
@@ -355,6 +470,42 @@ function createAdaptivePropertyControls() {
     }
 }
 
+/**
+ * 🏷️ Creates timeline label controls
+ * Labels name points in time that "Play To Label" triggers can target
+ */
+function createTimelineLabelControls() {
+    return {
+        timelineLabels: {
+            type: ControlType.Array,
+            title: "Timeline Labels",
+            maxCount: 10,
+            control: {
+                type: ControlType.Object,
+                title: "Label",
+                controls: {
+                    name: {
+                        type: ControlType.String,
+                        title: "Name",
+                        placeholder: "e.g., open",
+                        defaultValue: "",
+                    },
+                    time: {
+                        type: ControlType.Number,
+                        title: "Time (s)",
+                        min: 0,
+                        max: 30,
+                        step: 0.05,
+                        defaultValue: 0,
+                        displayStepper: true,
+                    },
+                },
+            },
+            hidden: (props: any) => !isTimeBased(props),
+        },
+    }
+}
+
 //=======================================
 //      🚀 UPDATED MAIN PROPERTY CONTROLS FUNCTION
 //=======================================
@@ -521,12 +672,30 @@ export function CreateAnimationSlotsObject() {
                         springConfig: {
                             amplitude: 1,
                             period: 0.3,
+                            mass: 1,
+                            stiffness: 170,
+                            damping: 26,
                         },
                     },
 
                     // 🚨 NEW: Interrupt behavior default
                     interruptBehavior: InterruptBehavior.IMMEDIATE,
 
+                    // ♿ Reduced motion default (use FAME component setting)
+                    reducedMotion: "inherit",
+
+                    // 👁️ Pause while off-screen by default
+                    pauseWhenOffscreen: true,
+
+                    // 🧊 JavaScript renderer by default
+                    useCompositor: false,
+
+                    // 🔭 Resolve elements once by default
+                    observeDomChanges: false,
+
+                    // 📱 Same configuration at every width by default
+                    breakpoints: [],
+
                     translateX: {
                         from: "0px",
                         to: "100px",
@@ -556,6 +725,9 @@ export function CreateAnimationSlotsObject() {
                     // ✅ PHASE 2 - STEP 2: Replace triggers array with modular function
                     ...createTriggerElementControls(),
 
+                    // 📡 Event bus messages emitted at lifecycle moments
+                    ...createEmitEventControls(),
+
                     // ✅ PHASE 2 - STEP 3: Replace animated elements with modular function
                     ...createAnimatedElementControls(),
 
@@ -574,12 +746,33 @@ export function CreateAnimationSlotsObject() {
                     // ✅ PHASE 4 - STEP 4: Replace interrupt behavior controls with modular function
                     ...createInterruptBehaviorControls(),
 
+                    // ♿ Reduced motion policy (per-slot override of the component setting)
+                    ...createReducedMotionControls(),
+
+                    // ⏩ Playback speed (per-slot time scale)
+                    ...createTimeScaleControls(),
+
+                    // 👁️ Pause while off-screen (per-slot opt-out)
+                    ...createViewportSuspensionControls(),
+
+                    // 🧊 Compositor backend (per-slot opt-in)
+                    ...createRendererControls(),
+
+                    // 🔭 Follow DOM changes (per-slot opt-in)
+                    ...createLiveElementControls(),
+
                     // ✅ SCROLL CONFIGURATION: Implemented dual-mode scroll system (timed + scrubbed)
 
                     // 🎯 NEW APPROACH: Replace old property system with efficient array
                     // OLD: activeProperties + 2,500+ hidden property controls
                     // NEW: animateProperties array with only needed controls
                     ...generatePropertyControls(),
+
+                    // 🏷️ Named points in time for "Play To Label" triggers
+                    ...createTimelineLabelControls(),
+
+                    // 📱 Per-viewport overrides (values, stagger, on/off)
+                    ...createAnimationBreakpointControls(),
                 },
             },
         },
@@ -38,6 +38,8 @@ import {
     CriteriaType,
     ScopeDepth,
 } from "../../types/index.ts"
+import { createSelectionFilterControls } from "./animationControls/SelectionFilterControls.ts"
+import { createStyleBreakpointControls } from "./animationControls/BreakpointControls.ts"
 
 /**
  * Creates style property controls for a specific property
@@ -188,7 +190,7 @@ export function CreateStyleSlotsObject(): { styleSlots: PropertyControls[string]
                                         props.scope !== ElementScope.SIBLINGS,
                                 },
 
-                                // Filter criteria (same as AnimatedElement)
+                                // Legacy fixed criteria fields - only shown while set, superseded by the filter list
                                 criteriaType1: {
                                     type: ControlType.Enum,
                                     title: "Filter 1 Type",
@@ -208,6 +210,7 @@ export function CreateStyleSlotsObject(): { styleSlots: PropertyControls[string]
                                     ],
                                     defaultValue: "none",
                                     hidden: (props: any) =>
+                                        props.criteriaType1 === "none" ||
                                         props.scope === ElementScope.SELF ||
                                         props.scope === ElementScope.PARENT,
                                 },
@@ -243,6 +246,7 @@ export function CreateStyleSlotsObject(): { styleSlots: PropertyControls[string]
                                     ],
                                     defaultValue: "none",
                                     hidden: (props: any) =>
+                                        props.criteriaType2 === "none" ||
                                         props.scope === ElementScope.SELF ||
                                         props.scope === ElementScope.PARENT,
                                 },
@@ -278,6 +282,7 @@ export function CreateStyleSlotsObject(): { styleSlots: PropertyControls[string]
                                     ],
                                     defaultValue: "none",
                                     hidden: (props: any) =>
+                                        props.criteriaType3 === "none" ||
                                         props.scope === ElementScope.SELF ||
                                         props.scope === ElementScope.PARENT,
                                 },
@@ -292,6 +297,9 @@ export function CreateStyleSlotsObject(): { styleSlots: PropertyControls[string]
                                         props.scope === ElementScope.SELF ||
                                         props.scope === ElementScope.PARENT,
                                 },
+
+                                // Filter list with OR groups, exclusion and positional filters
+                                ...createSelectionFilterControls(),
                             },
                         },
                     },
@@ -313,6 +321,9 @@ export function CreateStyleSlotsObject(): { styleSlots: PropertyControls[string]
 
                     // Dynamic property controls based on selected properties
                     ...stylePropertyControlsMap,
+
+                    // Per-viewport overrides (CSS values, on/off)
+                    ...createStyleBreakpointControls(),
                 },
             },
         },
@@ -0,0 +1,290 @@
+/**
+ * @file BreakpointControls.ts
+ * @description Per-viewport override property controls for animation and style slots
+ *
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @module BreakpointControls
+ *
+ * @description
+ * Lets one slot behave differently per viewport width instead of duplicating the FAME
+ * instance per breakpoint. Each override targets a Framer breakpoint (Phone, Tablet,
+ * Desktop) or a custom pixel range, and either turns the slot off or replaces some of
+ * its values while the viewport is in that range.
+ *
+ * @features
+ * - Framer breakpoint presets or custom min/max widths
+ * - Slot on/off per range
+ * - Animation slots: per-property from/to, duration, delay and easing; stagger strategy
+ * - Style slots: replacement CSS values
+ *
+ * @usage
+ * ```typescript
+ * import { createAnimationBreakpointControls } from './BreakpointControls.ts'
+ *
+ * const controls = {
+ *   ...createAnimationBreakpointControls(),
+ * }
+ * ```
+ *
+ * @integration
+ * Ranges are converted by BreakpointAdapter.ts, values by the slot adapters, and the
+ * matching overrides are applied by SlotVariantResolver.ts.
+ */
+
+import { ControlType } from "framer"
+import type { PropertyControls } from "framer"
+
+import { ANIMATABLE_PROPERTIES } from "../../properties/PropertyRegistry.ts"
+
+/**
+ * Whether the override turns its slot off
+ */
+function isDisabledOverride(props: any): boolean {
+    return props.disabled === true
+}
+
+/**
+ * Creates the range and on/off controls shared by both override kinds
+ */
+function createBreakpointRangeControls(slotLabel: string): PropertyControls {
+    return {
+        range: {
+            type: ControlType.Enum,
+            title: "Breakpoint",
+            options: ["phone", "tablet", "desktop", "custom"],
+            optionTitles: [
+                "Phone (< 810px)",
+                "Tablet (810-1199px)",
+                "Desktop (≥ 1200px)",
+                "Custom Range",
+            ],
+            defaultValue: "phone",
+        },
+
+        minWidth: {
+            type: ControlType.Number,
+            title: "Min Width",
+            min: 0,
+            max: 5000,
+            step: 1,
+            unit: "px",
+            defaultValue: 0,
+            description: "0 = no minimum",
+            hidden: (props: any) => props.range !== "custom",
+        },
+
+        maxWidth: {
+            type: ControlType.Number,
+            title: "Max Width",
+            min: 0,
+            max: 5000,
+            step: 1,
+            unit: "px",
+            defaultValue: 479,
+            description: "0 = no maximum. Both bounds are inclusive.",
+            hidden: (props: any) => props.range !== "custom",
+        },
+
+        disabled: {
+            type: ControlType.Boolean,
+            title: slotLabel,
+            enabledTitle: "Off",
+            disabledTitle: "On",
+            defaultValue: false,
+        },
+    }
+}
+
+/**
+ * Create the breakpoint override controls for an animation slot
+ *
+ * @returns Controls to spread into the animation slot object
+ */
+export function createAnimationBreakpointControls(): PropertyControls {
+    return {
+        breakpoints: {
+            type: ControlType.Array,
+            title: "Breakpoints",
+            description: "Change or turn off this animation per viewport width. Later matches win.",
+            maxCount: 6,
+            control: {
+                type: ControlType.Object,
+                title: "Breakpoint",
+                controls: {
+                    ...createBreakpointRangeControls("Animation"),
+
+                    properties: {
+                        type: ControlType.Array,
+                        title: "Properties",
+                        maxCount: 15,
+                        hidden: isDisabledOverride,
+                        control: {
+                            type: ControlType.Object,
+                            title: "Property",
+                            controls: {
+                                property: {
+                                    type: ControlType.Enum,
+                                    title: "Property",
+                                    options: ANIMATABLE_PROPERTIES.map((prop) => prop.name),
+                                    optionTitles: ANIMATABLE_PROPERTIES.map((prop) => prop.title),
+                                    defaultValue: "translateY",
+                                },
+                                from: {
+                                    type: ControlType.String,
+                                    title: "From",
+                                    placeholder: "Keep",
+                                    defaultValue: "",
+                                },
+                                to: {
+                                    type: ControlType.String,
+                                    title: "To",
+                                    placeholder: "Keep",
+                                    defaultValue: "",
+                                },
+                                overrideTiming: {
+                                    type: ControlType.Boolean,
+                                    title: "Timing",
+                                    enabledTitle: "Override",
+                                    disabledTitle: "Keep",
+                                    defaultValue: false,
+                                },
+                                duration: {
+                                    type: ControlType.Number,
+                                    title: "Duration (s)",
+                                    min: 0.01,
+                                    max: 10,
+                                    step: 0.1,
+                                    defaultValue: 0.6,
+                                    displayStepper: true,
+                                    description: "Ignored while the global timeline sets the duration",
+                                    hidden: (props: any) => props.overrideTiming !== true,
+                                },
+                                delay: {
+                                    type: ControlType.Number,
+                                    title: "Delay (s)",
+                                    min: 0,
+                                    max: 10,
+                                    step: 0.1,
+                                    defaultValue: 0,
+                                    displayStepper: true,
+                                    hidden: (props: any) => props.overrideTiming !== true,
+                                },
+                                easing: {
+                                    type: ControlType.String,
+                                    title: "Easing",
+                                    placeholder: "Keep",
+                                    defaultValue: "",
+                                },
+                            },
+                        },
+                    },
+
+                    stagger: {
+                        type: ControlType.Enum,
+                        title: "Stagger",
+                        options: ["inherit", "off", "linear", "grid"],
+                        optionTitles: ["Keep", "Off", "Linear (1D)", "Grid (2D)"],
+                        defaultValue: "inherit",
+                        description: "Time-based animations only",
+                        hidden: isDisabledOverride,
+                    },
+
+                    staggerDelay: {
+                        type: ControlType.Number,
+                        title: "Stagger Delay",
+                        min: 0,
+                        max: 2,
+                        step: 0.05,
+                        unit: "s",
+                        defaultValue: 0.1,
+                        hidden: (props: any) =>
+                            isDisabledOverride(props) ||
+                            (props.stagger !== "linear" && props.stagger !== "grid"),
+                    },
+
+                    staggerOrder: {
+                        type: ControlType.Enum,
+                        title: "Element Order",
+                        options: ["first-to-last", "last-to-first", "center-out", "edges-in", "random"],
+                        optionTitles: ["First to Last", "Last to First", "Center Outward", "Edges Inward", "Random"],
+                        defaultValue: "first-to-last",
+                        hidden: (props: any) =>
+                            isDisabledOverride(props) || props.stagger !== "linear",
+                    },
+
+                    gridOrigin: {
+                        type: ControlType.Enum,
+                        title: "Grid Origin",
+                        options: [
+                            "center",
+                            "top-left", "top-center", "top-right",
+                            "center-left", "center-right",
+                            "bottom-left", "bottom-center", "bottom-right",
+                            "random"
+                        ],
+                        optionTitles: [
+                            "Center",
+                            "Top Left", "Top Center", "Top Right",
+                            "Center Left", "Center Right",
+                            "Bottom Left", "Bottom Center", "Bottom Right",
+                            "Random"
+                        ],
+                        defaultValue: "center",
+                        hidden: (props: any) =>
+                            isDisabledOverride(props) || props.stagger !== "grid",
+                    },
+                },
+            },
+        },
+    }
+}
+
+/**
+ * Create the breakpoint override controls for a style slot
+ *
+ * @returns Controls to spread into the style slot object
+ */
+export function createStyleBreakpointControls(): PropertyControls {
+    return {
+        breakpoints: {
+            type: ControlType.Array,
+            title: "Breakpoints",
+            description: "Change or turn off these styles per viewport width. Later matches win.",
+            maxCount: 6,
+            control: {
+                type: ControlType.Object,
+                title: "Breakpoint",
+                controls: {
+                    ...createBreakpointRangeControls("Styles"),
+
+                    styles: {
+                        type: ControlType.Array,
+                        title: "CSS Properties",
+                        hidden: isDisabledOverride,
+                        control: {
+                            type: ControlType.Object,
+                            title: "Style",
+                            controls: {
+                                property: {
+                                    type: ControlType.Enum,
+                                    title: "Property",
+                                    options: ANIMATABLE_PROPERTIES.map((prop) => prop.name),
+                                    optionTitles: ANIMATABLE_PROPERTIES.map((prop) => prop.title),
+                                    defaultValue: "fontSize",
+                                },
+                                value: {
+                                    type: ControlType.String,
+                                    title: "CSS Value",
+                                    placeholder: "e.g. 14px, 50%, clamp(12px, 4vw, 20px)",
+                                    defaultValue: "",
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    }
+}
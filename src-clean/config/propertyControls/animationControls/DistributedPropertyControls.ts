@@ -15,8 +15,7 @@
  * 
  * Key Features:
  * - Pattern-based value distribution across multiple animated elements
- * - Support for comma-separated and linear range patterns
- * - Future-ready for random and grid-aware patterns
+ * - Support for comma-separated, linear range, seeded random and grid-aware patterns
  * - Clean integration with existing property control system
  * 
  * Data Flow:
@@ -76,6 +75,8 @@ import type {
     DistributedPropertyPattern,
     CommaSeparatedPattern,
     LinearRangePattern,
+    RandomPattern,
+    GridAwarePattern,
     LinearProgression
 } from "../../../types/index.ts"
 
@@ -158,21 +159,135 @@ function getDefaultValueForProperty(propertyName: string, isColorProp: boolean,
  * @description
  * Enum values for pattern type selection in property controls.
  * Only implemented patterns are included.
- * 
- * Future patterns will be added as they're implemented:
- * - "random" (Phase 4)
- * - "grid-aware" (Phase 5)
  */
 const PATTERN_TYPE_OPTIONS = [
     "comma-separated",
-    "linear-range"
+    "linear-range",
+    "random",
+    "grid-aware"
 ] as const
 
 const PATTERN_TYPE_TITLES = [
     "Comma-Separated Values",
-    "Linear Range"
+    "Linear Range",
+    "Random (Seeded)",
+    "Grid-Aware"
 ] as const
 
+/**
+ * Patterns that distribute values between a min and a max value
+ */
+const RANGE_PATTERNS: readonly string[] = ["linear-range", "random", "grid-aware"]
+
+/**
+ * Random distribution options for random patterns
+ */
+const RANDOM_DISTRIBUTION_OPTIONS: RandomPattern["randomConfig"]["distribution"][] = [
+    "uniform",
+    "gaussian"
+]
+
+const RANDOM_DISTRIBUTION_TITLES = [
+    "Uniform (Even Scatter)",
+    "Gaussian (Clustered Around Middle)"
+] as const
+
+/**
+ * Direction options for grid-aware patterns
+ */
+const GRID_DIRECTION_OPTIONS: GridAwarePattern["gridConfig"]["direction"][] = [
+    "row-wise",
+    "column-wise",
+    "diagonal"
+]
+
+const GRID_DIRECTION_TITLES = [
+    "Row by Row",
+    "Column by Column",
+    "Diagonal"
+] as const
+
+/**
+ * Start corner options for grid-aware patterns
+ */
+const GRID_START_CORNER_OPTIONS: GridAwarePattern["gridConfig"]["startCorner"][] = [
+    "top-left",
+    "top-right",
+    "bottom-left",
+    "bottom-right"
+]
+
+const GRID_START_CORNER_TITLES = [
+    "Top Left",
+    "Top Right",
+    "Bottom Left",
+    "Bottom Right"
+] as const
+
+/**
+ * Seed control shared by random patterns
+ * 
+ * @param hidden - Visibility predicate for the owning control group
+ */
+function getRandomSeedControl(hidden?: (props: any) => boolean): any {
+    return {
+        type: ControlType.Number,
+        title: "Seed",
+        defaultValue: 1,
+        min: 0,
+        max: 9999,
+        step: 1,
+        displayStepper: true,
+        ...(hidden && { hidden }),
+        description: "Same seed = same values on every reload. Change it to reshuffle."
+    }
+}
+
+/**
+ * Distribution control shared by random patterns
+ */
+function getRandomDistributionControl(hidden?: (props: any) => boolean): any {
+    return {
+        type: ControlType.Enum,
+        title: "Distribution",
+        options: [...RANDOM_DISTRIBUTION_OPTIONS],
+        optionTitles: [...RANDOM_DISTRIBUTION_TITLES],
+        defaultValue: "uniform",
+        ...(hidden && { hidden }),
+        description: "How random values spread across the range"
+    }
+}
+
+/**
+ * Direction control shared by grid-aware patterns
+ */
+function getGridDirectionControl(hidden?: (props: any) => boolean): any {
+    return {
+        type: ControlType.Enum,
+        title: "Grid Direction",
+        options: [...GRID_DIRECTION_OPTIONS],
+        optionTitles: [...GRID_DIRECTION_TITLES],
+        defaultValue: "row-wise",
+        ...(hidden && { hidden }),
+        description: "Order in which values progress through the detected grid"
+    }
+}
+
+/**
+ * Start corner control shared by grid-aware patterns
+ */
+function getGridStartCornerControl(hidden?: (props: any) => boolean): any {
+    return {
+        type: ControlType.Enum,
+        title: "Start Corner",
+        options: [...GRID_START_CORNER_OPTIONS],
+        optionTitles: [...GRID_START_CORNER_TITLES],
+        defaultValue: "top-left",
+        ...(hidden && { hidden }),
+        description: "Grid corner that receives the min value"
+    }
+}
+
 /**
  * Linear progression options for range patterns
  */
@@ -331,6 +446,64 @@ export function getDistributedPatternControls(propertyName: string): Record<stri
                             description: "How values progress across elements"
                         }
                     }
+                },
+                
+                randomConfig: {
+                    type: ControlType.Object,
+                    title: "Random Configuration",
+                    hidden: (props: any) => props.pattern !== "random",
+                    description: "Configure the seeded random starting value range",
+                    controls: {
+                        minValue: {
+                            type: getControlTypeForProperty(propertyName),
+                            title: "Min Value",
+                            placeholder: isColorProp ? undefined : "0px",
+                            defaultValue: isColorProp ? "#ffffff" : "0px",
+                            description: "Lowest random value"
+                        },
+                        maxValue: {
+                            type: getControlTypeForProperty(propertyName),
+                            title: "Max Value",
+                            placeholder: isColorProp ? undefined : "100px",
+                            defaultValue: isColorProp ? "#000000" : "100px",
+                            description: "Highest random value"
+                        },
+                        seed: getRandomSeedControl(),
+                        distribution: getRandomDistributionControl()
+                    }
+                },
+                
+                gridConfig: {
+                    type: ControlType.Object,
+                    title: "Grid Configuration",
+                    hidden: (props: any) => props.pattern !== "grid-aware",
+                    description: "Configure how starting values follow the detected grid layout",
+                    controls: {
+                        minValue: {
+                            type: getControlTypeForProperty(propertyName),
+                            title: "Min Value",
+                            placeholder: isColorProp ? undefined : "0px",
+                            defaultValue: isColorProp ? "#ffffff" : "0px",
+                            description: "Value at the start corner"
+                        },
+                        maxValue: {
+                            type: getControlTypeForProperty(propertyName),
+                            title: "Max Value",
+                            placeholder: isColorProp ? undefined : "100px",
+                            defaultValue: isColorProp ? "#000000" : "100px",
+                            description: "Value at the far end of the grid"
+                        },
+                        direction: getGridDirectionControl(),
+                        startCorner: getGridStartCornerControl(),
+                        progression: {
+                            type: ControlType.Enum,
+                            title: "Progression",
+                            options: [...LINEAR_PROGRESSION_OPTIONS],
+                            optionTitles: [...LINEAR_PROGRESSION_TITLES],
+                            defaultValue: "linear",
+                            description: "How values progress along the grid order"
+                        }
+                    }
                 }
             }
         },
@@ -390,6 +563,64 @@ export function getDistributedPatternControls(propertyName: string): Record<stri
                             description: "How values progress across elements"
                         }
                     }
+                },
+                
+                randomConfig: {
+                    type: ControlType.Object,
+                    title: "Random Configuration",
+                    hidden: (props: any) => props.pattern !== "random",
+                    description: "Configure the seeded random ending value range",
+                    controls: {
+                        minValue: {
+                            type: getControlTypeForProperty(propertyName),
+                            title: "Min Value",
+                            placeholder: isColorProp ? undefined : "100px",
+                            defaultValue: isColorProp ? "#ffffff" : "100px",
+                            description: "Lowest random value"
+                        },
+                        maxValue: {
+                            type: getControlTypeForProperty(propertyName),
+                            title: "Max Value",
+                            placeholder: isColorProp ? undefined : "200px",
+                            defaultValue: isColorProp ? "#000000" : "200px",
+                            description: "Highest random value"
+                        },
+                        seed: getRandomSeedControl(),
+                        distribution: getRandomDistributionControl()
+                    }
+                },
+                
+                gridConfig: {
+                    type: ControlType.Object,
+                    title: "Grid Configuration",
+                    hidden: (props: any) => props.pattern !== "grid-aware",
+                    description: "Configure how ending values follow the detected grid layout",
+                    controls: {
+                        minValue: {
+                            type: getControlTypeForProperty(propertyName),
+                            title: "Min Value",
+                            placeholder: isColorProp ? undefined : "100px",
+                            defaultValue: isColorProp ? "#ffffff" : "100px",
+                            description: "Value at the start corner"
+                        },
+                        maxValue: {
+                            type: getControlTypeForProperty(propertyName),
+                            title: "Max Value",
+                            placeholder: isColorProp ? undefined : "200px",
+                            defaultValue: isColorProp ? "#000000" : "200px",
+                            description: "Value at the far end of the grid"
+                        },
+                        direction: getGridDirectionControl(),
+                        startCorner: getGridStartCornerControl(),
+                        progression: {
+                            type: ControlType.Enum,
+                            title: "Progression",
+                            options: [...LINEAR_PROGRESSION_OPTIONS],
+                            optionTitles: [...LINEAR_PROGRESSION_TITLES],
+                            defaultValue: "linear",
+                            description: "How values progress along the grid order"
+                        }
+                    }
                 }
             }
         }
@@ -482,6 +713,33 @@ export function extractDistributedPropertyConfig(
             }
             break
             
+        case "random":
+            const randomConfig = configObject.randomConfig || {}
+            pattern = {
+                type: "random",
+                randomConfig: {
+                    seed: typeof randomConfig.seed === "number" ? randomConfig.seed : 1,
+                    minValue: randomConfig.minValue || "0px",
+                    maxValue: randomConfig.maxValue || "100px",
+                    distribution: randomConfig.distribution || "uniform"
+                }
+            }
+            break
+            
+        case "grid-aware":
+            const gridConfig = configObject.gridConfig || {}
+            pattern = {
+                type: "grid-aware",
+                gridConfig: {
+                    direction: gridConfig.direction || "row-wise",
+                    startCorner: gridConfig.startCorner || "top-left",
+                    minValue: gridConfig.minValue || "0px",
+                    maxValue: gridConfig.maxValue || "100px",
+                    progression: gridConfig.progression || "linear"
+                }
+            }
+            break
+            
         default:
             console.warn(`[DistributedPropertyControls] Unknown pattern type: ${patternType}`)
             return null
@@ -508,6 +766,8 @@ export function extractDistributedPropertyConfig(
  * @validation_rules
  * - Comma-separated: Must have at least one non-empty value
  * - Linear range: Min and max values must be parseable
+ * - Random: Min and max values required, seed must be a finite number
+ * - Grid-aware: Min and max values required
  * - Pattern type: Must be a supported pattern type
  * 
  * @usage
@@ -563,6 +823,37 @@ export function validateDistributedPropertyConfig(
             }
             break;
             
+        case "random":
+            if (!config.pattern.randomConfig) {
+                errors.push(`Random pattern requires random configuration for ${propertyName}`);
+            } else {
+                const { minValue, maxValue, seed } = config.pattern.randomConfig;
+                if (!minValue || minValue.trim() === '') {
+                    errors.push(`Random pattern requires min value for ${propertyName}`);
+                }
+                if (!maxValue || maxValue.trim() === '') {
+                    errors.push(`Random pattern requires max value for ${propertyName}`);
+                }
+                if (seed !== undefined && !Number.isFinite(seed)) {
+                    errors.push(`Random pattern seed must be a number for ${propertyName}`);
+                }
+            }
+            break;
+            
+        case "grid-aware":
+            if (!config.pattern.gridConfig) {
+                errors.push(`Grid-aware pattern requires grid configuration for ${propertyName}`);
+            } else {
+                const { minValue, maxValue } = config.pattern.gridConfig;
+                if (!minValue || minValue.trim() === '') {
+                    errors.push(`Grid-aware pattern requires min value for ${propertyName}`);
+                }
+                if (!maxValue || maxValue.trim() === '') {
+                    errors.push(`Grid-aware pattern requires max value for ${propertyName}`);
+                }
+            }
+            break;
+            
         default:
             errors.push(`Unsupported pattern type: ${config.pattern.type} for ${propertyName}`);
     }
@@ -628,7 +919,7 @@ export function createDistributedPropertyArrayControls(): Record<string, any> {
                     title: "Min Value",
                     placeholder: "0px",
                     defaultValue: "0px",
-                    hidden: (props: any) => props.pattern !== "linear-range",
+                    hidden: (props: any) => !RANGE_PATTERNS.includes(props.pattern),
                     description: "Starting value of the range"
                 },
                 maxValue: {
@@ -636,7 +927,7 @@ export function createDistributedPropertyArrayControls(): Record<string, any> {
                     title: "Max Value",
                     placeholder: "100px",
                     defaultValue: "100px",
-                    hidden: (props: any) => props.pattern !== "linear-range",
+                    hidden: (props: any) => !RANGE_PATTERNS.includes(props.pattern),
                     description: "Ending value of the range"
                 },
                 progression: {
@@ -645,9 +936,13 @@ export function createDistributedPropertyArrayControls(): Record<string, any> {
                     options: [...LINEAR_PROGRESSION_OPTIONS],
                     optionTitles: [...LINEAR_PROGRESSION_TITLES],
                     defaultValue: "linear",
-                    hidden: (props: any) => props.pattern !== "linear-range",
+                    hidden: (props: any) => props.pattern !== "linear-range" && props.pattern !== "grid-aware",
                     description: "How values progress across elements"
-                }
+                },
+                seed: getRandomSeedControl((props: any) => props.pattern !== "random"),
+                distribution: getRandomDistributionControl((props: any) => props.pattern !== "random"),
+                gridDirection: getGridDirectionControl((props: any) => props.pattern !== "grid-aware"),
+                gridStartCorner: getGridStartCornerControl((props: any) => props.pattern !== "grid-aware")
             }
         },
         distributedToConfig: {
@@ -695,7 +990,7 @@ export function createDistributedPropertyArrayControls(): Record<string, any> {
                     title: "Min Value",
                     placeholder: "100px",
                     defaultValue: "100px",
-                    hidden: (props: any) => props.pattern !== "linear-range",
+                    hidden: (props: any) => !RANGE_PATTERNS.includes(props.pattern),
                     description: "Starting value of the range"
                 },
                 maxValue: {
@@ -703,7 +998,7 @@ export function createDistributedPropertyArrayControls(): Record<string, any> {
                     title: "Max Value",
                     placeholder: "500px",
                     defaultValue: "500px",
-                    hidden: (props: any) => props.pattern !== "linear-range",
+                    hidden: (props: any) => !RANGE_PATTERNS.includes(props.pattern),
                     description: "Ending value of the range"
                 },
                 progression: {
@@ -712,9 +1007,13 @@ export function createDistributedPropertyArrayControls(): Record<string, any> {
                     options: [...LINEAR_PROGRESSION_OPTIONS],
                     optionTitles: [...LINEAR_PROGRESSION_TITLES],
                     defaultValue: "linear",
-                    hidden: (props: any) => props.pattern !== "linear-range",
+                    hidden: (props: any) => props.pattern !== "linear-range" && props.pattern !== "grid-aware",
                     description: "How values progress across elements"
-                }
+                },
+                seed: getRandomSeedControl((props: any) => props.pattern !== "random"),
+                distribution: getRandomDistributionControl((props: any) => props.pattern !== "random"),
+                gridDirection: getGridDirectionControl((props: any) => props.pattern !== "grid-aware"),
+                gridStartCorner: getGridStartCornerControl((props: any) => props.pattern !== "grid-aware")
             }
         }
     }
@@ -52,7 +52,14 @@ import {
     AnimationBehavior,
     ReverseMode,
     TextCanvasFallback,
+    TextAccessibilityMode,
+    TextEffectType,
+    EventBusScope,
+    AnimationLifecycleEvent,
 } from "../../../types/index.ts";
+import { DEFAULT_SCRAMBLE_CHARS } from "../../../utils/text/effects/TextEffectRenderer.ts";
+import { createScrollAxisControls } from "./ScrollConfigurationControls.ts";
+import { createSelectionFilterControls } from "./SelectionFilterControls.ts";
 
 import { isTimeBased } from "./HelperFunctions.ts";
 
@@ -89,7 +96,11 @@ export function createTriggerElementControls() {
                         description: (props: any) => 
                             isLoadEvent(props) 
                                 ? "Load events fire when the page finishes loading (no trigger element needed)"
-                                : "Event that triggers the animation",
+                                : isCustomEvent(props)
+                                    ? "Fires when any FAME slot or code component emits on the channel"
+                                    : isSlotSequenceEvent(props)
+                                        ? "Fires at a position in another slot's run (no trigger element needed)"
+                                        : "Event that triggers the animation",
                         options: [
                             EventType.CLICK,
                             EventType.SCROLL,
@@ -111,6 +122,10 @@ export function createTriggerElementControls() {
                             EventType.TOUCHEND,
                             EventType.SUBMIT,
                             EventType.SCROLL_DIRECTION_CHANGE,
+                            // 📡 NEW: Event bus channel
+                            EventType.CUSTOM_EVENT,
+                            // 🔗 NEW: Slot sequencing
+                            EventType.SLOT_SEQUENCE,
                         ],
                         optionTitles: [
                             "Click",
@@ -133,6 +148,10 @@ export function createTriggerElementControls() {
                             "Touch End",
                             "Submit",
                             "Scroll Direction Change",
+                            // 📡 NEW: Event bus channel
+                            "Custom Event (Channel)",
+                            // 🔗 NEW: Slot sequencing
+                            "After Another Slot",
                         ],
                         defaultValue: EventType.CLICK,
                     },
@@ -162,6 +181,14 @@ export function createTriggerElementControls() {
 
                             // 🎯 PHASE 5 - CONDITIONAL BEHAVIORS (NEW)
                             AnimationBehavior.DELAYED_TRIGGER,
+
+                            // ⏸️ PHASE 6 - PLAYBACK CONTROL BEHAVIORS (NEW)
+                            AnimationBehavior.PAUSE,
+                            AnimationBehavior.RESUME,
+                            AnimationBehavior.TOGGLE_PAUSE,
+
+                            // 🏷️ PHASE 7 - LABEL BEHAVIORS (NEW)
+                            AnimationBehavior.PLAY_TO_LABEL,
                         ],
                         optionTitles: [
                             // Phase 1
@@ -186,6 +213,14 @@ export function createTriggerElementControls() {
 
                             // Phase 5 - Conditional
                             "Delayed Trigger",
+
+                            // Phase 6 - Playback Control
+                            "Pause",
+                            "Resume",
+                            "Toggle Pause",
+
+                            // Phase 7 - Labels
+                            "Play To Label",
                         ],
                         defaultValue: AnimationBehavior.PLAY_FORWARD,
                     },
@@ -200,7 +235,18 @@ export function createTriggerElementControls() {
                         // Only show for directional behaviors (not Toggle, which handles this automatically)
                         hidden: (props: any) =>
                             props.behavior === AnimationBehavior.TOGGLE ||
-                            props.behavior === AnimationBehavior.START_PING_PONG,
+                            props.behavior === AnimationBehavior.START_PING_PONG ||
+                            props.behavior === AnimationBehavior.PLAY_TO_LABEL,
+                    },
+
+                    // 🏷️ NEW: Label to play to (only shown when behavior is PLAY_TO_LABEL)
+                    targetLabel: {
+                        type: ControlType.String,
+                        title: "Label",
+                        description: "Name of a timeline label of this animation. Plays forward or backward to it",
+                        placeholder: "e.g., open",
+                        defaultValue: "",
+                        hidden: (props: any) => props.behavior !== AnimationBehavior.PLAY_TO_LABEL,
                     },
 
                     // 🎭 NEW: Reverse Mode Options - Animation direction behavior for reversals
@@ -427,9 +473,204 @@ export function createTriggerElementControls() {
                         },
                     },
 
+                    // ↔️ NEW: Scroll axis / container (only shown for scroll and scroll direction events)
+                    scrollAxis: createScrollAxisControls((props: any) => !isScrollAxisEvent(props)),
+
+                    // ⌨️ NEW: Keyboard filter controls (only shown when event is keydown/keyup)
+                    keyConfig: {
+                        type: ControlType.Object,
+                        title: "⌨️ Key Settings",
+                        description: "Restrict keyboard triggers to specific keys and modifiers",
+                        hidden: (props: any) => !isKeyboardEvent(props),
+                        controls: {
+                            keys: {
+                                type: ControlType.String,
+                                title: "Keys",
+                                description: "Comma-separated key values (e.g. Escape, ArrowLeft, k). Empty = any key",
+                                placeholder: "e.g., Escape, ArrowRight",
+                                defaultValue: "",
+                            },
+                            codes: {
+                                type: ControlType.String,
+                                title: "Codes",
+                                description: "Comma-separated physical key codes, layout-independent (e.g. KeyK, Space)",
+                                placeholder: "e.g., KeyK, Space",
+                                defaultValue: "",
+                            },
+                            shift: {
+                                type: ControlType.Boolean,
+                                title: "Shift",
+                                defaultValue: false,
+                            },
+                            alt: {
+                                type: ControlType.Boolean,
+                                title: "Alt / Option",
+                                defaultValue: false,
+                            },
+                            ctrl: {
+                                type: ControlType.Boolean,
+                                title: "Ctrl",
+                                defaultValue: false,
+                            },
+                            meta: {
+                                type: ControlType.Boolean,
+                                title: "Meta / Cmd",
+                                defaultValue: false,
+                            },
+                            exactModifiers: {
+                                type: ControlType.Boolean,
+                                title: "Exact Modifiers",
+                                description: "Ignore the key when other modifiers are held",
+                                defaultValue: true,
+                            },
+                            ignoreRepeat: {
+                                type: ControlType.Boolean,
+                                title: "Ignore Repeat",
+                                description: "Ignore auto-repeat while the key is held down",
+                                defaultValue: true,
+                            },
+                            listenOnDocument: {
+                                type: ControlType.Boolean,
+                                title: "Listen On Page",
+                                description: "Listen on the whole document instead of the trigger element",
+                                defaultValue: false,
+                            },
+                            preventDefault: {
+                                type: ControlType.Boolean,
+                                title: "Prevent Default",
+                                description: "Stop the browser default (e.g. arrow keys scrolling the page)",
+                                defaultValue: false,
+                            },
+                        },
+                    },
+
+                    // 📡 NEW: Event bus channel controls (only shown when event is CUSTOM_EVENT)
+                    customEventConfig: {
+                        type: ControlType.Object,
+                        title: "📡 Channel",
+                        hidden: (props: any) => !isCustomEvent(props),
+                        controls: {
+                            channel: {
+                                type: ControlType.String,
+                                title: "Channel",
+                                placeholder: "e.g., intro-done",
+                                defaultValue: "",
+                            },
+                            scope: {
+                                type: ControlType.Enum,
+                                title: "Scope",
+                                options: [EventBusScope.PAGE, EventBusScope.SITE],
+                                optionTitles: ["This Page", "Whole Site"],
+                                defaultValue: EventBusScope.PAGE,
+                                displaySegmentedControl: true,
+                            },
+                            payloadFilter: {
+                                type: ControlType.String,
+                                title: "Payload Filter",
+                                description: "Only fire when the payload (or payload.value) equals this. Empty = any payload",
+                                defaultValue: "",
+                            },
+                        },
+                    },
+
+                    // 🔗 NEW: Slot sequencing controls (only shown when event is SLOT_SEQUENCE)
+                    sequenceConfig: {
+                        type: ControlType.Object,
+                        title: "🔗 Sequence",
+                        hidden: (props: any) => !isSlotSequenceEvent(props),
+                        controls: {
+                            afterSlot: {
+                                type: ControlType.String,
+                                title: "After Slot",
+                                placeholder: "Animation ID of the slot to follow",
+                                description: "Slot of this FAME. Use \"instance/id\" for a slot of the FAME with that Instance Name.",
+                                defaultValue: "",
+                            },
+                            position: {
+                                type: ControlType.String,
+                                title: "Position",
+                                description: "\"<\" start, \">\" end, \"40%\" progress, plus offset in seconds: \"<+0.2\", \">-0.3\", \"+0.5\"",
+                                placeholder: ">",
+                                defaultValue: ">",
+                            },
+                            followReverse: {
+                                type: ControlType.Boolean,
+                                title: "Follow Reverse",
+                                description: "Play backward when the followed slot plays backward",
+                                defaultValue: true,
+                            },
+                        },
+                    },
+
                     targetElement: {
                         ...createElementSelectionControls("Trigger Element"),
-                        hidden: (props: any) => isLoadEvent(props),
+                        hidden: (props: any) => isLoadEvent(props) || isDocumentKeyEvent(props) || isCustomEvent(props) || isSlotSequenceEvent(props),
+                    },
+                },
+            },
+        },
+    };
+}
+
+/**
+ * Create event bus emit controls for the emitEvents array
+ * 
+ * @description
+ * The counterpart of CUSTOM_EVENT triggers: each entry sends a message on a
+ * channel when the slot starts, completes, reverse-completes, loops or is
+ * interrupted. Any slot listening on the channel - in this or another FAME
+ * instance - then runs its trigger behavior.
+ * 
+ * @returns Framer property control object for the emitEvents array
+ */
+export function createEmitEventControls() {
+    return {
+        emitEvents: {
+            type: ControlType.Array,
+            title: "📡 Emit Events",
+            hidden: (props: any) => !isTimeBased(props),
+            control: {
+                type: ControlType.Object,
+                title: "Emit",
+                controls: {
+                    channel: {
+                        type: ControlType.String,
+                        title: "Channel",
+                        placeholder: "e.g., intro-done",
+                        defaultValue: "",
+                    },
+                    on: {
+                        type: ControlType.Enum,
+                        title: "When",
+                        options: [
+                            AnimationLifecycleEvent.START,
+                            AnimationLifecycleEvent.COMPLETE,
+                            AnimationLifecycleEvent.REVERSE_COMPLETE,
+                            AnimationLifecycleEvent.LOOP,
+                            AnimationLifecycleEvent.INTERRUPT,
+                        ],
+                        optionTitles: [
+                            "On Start",
+                            "On Complete",
+                            "On Reverse Complete",
+                            "On Each Loop",
+                            "On Interrupt",
+                        ],
+                        defaultValue: AnimationLifecycleEvent.COMPLETE,
+                    },
+                    payload: {
+                        type: ControlType.String,
+                        title: "Payload",
+                        description: "Optional text or JSON sent with the message",
+                        defaultValue: "",
+                    },
+                    scope: {
+                        type: ControlType.Enum,
+                        title: "Scope",
+                        options: [EventBusScope.PAGE, EventBusScope.SITE],
+                        optionTitles: ["This Page", "Whole Site"],
+                        defaultValue: EventBusScope.PAGE,
+                        displaySegmentedControl: true,
                     },
                 },
             },
@@ -445,6 +686,45 @@ function isLoadEvent(props: any): boolean {
     return props.event === EventType.LOAD;
 }
 
+/**
+ * ↔️ NEW: Helper function to check if event type tracks a scroll axis
+ * Used to conditionally show scroll axis controls
+ */
+function isScrollAxisEvent(props: any): boolean {
+    return props.event === EventType.SCROLL || props.event === EventType.SCROLL_DIRECTION_CHANGE;
+}
+
+/**
+ * ⌨️ NEW: Helper function to check if event type is KEYDOWN/KEYUP
+ * Used to conditionally show key filter controls
+ */
+function isKeyboardEvent(props: any): boolean {
+    return props.event === EventType.KEYDOWN || props.event === EventType.KEYUP;
+}
+
+/**
+ * 📡 NEW: Helper function to check if event type is CUSTOM_EVENT
+ * Channel triggers don't need a trigger element
+ */
+function isCustomEvent(props: any): boolean {
+    return props.event === EventType.CUSTOM_EVENT;
+}
+
+/**
+ * 🔗 NEW: Helper function to check if event type is SLOT_SEQUENCE
+ * Sequenced triggers follow another slot instead of a trigger element
+ */
+function isSlotSequenceEvent(props: any): boolean {
+    return props.event === EventType.SLOT_SEQUENCE;
+}
+
+/**
+ * ⌨️ NEW: Keyboard triggers listening on the document don't need a trigger element
+ */
+function isDocumentKeyEvent(props: any): boolean {
+    return isKeyboardEvent(props) && props.keyConfig?.listenOnDocument === true;
+}
+
 //=======================================
 //          ANIMATED ELEMENT CONTROLS
 //=======================================
@@ -509,6 +789,152 @@ export function createAnimatedElementControls() {
                                 defaultValue: false,
                             },
 
+                            accessibleText: {
+                                type: ControlType.Enum,
+                                title: "Screen Readers",
+                                description: "How the unsplit text is exposed to assistive technology",
+                                options: [
+                                    TextAccessibilityMode.AUTO,
+                                    TextAccessibilityMode.ARIA_LABEL,
+                                    TextAccessibilityMode.VISUALLY_HIDDEN,
+                                    TextAccessibilityMode.NONE,
+                                ],
+                                optionTitles: [
+                                    "Auto",
+                                    "aria-label",
+                                    "Hidden Copy",
+                                    "Don't Modify",
+                                ],
+                                defaultValue: TextAccessibilityMode.AUTO,
+                            },
+
+                            locale: {
+                                type: ControlType.String,
+                                title: "Language",
+                                description: "Locale for character/word boundaries (e.g. ja, th). Empty uses the page language",
+                                placeholder: "Auto",
+                                defaultValue: "",
+                                hidden: (props: any) => props.animateBy === "lines",
+                            },
+
+                            // Text effects run as timeline channels next to the animated properties
+                            textEffects: {
+                                type: ControlType.Array,
+                                title: "Text Effects",
+                                maxCount: 4,
+                                control: {
+                                    type: ControlType.Object,
+                                    title: "Effect",
+                                    controls: {
+                                        type: {
+                                            type: ControlType.Enum,
+                                            title: "Effect",
+                                            options: [
+                                                TextEffectType.TEXT_SCRAMBLE,
+                                                TextEffectType.TYPEWRITER,
+                                                TextEffectType.REVEAL,
+                                                TextEffectType.GLITCH,
+                                            ],
+                                            optionTitles: [
+                                                "Scramble",
+                                                "Typewriter",
+                                                "Reveal",
+                                                "Glitch",
+                                            ],
+                                            defaultValue: TextEffectType.TEXT_SCRAMBLE,
+                                        },
+
+                                        duration: {
+                                            type: ControlType.Number,
+                                            title: "Duration (s)",
+                                            description: "0 = same length as the animated properties",
+                                            min: 0,
+                                            max: 10,
+                                            step: 0.1,
+                                            defaultValue: 0,
+                                            displayStepper: true,
+                                        },
+
+                                        delay: {
+                                            type: ControlType.Number,
+                                            title: "Delay (s)",
+                                            min: 0,
+                                            max: 10,
+                                            step: 0.1,
+                                            defaultValue: 0,
+                                            displayStepper: true,
+                                        },
+
+                                        chars: {
+                                            type: ControlType.String,
+                                            title: "Characters",
+                                            placeholder: "Default set",
+                                            defaultValue: DEFAULT_SCRAMBLE_CHARS,
+                                            hidden: (props: any) =>
+                                                props.type !== TextEffectType.TEXT_SCRAMBLE &&
+                                                props.type !== TextEffectType.GLITCH,
+                                        },
+
+                                        speed: {
+                                            type: ControlType.Number,
+                                            title: "Speed",
+                                            description: "How often random glyphs change (1 = every second, 100 = every 50ms)",
+                                            min: 1,
+                                            max: 100,
+                                            step: 1,
+                                            defaultValue: 56,
+                                            hidden: (props: any) =>
+                                                props.type !== TextEffectType.TEXT_SCRAMBLE &&
+                                                props.type !== TextEffectType.GLITCH,
+                                        },
+
+                                        percentage: {
+                                            type: ControlType.Number,
+                                            title: "Percentage",
+                                            description: "Share of unresolved characters that scramble (below 100 spaces are kept)",
+                                            min: 0,
+                                            max: 100,
+                                            defaultValue: 100,
+                                            hidden: (props: any) => props.type !== TextEffectType.TEXT_SCRAMBLE,
+                                        },
+
+                                        scrambleColor: {
+                                            type: ControlType.Color,
+                                            title: "Scramble Color",
+                                            optional: true,
+                                            hidden: (props: any) => props.type !== TextEffectType.TEXT_SCRAMBLE,
+                                        },
+
+                                        cursor: {
+                                            type: ControlType.String,
+                                            title: "Cursor",
+                                            placeholder: "None",
+                                            defaultValue: "",
+                                            hidden: (props: any) => props.type !== TextEffectType.TYPEWRITER,
+                                        },
+
+                                        direction: {
+                                            type: ControlType.Enum,
+                                            title: "Direction",
+                                            options: ["left", "right", "up", "down"],
+                                            optionTitles: ["From Left", "From Right", "From Bottom", "From Top"],
+                                            defaultValue: "left",
+                                            hidden: (props: any) => props.type !== TextEffectType.REVEAL,
+                                        },
+
+                                        intensity: {
+                                            type: ControlType.Number,
+                                            title: "Intensity",
+                                            min: 0,
+                                            max: 1,
+                                            step: 0.05,
+                                            defaultValue: 0.35,
+                                            hidden: (props: any) => props.type !== TextEffectType.GLITCH,
+                                        },
+                                    },
+                                },
+                            },
+
                             // Canvas mode configuration (simplified)
                             canvasMode: {
                                 type: ControlType.Object,
@@ -621,7 +1047,7 @@ function createElementSelectionControls(title: string) {
                     props.scope !== ElementScope.SIBLINGS,
             },
 
-            // Individual criteria fields (Framer-friendly approach)
+            // Legacy fixed criteria fields - only shown while set, superseded by the filter list
             criteriaType1: {
                 type: ControlType.Enum,
                 title: "Filter 1 Type",
@@ -641,6 +1067,7 @@ function createElementSelectionControls(title: string) {
                 ],
                 defaultValue: "none",
                 hidden: (props: any) =>
+                    props.criteriaType1 === "none" ||
                     props.scope === ElementScope.SELF ||
                     props.scope === ElementScope.PARENT,
             },
@@ -675,6 +1102,7 @@ function createElementSelectionControls(title: string) {
                 ],
                 defaultValue: "none",
                 hidden: (props: any) =>
+                    props.criteriaType2 === "none" ||
                     props.scope === ElementScope.SELF ||
                     props.scope === ElementScope.PARENT,
             },
@@ -709,6 +1137,7 @@ function createElementSelectionControls(title: string) {
                 ],
                 defaultValue: "none",
                 hidden: (props: any) =>
+                    props.criteriaType3 === "none" ||
                     props.scope === ElementScope.SELF ||
                     props.scope === ElementScope.PARENT,
             },
@@ -723,6 +1152,9 @@ function createElementSelectionControls(title: string) {
                     props.scope === ElementScope.SELF ||
                     props.scope === ElementScope.PARENT,
             },
+
+            // Filter list with OR groups, exclusion and positional filters
+            ...createSelectionFilterControls(),
         },
         
     };
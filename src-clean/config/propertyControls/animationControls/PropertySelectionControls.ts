@@ -172,11 +172,20 @@ export function createGlobalTimelineControls() {
                         "Smooth Out", "Smooth In",
                         "Pause", "Out-N-In", "Dramatic Out-N-In",
                         "Back Out", "Back In",
-                        "Spring", "Spring In", "Spring Out",
+                        "Spring", "Spring In", "Spring Out", "Spring (Physics)",
                     ],
                     defaultValue: DEFAULT_EASING,
                 },
 
+                // Custom CSS easing (overrides Default Easing when set)
+                customEasing: {
+                    type: ControlType.String,
+                    title: "Custom Easing",
+                    description: "CSS easing, e.g. cubic-bezier(.16,1,.3,1), steps(4) or linear(0, 0.8 30%, 1)",
+                    placeholder: "cubic-bezier(.16,1,.3,1)",
+                    defaultValue: "",
+                },
+
                 // Spring configuration for global timeline (when spring easing is selected)
                 springConfig: {
                     type: ControlType.Object,
@@ -199,6 +208,33 @@ export function createGlobalTimelineControls() {
                             max: 2,
                             step: 0.1,
                         },
+                        mass: {
+                            type: ControlType.Number,
+                            title: "Mass",
+                            description: "Physics spring only",
+                            defaultValue: 1,
+                            min: 0.1,
+                            max: 10,
+                            step: 0.1,
+                        },
+                        stiffness: {
+                            type: ControlType.Number,
+                            title: "Stiffness",
+                            description: "Physics spring only",
+                            defaultValue: 170,
+                            min: 1,
+                            max: 1000,
+                            step: 1,
+                        },
+                        damping: {
+                            type: ControlType.Number,
+                            title: "Damping",
+                            description: "Physics spring only",
+                            defaultValue: 26,
+                            min: 0,
+                            max: 100,
+                            step: 1,
+                        },
                     },
                 },
             },
@@ -51,6 +51,7 @@ import {
 import {
     hasScrollScrubbedAnimation,
 } from "./HelperFunctions.ts"
+import { createSelectionFilterControls } from "./SelectionFilterControls.ts"
 
 /**
  * Creates scroll configuration property controls
@@ -132,7 +133,7 @@ export function createScrollConfiguration() {
                                 props.scope !== ElementScope.SIBLINGS,
                         },
 
-                        // Individual criteria fields (Framer-friendly approach)
+                        // Legacy fixed criteria fields - only shown while set, superseded by the filter list
                         criteriaType1: {
                             type: ControlType.Enum,
                             title: "Filter 1 Type",
@@ -152,6 +153,7 @@ export function createScrollConfiguration() {
                             ],
                             defaultValue: "none",
                             hidden: (props: any) =>
+                                props.criteriaType1 === "none" ||
                                 props.scope === ElementScope.SELF ||
                                 props.scope === ElementScope.PARENT,
                         },
@@ -186,6 +188,7 @@ export function createScrollConfiguration() {
                             ],
                             defaultValue: "none",
                             hidden: (props: any) =>
+                                props.criteriaType2 === "none" ||
                                 props.scope === ElementScope.SELF ||
                                 props.scope === ElementScope.PARENT,
                         },
@@ -220,6 +223,7 @@ export function createScrollConfiguration() {
                             ],
                             defaultValue: "none",
                             hidden: (props: any) =>
+                                props.criteriaType3 === "none" ||
                                 props.scope === ElementScope.SELF ||
                                 props.scope === ElementScope.PARENT,
                         },
@@ -234,9 +238,15 @@ export function createScrollConfiguration() {
                                 props.scope === ElementScope.SELF ||
                                 props.scope === ElementScope.PARENT,
                         },
+
+                        // Filter list with OR groups, exclusion and positional filters
+                        ...createSelectionFilterControls(),
                     },
                 },
 
+                // Scroll axis / container (horizontal rails)
+                scrollAxis: createScrollAxisControls(),
+
                 // Animation boundaries configuration
                 boundaries: {
                     type: ControlType.Object,
@@ -305,8 +315,100 @@ export function createScrollConfiguration() {
                             }
                         }
                     }
+                },
+
+                // Scrub smoothing - progress eases towards the scroll position
+                smoothing: {
+                    type: ControlType.Object,
+                    title: "Smoothing",
+                    description: "How the animation follows the scroll position",
+                    controls: {
+                        mode: {
+                            type: ControlType.Enum,
+                            title: "Mode",
+                            options: ["none", "time", "lerp", "spring"],
+                            optionTitles: ["None", "Catch Up", "Lerp", "Spring"],
+                            defaultValue: "none",
+                        },
+                        duration: {
+                            type: ControlType.Number,
+                            title: "Catch Up",
+                            description: "Seconds to reach the scroll position",
+                            defaultValue: 0.5,
+                            min: 0.05,
+                            max: 3,
+                            step: 0.05,
+                            unit: "s",
+                            displayStepper: true,
+                            hidden: (props: any) => props.mode !== "time",
+                        },
+                        factor: {
+                            type: ControlType.Number,
+                            title: "Factor",
+                            description: "Share of the remaining distance covered per frame (lower = smoother)",
+                            defaultValue: 0.1,
+                            min: 0.01,
+                            max: 1,
+                            step: 0.01,
+                            hidden: (props: any) => props.mode !== "lerp",
+                        },
+                        stiffness: {
+                            type: ControlType.Number,
+                            title: "Stiffness",
+                            defaultValue: 170,
+                            min: 10,
+                            max: 1000,
+                            step: 10,
+                            hidden: (props: any) => props.mode !== "spring",
+                        },
+                        damping: {
+                            type: ControlType.Number,
+                            title: "Damping",
+                            description: "Lower values overshoot",
+                            defaultValue: 26,
+                            min: 1,
+                            max: 100,
+                            step: 1,
+                            hidden: (props: any) => props.mode !== "spring",
+                        },
+                    },
                 }
             }
         }
     }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Creates scroll axis / scroll container controls
+ * 
+ * @description
+ * Shared by scrubbed scroll settings and SCROLL / SCROLL_DIRECTION_CHANGE triggers.
+ * The container selector overrides the automatic scroll container detection.
+ * 
+ * @param hidden - Optional visibility condition (receives the parent object's props)
+ * @returns ScrollAxisConfig object control
+ */
+export function createScrollAxisControls(hidden?: (props: any) => boolean) {
+    return {
+        type: ControlType.Object,
+        title: "Scroll Axis",
+        description: "Which scrolling drives the animation",
+        ...(hidden && { hidden }),
+        controls: {
+            axis: {
+                type: ControlType.Enum,
+                title: "Axis",
+                options: ["y", "x", "auto"],
+                optionTitles: ["Vertical", "Horizontal", "Auto"],
+                defaultValue: "y",
+            },
+            scrollContainer: {
+                type: ControlType.String,
+                title: "Container",
+                description: "CSS selector of the scroll container (empty = detect automatically)",
+                defaultValue: "",
+                placeholder: ".gallery-rail",
+            },
+        },
+    }
+}
@@ -0,0 +1,142 @@
+/**
+ * @file SelectionFilterControls.ts
+ * @description Filter list property controls for element selection
+ *
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @module SelectionFilterControls
+ *
+ * @description
+ * Replaces the fixed "Filter 1/2/3" fields with an open list of filters. Each filter
+ * picks a criteria type, a value, whether it includes or excludes matches, and a group
+ * number. Filters in the same group must all match (AND); an element is selected when
+ * any group matches (OR). The "Pick" control then keeps all, the first, the last or a
+ * random match.
+ *
+ * @features
+ * - Unlimited filters (Framer name, HTML tag, CSS selector, element ID)
+ * - Positional filters (nth expressions like "odd" or "3n+1", index ranges like "2-5")
+ * - Exclude toggle (NOT) per filter
+ * - OR groups via the group number
+ * - Match picking (all, first, last, random)
+ *
+ * @usage
+ * ```typescript
+ * import { createSelectionFilterControls } from './SelectionFilterControls.ts'
+ *
+ * const controls = {
+ *   scope: { ... },
+ *   ...createSelectionFilterControls(),
+ * }
+ * ```
+ *
+ * @integration
+ * Shared by trigger, animated element, scroll trigger and style target selection.
+ * Converted back into ElementSelection criteria by ElementSelectionAdapter.ts.
+ */
+
+import { ControlType } from "framer"
+import type { PropertyControls } from "framer"
+
+import {
+    ElementScope,
+    CriteriaType,
+    SelectionMode,
+} from "../../../types/index.ts"
+
+/**
+ * Scopes that resolve to a single fixed element - filters don't apply
+ */
+function isFixedScope(props: any): boolean {
+    return props.scope === ElementScope.SELF || props.scope === ElementScope.PARENT
+}
+
+/**
+ * Create the filter list and match picking controls for an element selection object
+ *
+ * @returns Controls to spread next to the selection's scope and depth controls
+ */
+export function createSelectionFilterControls(): PropertyControls {
+    return {
+        filters: {
+            type: ControlType.Array,
+            title: "Filters",
+            description: "Filters with the same group must all match. Any matching group selects the element.",
+            control: {
+                type: ControlType.Object,
+                title: "Filter",
+                controls: {
+                    type: {
+                        type: ControlType.Enum,
+                        title: "Type",
+                        options: [
+                            CriteriaType.FRAMER_NAME,
+                            CriteriaType.HTML_TAG,
+                            CriteriaType.CSS_SELECTOR,
+                            CriteriaType.ELEMENT_ID,
+                            CriteriaType.NTH,
+                            CriteriaType.INDEX_RANGE,
+                        ],
+                        optionTitles: [
+                            "Framer Name",
+                            "HTML Tag",
+                            "CSS Selector",
+                            "Element ID",
+                            "Position (nth)",
+                            "Position Range",
+                        ],
+                        defaultValue: CriteriaType.FRAMER_NAME,
+                    },
+
+                    value: {
+                        type: ControlType.String,
+                        title: "Value",
+                        placeholder: "Enter filter value...",
+                        defaultValue: "",
+                        description: "Position (nth): odd, even, 3 or 2n+1. Position Range: 2-5, 3- or -4 (1-based).",
+                    },
+
+                    exclude: {
+                        type: ControlType.Boolean,
+                        title: "Mode",
+                        enabledTitle: "Exclude",
+                        disabledTitle: "Include",
+                        defaultValue: false,
+                    },
+
+                    group: {
+                        type: ControlType.Number,
+                        title: "Group",
+                        min: 1,
+                        max: 5,
+                        step: 1,
+                        defaultValue: 1,
+                        displayStepper: true,
+                    },
+                },
+            },
+            defaultValue: [],
+            hidden: isFixedScope,
+        },
+
+        pick: {
+            type: ControlType.Enum,
+            title: "Pick",
+            options: [
+                SelectionMode.ALL,
+                SelectionMode.FIRST,
+                SelectionMode.LAST,
+                SelectionMode.RANDOM,
+            ],
+            optionTitles: [
+                "All Matches",
+                "First Match",
+                "Last Match",
+                "Random Match",
+            ],
+            defaultValue: SelectionMode.ALL,
+            hidden: isFixedScope,
+        },
+    }
+}
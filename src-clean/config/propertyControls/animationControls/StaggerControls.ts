@@ -47,6 +47,7 @@ import { ControlType } from "framer"
 import {
     ElementScope,
     InterruptBehavior,
+    ReducedMotionPolicy,
 } from "../../../types/index.ts"
 
 import {
@@ -55,6 +56,80 @@ import {
     isScrollBased,
 } from "./HelperFunctions.ts"
 
+/**
+ * Whether the time-based stagger controls use the "custom" element order
+ */
+function usesCustomTimedOrder(props: any): boolean {
+    if (props.strategy === "grid") return false
+    if (props.orderMode === "directional") {
+        return props.forwardOrder === "custom" || props.backwardOrder === "custom"
+    }
+    return props.simpleOrder === "custom"
+}
+
+/**
+ * Creates custom stagger order controls
+ * 
+ * @description
+ * Fields describing the sequence behind the "Custom" element order:
+ * an explicit index list, a data-* attribute on each element, or a measured metric.
+ * Shared by regular and scroll stagger controls.
+ * 
+ * @param isCustomOrder - Visibility predicate: true when the custom order is selected
+ * @returns Flat customOrder* controls for the owning stagger object
+ */
+function createCustomOrderControls(isCustomOrder: (props: any) => boolean) {
+    return {
+        customOrderSource: {
+            type: ControlType.Enum,
+            title: "Custom Order",
+            options: ["index-list", "attribute", "metric"],
+            optionTitles: ["Index List", "Data Attribute", "Measured"],
+            defaultValue: "index-list",
+            description: "Where the custom element sequence comes from",
+            hidden: (props: any) => !isCustomOrder(props)
+        },
+        
+        customOrderIndices: {
+            type: ControlType.String,
+            title: "Sequence",
+            placeholder: "3, 1, 0, 2",
+            defaultValue: "",
+            description: "Element indices in animation order (0 = first element). Unlisted elements follow in DOM order.",
+            hidden: (props: any) => !isCustomOrder(props) || (props.customOrderSource || "index-list") !== "index-list"
+        },
+        
+        customOrderAttribute: {
+            type: ControlType.String,
+            title: "Attribute",
+            placeholder: "data-stagger-order",
+            defaultValue: "data-stagger-order",
+            description: "Numeric data-* attribute read from each element. Equal values animate together.",
+            hidden: (props: any) => !isCustomOrder(props) || props.customOrderSource !== "attribute"
+        },
+        
+        customOrderMetric: {
+            type: ControlType.Enum,
+            title: "Measure",
+            options: ["width", "height", "area", "pointer-distance"],
+            optionTitles: ["Width", "Height", "Area", "Distance from Pointer"],
+            defaultValue: "area",
+            description: "Element measurement used to sort the sequence",
+            hidden: (props: any) => !isCustomOrder(props) || props.customOrderSource !== "metric"
+        },
+        
+        customOrderDescending: {
+            type: ControlType.Boolean,
+            title: "Sort",
+            enabledTitle: "High → Low",
+            disabledTitle: "Low → High",
+            defaultValue: false,
+            description: "Sort attribute values or measurements from highest to lowest",
+            hidden: (props: any) => !isCustomOrder(props) || (props.customOrderSource || "index-list") === "index-list"
+        },
+    }
+}
+
 /**
  * Creates regular stagger configuration property controls
  * 
@@ -142,8 +217,8 @@ export function createRegularStaggerControls() {
                 simpleOrder: {
                     type: ControlType.Enum,
                     title: "Element Order",
-                    options: ["first-to-last", "last-to-first", "center-out", "edges-in", "random"],
-                    optionTitles: ["First to Last", "Last to First", "Center Outward", "Edges Inward", "Random"],
+                    options: ["first-to-last", "last-to-first", "center-out", "edges-in", "random", "custom"],
+                    optionTitles: ["First to Last", "Last to First", "Center Outward", "Edges Inward", "Random", "Custom"],
                     defaultValue: "first-to-last",
                     description: "Order for sequencing element animations",
                     hidden: (props: any) => props.orderMode !== "simple" || props.strategy === "grid"
@@ -153,8 +228,8 @@ export function createRegularStaggerControls() {
                 forwardOrder: {
                     type: ControlType.Enum,
                     title: "Forward Animation Order",
-                    options: ["first-to-last", "last-to-first", "center-out", "edges-in", "random"],
-                    optionTitles: ["First › Last", "Last › First", "Center › Out", "Edges › In", "Random"],
+                    options: ["first-to-last", "last-to-first", "center-out", "edges-in", "random", "custom"],
+                    optionTitles: ["First › Last", "Last › First", "Center › Out", "Edges › In", "Random", "Custom"],
                     defaultValue: "first-to-last",
                     description: "Element order when animation progresses forward (0 → 1)",
                     hidden: (props: any) => props.orderMode !== "directional" || props.strategy === "grid"
@@ -163,13 +238,16 @@ export function createRegularStaggerControls() {
                 backwardOrder: {
                     type: ControlType.Enum,
                     title: "Backward Animation Order",
-                    options: ["first-to-last", "last-to-first", "center-out", "edges-in", "random"],
-                    optionTitles: ["First › Last", "Last › First", "Center › Out", "Edges › In", "Random"],
+                    options: ["first-to-last", "last-to-first", "center-out", "edges-in", "random", "custom"],
+                    optionTitles: ["First › Last", "Last › First", "Center › Out", "Edges › In", "Random", "Custom"],
                     defaultValue: "last-to-first",
                     description: "Element order when animation progresses backward (1 → 0)",
                     hidden: (props: any) => props.orderMode !== "directional" || props.strategy === "grid"
                 },
                 
+                // 🔀 CUSTOM ORDER: Sequence used by the "Custom" element order
+                ...createCustomOrderControls(usesCustomTimedOrder),
+                
                 // 🌐 GRID STAGGER: Grid-specific configuration
                 // 🆕 NEW: Grid Mode Selector (appears when strategy = "grid")
                 gridMode: {
@@ -367,13 +445,18 @@ export function createScrollStaggerControls() {
                 order: {
                     type: ControlType.Enum,
                     title: "Element Order",
-                    options: ["first-to-last", "last-to-first", "center-out", "edges-in", "random"],
-                    optionTitles: ["First to Last", "Last to First", "Center Outward", "Edges Inward", "Random"],
+                    options: ["first-to-last", "last-to-first", "center-out", "edges-in", "random", "custom"],
+                    optionTitles: ["First to Last", "Last to First", "Center Outward", "Edges Inward", "Random", "Custom"],
                     defaultValue: "first-to-last",
                     description: "Order for sequencing element animations",
                     hidden: (props: any) => props.strategy === "grid"
                 },
 
+                // 🔀 SHARED LINEAR: Custom sequence (when order = custom)
+                ...createCustomOrderControls(
+                    (props: any) => props.strategy !== "grid" && props.order === "custom"
+                ),
+
                 // 🌐 SHARED GRID: Grid mode selector
                 gridMode: {
                     type: ControlType.Enum,
@@ -528,4 +611,164 @@ export function createInterruptBehaviorControls() {
             hidden: (props: any) => isScrollBased(props), // Hide in scrub-based mode
         }
     }
-} 
\ No newline at end of file
+}
+
+/**
+ * Creates reduced motion policy controls
+ * 
+ * @description
+ * Per-slot override of what happens while the visitor has
+ * prefers-reduced-motion enabled. "Inherit" uses the FAME component setting.
+ * 
+ * @returns Property controls object for the reduced motion policy
+ * 
+ * @example
+ * ```typescript
+ * const reducedMotionControls = createReducedMotionControls()
+ * // Returns a single enum control: inherit / normal / skip / crossfade / disable
+ * ```
+ */
+export function createReducedMotionControls() {
+    return {
+        reducedMotion: {
+            type: ControlType.Enum,
+            title: "Reduced Motion",
+            options: [
+                "inherit",
+                ReducedMotionPolicy.NORMAL,
+                ReducedMotionPolicy.SKIP_TO_END,
+                ReducedMotionPolicy.CROSSFADE,
+                ReducedMotionPolicy.DISABLE,
+            ],
+            optionTitles: [
+                "Use Component Setting",
+                "Play Normally",
+                "Skip to End",
+                "Crossfade Opacity",
+                "Disable",
+            ],
+            defaultValue: "inherit",
+            description: "Used when the visitor prefers reduced motion",
+        }
+    }
+}
+
+/**
+ * Creates playback speed controls
+ * 
+ * @description
+ * Per-slot time scale for timed animations (0.5 = slow motion, 2 = double speed).
+ * Hidden in scroll-based mode since scroll position drives progress there.
+ * 
+ * @returns Property controls object for the slot time scale
+ * 
+ * @example
+ * ```typescript
+ * const timeScaleControls = createTimeScaleControls()
+ * // Returns a single number control (default 1)
+ * ```
+ */
+export function createTimeScaleControls() {
+    return {
+        timeScale: {
+            type: ControlType.Number,
+            title: "Time Scale",
+            description: "Playback speed (0.5 = half speed, 2 = double speed)",
+            defaultValue: 1,
+            min: 0.1,
+            max: 5,
+            step: 0.1,
+            displayStepper: true,
+            hidden: (props: any) => isScrollBased(props),
+        }
+    }
+}
+
+/**
+ * Creates off-screen suspension controls
+ * 
+ * @description
+ * Per-slot opt-out of viewport suspension. When on, loops, ping-pongs, running playback
+ * and scroll scrubbing pause while none of the slot's elements are near the viewport,
+ * and continue where they stopped when the elements come back.
+ * 
+ * @returns Property controls object for the off-screen setting
+ * 
+ * @example
+ * ```typescript
+ * const viewportControls = createViewportSuspensionControls()
+ * // Returns a single boolean control (default true)
+ * ```
+ */
+export function createViewportSuspensionControls() {
+    return {
+        pauseWhenOffscreen: {
+            type: ControlType.Boolean,
+            title: "Off-Screen",
+            enabledTitle: "Pause",
+            disabledTitle: "Keep Running",
+            defaultValue: true,
+            description: "Pause while the animated elements are off-screen",
+        }
+    }
+}
+
+/**
+ * Creates execution backend controls
+ * 
+ * @description
+ * Per-slot opt-in to the compositor backend. Timed transform/opacity animations run as
+ * Web Animations and unstaggered scrubbed ones on a native scroll timeline, so they stay
+ * smooth while the main thread is busy. Slots that cannot be compiled keep using JavaScript.
+ * 
+ * @returns Property controls object for the renderer setting
+ * 
+ * @example
+ * ```typescript
+ * const rendererControls = createRendererControls()
+ * // Returns a single boolean control (default false)
+ * ```
+ */
+export function createRendererControls() {
+    return {
+        useCompositor: {
+            type: ControlType.Boolean,
+            title: "Renderer",
+            enabledTitle: "Browser",
+            disabledTitle: "JavaScript",
+            defaultValue: false,
+            description: "Let the browser run transform/opacity animations off the main thread when possible",
+        }
+    }
+}
+
+/**
+ * Creates live element controls
+ * 
+ * @description
+ * Per-slot opt-in to DOM change tracking. When on, the slot re-resolves its animated and
+ * trigger elements whenever CMS lists load more items, paginate or filter, or conditional
+ * layers appear and disappear. New elements get the initial values and join the end of
+ * the stagger; removed ones are released. Only available for time-based animations.
+ * 
+ * @returns Property controls object for the live elements setting
+ * 
+ * @example
+ * ```typescript
+ * const liveControls = createLiveElementControls()
+ * // Returns a single boolean control (default false)
+ * ```
+ */
+export function createLiveElementControls() {
+    return {
+        observeDomChanges: {
+            type: ControlType.Boolean,
+            title: "Elements",
+            enabledTitle: "Live",
+            disabledTitle: "Once",
+            defaultValue: false,
+            description: "Pick up elements added later (CMS load more, filters, conditional layers)",
+            hidden: (props: any) => isScrollBased(props),
+        }
+    }
+}
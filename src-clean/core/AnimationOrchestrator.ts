@@ -50,7 +50,7 @@
  * - Pure orchestration role
  */
 
-import { AnimationSlot, AnimationMode, TriggerElement, AnimatedElement, AnimationProperty, ScrollConfig, StaggerConfig } from "../types/index.ts";
+import { AnimationSlot, AnimationMode, AnimationBehavior, TriggerElement, AnimatedElement, AnimationProperty, ScrollConfig, StaggerConfig, FAMESlotState } from "../types/index.ts";
 import { EventAnimationCoordinator } from "./coordinators/EventAnimationCoordinator.ts";
 import { StyleCoordinator } from "./coordinators/StyleCoordinator.ts";
 import { InitialValueCoordinator } from "./coordinators/InitialValueCoordinator.ts";
@@ -71,6 +71,7 @@ import { AnimationState } from '../types/index.ts';
 import { BehaviorDecision } from './state/BehaviorDecisionEngine.ts';
 import { toInternalFormat } from "../config/adapters/AnimationSlotAdapter.ts";
 import { MasterTimelinePlayer } from './timeline/MasterTimelinePlayer.ts';
+import { resetInitialValues } from '../utils/properties/InitialValueApplicator.ts';
 
 //=======================================
 //          🎬 TIMELINE FEATURE FLAG
@@ -342,6 +343,83 @@ export class AnimationOrchestrator {
         // 🎯 PHASE 1 - STEP 3: Cleanup state manager (will be handled per-slot in event cleanup)
     }
 
+    /**
+     * Return a slot's animated elements to their natural state
+     * Used when a slot stops running while the component stays mounted (e.g. a breakpoint
+     * override turns it off) - the slot's own cleanup stops it but leaves its styles.
+     * @param slot - Slot whose animated properties are reset
+     * @param parentElement - Container element for finding animated elements
+     */
+    resetSlot(slot: AnimationSlot, parentElement: HTMLElement): void {
+        if (slot.properties.length === 0) return;
+
+        slot.animatedElements.forEach(animatedElement => {
+            findAnimatedElementsWithCriteria(parentElement, animatedElement.selection, false)
+                .forEach(element => resetInitialValues(element, slot.properties));
+        });
+        console.log(`🎭 [AnimationOrchestrator] Reset animated elements of slot: ${slot.id}`);
+    }
+
+    //=======================================
+    //          🧩 IMPERATIVE API
+    //=======================================
+    // Used by FAME handles (getFAME, useFAME, FAME overrides). Only event-driven slots are
+    // controllable - scrubbed slots follow the scroll position.
+
+    /**
+     * Play slots with a behavior, as if one of their triggers fired
+     * @param behavior - Behavior to play
+     * @param slotRef - Animation ID or slot ID (omit for every slot)
+     * @param targetLabel - PLAY_TO_LABEL only: timeline label to stop at
+     * @returns Number of slots played
+     */
+    triggerSlots(behavior: AnimationBehavior, slotRef?: string, targetLabel?: string): number {
+        return this.getControllableSlots(slotRef)
+            .filter(slot => this.eventCoordinator.triggerSlot(slot.id, behavior, targetLabel))
+            .length;
+    }
+
+    /**
+     * Pause slots
+     * @param slotRef - Animation ID or slot ID (omit for every slot)
+     */
+    pauseSlots(slotRef?: string): void {
+        this.getControllableSlots(slotRef).forEach(slot => this.eventCoordinator.pauseSlot(slot.id));
+    }
+
+    /**
+     * Resume paused slots
+     * @param slotRef - Animation ID or slot ID (omit for every slot)
+     */
+    resumeSlots(slotRef?: string): void {
+        this.getControllableSlots(slotRef).forEach(slot => this.eventCoordinator.resumeSlot(slot.id));
+    }
+
+    /**
+     * Move slots to a timeline progress
+     * @param progress - Timeline progress (0-1)
+     * @param slotRef - Animation ID or slot ID (omit for every slot)
+     */
+    seekSlots(progress: number, slotRef?: string): void {
+        this.getControllableSlots(slotRef).forEach(slot => this.eventCoordinator.seekSlot(slot, progress));
+    }
+
+    /**
+     * Get playback state snapshots
+     * @param slotRef - Animation ID or slot ID (omit for every slot)
+     */
+    getSlotStates(slotRef?: string): FAMESlotState[] {
+        return this.eventCoordinator.getSlots(slotRef).map(slot => this.eventCoordinator.getSlotState(slot));
+    }
+
+    private getControllableSlots(slotRef?: string): AnimationSlot[] {
+        const slots = this.eventCoordinator.getSlots(slotRef);
+        if (slots.length === 0) {
+            console.warn(`🧩 [AnimationOrchestrator] No event-driven slot ${slotRef ? `"${slotRef}" ` : ''}in component: ${this.componentId}`);
+        }
+        return slots;
+    }
+
     /**
      * Convert property controls format to internal AnimationSlot format
      * This bridges the Framer property controls UI to our clean internal API
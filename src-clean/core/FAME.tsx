@@ -26,11 +26,22 @@
  * - Simple, focused responsibilities
  */
 
-import React, { useRef, useEffect, useLayoutEffect, useState } from "react"
+import React, { useRef, useEffect, useLayoutEffect, useState, useMemo } from "react"
 import { addPropertyControls, ControlType } from "framer"
 
 // Clean architecture imports
-import { FAMEProps, AnimationSlot, DebugConfig } from "../types/index.ts"
+import {
+    FAMEProps,
+    AnimationSlot,
+    AnimationMode,
+    StyleSlot,
+    DebugConfig,
+    ReducedMotionPolicy,
+    PresetImportMode,
+    AnimationLifecycleEvent,
+    AnimationLifecycleDetail,
+    AnimationLifecycleCallback,
+} from "../types/index.ts"
 
 import { CreateAnimationSlotsObject } from "../config/propertyControls/AnimationSlots.ts"
 import { CreateStyleSlotsObject } from "../config/propertyControls/StyleSlots.ts"
@@ -41,7 +52,11 @@ import {
 
 // Import our new data flow components
 import { AnimationOrchestrator } from "./AnimationOrchestrator.ts"
-import { convertSlotArray } from "../config/adapters/AnimationSlotAdapter.ts"
+import {
+    convertSlotArray,
+    convertSlotBreakpoints,
+    resolveReducedMotionPolicy,
+} from "../config/adapters/AnimationSlotAdapter.ts"
 import { StyleCoordinator } from "./coordinators/StyleCoordinator.ts"
 import { convertSlotArray as convertStyleSlotArray } from "../config/adapters/StyleSlotAdapter.ts"
 
@@ -91,6 +106,33 @@ import {
     type LicenseResult 
 } from "../utils/environment/index.ts"
 
+// ♿ NEW: prefers-reduced-motion tracking
+import { reducedMotionManager } from "../utils/environment/ReducedMotion.ts"
+
+// 📱 NEW: Breakpoint variants (per-viewport slot overrides)
+import { viewportBreakpoints } from "../utils/environment/ViewportBreakpoints.ts"
+import {
+    getVariantKey,
+    isDisabledAtViewport,
+    collectBreakpointRanges,
+    resolveAnimationSlotVariant,
+    resolveStyleSlotVariants,
+} from "./breakpoints/SlotVariantResolver.ts"
+
+// 🧩 NEW: Named instances for the imperative API (useFAME, getFAME, FAME overrides)
+import {
+    fameRegistry,
+    createOrchestratorHandle,
+} from "./api/FAMERegistry.ts"
+
+// 📦 NEW: Slot presets (portable JSON import/export)
+import {
+    importSlotPreset,
+    applySlotPreset,
+    exportSlotPreset,
+} from "../config/adapters/SlotPresetAdapter.ts"
+import { EnvironmentDetector } from "../utils/environment/EnvironmentDetector.ts"
+
 /**
  * FAME Animation Component
  *
@@ -104,24 +146,90 @@ import {
  */
 
 
+/**
+ * ♿ Filter out raw slots whose motion is disabled by the reduced motion policy
+ * or by a breakpoint override matching the current viewport
+ * Those slots keep their natural state, so no initial values are applied
+ */
+function getMotionEnabledSlots(
+    animationSlots: any[],
+    componentPolicy: ReducedMotionPolicy
+): any[] {
+    return animationSlots.filter(
+        (slot) =>
+            reducedMotionManager.resolvePolicy(
+                resolveReducedMotionPolicy(slot.reducedMotion) ??
+                    componentPolicy
+            ) !== ReducedMotionPolicy.DISABLE &&
+            !isDisabledAtViewport({
+                breakpoints: convertSlotBreakpoints(slot.breakpoints),
+            })
+    )
+}
+
+/**
+ * 📣 Lifecycle CustomEvent name → FAME prop that receives it
+ */
+const LIFECYCLE_EVENT_PROPS: Record<AnimationLifecycleEvent, keyof FAMEProps> = {
+    [AnimationLifecycleEvent.START]: "onAnimationStart",
+    [AnimationLifecycleEvent.UPDATE]: "onAnimationUpdate",
+    [AnimationLifecycleEvent.COMPLETE]: "onAnimationComplete",
+    [AnimationLifecycleEvent.REVERSE_COMPLETE]: "onAnimationReverseComplete",
+    [AnimationLifecycleEvent.LOOP]: "onAnimationLoop",
+    [AnimationLifecycleEvent.INTERRUPT]: "onAnimationInterrupt",
+}
+
 /**
  * 
  * @framerDisableUnlink
  */
 export default function FAME_Beta(props: FAMEProps) {
     const {
-        animationSlots = [],
-        styleSlots = [],
+        animationSlots: controlAnimationSlots = [],
+        styleSlots: controlStyleSlots = [],
+        slotPreset = "",
+        presetMode = PresetImportMode.APPEND,
         debug = false,
         disabled = false,
         showInitialValuesInCanvas = false,
         showStyleSlotsInCanvas = false,
         showFameElement = false,
         hideFromCanvas = false,
+        reducedMotion = ReducedMotionPolicy.NORMAL,
+        name = "",
         debugConfig,
         children,
     } = props
 
+    // 📦 NEW: Parse, migrate and validate the pasted preset once per change
+    const presetImport = useMemo(() => {
+        const result = importSlotPreset(slotPreset)
+        if (!result.isValid) {
+            console.error(
+                `📦 [FAME] Preset not imported (${result.errors.length} error${result.errors.length === 1 ? "" : "s"}):\n` +
+                    result.errors.map((error) => `  ${error.message}`).join("\n")
+            )
+        } else if (result.warnings?.length) {
+            console.warn(
+                `📦 [FAME] Preset imported with warnings:\n` +
+                    result.warnings.map((warning) => `  ${warning}`).join("\n")
+            )
+        }
+        return result
+    }, [slotPreset])
+
+    // Without a preset these are the property controls arrays themselves
+    const { animationSlots, styleSlots } = useMemo(
+        () =>
+            applySlotPreset(
+                controlAnimationSlots,
+                controlStyleSlots,
+                presetImport.preset,
+                presetMode
+            ),
+        [controlAnimationSlots, controlStyleSlots, presetImport, presetMode]
+    )
+
     // Refs for component state
     const elementRef = useRef<HTMLDivElement>(null)
     const componentIdRef = useRef<string>(
@@ -132,6 +240,81 @@ export default function FAME_Beta(props: FAMEProps) {
     const orchestratorRef = useRef<AnimationOrchestrator | null>(null)
     const styleCoordinatorRef = useRef<StyleCoordinator | null>(null)
 
+    // 📱 NEW: Converted slots and per-slot executions, so breakpoint changes can
+    // re-resolve and re-execute single slots without another adapter pass
+    const convertedSlotsRef = useRef<AnimationSlot[]>([])
+    const convertedStyleSlotsRef = useRef<StyleSlot[]>([])
+    const slotCleanupsRef = useRef<Map<string, () => void>>(new Map())
+    const variantKeysRef = useRef<Map<string, string>>(new Map())
+    const styleVariantKeyRef = useRef<string>("")
+    const stopBreakpointWatchRef = useRef<(() => void) | null>(null)
+    const breakpointUpdateRef = useRef<Promise<void>>(Promise.resolve())
+
+    // ♿ NEW: Re-initialize when the visitor toggles prefers-reduced-motion
+    const [prefersReducedMotion, setPrefersReducedMotion] = useState<boolean>(
+        () => reducedMotionManager.prefersReducedMotion()
+    )
+
+    useEffect(() => {
+        return reducedMotionManager.subscribe(setPrefersReducedMotion)
+    }, [])
+
+    // 📣 NEW: Forward lifecycle CustomEvents to the onAnimation* props
+    // Latest props are read through a ref so changing a callback never re-initializes animations
+    const propsRef = useRef<FAMEProps>(props)
+    propsRef.current = props
+
+    useEffect(() => {
+        const componentElement = elementRef.current
+        if (!componentElement) return
+
+        const handleLifecycleEvent = (event: Event) => {
+            const detail = (event as CustomEvent<AnimationLifecycleDetail>).detail
+            // Nested FAME components dispatch their own events - only forward ours
+            if (!detail || detail.componentId !== componentIdRef.current) return
+
+            const callback = propsRef.current[
+                LIFECYCLE_EVENT_PROPS[detail.type]
+            ] as AnimationLifecycleCallback | undefined
+            callback?.(detail)
+        }
+
+        const eventNames = Object.keys(LIFECYCLE_EVENT_PROPS)
+        eventNames.forEach((eventName) =>
+            componentElement.addEventListener(eventName, handleLifecycleEvent)
+        )
+        return () => {
+            eventNames.forEach((eventName) =>
+                componentElement.removeEventListener(
+                    eventName,
+                    handleLifecycleEvent
+                )
+            )
+        }
+    }, [])
+
+    // 📦 NEW: Latest slots for exportPreset (panel slots plus imported preset slots)
+    const presetSlotsRef = useRef({ animationSlots, styleSlots })
+    presetSlotsRef.current = { animationSlots, styleSlots }
+
+    // 🧩 NEW: Register under the instance name while mounted
+    // The handle reads orchestratorRef on every call, so it survives re-initialization
+    useEffect(() => {
+        if (!name.trim()) return
+        return fameRegistry.register(
+            name,
+            createOrchestratorHandle(
+                () => orchestratorRef.current,
+                (presetName) =>
+                    exportSlotPreset(
+                        presetSlotsRef.current.animationSlots,
+                        presetSlotsRef.current.styleSlots,
+                        presetName
+                    )
+            )
+        )
+    }, [name])
+
     // Track if we're in an initialization cycle to prevent loops
     const isInitializingRef = useRef<boolean>(false)
     const lastInitPropsRef = useRef<string>("")
@@ -198,6 +381,91 @@ export default function FAME_Beta(props: FAMEProps) {
           )
         : null
 
+    // 📱 NEW: Stop watching breakpoints and tear down every executed slot
+    const disposeSlotExecutions = () => {
+        stopBreakpointWatchRef.current?.()
+        stopBreakpointWatchRef.current = null
+
+        slotCleanupsRef.current.forEach((cleanup) => cleanup())
+        slotCleanupsRef.current.clear()
+        variantKeysRef.current.clear()
+    }
+
+    // 📱 NEW: Re-execute only the slots whose matching breakpoint overrides changed
+    const applyBreakpointVariants = async () => {
+        const componentElement = elementRef.current
+        const orchestrator = orchestratorRef.current
+        if (!componentElement || !orchestrator || isInitializingRef.current) {
+            return
+        }
+
+        for (const slot of convertedSlotsRef.current) {
+            const variantKey = getVariantKey(slot)
+            if (variantKeysRef.current.get(slot.id) === variantKey) continue
+            variantKeysRef.current.set(slot.id, variantKey)
+
+            // Carry the playback position over to the new variant
+            const progress = animationStateManager.getState(slot.id)?.progress ?? 0
+
+            slotCleanupsRef.current.get(slot.id)?.()
+            slotCleanupsRef.current.delete(slot.id)
+
+            const resolvedSlot = resolveAnimationSlotVariant(slot)
+            if (!resolvedSlot) {
+                orchestrator.resetSlot(slot, componentElement)
+                console.log(
+                    `📱 [FAME] Slot ${slot.id} turned off at this viewport width`
+                )
+                continue
+            }
+
+            const cleanup = await orchestrator.executeSlot(
+                resolvedSlot,
+                componentElement,
+                showInitialValuesInCanvas,
+                {
+                    updateElementRefs,
+                    registerForSplitCallbacks,
+                    retargetAnimations,
+                    addRetargetCallback,
+                }
+            )
+
+            // Re-initialized while executing - the new run owns the slots now
+            if (orchestratorRef.current !== orchestrator) {
+                cleanup()
+                return
+            }
+            slotCleanupsRef.current.set(slot.id, cleanup)
+
+            if (
+                progress > 0 &&
+                resolvedSlot.animationMode === AnimationMode.TIMED
+            ) {
+                orchestrator.seekSlots(progress, slot.id)
+            }
+            console.log(
+                `📱 [FAME] Slot ${slot.id} re-applied for breakpoint variant [${variantKey}]`
+            )
+        }
+
+        const styleVariantKey = convertedStyleSlotsRef.current
+            .map(getVariantKey)
+            .join("|")
+        if (
+            styleVariantKey !== styleVariantKeyRef.current &&
+            styleCoordinatorRef.current
+        ) {
+            styleVariantKeyRef.current = styleVariantKey
+            styleCoordinatorRef.current.cleanup(componentElement)
+            styleCoordinatorRef.current.applyStyleSlots(
+                resolveStyleSlotVariants(convertedStyleSlotsRef.current),
+                componentElement,
+                showStyleSlotsInCanvas
+            )
+        }
+    }
+
     // Synchronise global console filtering with component debug prop
     useEffect(() => {
         setDebugLogging(debug)
@@ -237,6 +505,8 @@ export default function FAME_Beta(props: FAMEProps) {
             disabled,
             showInitialValuesInCanvas,
             showStyleSlotsInCanvas,
+            reducedMotion,
+            prefersReducedMotion,
         })
 
         // Skip if props haven't changed (prevents unnecessary re-init)
@@ -274,7 +544,7 @@ export default function FAME_Beta(props: FAMEProps) {
                 // REMOVED: ScrollCacheManager was causing performance issues
 
                 const immediateStyleSuccess = applyImmediateInitialStyles(
-                    animationSlots,
+                    getMotionEnabledSlots(animationSlots, reducedMotion),
                     componentElement,
                     showInitialValuesInCanvas
                 )
@@ -358,6 +628,9 @@ export default function FAME_Beta(props: FAMEProps) {
             // }, 100) // Delay to avoid blocking initial render
 
             // Clean up existing coordinators
+            disposeSlotExecutions()
+            convertedSlotsRef.current = []
+            convertedStyleSlotsRef.current = []
             if (orchestratorRef.current) {
                 orchestratorRef.current.cleanup()
             }
@@ -493,11 +766,14 @@ export default function FAME_Beta(props: FAMEProps) {
                     )
 
                     const internalSlots: AnimationSlot[] =
-                        convertSlotArray(animationSlots)
+                        convertSlotArray(animationSlots, reducedMotion)
                     console.log(
                         `🎭 [FAME] Successfully converted ${internalSlots.length} animation slots`
                     )
 
+                    // 📱 Keep the converted slots - breakpoint changes re-resolve them without the adapter
+                    convertedSlotsRef.current = internalSlots
+
                     // STEP 2: Route each slot through the orchestrator
                     console.log(
                         "🎭 [FAME] Step 2: Routing slots through AnimationOrchestrator"
@@ -516,6 +792,16 @@ export default function FAME_Beta(props: FAMEProps) {
                         const slot = internalSlots[index]
 
                         try {
+                            // 📱 Apply the breakpoint overrides matching the current viewport
+                            variantKeysRef.current.set(slot.id, getVariantKey(slot))
+                            const resolvedSlot = resolveAnimationSlotVariant(slot)
+                            if (!resolvedSlot) {
+                                console.log(
+                                    `📱 [FAME] Slot ${slot.id} is turned off at this viewport width`
+                                )
+                                continue
+                            }
+
                             console.log(
                                 `🎭 [FAME] Processing slot ${index + 1}/${internalSlots.length}:`,
                                 {
@@ -546,7 +832,7 @@ export default function FAME_Beta(props: FAMEProps) {
                             // Execute slot through orchestrator
                             const cleanup =
                                 await orchestratorRef.current?.executeSlot(
-                                    slot,
+                                    resolvedSlot,
                                     componentElement,
                                     showInitialValuesInCanvas,
                                     {
@@ -557,9 +843,9 @@ export default function FAME_Beta(props: FAMEProps) {
                                     }
                                 )
 
-                            // Store cleanup function (simplified for now)
+                            // Keep the cleanup so the slot can be re-executed alone on breakpoint changes
                             if (cleanup) {
-                                // TODO: Store cleanup functions properly
+                                slotCleanupsRef.current.set(slot.id, cleanup)
                             }
 
                             // 🚀 PERFORMANCE: Yield control to browser every 2 slots to prevent blocking
@@ -618,6 +904,12 @@ export default function FAME_Beta(props: FAMEProps) {
                     `🎭 [FAME] Successfully converted ${internalStyleSlots.length} style slots`
                 )
 
+                // 📱 Keep the converted slots and apply the overrides matching the viewport
+                convertedStyleSlotsRef.current = internalStyleSlots
+                styleVariantKeyRef.current = internalStyleSlots
+                    .map(getVariantKey)
+                    .join("|")
+
                 // STEP 2: Apply styles immediately via StyleCoordinator
                 console.log(
                     "🎭 [FAME] Step 2: Applying styles via StyleCoordinator"
@@ -625,7 +917,7 @@ export default function FAME_Beta(props: FAMEProps) {
 
                 if (styleCoordinatorRef.current) {
                     styleCoordinatorRef.current.applyStyleSlots(
-                        internalStyleSlots,
+                        resolveStyleSlotVariants(internalStyleSlots),
                         componentElement,
                         showStyleSlotsInCanvas
                     )
@@ -640,6 +932,28 @@ export default function FAME_Beta(props: FAMEProps) {
                 console.log("🎭 [FAME] No style slots to process")
             }
 
+            // 📱 NEW: Re-apply breakpoint overrides when the viewport crosses one of their ranges
+            const breakpointRanges = collectBreakpointRanges([
+                ...convertedSlotsRef.current,
+                ...convertedStyleSlotsRef.current,
+            ])
+            if (breakpointRanges.length > 0) {
+                stopBreakpointWatchRef.current = viewportBreakpoints.subscribe(
+                    breakpointRanges,
+                    () => {
+                        // Updates run one after another so slot cleanups never interleave
+                        breakpointUpdateRef.current = breakpointUpdateRef.current
+                            .then(applyBreakpointVariants)
+                            .catch((error) =>
+                                console.error(
+                                    "📱 [FAME] Error applying breakpoint variants:",
+                                    error
+                                )
+                            )
+                    }
+                )
+            }
+
             // 🔄 NEW: Save current state after initialization
             if (breakpointPersistence) {
                 breakpointPersistence.saveCurrentState()
@@ -682,7 +996,7 @@ export default function FAME_Beta(props: FAMEProps) {
         // Ensure cache and initial styles are ready before first paint
         initializeStyleCache()
         applyImmediateInitialStyles(
-            animationSlots,
+            getMotionEnabledSlots(animationSlots, reducedMotion),
             componentElement,
             showInitialValuesInCanvas
         )
@@ -702,6 +1016,8 @@ export default function FAME_Beta(props: FAMEProps) {
         showInitialValuesInCanvas,
         showStyleSlotsInCanvas,
         refsVersion,
+        reducedMotion,
+        prefersReducedMotion,
     ])
 
     // 🔄 NEW: Cleanup function enhanced with state persistence
@@ -717,6 +1033,7 @@ export default function FAME_Beta(props: FAMEProps) {
             }
 
             // Cleanup coordinators
+            disposeSlotExecutions()
             if (orchestratorRef.current) {
                 orchestratorRef.current.cleanup()
                 orchestratorRef.current = null
@@ -800,6 +1117,7 @@ export default function FAME_Beta(props: FAMEProps) {
             }}
             data-fame-animator="true"
             data-component-id={componentIdRef.current}
+            data-fame-name={name.trim() || undefined}
             data-fame-fresh-init="true"
             data-breakpoint={
                 breakpointPersistence?.currentBreakpoint || "unknown"
@@ -818,6 +1136,21 @@ export default function FAME_Beta(props: FAMEProps) {
                     {breakpointPersistence?.currentBreakpoint || "N/A"}
                 </div>
             )}
+            {!presetImport.isValid && EnvironmentDetector.isCanvas() && (
+                <div
+                    style={{
+                        fontSize: "12px",
+                        color: "rgba(220, 38, 38, 1)",
+                        textAlign: "center",
+                    }}
+                >
+                    Preset not imported
+                    <br />
+                    {presetImport.errors[0]?.message}
+                    {presetImport.errors.length > 1 &&
+                        ` (+${presetImport.errors.length - 1} more in console)`}
+                </div>
+            )}
         </div>
     )
 }
@@ -831,6 +1164,10 @@ FAME_Beta.defaultProps = {
     disabled: false,
     showInitialValuesInCanvas: false,
     showStyleSlotsInCanvas: false,
+    reducedMotion: ReducedMotionPolicy.NORMAL,
+    name: "",
+    slotPreset: "",
+    presetMode: PresetImportMode.APPEND,
 }
 
 // Property controls - connecting our clean AnimationSlots
@@ -872,6 +1209,28 @@ addPropertyControls(FAME_Beta, {
         defaultValue:false,
     },
 
+    reducedMotion: {
+        type: ControlType.Enum,
+        title: "Reduced Motion",
+        options: [
+            ReducedMotionPolicy.NORMAL,
+            ReducedMotionPolicy.SKIP_TO_END,
+            ReducedMotionPolicy.CROSSFADE,
+            ReducedMotionPolicy.DISABLE,
+        ],
+        optionTitles: ["Play Normally", "Skip to End", "Crossfade Opacity", "Disable"],
+        defaultValue: ReducedMotionPolicy.NORMAL,
+        description: "When the visitor prefers reduced motion (slots can override)",
+    },
+
+    name: {
+        type: ControlType.String,
+        title: "Instance Name",
+        placeholder: "e.g. hero",
+        defaultValue: "",
+        description: "Control this instance from code with useFAME(name) or FAME overrides",
+    },
+
     // showStyleSlotsInCanvas: {
     //     type: ControlType.Boolean,
     //     title: "Show Style Slots in Canvas",
@@ -882,6 +1241,27 @@ addPropertyControls(FAME_Beta, {
     // Main animation slots - using our clean property controls
     animationSlots: CreateAnimationSlotsObject().animationSlots as any,
 
+    // 📦 Preset import - paste JSON from exportPreset() of another FAME instance
+    slotPreset: {
+        type: ControlType.String,
+        title: "Preset",
+        placeholder: "Paste preset JSON",
+        defaultValue: "",
+        displayTextArea: true,
+        description: "Export with getFAME(name).exportPreset()",
+    },
+
+    presetMode: {
+        type: ControlType.Enum,
+        title: "Preset Slots",
+        description: "Add after or replace the slots set in this panel",
+        options: [PresetImportMode.APPEND, PresetImportMode.REPLACE],
+        optionTitles: ["Add", "Replace"],
+        defaultValue: PresetImportMode.APPEND,
+        displaySegmentedControl: true,
+        hidden: (props: any) => !props.slotPreset?.trim(),
+    },
+
     // Style slots - using our clean style property controls
     //styleSlots: CreateStyleSlotsObject().styleSlots as any,
 })
@@ -0,0 +1,125 @@
+/**
+ * FAME Animation System - Override Factory
+ *
+ * @fileOverview Framer code overrides that drive named FAME instances
+ * @version 1.0.0
+ * @status ACTIVE
+ *
+ * @description
+ * Builds Framer overrides that call a FAME instance's imperative API when the overridden
+ * canvas element is tapped or hovered, replacing hidden trigger elements and faked clicks.
+ * The element's own onTap / onHoverStart / onHoverEnd handlers keep working.
+ *
+ * @reference
+ * components-reference/how_code_components_&_overrides_work.md
+ * - Override factories (withAnalytics(elementName) pattern)
+ * - Preserving original props and handlers
+ *
+ * @example
+ * ```tsx
+ * // Overrides file in Framer
+ * export const withPlayIntro = createFAMEOverride("hero", "play", { slot: "intro" })
+ * export const withToggleMenu = createFAMEOverride("nav", "toggle")
+ * export const withPreviewOnHover = createFAMEOverride("card", "play", { on: "hoverStart" })
+ * export const withJumpToOpen = createFAMEOverride("drawer", "playToLabel", { label: "open" })
+ * ```
+ */
+
+import React, { type ComponentType } from "react"
+import { getFAME } from "./FAMERegistry.ts"
+
+/**
+ * What an override does to the FAME instance
+ */
+export type FAMEOverrideAction =
+    | "play"
+    | "reverse"
+    | "toggle"
+    | "pause"
+    | "resume"
+    | "togglePause"
+    | "seek"
+    | "playToLabel"
+
+/**
+ * Which interaction of the overridden element runs the action
+ */
+export type FAMEOverrideEvent = "tap" | "hoverStart" | "hoverEnd"
+
+export interface FAMEOverrideOptions {
+    slot?: string // Animation ID of the slot (default: every event-driven slot)
+    on?: FAMEOverrideEvent // Default: "tap"
+    progress?: number // "seek" only: timeline progress (0-1)
+    label?: string // "playToLabel" only: timeline label
+}
+
+/** Element prop receiving the handler for each interaction */
+const EVENT_HANDLER_PROPS: Record<FAMEOverrideEvent, string> = {
+    tap: "onTap",
+    hoverStart: "onHoverStart",
+    hoverEnd: "onHoverEnd",
+}
+
+/**
+ * Create a Framer override that runs a FAME action
+ * @param name - Instance name set on the FAME component
+ * @param action - Action to run
+ * @param options - Slot, interaction and action arguments
+ * @returns Override to export from a Framer overrides file
+ */
+export function createFAMEOverride(
+    name: string,
+    action: FAMEOverrideAction,
+    options: FAMEOverrideOptions = {}
+) {
+    const fame = getFAME(name)
+    const { slot, on = "tap", progress = 0, label = "" } = options
+    const handlerProp = EVENT_HANDLER_PROPS[on]
+
+    const runAction = () => {
+        switch (action) {
+            case "play":
+                fame.play(slot)
+                break
+            case "reverse":
+                fame.reverse(slot)
+                break
+            case "toggle":
+                fame.toggle(slot)
+                break
+            case "pause":
+                fame.pause(slot)
+                break
+            case "resume":
+                fame.resume(slot)
+                break
+            case "togglePause":
+                if (fame.isPaused(slot)) {
+                    fame.resume(slot)
+                } else {
+                    fame.pause(slot)
+                }
+                break
+            case "seek":
+                fame.seek(progress, slot)
+                break
+            case "playToLabel":
+                fame.playToLabel(label, slot)
+                break
+        }
+    }
+
+    return (Component: ComponentType<any>): ComponentType<any> => {
+        const FAMEOverride = (props: any) => {
+            const handleEvent = (...args: unknown[]) => {
+                runAction()
+                // Preserve original handler if exists
+                if (props[handlerProp]) props[handlerProp](...args)
+            }
+
+            return <Component {...props} {...{ [handlerProp]: handleEvent }} />
+        }
+        FAMEOverride.displayName = `FAMEOverride(${name}, ${action})`
+        return FAMEOverride
+    }
+}
@@ -0,0 +1,199 @@
+/**
+ * FAME Animation System - Instance Registry
+ *
+ * @fileOverview Named FAME instances controllable from code components and overrides
+ * @version 1.0.0
+ * @status ACTIVE
+ *
+ * @description
+ * A FAME component with an Instance Name registers a FAMEHandle here while it is mounted.
+ * Code can then play, reverse, toggle, seek or pause its event-driven slots directly instead
+ * of faking clicks on hidden trigger elements:
+ *
+ * - getFAME(name)       - handle for imperative code (event handlers, overrides)
+ * - useFAME(name)       - React hook, re-renders when the instance mounts or unmounts
+ * - createFAMEOverride  - Framer override factory (see FAMEOverrides.tsx)
+ *
+ * Actions take an optional slot (Animation ID). Without it they apply to every event-driven
+ * slot of the instance. Handles forward to the orchestrator the instance is currently using,
+ * so they stay valid when FAME re-initializes (breakpoint changes, prop edits).
+ *
+ * The registry lives on globalThis so FAME instances and overrides from separately bundled
+ * Framer code files share it.
+ *
+ * @example
+ * ```typescript
+ * const hero = getFAME('hero');
+ * hero.play('intro');
+ * hero.seek(0.5, 'intro');
+ * console.log(hero.getState('intro')?.progress);
+ * const presetJson = hero.exportPreset('Hero intro'); // paste into another FAME's Preset control
+ * ```
+ */
+
+import { AnimationBehavior, AnimationStatus, type FAMEHandle, type FAMESlotState } from '../../types/index.ts';
+import type { AnimationOrchestrator } from '../AnimationOrchestrator.ts';
+
+/** globalThis key holding the shared registry */
+const REGISTRY_GLOBAL_KEY = '__FAME_REGISTRY__';
+
+/**
+ * Listener notified when an instance name is registered or unregistered
+ */
+export type FAMERegistryListener = (handle: FAMEHandle | null) => void;
+
+/**
+ * FAME Registry
+ *
+ * Maps instance names to the handle of the mounted FAME instance.
+ */
+export class FAMERegistry {
+    private handles: Map<string, FAMEHandle> = new Map();
+    private listeners: Map<string, Set<FAMERegistryListener>> = new Map();
+
+    /**
+     * Get singleton instance (shared across bundles through globalThis)
+     */
+    static getInstance(): FAMERegistry {
+        const globalScope = globalThis as typeof globalThis & { [REGISTRY_GLOBAL_KEY]?: FAMERegistry };
+        if (!globalScope[REGISTRY_GLOBAL_KEY]) {
+            globalScope[REGISTRY_GLOBAL_KEY] = new FAMERegistry();
+        }
+        return globalScope[REGISTRY_GLOBAL_KEY];
+    }
+
+    private constructor() {}
+
+    /**
+     * Register a mounted instance
+     * A later registration with the same name replaces the earlier one until it unregisters.
+     * @param name - Instance name
+     * @param handle - Handle controlling the instance
+     * @returns Cleanup function that unregisters the handle
+     */
+    register(name: string, handle: FAMEHandle): () => void {
+        const normalizedName = name.trim();
+        if (!normalizedName) return () => {};
+
+        if (this.handles.has(normalizedName)) {
+            console.warn(`🧩 [FAMERegistry] Instance name "${normalizedName}" is used more than once - the latest instance wins`);
+        }
+
+        this.handles.set(normalizedName, handle);
+        this.notify(normalizedName, handle);
+
+        return () => {
+            if (this.handles.get(normalizedName) === handle) {
+                this.handles.delete(normalizedName);
+                this.notify(normalizedName, null);
+            }
+        };
+    }
+
+    /**
+     * Get the handle of a mounted instance
+     * @param name - Instance name
+     */
+    get(name: string): FAMEHandle | null {
+        return this.handles.get(name.trim()) || null;
+    }
+
+    /**
+     * Names of every mounted instance
+     */
+    getNames(): string[] {
+        return Array.from(this.handles.keys());
+    }
+
+    /**
+     * Listen for an instance name being registered or unregistered
+     * @param name - Instance name
+     * @param listener - Called with the new handle, or null when the instance unmounts
+     * @returns Cleanup function that removes the listener
+     */
+    subscribe(name: string, listener: FAMERegistryListener): () => void {
+        const normalizedName = name.trim();
+        if (!this.listeners.has(normalizedName)) {
+            this.listeners.set(normalizedName, new Set());
+        }
+        this.listeners.get(normalizedName)!.add(listener);
+
+        return () => {
+            const nameListeners = this.listeners.get(normalizedName);
+            nameListeners?.delete(listener);
+            if (nameListeners?.size === 0) {
+                this.listeners.delete(normalizedName);
+            }
+        };
+    }
+
+    private notify(name: string, handle: FAMEHandle | null): void {
+        this.listeners.get(name)?.forEach(listener => listener(handle));
+    }
+}
+
+// Export singleton instance for use across the system
+export const fameRegistry = FAMERegistry.getInstance();
+
+/**
+ * Create the handle a FAME component registers
+ * @param getOrchestrator - Returns the orchestrator the instance currently uses (it is recreated on re-initialization)
+ * @param exportPreset - Serializes the instance's current slots as SlotPreset JSON
+ */
+export function createOrchestratorHandle(
+    getOrchestrator: () => AnimationOrchestrator | null,
+    exportPreset: (presetName?: string) => string
+): FAMEHandle {
+    const getStates = (slot?: string): FAMESlotState[] => getOrchestrator()?.getSlotStates(slot) || [];
+
+    return {
+        play: (slot) => { getOrchestrator()?.triggerSlots(AnimationBehavior.PLAY_FORWARD, slot); },
+        reverse: (slot) => { getOrchestrator()?.triggerSlots(AnimationBehavior.PLAY_BACKWARD, slot); },
+        toggle: (slot) => { getOrchestrator()?.triggerSlots(AnimationBehavior.TOGGLE, slot); },
+        playToLabel: (label, slot) => { getOrchestrator()?.triggerSlots(AnimationBehavior.PLAY_TO_LABEL, slot, label); },
+        seek: (progress, slot) => getOrchestrator()?.seekSlots(progress, slot),
+        pause: (slot) => getOrchestrator()?.pauseSlots(slot),
+        resume: (slot) => getOrchestrator()?.resumeSlots(slot),
+        getState: (slot) => getStates(slot)[0] || null,
+        getStates: () => getStates(),
+        isPlaying: (slot) => getStates(slot).some(state => state.status === AnimationStatus.RUNNING && !state.isPaused),
+        isPaused: (slot) => getStates(slot).some(state => state.isPaused),
+        getProgress: (slot) => getStates(slot)[0]?.progress ?? 0,
+        exportPreset,
+    };
+}
+
+/**
+ * Get a handle for a named FAME instance
+ *
+ * The handle looks the instance up on every call, so it can be created before the instance
+ * mounts (e.g. at module level in an override file). Calls while no instance with that name
+ * is mounted are ignored with a warning; queries return empty state and exportPreset an empty string.
+ *
+ * @param name - Instance name set on the FAME component
+ */
+export function getFAME(name: string): FAMEHandle {
+    const resolve = (): FAMEHandle | null => {
+        const handle = fameRegistry.get(name);
+        if (!handle) {
+            console.warn(`🧩 [FAMERegistry] No FAME instance named "${name}" is mounted`);
+        }
+        return handle;
+    };
+
+    return {
+        play: (slot) => resolve()?.play(slot),
+        reverse: (slot) => resolve()?.reverse(slot),
+        toggle: (slot) => resolve()?.toggle(slot),
+        playToLabel: (label, slot) => resolve()?.playToLabel(label, slot),
+        seek: (progress, slot) => resolve()?.seek(progress, slot),
+        pause: (slot) => resolve()?.pause(slot),
+        resume: (slot) => resolve()?.resume(slot),
+        getState: (slot) => fameRegistry.get(name)?.getState(slot) ?? null,
+        getStates: () => fameRegistry.get(name)?.getStates() ?? [],
+        isPlaying: (slot) => fameRegistry.get(name)?.isPlaying(slot) ?? false,
+        isPaused: (slot) => fameRegistry.get(name)?.isPaused(slot) ?? false,
+        getProgress: (slot) => fameRegistry.get(name)?.getProgress(slot) ?? 0,
+        exportPreset: (presetName) => resolve()?.exportPreset(presetName) ?? '',
+    };
+}
@@ -0,0 +1,187 @@
+/**
+ * @file SlotVariantResolver.ts
+ * @description Applies a slot's matching breakpoint overrides to its converted configuration
+ *
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @description
+ * Slots are converted from property controls once. Their `breakpoints` overrides stay on
+ * the internal slot and are resolved here against the current viewport, so a viewport
+ * change only needs the affected slots re-executed - not another adapter pass.
+ *
+ * Resolution rules:
+ * - Overrides whose width range matches apply in list order, later ones win
+ * - `disabled` removes the slot for as long as the viewport stays in the range
+ * - Property overrides replace values and timing of every instance of that property;
+ *   the master timeline is rebuilt from the result, keeping labels and global settings
+ * - Style overrides replace same-named style properties and add the others
+ *
+ * The variant key identifies the set of matching overrides. Slots whose key did not
+ * change across a viewport change keep running untouched.
+ *
+ * @example
+ * ```typescript
+ * const key = getVariantKey(slot);
+ * const resolved = resolveAnimationSlotVariant(slot); // null while disabled
+ * ```
+ */
+
+import {
+    AnimationSlot,
+    AnimationProperty,
+    AnimationPropertyOverride,
+    StyleSlot,
+    StyleProperty,
+    ViewportRange,
+    TimelineLabel,
+} from '../../types/index.ts';
+import { viewportBreakpoints } from '../../utils/environment/ViewportBreakpoints.ts';
+import { MasterTimeline, MasterTimelineBuilder } from '../timeline/MasterTimeline.ts';
+
+/**
+ * Slot shape shared by animation and style slots
+ */
+interface SlotWithBreakpoints {
+    breakpoints?: (ViewportRange & { disabled?: boolean })[];
+}
+
+/**
+ * Indices of the overrides matching the current viewport
+ */
+function getActiveOverrideIndices(slot: SlotWithBreakpoints): number[] {
+    const indices: number[] = [];
+    slot.breakpoints?.forEach((override, index) => {
+        if (viewportBreakpoints.matches(override)) {
+            indices.push(index);
+        }
+    });
+    return indices;
+}
+
+/**
+ * Identify the set of overrides matching the current viewport
+ * @returns Key that changes whenever a different set of overrides applies
+ */
+export function getVariantKey(slot: SlotWithBreakpoints): string {
+    return getActiveOverrideIndices(slot).join(',');
+}
+
+/**
+ * Check if a matching override disables the slot at the current viewport
+ */
+export function isDisabledAtViewport(slot: SlotWithBreakpoints): boolean {
+    return getActiveOverrideIndices(slot).some(index => slot.breakpoints![index].disabled === true);
+}
+
+/**
+ * Collect the width ranges of a set of slots, for viewport change subscriptions
+ */
+export function collectBreakpointRanges(slots: SlotWithBreakpoints[]): ViewportRange[] {
+    return slots.flatMap(slot => slot.breakpoints || []);
+}
+
+/**
+ * Resolve an animation slot for the current viewport
+ * @param slot - Converted slot including its breakpoint overrides
+ * @returns The slot with matching overrides applied (the slot itself when none match),
+ *          or null when a matching override disables it
+ */
+export function resolveAnimationSlotVariant(slot: AnimationSlot): AnimationSlot | null {
+    const activeOverrides = getActiveOverrideIndices(slot).map(index => slot.breakpoints![index]);
+    if (activeOverrides.length === 0) return slot;
+    if (activeOverrides.some(override => override.disabled === true)) return null;
+
+    const resolved: AnimationSlot = { ...slot };
+
+    const propertyOverrides = activeOverrides.flatMap(override => override.properties || []);
+    if (propertyOverrides.length > 0) {
+        resolved.properties = slot.properties.map(property =>
+            applyPropertyOverrides(property, propertyOverrides.filter(override => override.property === property.property))
+        );
+        rebuildMasterTimeline(resolved, slot.masterTimeline as MasterTimeline | undefined);
+    }
+
+    activeOverrides.forEach(override => {
+        if (override.staggering === undefined) return;
+        if (override.staggering === null) {
+            delete resolved.staggering;
+        } else {
+            resolved.staggering = override.staggering;
+        }
+    });
+
+    console.log(`📱 [SlotVariantResolver] Slot ${slot.id} uses ${activeOverrides.length} breakpoint override(s)`);
+    return resolved;
+}
+
+/**
+ * Resolve style slots for the current viewport
+ * @param slots - Converted style slots including their breakpoint overrides
+ * @returns Enabled slots with matching overrides applied
+ */
+export function resolveStyleSlotVariants(slots: StyleSlot[]): StyleSlot[] {
+    return slots.flatMap(slot => {
+        const activeOverrides = getActiveOverrideIndices(slot).map(index => slot.breakpoints![index]);
+        if (activeOverrides.length === 0) return [slot];
+        if (activeOverrides.some(override => override.disabled === true)) return [];
+
+        const styleProperties = new Map<string, StyleProperty>(
+            slot.styleProperties.map(styleProperty => [styleProperty.property, styleProperty])
+        );
+        activeOverrides.forEach(override => {
+            override.styleProperties?.forEach(styleProperty => {
+                styleProperties.set(styleProperty.property, styleProperty);
+            });
+        });
+
+        return [{ ...slot, styleProperties: Array.from(styleProperties.values()) }];
+    });
+}
+
+/**
+ * Apply the overrides of one property in order
+ */
+function applyPropertyOverrides(
+    property: AnimationProperty,
+    overrides: AnimationPropertyOverride[]
+): AnimationProperty {
+    if (overrides.length === 0) return property;
+
+    const resolved: AnimationProperty = { ...property };
+    overrides.forEach(override => {
+        // Explicit values replace whatever produced them before
+        if (override.from !== undefined) {
+            resolved.from = override.from;
+            delete resolved.keyframes;
+            delete resolved.distributeFrom;
+        }
+        if (override.to !== undefined) {
+            resolved.to = override.to;
+            delete resolved.keyframes;
+            delete resolved.distributeTo;
+        }
+        if (override.duration !== undefined) resolved.duration = override.duration;
+        if (override.delay !== undefined) resolved.delay = override.delay;
+        if (override.easing !== undefined) resolved.easing = override.easing;
+    });
+    return resolved;
+}
+
+/**
+ * Rebuild the slot's master timeline from its (overridden) properties
+ */
+function rebuildMasterTimeline(slot: AnimationSlot, baseTimeline?: MasterTimeline): void {
+    const labels: TimelineLabel[] | undefined = baseTimeline?.labels
+        ? Object.entries(baseTimeline.labels).map(([name, time]) => ({ name, time }))
+        : undefined;
+
+    const masterTimeline = new MasterTimelineBuilder().buildMasterTimeline(
+        slot.properties,
+        baseTimeline?.globalSettings,
+        labels
+    );
+
+    slot.masterTimeline = masterTimeline;
+    slot.totalTimelineDuration = masterTimeline.totalDuration;
+}
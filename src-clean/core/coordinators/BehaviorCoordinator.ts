@@ -7,7 +7,7 @@
  * 
  * @example
  * ```typescript
- * const behaviorCoordinator = new BehaviorCoordinator(animationExecutor);
+ * const behaviorCoordinator = new BehaviorCoordinator(animationExecutor, playbackController);
  * behaviorCoordinator.handleBehaviorDecision(trigger, slot, animatedElements);
  * ```
  * 
@@ -24,6 +24,8 @@
  * - Route to appropriate interrupt behavior based on slot configuration
  * - Manage queued intents for QUEUE_LATEST behavior
  * - Execute behavior logic (immediate, block, queue)
+ * - Route playback control behaviors (PAUSE, RESUME, TOGGLE_PAUSE) past interrupt handling
+ * - Resolve PLAY_TO_LABEL targets from the slot's master timeline labels
  * - Coordinate with animation execution through callback pattern
  */
 
@@ -37,8 +39,10 @@ import {
 
 import type { TriggerElement } from '../../types/index.ts';
 import type { BehaviorDecision } from '../state/BehaviorDecisionEngine.ts';
+import { isPlaybackControlBehavior } from '../state/BehaviorDecisionEngine.ts';
 
 import { animationStateManager } from '../state/AnimationStateManager.ts';
+import { getLabelProgress } from '../timeline/MasterTimeline.ts';
 
 /**
  * Callback function type for executing animation
@@ -52,6 +56,14 @@ export type AnimationExecutor = (
     reverseMode?: ReverseMode
 ) => void;
 
+/**
+ * Callback function type for pausing/resuming a slot's running animation
+ */
+export type PlaybackController = (
+    slot: AnimationSlot,
+    action: 'pause' | 'resume'
+) => void;
+
 /**
  * BehaviorCoordinator - Focused Behavior Decision Logic
  * 
@@ -61,10 +73,12 @@ export type AnimationExecutor = (
 export class BehaviorCoordinator {
     private queuedIntents: Map<string, QueuedIntent>;
     private animationExecutor: AnimationExecutor;
+    private playbackController?: PlaybackController;
     
-    constructor(animationExecutor: AnimationExecutor) {
+    constructor(animationExecutor: AnimationExecutor, playbackController?: PlaybackController) {
         this.queuedIntents = new Map();
         this.animationExecutor = animationExecutor;
+        this.playbackController = playbackController;
     }
     
     /**
@@ -91,6 +105,11 @@ export class BehaviorCoordinator {
             console.log(`[BehaviorCoordinator] Skipping decision engine for loop/ping-pong behavior: ${trigger.behavior}`);
             return;
         }
+        // Pause/resume never start an animation, so interrupt behaviors (BLOCK, QUEUE_LATEST) do not apply
+        if (isPlaybackControlBehavior(trigger.behavior)) {
+            this.handlePlaybackControl(trigger, slot);
+            return;
+        }
         // Only handle one-shot and delayed triggers now
         console.log(`🚨 [BehaviorCoordinator] Handling trigger with interrupt behavior: ${slot.interruptBehavior}`);
         // Get interrupt behavior (default to IMMEDIATE for backward compatibility)
@@ -112,6 +131,28 @@ export class BehaviorCoordinator {
         }
     }
     
+    /**
+     * PAUSE / RESUME / TOGGLE_PAUSE: Let the decision engine pick the action, then apply it
+     */
+    private handlePlaybackControl(trigger: TriggerElement, slot: AnimationSlot): void {
+        const decision = animationStateManager.decideBehavior(slot.id, trigger.behavior);
+        const action = decision.playbackControl || 'none';
+        
+        console.log(`⏸️ [BehaviorCoordinator] ${trigger.behavior}: ${action}`);
+        
+        if (action === 'none') {
+            return;
+        }
+        
+        if (!this.playbackController) {
+            console.warn(`⏸️ [BehaviorCoordinator] No playback controller registered - cannot ${action} slot ${slot.id}`);
+            return;
+        }
+        
+        // A pause keeps any queued intent; it runs once the resumed animation completes
+        this.playbackController(slot, action);
+    }
+    
     /**
      * IMMEDIATE behavior: Cancel current animation and start new one immediately
      * This is the original behavior, preserved for backward compatibility
@@ -130,11 +171,26 @@ export class BehaviorCoordinator {
         const currentState = animationStateManager.getState(slot.id);
         const currentProgress = currentState ? currentState.progress : 0.0;
         
+        // 🏷️ PLAY_TO_LABEL: resolve the label before deciding
+        let labelProgress: number | undefined;
+        if (trigger.behavior === AnimationBehavior.PLAY_TO_LABEL) {
+            const resolved = slot.masterTimeline && trigger.targetLabel
+                ? getLabelProgress(slot.masterTimeline, trigger.targetLabel)
+                : null;
+            if (resolved === null) {
+                console.warn(`🏷️ [BehaviorCoordinator] Label "${trigger.targetLabel || ''}" not found on slot ${slot.id} - skipping`);
+                return;
+            }
+            labelProgress = resolved;
+        }
+        
         // Decide behavior with override support
         const overrideState = trigger.overrideState || false;
-        const decision = animationStateManager.decideBehavior(slot.id, trigger.behavior, overrideState);
+        const decision = animationStateManager.decideBehavior(slot.id, trigger.behavior, overrideState, labelProgress);
         
         // Cancel existing animations
+        // Stopped playbacks record their physics spring velocity, so the new animation
+        // below continues that motion toward the new target (MasterTimelinePlayer handoff)
         animationStateManager.cancelActiveAnimations(slot.id);
         
         // Update target immediately
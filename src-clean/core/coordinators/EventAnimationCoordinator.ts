@@ -23,20 +23,22 @@ import {
     QueuedIntent,
     AnimationStatus,
     ElementScope,
-    CriteriaType
+    CriteriaType,
+    EventBusScope,
+    AnimationLifecycleDetail
 } from '../../types/index.ts';
 
-import type { TriggerElement } from '../../types/index.ts';
+import type { TriggerElement, FAMESlotState } from '../../types/index.ts';
 import type { BehaviorDecision } from '../state/BehaviorDecisionEngine.ts';
 
 import { MasterTimeline } from '../timeline/MasterTimeline.ts';
 import { MasterTimelinePlayer } from '../timeline/MasterTimelinePlayer.ts';
 import { MasterTimelineBuilder } from '../timeline/MasterTimeline.ts';
-import { findTriggerElementsWithCriteria, findAnimatedElementsWithCriteria } from '../../dom/ElementFinder.ts';
+import { findTriggerElementsWithCriteria, findAnimatedElementsWithCriteria, getSelectionObservationRoot } from '../../dom/ElementFinder.ts';
 import { animationStateManager } from '../state/AnimationStateManager.ts';
 import { InitialValueCoordinator } from './InitialValueCoordinator.ts';
 import { StaggerCoordinator } from '../../utils/staggering/StaggerCoordinator.ts';
-import { BehaviorCoordinator, type AnimationExecutor } from './BehaviorCoordinator.ts';
+import { BehaviorCoordinator, type AnimationExecutor, type PlaybackController } from './BehaviorCoordinator.ts';
 
 // Import animators
 import { TimedAnimator } from '../../execution/TimedAnimator.ts';
@@ -49,7 +51,10 @@ import { TextSplitter } from '../../utils/text/TextSplitter.ts';
 import { expandDistributedProperties } from '../../config/adapters/AnimationSlotAdapter.ts';
 
 // 🚀 NEW: Scroll Direction Detection (Phase 1)
-import { globalScrollDirectionDetector, ScrollDirection } from '../../events/ScrollDirectionDetector.ts';
+import { getScrollDirectionDetector, ScrollDirection } from '../../events/ScrollDirectionDetector.ts';
+
+// ⌨️ Key filtering for KEYDOWN/KEYUP triggers
+import { isKeyboardEventType, matchesKeyFilter, describeKeyFilter } from '../../events/KeyEventFilter.ts';
 
 // 🌍 NEW: Environment Detection (Phase 3)
 import { EnvironmentDetector } from '../../utils/environment/EnvironmentDetector.ts';
@@ -57,6 +62,24 @@ import { EnvironmentDetector } from '../../utils/environment/EnvironmentDetector
 import { LoopRunner } from '../looping/LoopRunner.ts';
 import { PingPongRunner } from '../looping/PingPongRunner.ts';
 import { DelayedTriggerManager } from './DelayedTriggerManager.ts';
+import { LiveElementTracker, type LiveTriggerBinding } from './LiveElementTracker.ts';
+import { animationLifecycleEmitter } from '../../events/AnimationLifecycleEvents.ts';
+import { fameEventBus, matchesPayloadFilter } from '../../events/FAMEEventBus.ts';
+import { SlotSequencer, getSequencedBehavior } from '../sequencing/SlotSequencer.ts';
+import { viewportVisibilityManager } from '../../utils/performance/ViewportOptimization.ts';
+import { performanceGovernor } from '../../utils/performance/PerformanceGovernor.ts';
+
+/**
+ * Staggered element start waiting for its delay
+ * The delay is timeline time, so it runs at the slot's time scale like the playback itself.
+ */
+interface ScheduledStaggerStart {
+    start: () => void;
+    remaining: number; // Timeline milliseconds left until the start
+    armedAt: number; // performance.now() when the timer was last armed
+    speed: number; // Speed the timer was armed with (0 = held until the speed changes)
+    timeoutId: number | null;
+}
 
 /**
  * EventAnimationCoordinator - Focused Event Handling Logic
@@ -81,6 +104,7 @@ export class EventAnimationCoordinator {
         phase1CompletedElements: Set<HTMLElement>;
         phase2CompletedElements: Set<HTMLElement>;
         phase2Started: boolean;
+        lifecycleRunId: number;
     }> = new Map();
     
     // Add runner maps
@@ -90,11 +114,32 @@ export class EventAnimationCoordinator {
     // 🎯 NEW: Delayed trigger pattern management
     private delayedTriggerManager: DelayedTriggerManager;
     
+    // 🔗 SLOT_SEQUENCE triggers: start slots relative to another slot's runs
+    private slotSequencer: SlotSequencer;
+    
+    // ⏸️ Playback control: elements last played per slot, paused slots and stagger starts held while paused
+    private slotElements: Map<string, HTMLElement[]> = new Map();
+    private pausedSlots: Set<string> = new Set();
+    private pendingStaggerStarts: Map<string, Array<() => void>> = new Map();
+    private scheduledStaggerStarts: Map<string, Set<ScheduledStaggerStart>> = new Map();
+    
+    // 👁️ Viewport suspension: visibility watchers, off-screen slots and slots whose running playback was paused for it
+    private viewportWatchers: Map<string, () => void> = new Map();
+    private offscreenSlots: Set<string> = new Set();
+    private viewportPausedSlots: Set<string> = new Set();
+    
+    // 🧩 Imperative API: expanded slot and host element of every set-up slot
+    private registeredSlots: Map<string, { slot: AnimationSlot; parentElement: HTMLElement }> = new Map();
+    
+    // 🔭 Live elements: animated elements of slots that follow DOM changes (kept in stagger order)
+    private liveElements: Map<string, HTMLElement[]> = new Map();
+    
     constructor() {
         this.masterTimelinePlayer = new MasterTimelinePlayer();
         this.initialValueCoordinator = new InitialValueCoordinator();
         this.staggerCoordinator = new StaggerCoordinator();
         this.delayedTriggerManager = new DelayedTriggerManager();
+        this.slotSequencer = new SlotSequencer();
         
         // Create animation executor callback for BehaviorCoordinator
         const animationExecutor: AnimationExecutor = async (
@@ -107,7 +152,16 @@ export class EventAnimationCoordinator {
             await this.executeTimelineForElements(slot, animatedElements, behavior, startProgress, reverseMode);
         };
         
-        this.behaviorCoordinator = new BehaviorCoordinator(animationExecutor);
+        // PAUSE / RESUME / TOGGLE_PAUSE triggers control the slot's running playback
+        const playbackController: PlaybackController = (slot, action) => {
+            if (action === 'pause') {
+                this.pauseSlot(slot.id);
+            } else {
+                this.resumeSlot(slot.id);
+            }
+        };
+        
+        this.behaviorCoordinator = new BehaviorCoordinator(animationExecutor, playbackController);
         
         // ✅ CONFLICT FIXED: Don't reset global scroll direction detector in constructor
         // This was causing conflicts when multiple components created EventAnimationCoordinators
@@ -145,9 +199,22 @@ export class EventAnimationCoordinator {
             
             console.log(`🔍 [EventAnimationCoordinator] Found ${animatedElements.length} animated elements for slot: ${slot.id}`);
             
+            // 🔭 Live slots stay set up without matches - a CMS list or conditional layer may add them later
+            const observeDomChanges = !!slot.observeDomChanges && !EnvironmentDetector.isCanvas();
+            
             if (animatedElements.length === 0) {
                 console.warn(`🎛️ [EventAnimationCoordinator] No animated elements for slot: ${slot.id}`);
-                return () => {};
+                if (!observeDomChanges) {
+                    return () => {};
+                }
+            }
+            
+            // 📣 Lifecycle events are dispatched on the FAME host element
+            cleanupFunctions.push(animationLifecycleEmitter.registerHost(slot.id, parentElement, slot.name));
+            
+            // 📡 Forward configured lifecycle moments to the event bus
+            if (slot.emitEvents?.length) {
+                cleanupFunctions.push(this.setupEventBusEmitters(slot, parentElement));
             }
             
             // 🔄 NEW: Register retarget callback to keep animatedElements in sync after responsive re-splits
@@ -157,6 +224,7 @@ export class EventAnimationCoordinator {
                         .then(newElements => {
                             // Mutate array in place so existing references (in event listeners) stay valid
                             animatedElements.splice(0, animatedElements.length, ...newElements)
+                            this.watchSlotViewport(slot, newElements)
                             //console.log(`🔄 [EventAnimationCoordinator] Retargeted animated elements for slot ${slot.id}. New count: ${newElements.length}`)
 
                             // Apply current progress so visual state stays in sync after re-split
@@ -187,22 +255,49 @@ export class EventAnimationCoordinator {
             // 🔧 REFACTOR R3.1: Handle initial values coordination
             this.initialValueCoordinator.applyInitialValues(expandedSlot, animatedElements, showInitial);
             
+            // 🧩 Make the slot reachable through the imperative API (FAME handles, overrides)
+            this.registeredSlots.set(expandedSlot.id, { slot: expandedSlot, parentElement });
+            
+            // 👁️ Suspend loops and running playback while the slot's elements are off-screen
+            this.watchSlotViewport(expandedSlot, animatedElements);
+            
             // 🎯 SHARED MODE: All triggers animate all animated elements
             // console.log(`🎯 [EventAnimationCoordinator] Using SHARED mode - triggers animate all animated elements`);
             
             // ✅ PERFORMANCE OPTIMIZATION: Check if slot actually needs scroll direction detection
-            const hasScrollDirectionTrigger = expandedSlot.triggers.some(
+            const scrollDirectionTriggers = expandedSlot.triggers.filter(
                 trigger => trigger.event === EventType.SCROLL_DIRECTION_CHANGE
             );
             
-            if (hasScrollDirectionTrigger) {
+            if (scrollDirectionTriggers.length > 0) {
                 console.log(`🚀 [EventAnimationCoordinator] PERFORMANCE: Scroll direction detection needed for slot ${expandedSlot.id}`);
-                // Only reset when actually needed
-                globalScrollDirectionDetector.reset();
+                // Only reset when actually needed (one detector per watched axis/container)
+                new Set(scrollDirectionTriggers.map(trigger => getScrollDirectionDetector(trigger.scrollAxis)))
+                    .forEach(detector => detector.reset());
+            }
+            
+            // 🔭 Re-resolve elements when the DOM changes (CMS load more, pagination, filters, conditional layers)
+            let liveTracker: LiveElementTracker | null = null;
+            if (observeDomChanges) {
+                liveTracker = new LiveElementTracker(expandedSlot.id, animatedElements, {
+                    resolveAnimatedElements: async () => {
+                        const resolved = await this.findAnimatedElements(slot, parentElement, textElementCallbacks);
+                        // findAnimatedElements numbers elements in document order - keep the live order
+                        this.indexLiveElements(animatedElements);
+                        return resolved;
+                    },
+                    onAnimatedElementsChanged: (added, removed) => {
+                        this.applyLiveElementChanges(expandedSlot, slot, animatedElements, added, removed, showInitial);
+                    }
+                });
+                this.liveElements.set(expandedSlot.id, animatedElements);
             }
             
             expandedSlot.triggers.forEach((trigger, triggerIndex) => {
-                if (trigger.event !== EventType.SCROLL) {
+                if (liveTracker && this.hasLiveTriggerElements(trigger)) {
+                    // 🔭 Each matching trigger element gets its own binding, released when it leaves the DOM
+                    liveTracker.addTriggerBinding(this.createLiveTriggerBinding(trigger, parentElement, expandedSlot, animatedElements));
+                } else if (trigger.event !== EventType.SCROLL) {
                     const eventCleanup = this.setupTriggerListeners(
                         trigger, 
                         parentElement,
@@ -223,6 +318,12 @@ export class EventAnimationCoordinator {
                 }
             });
             
+            if (liveTracker) {
+                const tracker = liveTracker;
+                tracker.start(this.getLiveObservationRoots(expandedSlot, parentElement));
+                cleanupFunctions.push(() => tracker.dispose());
+            }
+            
             return () => {
                 //console.log(`🎛️ [EventAnimationCoordinator] Cleaning up event animation: ${expandedSlot.id}`);
                 cleanupFunctions.forEach(cleanup => cleanup());
@@ -231,6 +332,27 @@ export class EventAnimationCoordinator {
                 this.stopLoopRunner(expandedSlot.id);
                 this.stopPingPongRunner(expandedSlot.id);
                 
+                // 🛑 SAFETY: Stop playback still running on the slot's elements
+                animatedElements.forEach(element => {
+                    if (this.masterTimelinePlayer.isPlaying(element)) {
+                        this.masterTimelinePlayer.stopElement(element);
+                    }
+                });
+                
+                // ⏸️ CLEANUP: Forget playback control state for this slot
+                this.slotElements.delete(expandedSlot.id);
+                this.pausedSlots.delete(expandedSlot.id);
+                this.pendingStaggerStarts.delete(expandedSlot.id);
+                this.cancelStaggerStarts(expandedSlot.id);
+                this.registeredSlots.delete(expandedSlot.id);
+                this.liveElements.delete(expandedSlot.id);
+                
+                // 👁️ CLEANUP: Stop watching visibility
+                this.viewportWatchers.get(expandedSlot.id)?.();
+                this.viewportWatchers.delete(expandedSlot.id);
+                this.offscreenSlots.delete(expandedSlot.id);
+                this.viewportPausedSlots.delete(expandedSlot.id);
+                
                 // 🎯 CLEANUP: Reset delayed trigger state for this slot
                 this.delayedTriggerManager.resetSlot(expandedSlot.id);
                 
@@ -419,7 +541,8 @@ export class EventAnimationCoordinator {
         trigger: TriggerElement,
         parentElement: HTMLElement,
         slot: AnimationSlot,
-        animatedElements: HTMLElement[]
+        animatedElements: HTMLElement[],
+        triggerElementsOverride?: HTMLElement[]
     ): (() => void)[] {
         const cleanupFunctions: (() => void)[] = [];
         
@@ -454,8 +577,8 @@ export class EventAnimationCoordinator {
                 this.behaviorCoordinator.handleBehaviorDecision(trigger, slot, currentAnimatedElements);
             };
             
-            // Use global scroll direction detector
-            const scrollDirectionCleanup = globalScrollDirectionDetector.startDetection((direction: ScrollDirection) => {
+            // Use the shared detector for the trigger's axis (global vertical detector by default)
+            const scrollDirectionCleanup = getScrollDirectionDetector(trigger.scrollAxis).startDetection((direction: ScrollDirection) => {
                 // console.log(`🚨 [EventAnimationCoordinator] [DEBUG] SCROLL DIRECTION CALLBACK FIRED! Direction: ${direction}`);
                 console.log(`🌊 [EventAnimationCoordinator] Scroll direction changed to: ${direction}`);
                 slotCallback();
@@ -469,13 +592,79 @@ export class EventAnimationCoordinator {
             return cleanupFunctions;
         }
         
+        // 📡 SPECIAL CASE: CUSTOM_EVENT listens on a named event bus channel, not on an element
+        if (trigger.event === EventType.CUSTOM_EVENT) {
+            const channelConfig = trigger.customEventConfig;
+            if (!channelConfig?.channel) {
+                console.warn(`📡 [EventAnimationCoordinator] CUSTOM_EVENT trigger without channel - slot: ${slot.id}`);
+                return cleanupFunctions;
+            }
+            
+            const busCleanup = fameEventBus.subscribe(channelConfig.channel, (message) => {
+                if (!matchesPayloadFilter(message.payload, channelConfig.payloadFilter)) {
+                    return;
+                }
+                
+                const currentAnimatedElements = this.getCurrentAnimatedElements(slot.id, parentElement, slot);
+                if (currentAnimatedElements.length === 0) {
+                    console.warn(`📡 [EventAnimationCoordinator] No current animated elements found for slot ${slot.id} - skipping animation`);
+                    return;
+                }
+                
+                console.log(`📡 [EventAnimationCoordinator] Channel "${message.channel}" received - slot: ${slot.id}`);
+                this.behaviorCoordinator.handleBehaviorDecision(trigger, slot, currentAnimatedElements);
+            }, channelConfig.scope || EventBusScope.PAGE);
+            
+            console.log(`🎯 [EventAnimationCoordinator] ✅ Listening on channel "${channelConfig.channel}" - slot: ${slot.id}`);
+            cleanupFunctions.push(busCleanup);
+            return cleanupFunctions;
+        }
+        
+        // 🔗 SPECIAL CASE: SLOT_SEQUENCE follows another slot's lifecycle instead of an element
+        if (trigger.event === EventType.SLOT_SEQUENCE) {
+            const sequenceConfig = trigger.sequenceConfig;
+            if (!sequenceConfig?.afterSlotId) {
+                console.warn(`🔗 [EventAnimationCoordinator] SLOT_SEQUENCE trigger without parent slot - slot: ${slot.id}`);
+                return cleanupFunctions;
+            }
+            if (!sequenceConfig.afterInstance && (sequenceConfig.afterSlotId === slot.name || sequenceConfig.afterSlotId === slot.id)) {
+                console.warn(`🔗 [EventAnimationCoordinator] Slot ${slot.id} cannot follow itself - skipping SLOT_SEQUENCE trigger`);
+                return cleanupFunctions;
+            }
+            
+            const sequenceCleanup = this.slotSequencer.follow(sequenceConfig, parentElement.dataset.componentId, (direction) => {
+                const currentAnimatedElements = this.getCurrentAnimatedElements(slot.id, parentElement, slot);
+                if (currentAnimatedElements.length === 0) {
+                    console.warn(`🔗 [EventAnimationCoordinator] No current animated elements found for slot ${slot.id} - skipping animation`);
+                    return;
+                }
+                
+                // 🔁 Reverse cascade: a parent playing backward plays this slot's mirrored behavior
+                const sequencedTrigger = { ...trigger, behavior: getSequencedBehavior(trigger.behavior, direction) };
+                this.behaviorCoordinator.handleBehaviorDecision(sequencedTrigger, slot, currentAnimatedElements);
+            });
+            
+            console.log(`🎯 [EventAnimationCoordinator] ✅ Following slot "${sequenceConfig.afterSlotId}" (${sequenceConfig.point}) - slot: ${slot.id}`);
+            cleanupFunctions.push(sequenceCleanup);
+            return cleanupFunctions;
+        }
+        
+        // ⌨️ KEYBOARD EVENTS: Optionally listen on document (e.g. Esc-to-close, arrow-key carousels)
+        const keyConfig = isKeyboardEventType(trigger.event) ? trigger.keyConfig : undefined;
+        const listenOnDocument = !!keyConfig?.listenOnDocument && typeof document !== 'undefined';
+        
         // 🎯 ELEMENT-SPECIFIC EVENTS: Handle events that need trigger elements
-        const triggerElements = findTriggerElementsWithCriteria(parentElement, trigger.selection);
+        const triggerElements: EventTarget[] = listenOnDocument
+            ? [document]
+            : triggerElementsOverride || findTriggerElementsWithCriteria(parentElement, trigger.selection);
         
         if (triggerElements.length === 0) {
             console.warn(`🎛️ [EventAnimationCoordinator] No trigger elements found`);
             return [];
         }
+        
+        // ⌨️ Triggers of the same slot that only differ by key filter need separate registry entries
+        const listenerKey = keyConfig ? `${slot.id}::${describeKeyFilter(keyConfig)}` : slot.id;
 
         // 🔥 CRITICAL FIX: Store element resolver function instead of captured elements
         // This allows dynamic resolution of current elements, fixing the closure capture bug
@@ -496,7 +685,7 @@ export class EventAnimationCoordinator {
                 (triggerElement as any)[sharedElementKey] = {
                     listeners: new Map<string, {
                         slotId: string,
-                        callback: () => void,
+                        callback: (event?: Event) => void,
                         elementIds: string[],
                         timestamp: number
                     }>(),
@@ -507,7 +696,7 @@ export class EventAnimationCoordinator {
             const sharedRegistry = (triggerElement as any)[sharedElementKey];
             
             // 🚀 NEW: Check if this specific slot already has a listener
-            const existingSlotListener = sharedRegistry.listeners.get(slot.id);
+            const existingSlotListener = sharedRegistry.listeners.get(listenerKey);
             
             if (existingSlotListener) {
                 const existingElementIds = existingSlotListener.elementIds;
@@ -521,12 +710,22 @@ export class EventAnimationCoordinator {
                 } else {
                     console.log(`🔄 [EventAnimationCoordinator] Elements changed, updating listener for slot: ${slot.id}`);
                     // Remove old slot-specific listener but keep shared DOM listener
-                    sharedRegistry.listeners.delete(slot.id);
+                    sharedRegistry.listeners.delete(listenerKey);
                 }
             }
 
             // 🚀 NEW: Create slot-specific callback function
-            const slotCallback = () => {
+            const slotCallback = (event?: Event) => {
+                // ⌨️ Only react to configured keys/modifiers (no keyConfig = any key)
+                if (keyConfig) {
+                    if (!matchesKeyFilter(event, keyConfig)) {
+                        return;
+                    }
+                    if (keyConfig.preventDefault && event) {
+                        event.preventDefault();
+                    }
+                }
+                
                 const currentAnimatedElements = elementResolver();
                 if (currentAnimatedElements.length === 0) {
                     console.warn(`🔄 [EventAnimationCoordinator] No current animated elements found for slot ${slot.id} - skipping animation`);
@@ -594,9 +793,17 @@ export class EventAnimationCoordinator {
                     const runner = new LoopRunner({
                         iterations: safeIterations,
                         delay: safeDelay,
-                        play
+                        play,
+                        reducedMotion: slot.reducedMotion,
+                        onIteration: (iteration) => {
+                            animationLifecycleEmitter.loop(slot.id, iteration, animationStateManager.getState(slot.id)?.progress ?? 0);
+                        }
                     });
                     this.loopRunners.set(slot.id, runner);
+                    // 👁️ Started off-screen: the first iteration waits until the slot is visible
+                    if (this.offscreenSlots.has(slot.id)) {
+                        runner.suspend();
+                    }
                     runner.start();
                     console.log(`[EventAnimationCoordinator] Started LoopRunner for slot ${slot.id}`);
                     return;
@@ -644,9 +851,17 @@ export class EventAnimationCoordinator {
                         cycles: safeCycles,
                         delay: safeDelay,
                         playForward,
-                        playBackward
+                        playBackward,
+                        reducedMotion: slot.reducedMotion,
+                        onCycle: (cycle) => {
+                            animationLifecycleEmitter.loop(slot.id, cycle, animationStateManager.getState(slot.id)?.progress ?? 0);
+                        }
                     });
                     this.pingPongRunners.set(slot.id, runner);
+                    // 👁️ Started off-screen: the first phase waits until the slot is visible
+                    if (this.offscreenSlots.has(slot.id)) {
+                        runner.suspend();
+                    }
                     runner.start();
                     console.log(`[EventAnimationCoordinator] Started PingPongRunner for slot ${slot.id}`);
                     return;
@@ -662,7 +877,7 @@ export class EventAnimationCoordinator {
             
             // 🚀 NEW: Register this slot's callback in the shared registry
             const currentElementIds = animatedElements.map(el => el.getAttribute('data-fame-element-id') || el.id || 'no-id');
-            sharedRegistry.listeners.set(slot.id, {
+            sharedRegistry.listeners.set(listenerKey, {
                 slotId: slot.id,
                 callback: slotCallback,
                 elementIds: currentElementIds,
@@ -674,13 +889,13 @@ export class EventAnimationCoordinator {
                 console.log(`🎯 [EventAnimationCoordinator] Creating shared DOM listener for ${trigger.event} on element`);
                 
                 // Create shared DOM event listener that triggers ALL registered slot callbacks
-                const sharedDomListener = () => {
+                const sharedDomListener = (event?: Event) => {
                     console.log(`🎯 [EventAnimationCoordinator] Shared ${trigger.event} event fired, triggering ${sharedRegistry.listeners.size} animations`);
                     
                     // Trigger all registered slot callbacks
                     sharedRegistry.listeners.forEach((listenerData, slotId) => {
                         try {
-                            listenerData.callback();
+                            listenerData.callback(event);
                         } catch (error) {
                             console.error(`🎯 [EventAnimationCoordinator] Error triggering animation for slot ${slotId}:`, error);
                         }
@@ -731,7 +946,7 @@ export class EventAnimationCoordinator {
                 const registry = (triggerElement as any)[sharedElementKey];
                 if (registry) {
                     // Remove this slot's callback from the shared registry
-                    registry.listeners.delete(slot.id);
+                    registry.listeners.delete(listenerKey);
                     console.log(`🎯 [EventAnimationCoordinator] Removed slot ${slot.id} from shared listener (${registry.listeners.size} remaining)`);
                     
                     // If no more slots are listening, remove the DOM event listener
@@ -762,7 +977,8 @@ export class EventAnimationCoordinator {
         parentElement: HTMLElement,
         slot: AnimationSlot,
         mode: 'individual' | 'shared',
-        animatedElements?: HTMLElement[]
+        animatedElements?: HTMLElement[],
+        triggerElementsOverride?: HTMLElement[]
     ): (() => void)[] {
         const cleanupFunctions: (() => void)[] = [];
         
@@ -782,7 +998,8 @@ export class EventAnimationCoordinator {
         const scrollConfig = {
             elementStart: scrollThresholds.elementStart,
             viewportThreshold: scrollThresholds.viewportThreshold,
-            thresholdCrossedBackward: scrollThresholds.thresholdCrossedBackward !== 'none'
+            thresholdCrossedBackward: scrollThresholds.thresholdCrossedBackward !== 'none',
+            scrollAxis: trigger.scrollAxis
         };
         
         console.log(`🌊 [EventAnimationCoordinator] Delegating scroll animation to ScrollAnimator:`, {
@@ -929,7 +1146,7 @@ export class EventAnimationCoordinator {
             }
         } else {
             // Shared mode: all animated elements are triggered together by a single scroll trigger
-            const triggerElements = findTriggerElementsWithCriteria(parentElement, trigger.selection);
+            const triggerElements = triggerElementsOverride || findTriggerElementsWithCriteria(parentElement, trigger.selection);
             const elements = animatedElements || [];
 
             if (triggerElements.length > 0 && elements.length > 0) {
@@ -989,6 +1206,12 @@ export class EventAnimationCoordinator {
      * ensuring that event listeners work correctly even after DOM changes.
      */
     private getCurrentAnimatedElements(slotId: string, parentElement: HTMLElement, slot: AnimationSlot): HTMLElement[] {
+        // 🔭 Live slots already track their elements, in stagger order
+        const liveElements = this.liveElements.get(slotId);
+        if (liveElements) {
+            return liveElements.filter(element => element.isConnected);
+        }
+        
         // This is a simplified version - in a full implementation, 
         // we'd cache the resolved elements and update them during retargeting
         
@@ -1072,6 +1295,32 @@ export class EventAnimationCoordinator {
         
         let actualBehaviorForExecution = behavior;
         
+        // 📣 Phase 2 of a reverse behavior continues the run started by Phase 1
+        const trackedPhase = this.reverseBehaviorPhases.get(slot.id);
+        const isReverseBehavior = behaviorEnum === "playForwardAndReverse" || behaviorEnum === "playBackwardAndReverse";
+        const isReversePhase2 = trackedPhase?.currentPhase === 2 && !isReverseBehavior;
+        let lifecycleRunId: number;
+        if (isReversePhase2) {
+            lifecycleRunId = trackedPhase!.lifecycleRunId;
+        } else {
+            const slotState = animationStateManager.getState(slot.id);
+            const runStartProgress = slotState?.progress ?? startProgress;
+            const runTargetProgress = slotState?.targetProgress ?? runStartProgress;
+
+            // 🔗 Direction and expected duration let sequenced slots follow this run
+            const speed = (slot.timeScale ?? 1) * MasterTimelinePlayer.getGlobalTimeScale();
+            const distance = Math.abs(runTargetProgress - runStartProgress) * (isReverseBehavior ? 2 : 1); // Reverse behaviors return to the start
+            const timelineDuration = slot.totalTimelineDuration ?? slot.masterTimeline.totalDuration;
+
+            lifecycleRunId = animationLifecycleEmitter.beginRun(
+                slot.id,
+                isReverseBehavior ? 1 : animatedElements.length, // Reverse behaviors complete once, after Phase 2
+                runStartProgress,
+                runTargetProgress < runStartProgress ? AnimationDirection.BACKWARD : AnimationDirection.FORWARD,
+                speed > 0 ? (timelineDuration * distance) / speed : undefined
+            );
+        }
+        
         if (behaviorEnum === "playForwardAndReverse" || 
             behaviorEnum === "playBackwardAndReverse") {
             
@@ -1087,7 +1336,8 @@ export class EventAnimationCoordinator {
                     totalElements: animatedElements.length,
                     phase1CompletedElements: new Set(),
                     phase2CompletedElements: new Set(),
-                    phase2Started: false
+                    phase2Started: false,
+                    lifecycleRunId
                 });
                 
                 // 🎯 CRITICAL FIX: Convert to single-phase behavior for MasterTimelinePlayer
@@ -1105,6 +1355,12 @@ export class EventAnimationCoordinator {
             console.log(`🔄 [EventAnimationCoordinator] Not a reverse behavior: ${behavior}`);
         }
         
+        // ⏸️ A new execution replaces a paused one, and the starts the previous one still had scheduled
+        this.slotElements.set(slot.id, animatedElements);
+        this.pausedSlots.delete(slot.id);
+        this.pendingStaggerStarts.delete(slot.id);
+        this.cancelStaggerStarts(slot.id);
+        
         // Execute with stagger if enabled, otherwise execute all elements immediately
         if (slot.staggering?.enabled) {
             const executeCallback = (element: HTMLElement, delay: number) => {
@@ -1118,19 +1374,35 @@ export class EventAnimationCoordinator {
                     willExecuteIn: `${delay}ms`
                 });
                 
-                setTimeout(() => {
-                    console.log(`🚨 [EventAnimationCoordinator] setTimeout fired after ${delay}ms delay, calling executeTimelineForElement`);
+                // 🐢 Coarse stagger: elements start in groups while the device is struggling
+                const governedDelay = performanceGovernor.coarsenStaggerDelay(delay);
+                
+                this.scheduleStaggerStart(slot, governedDelay, () => {
+                    console.log(`🚨 [EventAnimationCoordinator] Stagger start fired after ${governedDelay}ms timeline delay, calling executeTimelineForElement`);
                     
-                    const cleanup = this.executeTimelineForElement(
-                        slot,
-                        element,
-                        actualBehaviorForExecution, // Use converted behavior
-                        startProgress,
-                        reverseMode
-                    );
+                    const startElement = () => {
+                        const cleanup = this.executeTimelineForElement(
+                            slot,
+                            element,
+                            actualBehaviorForExecution, // Use converted behavior
+                            startProgress,
+                            reverseMode,
+                            lifecycleRunId
+                        );
+                        
+                        animationStateManager.registerAnimationCleanup(slot.id, cleanup);
+                    };
+                    
+                    // ⏸️ Hold staggered starts while the slot is paused - resumeSlot() starts them
+                    if (this.pausedSlots.has(slot.id)) {
+                        const pending = this.pendingStaggerStarts.get(slot.id) || [];
+                        pending.push(startElement);
+                        this.pendingStaggerStarts.set(slot.id, pending);
+                        return;
+                    }
                     
-                    animationStateManager.registerAnimationCleanup(slot.id, cleanup);
-                }, delay);
+                    startElement();
+                });
             };
             
             if (slot.staggering.strategy === 'grid') {
@@ -1146,7 +1418,8 @@ export class EventAnimationCoordinator {
                     animatedElement,
                     actualBehaviorForExecution, // Use converted behavior
                     startProgress,
-                    reverseMode
+                    reverseMode,
+                    lifecycleRunId
                 );
                 
                 animationStateManager.registerAnimationCleanup(slot.id, cleanup);
@@ -1165,7 +1438,8 @@ export class EventAnimationCoordinator {
         animatedElement: HTMLElement,
         behavior: string,
         startProgress: number,
-        reverseMode?: ReverseMode
+        reverseMode?: ReverseMode,
+        lifecycleRunId?: number
     ): () => void {
         
         // 📊 FEATURE 3A: Handle distributed properties for this specific element
@@ -1234,7 +1508,12 @@ export class EventAnimationCoordinator {
             slotProperties: slot.properties?.length || 0
         });
 
-        const masterTimeline = elementSpecificSlot.masterTimeline as MasterTimeline;
+        const slotMasterTimeline = elementSpecificSlot.masterTimeline as MasterTimeline;
+        
+        // ♿ Carry the slot's reduced motion policy, playback speed and backend into the player
+        const masterTimeline = slotMasterTimeline && (slot.reducedMotion || slot.timeScale !== undefined || slot.useCompositor)
+            ? { ...slotMasterTimeline, reducedMotion: slot.reducedMotion, timeScale: slot.timeScale, useCompositor: slot.useCompositor }
+            : slotMasterTimeline;
         
         if (!masterTimeline) {
             console.error(`🚨 [EventAnimationCoordinator] ❌ No master timeline found for slot: ${slot.id}`, {
@@ -1250,6 +1529,7 @@ export class EventAnimationCoordinator {
         const progressCallback = (progress: number) => {
             // Update progress with RUNNING status during animation
             animationStateManager.updateProgress(slot.id, progress, AnimationStatus.RUNNING);
+            animationLifecycleEmitter.update(slot.id, progress);
         };
         
         // Execute behavior asynchronously
@@ -1283,7 +1563,11 @@ export class EventAnimationCoordinator {
                         animatedElement,
                         startProgress,
                         progressCallback,
-                        reverseMode || ReverseMode.EASING_PRESERVATION
+                        reverseMode || ReverseMode.EASING_PRESERVATION,
+                        // 🏷️ PLAY_TO_LABEL plays to the target decided by BehaviorCoordinator
+                        behaviorEnum === AnimationBehavior.PLAY_TO_LABEL
+                            ? animationStateManager.getState(slot.id)?.targetProgress
+                            : undefined
                     );
                     
                     console.log(`🚨 [EventAnimationCoordinator] MasterTimelinePlayer.executeBehavior completed with finalExpectedProgress: ${finalExpectedProgress}`);
@@ -1317,6 +1601,10 @@ export class EventAnimationCoordinator {
                     animationStateManager.updateProgress(slot.id, finalExpectedProgress, AnimationStatus.COMPLETED);
                     animationStateManager.updateTarget(slot.id, finalExpectedProgress);
                     
+                    if (lifecycleRunId !== undefined) {
+                        animationLifecycleEmitter.finishElement(slot.id, lifecycleRunId, finalExpectedProgress);
+                    }
+                    
                     //console.log(`🔧 [EventAnimationCoordinator] Animation completed for slot ${slot.id}, status set to COMPLETED`);
                     
                     // 🎯 NEW: Check for queued intents (event-driven, no polling delays)
@@ -1331,6 +1619,11 @@ export class EventAnimationCoordinator {
                 animationStateManager.updateProgress(slot.id, errorProgress, AnimationStatus.COMPLETED);
                 animationStateManager.updateTarget(slot.id, errorProgress);
                 
+                // Don't leave the lifecycle run hanging - the element is done either way
+                if (lifecycleRunId !== undefined) {
+                    animationLifecycleEmitter.finishElement(slot.id, lifecycleRunId, errorProgress);
+                }
+                
                 // Clean up reverse behavior tracking on error
                 this.reverseBehaviorPhases.delete(slot.id);
             }
@@ -1346,6 +1639,484 @@ export class EventAnimationCoordinator {
         };
     }
 
+    //=======================================
+    //        EVENT BUS EMITTERS
+    //=======================================
+    
+    /**
+     * Emit the slot's configured bus messages when its lifecycle events fire
+     * @param slot - Slot with emitEvents
+     * @param hostElement - FAME host element receiving the slot's lifecycle events
+     * @returns Cleanup function removing the lifecycle listeners
+     */
+    private setupEventBusEmitters(slot: AnimationSlot, hostElement: HTMLElement): () => void {
+        const cleanups = (slot.emitEvents || []).map(emitConfig => {
+            const handleLifecycleEvent = (event: Event) => {
+                const detail = (event as CustomEvent<AnimationLifecycleDetail>).detail;
+                if (detail?.slotId !== slot.id) return;
+                
+                fameEventBus.emit(emitConfig.channel, emitConfig.payload, emitConfig.scope || EventBusScope.PAGE, slot.id);
+            };
+            
+            hostElement.addEventListener(emitConfig.on, handleLifecycleEvent);
+            return () => hostElement.removeEventListener(emitConfig.on, handleLifecycleEvent);
+        });
+        
+        return () => cleanups.forEach(cleanup => cleanup());
+    }
+    
+    //=======================================
+    //        PLAYBACK CONTROL
+    //=======================================
+    
+    /**
+     * Pause every running playback of a slot
+     * Staggered elements that have not started yet are held until the slot resumes.
+     * @param slotId - Slot to pause
+     * @returns Whether the slot had anything to pause
+     */
+    pauseSlot(slotId: string): boolean {
+        const elements = this.slotElements.get(slotId) || [];
+        const pausedCount = elements.filter(element => this.masterTimelinePlayer.pauseElement(element)).length;
+        const pausedBefore = this.pausedSlots.has(slotId);
+        
+        this.pausedSlots.add(slotId);
+        // 👁️ An explicit pause outlasts the off-screen one - coming back on-screen must not resume it
+        this.viewportPausedSlots.delete(slotId);
+        
+        const state = animationStateManager.getState(slotId);
+        if (state && (pausedCount > 0 || state.status === AnimationStatus.RUNNING)) {
+            animationStateManager.updateProgress(slotId, state.progress, AnimationStatus.PAUSED);
+        }
+        
+        console.log(`⏸️ [EventAnimationCoordinator] Paused slot ${slotId} (${pausedCount} element(s))`);
+        return pausedCount > 0 || !pausedBefore;
+    }
+    
+    /**
+     * Resume a paused slot
+     * @param slotId - Slot to resume
+     * @returns Whether anything was resumed or started
+     */
+    resumeSlot(slotId: string): boolean {
+        if (!this.pausedSlots.has(slotId)) {
+            return false;
+        }
+        
+        this.pausedSlots.delete(slotId);
+        
+        const elements = this.slotElements.get(slotId) || [];
+        const resumedCount = elements.filter(element => this.masterTimelinePlayer.resumeElement(element)).length;
+        
+        const pending = this.pendingStaggerStarts.get(slotId) || [];
+        this.pendingStaggerStarts.delete(slotId);
+        
+        const state = animationStateManager.getState(slotId);
+        if (state) {
+            // Nothing left to play (e.g. the playback was stopped while paused)
+            const status = resumedCount > 0 || pending.length > 0 ? AnimationStatus.RUNNING : AnimationStatus.COMPLETED;
+            animationStateManager.updateProgress(slotId, state.progress, status);
+        }
+        
+        pending.forEach(startElement => startElement());
+        
+        console.log(`▶️ [EventAnimationCoordinator] Resumed slot ${slotId} (${resumedCount} element(s), ${pending.length} held stagger start(s))`);
+        return resumedCount > 0 || pending.length > 0;
+    }
+    
+    /**
+     * Check if a slot is paused
+     * @param slotId - Slot to check
+     */
+    isSlotPaused(slotId: string): boolean {
+        return this.pausedSlots.has(slotId);
+    }
+    
+    /**
+     * Move a slot's playback to a timeline progress
+     * 
+     * Elements with an active (running or paused) playback jump within it; idle elements are
+     * set to the progress directly. A paused slot stays paused.
+     * 
+     * @param slot - Slot to seek
+     * @param progress - Timeline progress (0-1)
+     */
+    seekSlot(slot: AnimationSlot, progress: number): void {
+        const clampedProgress = Math.max(0, Math.min(progress, 1));
+        const registered = this.registeredSlots.get(slot.id);
+        let elements = this.slotElements.get(slot.id) || [];
+        if (elements.length === 0 && registered) {
+            // Slot has not played yet - seek the elements it would animate
+            elements = this.getCurrentAnimatedElements(slot.id, registered.parentElement, registered.slot);
+        }
+        
+        elements.forEach(element => {
+            if (this.masterTimelinePlayer.seekElement(element, clampedProgress)) {
+                return;
+            }
+            if (slot.masterTimeline) {
+                this.masterTimelinePlayer.seekToProgress(slot.masterTimeline as MasterTimeline, element, clampedProgress);
+            }
+        });
+        
+        const state = animationStateManager.getState(slot.id);
+        const status = this.pausedSlots.has(slot.id)
+            ? AnimationStatus.PAUSED
+            : (state?.status === AnimationStatus.RUNNING ? AnimationStatus.RUNNING : AnimationStatus.COMPLETED);
+        animationStateManager.updateProgress(slot.id, clampedProgress, status);
+        if (status === AnimationStatus.COMPLETED) {
+            animationStateManager.updateTarget(slot.id, clampedProgress);
+        }
+    }
+    
+    /**
+     * Change the playback speed of a slot
+     * Applies to running playbacks immediately and to later triggers of the slot.
+     * @param slot - Slot to update
+     * @param scale - Speed multiplier (1 = normal)
+     */
+    setSlotTimeScale(slot: AnimationSlot, scale: number): void {
+        slot.timeScale = Number.isFinite(scale) && scale >= 0 ? scale : 1;
+        (this.slotElements.get(slot.id) || []).forEach(element => {
+            this.masterTimelinePlayer.setTimeScale(element, slot.timeScale!);
+        });
+        this.rescheduleStaggerStarts(slot);
+    }
+    
+    /**
+     * Speed of a slot's playback (slot time scale combined with the global time scale)
+     */
+    private getSlotSpeed(slot: AnimationSlot): number {
+        return (slot.timeScale ?? 1) * MasterTimelinePlayer.getGlobalTimeScale();
+    }
+    
+    /**
+     * Start a staggered element after a delay in timeline time
+     * @param slot - Slot the element belongs to
+     * @param delay - Stagger delay in milliseconds at speed 1
+     * @param start - Starts the element
+     */
+    private scheduleStaggerStart(slot: AnimationSlot, delay: number, start: () => void): void {
+        const scheduled: ScheduledStaggerStart = { start, remaining: Math.max(0, delay), armedAt: 0, speed: 0, timeoutId: null };
+        
+        if (!this.scheduledStaggerStarts.has(slot.id)) {
+            this.scheduledStaggerStarts.set(slot.id, new Set());
+        }
+        this.scheduledStaggerStarts.get(slot.id)!.add(scheduled);
+        
+        this.armStaggerStart(slot.id, scheduled, this.getSlotSpeed(slot));
+    }
+    
+    private armStaggerStart(slotId: string, scheduled: ScheduledStaggerStart, speed: number): void {
+        scheduled.speed = speed;
+        scheduled.armedAt = performance.now();
+        scheduled.timeoutId = null;
+        
+        // ⏱️ Speed 0 holds the start, like the playback it belongs to
+        if (speed <= 0) return;
+        
+        scheduled.timeoutId = window.setTimeout(() => {
+            this.scheduledStaggerStarts.get(slotId)?.delete(scheduled);
+            scheduled.start();
+        }, scheduled.remaining / speed);
+    }
+    
+    /**
+     * Re-arm a slot's waiting stagger starts at its current speed
+     * The delay already waited is kept; only the rest runs at the new speed.
+     */
+    private rescheduleStaggerStarts(slot: AnimationSlot): void {
+        const scheduledStarts = this.scheduledStaggerStarts.get(slot.id);
+        if (!scheduledStarts || scheduledStarts.size === 0) return;
+        
+        const now = performance.now();
+        const speed = this.getSlotSpeed(slot);
+        scheduledStarts.forEach(scheduled => {
+            if (scheduled.timeoutId !== null) {
+                clearTimeout(scheduled.timeoutId);
+            }
+            scheduled.remaining = Math.max(0, scheduled.remaining - (now - scheduled.armedAt) * scheduled.speed);
+            this.armStaggerStart(slot.id, scheduled, speed);
+        });
+        
+        console.log(`⏩ [EventAnimationCoordinator] Rescheduled ${scheduledStarts.size} stagger start(s) of slot ${slot.id} at speed ${speed}`);
+    }
+    
+    /**
+     * Drop a slot's stagger starts that have not fired yet
+     */
+    private cancelStaggerStarts(slotId: string): void {
+        this.scheduledStaggerStarts.get(slotId)?.forEach(scheduled => {
+            if (scheduled.timeoutId !== null) {
+                clearTimeout(scheduled.timeoutId);
+            }
+        });
+        this.scheduledStaggerStarts.delete(slotId);
+    }
+    
+    //=======================================
+    //        LIVE ELEMENTS
+    //=======================================
+
+    /**
+     * Check if a trigger listens on elements that can come and go
+     * Channel, sequence, scroll direction and document key triggers have no trigger element;
+     * LOAD fires once per setup, so late elements are not bound to it.
+     */
+    private hasLiveTriggerElements(trigger: TriggerElement): boolean {
+        if (trigger.event === EventType.SCROLL_DIRECTION_CHANGE ||
+            trigger.event === EventType.CUSTOM_EVENT ||
+            trigger.event === EventType.SLOT_SEQUENCE ||
+            trigger.event === EventType.LOAD) {
+            return false;
+        }
+        return !(isKeyboardEventType(trigger.event) && trigger.keyConfig?.listenOnDocument);
+    }
+
+    /**
+     * Create the per-element listener binding of a live slot's trigger
+     * @param trigger - Element-based trigger
+     * @param parentElement - FAME component's parent element
+     * @param slot - Expanded slot
+     * @param animatedElements - Live animated elements array of the slot
+     */
+    private createLiveTriggerBinding(
+        trigger: TriggerElement,
+        parentElement: HTMLElement,
+        slot: AnimationSlot,
+        animatedElements: HTMLElement[]
+    ): LiveTriggerBinding {
+        if (trigger.event === EventType.SCROLL) {
+            // Shared scroll triggers observe the first matching element only
+            return {
+                resolve: () => findTriggerElementsWithCriteria(parentElement, trigger.selection).slice(0, 1),
+                bind: (element) => {
+                    const cleanups = this.setupScrollTriggerListeners(trigger, parentElement, slot, 'shared', animatedElements, [element]);
+                    return () => cleanups.forEach(cleanup => cleanup());
+                }
+            };
+        }
+
+        return {
+            resolve: () => findTriggerElementsWithCriteria(parentElement, trigger.selection),
+            bind: (element) => {
+                const cleanups = this.setupTriggerListeners(trigger, parentElement, slot, animatedElements, [element]);
+                return () => cleanups.forEach(cleanup => cleanup());
+            }
+        };
+    }
+
+    /**
+     * Collect the subtrees in which a live slot's selections search
+     */
+    private getLiveObservationRoots(slot: AnimationSlot, parentElement: HTMLElement): Node[] {
+        const selections = [
+            ...slot.animatedElements.map(animatedElement => animatedElement.selection),
+            ...slot.triggers
+                .filter(trigger => this.hasLiveTriggerElements(trigger))
+                .map(trigger => trigger.selection)
+        ];
+        return selections.map(selection => getSelectionObservationRoot(parentElement, selection));
+    }
+
+    /**
+     * Number a live slot's elements in their stagger order
+     * Distributed property values are looked up by this index.
+     */
+    private indexLiveElements(elements: HTMLElement[]): void {
+        elements.forEach((element, index) => {
+            element.setAttribute('data-fame-element-index', index.toString());
+        });
+    }
+
+    /**
+     * Bring a live slot up to date after elements were added to or removed from the DOM
+     *
+     * Removed elements stop animating and are forgotten. Added elements were appended to
+     * the stagger order; they get the slot's initial values, or the settled progress of a
+     * slot that already played, and are watched for visibility like the others.
+     *
+     * @param expandedSlot - Slot in use (distributed properties expanded)
+     * @param slot - Slot as configured, re-expanded for the new element count
+     * @param animatedElements - Live animated elements array (already updated)
+     * @param added - Newly matched elements
+     * @param removed - Elements that no longer match
+     * @param showInitial - Whether initial values are shown in the Framer canvas
+     */
+    private applyLiveElementChanges(
+        expandedSlot: AnimationSlot,
+        slot: AnimationSlot,
+        animatedElements: HTMLElement[],
+        added: HTMLElement[],
+        removed: HTMLElement[],
+        showInitial: boolean
+    ): void {
+        if (removed.length > 0) {
+            removed.forEach(element => {
+                if (this.masterTimelinePlayer.isPlaying(element)) {
+                    this.masterTimelinePlayer.stopElement(element);
+                }
+            });
+
+            const removedSet = new Set(removed);
+            const playedElements = this.slotElements.get(expandedSlot.id);
+            if (playedElements) {
+                this.slotElements.set(expandedSlot.id, playedElements.filter(element => !removedSet.has(element)));
+            }
+        }
+
+        // 📊 Distributed values follow the new element count
+        this.indexLiveElements(animatedElements);
+        const reExpandedSlot = expandDistributedProperties(slot, animatedElements);
+        if (reExpandedSlot !== slot) {
+            expandedSlot.properties = reExpandedSlot.properties;
+        }
+
+        if (added.length > 0) {
+            this.initialValueCoordinator.applyInitialValues(expandedSlot, added, showInitial);
+
+            // A slot that already played shows its settled state on late elements too
+            const state = animationStateManager.getState(expandedSlot.id);
+            if (state && state.progress > 0 && state.status !== AnimationStatus.RUNNING && expandedSlot.masterTimeline) {
+                added.forEach(element => {
+                    this.masterTimelinePlayer.seekToProgress(expandedSlot.masterTimeline as MasterTimeline, element, state.progress);
+                });
+            }
+        }
+
+        this.watchSlotViewport(expandedSlot, animatedElements);
+    }
+
+    //=======================================
+    //        VIEWPORT SUSPENSION
+    //=======================================
+    
+    /**
+     * Watch the visibility of a slot's elements, replacing any previous watcher
+     * Slots that opted out (pauseWhenOffscreen: false) are not watched, nor is anything while
+     * the governor's enableViewportOptimization setting is off. Elements are placed by their
+     * layout box, so elements animated in from off-screen do not count as off-screen.
+     * @param slot - Slot to watch
+     * @param elements - Current animated elements of the slot
+     */
+    private watchSlotViewport(slot: AnimationSlot, elements: HTMLElement[]): void {
+        if (slot.pauseWhenOffscreen === false) return;
+        if (!performanceGovernor.getSettings().enableViewportOptimization) return;
+        
+        this.viewportWatchers.get(slot.id)?.();
+        this.viewportWatchers.set(slot.id, viewportVisibilityManager.observe(elements, (isVisible) => {
+            if (isVisible) {
+                this.resumeOnscreenSlot(slot.id);
+            } else {
+                this.suspendOffscreenSlot(slot.id);
+            }
+        }));
+    }
+    
+    /**
+     * Suspend a slot whose elements left the viewport
+     * Runners hold their next step; running playback (one-shot timelines and runner iterations)
+     * is paused unless the slot was already paused on purpose (PAUSE trigger, FAME handle) - that
+     * pause stays under the caller's control.
+     */
+    private suspendOffscreenSlot(slotId: string): void {
+        if (this.offscreenSlots.has(slotId)) return;
+        this.offscreenSlots.add(slotId);
+        
+        this.loopRunners.get(slotId)?.suspend();
+        this.pingPongRunners.get(slotId)?.suspend();
+        
+        const state = animationStateManager.getState(slotId);
+        if (!this.pausedSlots.has(slotId) && state?.status === AnimationStatus.RUNNING) {
+            this.pauseSlot(slotId);
+            this.viewportPausedSlots.add(slotId);
+        }
+        
+        console.log(`👁️ [EventAnimationCoordinator] Slot ${slotId} off-screen - suspended`);
+    }
+    
+    /**
+     * Resume a slot whose elements came back into the viewport
+     */
+    private resumeOnscreenSlot(slotId: string): void {
+        if (!this.offscreenSlots.delete(slotId)) return;
+        
+        // A newer execution already replaced the playback that was paused for being off-screen
+        if (this.viewportPausedSlots.delete(slotId) && this.pausedSlots.has(slotId)) {
+            this.resumeSlot(slotId);
+        }
+        
+        this.loopRunners.get(slotId)?.resume();
+        this.pingPongRunners.get(slotId)?.resume();
+        
+        console.log(`👁️ [EventAnimationCoordinator] Slot ${slotId} back on-screen - resumed`);
+    }
+    
+    //=======================================
+    //        IMPERATIVE API
+    //=======================================
+    
+    /**
+     * Get set-up slots by Animation ID or slot ID
+     * @param slotRef - Animation ID or generated slot ID (omit for every slot)
+     */
+    getSlots(slotRef?: string): AnimationSlot[] {
+        return Array.from(this.registeredSlots.values())
+            .map(entry => entry.slot)
+            .filter(slot => !slotRef || slot.name === slotRef || slot.id === slotRef);
+    }
+    
+    /**
+     * Play a slot as if one of its triggers fired with the given behavior
+     * Runs through the BehaviorCoordinator, so interrupt behaviors and lifecycle events apply.
+     * @param slotId - Set-up slot ID
+     * @param behavior - Behavior to play
+     * @param targetLabel - PLAY_TO_LABEL only: timeline label to stop at
+     * @returns Whether the slot had elements to animate
+     */
+    triggerSlot(slotId: string, behavior: AnimationBehavior, targetLabel?: string): boolean {
+        const registered = this.registeredSlots.get(slotId);
+        if (!registered) {
+            return false;
+        }
+        
+        const { slot, parentElement } = registered;
+        const currentAnimatedElements = this.getCurrentAnimatedElements(slot.id, parentElement, slot);
+        if (currentAnimatedElements.length === 0) {
+            console.warn(`🧩 [EventAnimationCoordinator] No current animated elements found for slot ${slot.id} - skipping API call`);
+            return false;
+        }
+        
+        // Reverse mode follows the slot's first trigger so API playback matches authored playback
+        const apiTrigger: TriggerElement = {
+            selection: { scope: ElementScope.SELF },
+            event: EventType.API,
+            behavior,
+            reverseMode: slot.triggers[0]?.reverseMode,
+            ...(targetLabel && { targetLabel })
+        };
+        
+        console.log(`🧩 [EventAnimationCoordinator] API ${behavior} - slot: ${slot.id}`);
+        this.behaviorCoordinator.handleBehaviorDecision(apiTrigger, slot, currentAnimatedElements);
+        return true;
+    }
+    
+    /**
+     * Get a snapshot of a slot's playback state
+     * @param slot - Set-up slot
+     */
+    getSlotState(slot: AnimationSlot): FAMESlotState {
+        const state = animationStateManager.getState(slot.id);
+        return {
+            slotId: slot.id,
+            ...(slot.name && { name: slot.name }),
+            progress: state?.progress ?? 0,
+            targetProgress: state?.targetProgress ?? 0,
+            status: state?.status ?? AnimationStatus.IDLE,
+            isPaused: this.pausedSlots.has(slot.id)
+        };
+    }
+    
     // 🔄 NEW: Handle Phase 2 of reverse behaviors with proper stagger coordination
     /**
      * Handle automatic Phase 2 for reverse behaviors (PLAY_FORWARD_AND_REVERSE, PLAY_BACKWARD_AND_REVERSE)
@@ -1458,6 +2229,7 @@ export class EventAnimationCoordinator {
                 // Final completion of reverse behavior
                 animationStateManager.updateProgress(slotId, finalProgress, AnimationStatus.COMPLETED);
                 animationStateManager.updateTarget(slotId, finalProgress);
+                animationLifecycleEmitter.finishElement(slotId, phaseInfo.lifecycleRunId, finalProgress);
                 
                 // Clean up reverse behavior tracking
                 this.markReverseBehaviorComplete(slotId);
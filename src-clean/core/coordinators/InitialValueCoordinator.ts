@@ -24,11 +24,12 @@
  * ```
  */
 
-import { AnimationSlot } from '../../types/index.ts';
+import { AnimationSlot, ReducedMotionPolicy } from '../../types/index.ts';
 import { MasterTimeline, getMasterTimelineInitialValues, MasterTimelineBuilder } from '../timeline/MasterTimeline.ts';
 import { applyProperty } from '../../execution/StyleApplicator.ts';
 import { applyInitialValues, resetInitialValues } from '../../utils/properties/InitialValueApplicator.ts';
 import { EnvironmentDetector } from '../../utils/environment/EnvironmentDetector.ts';
+import { reducedMotionManager } from '../../utils/environment/ReducedMotion.ts';
 
 /**
  * InitialValueCoordinator - Focused Initial Value Logic
@@ -78,7 +79,13 @@ export class InitialValueCoordinator {
             // Determine whether to apply initial values based on Canvas mode and user preference
             const shouldApplyInitialValues = this.shouldApplyInitialValues(isCanvasMode, showInitialValuesInCanvas);
             
-            if (shouldApplyInitialValues) {
+            // ♿ DISABLE policy: elements keep their natural state while reduced motion is preferred
+            const motionDisabled = reducedMotionManager.resolvePolicy(slot.reducedMotion) === ReducedMotionPolicy.DISABLE;
+            if (motionDisabled) {
+                console.log(`🎨 [InitialValueCoordinator] Reduced motion DISABLE - keeping natural state for slot: ${slot.id}`);
+            }
+            
+            if (shouldApplyInitialValues && !motionDisabled) {
                 this.applyInitialValuesToElements(slot, animatedElements);
             } else {
                 this.resetInitialValuesOnElements(slot, animatedElements);
@@ -0,0 +1,201 @@
+/**
+ * @file LiveElementTracker.ts
+ * @description Keeps a slot's animated and trigger elements in sync with a changing DOM
+ *
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @description
+ * Slots normally resolve their elements once. With `observeDomChanges` enabled, a tracker
+ * watches the slots' search roots and, after every settled burst of DOM changes, resolves
+ * the selections again and diffs the matches:
+ * - Animated elements: still-matching elements keep their position, removed ones are
+ *   dropped and new ones are appended, so an existing stagger order is extended rather
+ *   than reshuffled. The owner is told which elements were added and removed.
+ * - Trigger elements: each trigger element gets its own listener binding; new matches
+ *   are bound and the bindings of removed elements are released.
+ *
+ * The animated elements array is mutated in place, so listeners holding it see the
+ * current elements.
+ *
+ * @example
+ * ```typescript
+ * const tracker = new LiveElementTracker(slot.id, animatedElements, {
+ *     resolveAnimatedElements: () => findElements(),
+ *     onAnimatedElementsChanged: (added, removed) => { ... }
+ * });
+ * tracker.addTriggerBinding({
+ *     resolve: () => findTriggerElementsWithCriteria(parentElement, trigger.selection),
+ *     bind: (element) => bindListener(element)
+ * });
+ * tracker.start(roots);
+ * tracker.dispose();
+ * ```
+ */
+
+import { domMutationWatcher } from '../../utils/dom/DomMutationWatcher.ts';
+
+/**
+ * Animated element resolution and change notification provided by the tracker's owner
+ */
+export interface LiveElementHooks {
+    /** Resolve the slot's animated elements from the current DOM */
+    resolveAnimatedElements: () => Promise<HTMLElement[]>;
+    /** Called after the animated elements array was updated */
+    onAnimatedElementsChanged: (added: HTMLElement[], removed: HTMLElement[]) => void;
+}
+
+/**
+ * Listener binding for the elements of one trigger
+ */
+export interface LiveTriggerBinding {
+    /** Resolve the trigger's elements from the current DOM */
+    resolve: () => HTMLElement[];
+    /** Bind the trigger's listeners to one element, returning their cleanup */
+    bind: (element: HTMLElement) => () => void;
+}
+
+/**
+ * A trigger binding and the cleanups of its bound elements
+ */
+interface BoundTrigger {
+    binding: LiveTriggerBinding;
+    bound: Map<HTMLElement, () => void>;
+}
+
+/**
+ * LiveElementTracker - Re-resolves one slot's elements when the DOM changes
+ */
+export class LiveElementTracker {
+    private readonly slotId: string;
+    private readonly animatedElements: HTMLElement[];
+    private readonly hooks: LiveElementHooks;
+
+    private triggers: BoundTrigger[] = [];
+    private stopWatching: (() => void) | null = null;
+    private refreshing: boolean = false;
+    private refreshQueued: boolean = false;
+    private disposed: boolean = false;
+
+    /**
+     * @param slotId - Slot whose elements are tracked (for logging)
+     * @param animatedElements - The slot's animated elements array, updated in place
+     * @param hooks - Element resolution and change notification
+     */
+    constructor(slotId: string, animatedElements: HTMLElement[], hooks: LiveElementHooks) {
+        this.slotId = slotId;
+        this.animatedElements = animatedElements;
+        this.hooks = hooks;
+    }
+
+    /**
+     * Bind a trigger to its current elements and keep it bound to future matches
+     * @param binding - How to find and bind the trigger's elements
+     */
+    addTriggerBinding(binding: LiveTriggerBinding): void {
+        const trigger: BoundTrigger = { binding, bound: new Map() };
+        this.triggers.push(trigger);
+        this.syncTrigger(trigger);
+    }
+
+    /**
+     * Start watching for DOM changes
+     * @param roots - Subtrees in which the slot's selections search
+     */
+    start(roots: Node[]): void {
+        if (this.disposed || this.stopWatching) return;
+
+        this.stopWatching = domMutationWatcher.watch(roots, () => {
+            void this.refresh();
+        });
+        console.log(`🔭 [LiveElementTracker] Watching ${new Set(roots).size} root(s) for slot ${this.slotId}`);
+    }
+
+    /**
+     * Resolve all selections again and apply the differences
+     * Refreshes requested while one is running are collapsed into a single follow-up.
+     */
+    async refresh(): Promise<void> {
+        if (this.disposed) return;
+        if (this.refreshing) {
+            this.refreshQueued = true;
+            return;
+        }
+
+        this.refreshing = true;
+        try {
+            do {
+                this.refreshQueued = false;
+                await this.syncAnimatedElements();
+                if (this.disposed) return;
+                this.triggers.forEach(trigger => this.syncTrigger(trigger));
+            } while (this.refreshQueued && !this.disposed);
+        } catch (error) {
+            console.error(`🔭 [LiveElementTracker] Re-resolving elements failed for slot ${this.slotId}:`, error);
+        } finally {
+            this.refreshing = false;
+        }
+    }
+
+    /**
+     * Stop watching and release every trigger binding
+     */
+    dispose(): void {
+        if (this.disposed) return;
+        this.disposed = true;
+
+        this.stopWatching?.();
+        this.stopWatching = null;
+
+        this.triggers.forEach(trigger => {
+            trigger.bound.forEach(cleanup => cleanup());
+            trigger.bound.clear();
+        });
+        this.triggers = [];
+    }
+
+    /**
+     * Diff the animated elements against a fresh resolution
+     */
+    private async syncAnimatedElements(): Promise<void> {
+        const resolved = await this.hooks.resolveAnimatedElements();
+        if (this.disposed) return;
+
+        const resolvedSet = new Set(resolved);
+        const currentSet = new Set(this.animatedElements);
+
+        const removed = this.animatedElements.filter(element => !resolvedSet.has(element) || !element.isConnected);
+        const removedSet = new Set(removed);
+        const added = resolved.filter(element => !currentSet.has(element) && element.isConnected);
+
+        if (added.length === 0 && removed.length === 0) return;
+
+        // Keep the order of remaining elements, append new ones
+        const kept = this.animatedElements.filter(element => !removedSet.has(element));
+        this.animatedElements.splice(0, this.animatedElements.length, ...kept, ...added);
+
+        console.log(`🔭 [LiveElementTracker] Slot ${this.slotId}: +${added.length} / -${removed.length} animated element(s), ${this.animatedElements.length} total`);
+        this.hooks.onAnimatedElementsChanged(added, removed);
+    }
+
+    /**
+     * Bind new trigger elements and release removed ones
+     */
+    private syncTrigger(trigger: BoundTrigger): void {
+        const resolved = trigger.binding.resolve().filter(element => element.isConnected);
+        const resolvedSet = new Set(resolved);
+
+        trigger.bound.forEach((cleanup, element) => {
+            if (!resolvedSet.has(element)) {
+                cleanup();
+                trigger.bound.delete(element);
+            }
+        });
+
+        resolved.forEach(element => {
+            if (!trigger.bound.has(element)) {
+                trigger.bound.set(element, trigger.binding.bind(element));
+            }
+        });
+    }
+}
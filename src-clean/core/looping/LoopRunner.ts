@@ -19,12 +19,23 @@
  * // ...
  * runner.stop();
  * ```
+ *
+ * ♿ With a reduced motion policy, the loop parks after the current iteration while the
+ * user prefers reduced motion, and resumes when the preference is cleared.
+ *
+ * 👁️ suspend() holds the next iteration while the slot is off-screen; resume() continues
+ * from the iteration it stopped at. The coordinator pauses the iteration in progress.
  */
 
+import { ReducedMotionPolicy } from '../../types/index.ts';
+import { reducedMotionManager } from '../../utils/environment/ReducedMotion.ts';
+
 export interface LoopRunnerConfig {
     iterations: number; // Number of times to repeat (Infinity for infinite, but with safety limits)
     delay: number; // Delay between iterations in ms
     play: () => Promise<void>; // Function to play the animation (should return when complete)
+    reducedMotion?: ReducedMotionPolicy; // Slot reduced motion policy (undefined = always loop)
+    onIteration?: (iteration: number) => void; // Called after each finished iteration (1-based count)
 }
 
 export class LoopRunner {
@@ -34,6 +45,12 @@ export class LoopRunner {
     private stopped = false;
     private currentIteration = 0;
     private timeoutId: number | null = null;
+    private reducedMotion?: ReducedMotionPolicy;
+    private parked = false;
+    private reducedMotionCleanup: (() => void) | null = null;
+    private suspended = false;
+    private heldWhileSuspended = false;
+    private onIteration?: (iteration: number) => void;
     
     // 🚨 SAFETY: Prevent runaway infinite loops
     private readonly MAX_ITERATIONS = 10000; // Safety limit even for "infinite" loops
@@ -44,6 +61,8 @@ export class LoopRunner {
         // 🎯 ALLOW 0 DELAY: Respect user's 0 delay choice for immediate cycling
         this.delay = Math.max(config.delay, 0); // Allow 0 delay, just prevent negative values
         this.play = config.play;
+        this.reducedMotion = config.reducedMotion;
+        this.onIteration = config.onIteration;
         
         // 🚨 SAFETY: Cap infinite iterations to prevent runaway loops
         if (this.iterations === Infinity) {
@@ -63,11 +82,29 @@ export class LoopRunner {
         
         this.stopped = false;
         this.currentIteration = 0;
+        this.parked = false;
+        
+        // ♿ Resume a parked loop when reduced motion is switched off
+        if (this.reducedMotion && this.reducedMotion !== ReducedMotionPolicy.NORMAL && !this.reducedMotionCleanup) {
+            this.reducedMotionCleanup = reducedMotionManager.subscribe(() => this.resumeIfParked());
+        }
         
         // Start the first iteration immediately
         this.scheduleNextIteration();
     }
 
+    /**
+     * ♿ Resume iterations that were parked for reduced motion
+     */
+    private resumeIfParked() {
+        if (!this.parked || this.stopped) return;
+        if (reducedMotionManager.resolvePolicy(this.reducedMotion) !== ReducedMotionPolicy.NORMAL) return;
+        
+        console.log(`🔄 [LoopRunner] Reduced motion cleared - resuming at iteration ${this.currentIteration}`);
+        this.parked = false;
+        this.scheduleNextIteration();
+    }
+
     /**
      * 🔄 NON-BLOCKING: Schedule the next iteration using setTimeout
      * This yields control to the browser between each iteration
@@ -91,6 +128,20 @@ export class LoopRunner {
             return;
         }
         
+        // ♿ The first iteration already reached the end state - don't keep looping
+        if (this.currentIteration > 0 && reducedMotionManager.resolvePolicy(this.reducedMotion) !== ReducedMotionPolicy.NORMAL) {
+            console.log(`🔄 [LoopRunner] Reduced motion active - parking loop at iteration ${this.currentIteration}`);
+            this.parked = true;
+            return;
+        }
+        
+        // 👁️ Off-screen - wait for resume()
+        if (this.suspended) {
+            console.log(`🔄 [LoopRunner] Suspended off-screen - holding iteration ${this.currentIteration}`);
+            this.heldWhileSuspended = true;
+            return;
+        }
+        
         // Execute current iteration asynchronously
         this.executeIteration()
             .then(() => {
@@ -119,12 +170,37 @@ export class LoopRunner {
         try {
             await this.play();
             console.log(`🔄 [LoopRunner] Iteration ${this.currentIteration + 1} completed successfully`);
+            if (!this.stopped) {
+                this.onIteration?.(this.currentIteration + 1);
+            }
         } catch (error) {
             console.error(`🔄 [LoopRunner] Iteration ${this.currentIteration + 1} failed:`, error);
             // Don't stop the loop on individual iteration failures
         }
     }
 
+    /**
+     * 👁️ Hold iterations while the slot is off-screen
+     * Also valid before start() - the first iteration then waits for resume().
+     */
+    public suspend() {
+        this.suspended = true;
+    }
+    
+    /**
+     * 👁️ Continue with the iteration that was held while off-screen
+     */
+    public resume() {
+        if (!this.suspended) return;
+        this.suspended = false;
+        
+        if (this.heldWhileSuspended && !this.stopped) {
+            console.log(`🔄 [LoopRunner] Back on-screen - resuming at iteration ${this.currentIteration}`);
+            this.heldWhileSuspended = false;
+            this.scheduleNextIteration();
+        }
+    }
+
     /**
      * Stops the loop and cleans up any pending timeouts
      */
@@ -132,6 +208,13 @@ export class LoopRunner {
         console.log(`🔄 [LoopRunner] Stopping loop at iteration ${this.currentIteration}`);
         
         this.stopped = true;
+        this.parked = false;
+        this.heldWhileSuspended = false;
+        
+        if (this.reducedMotionCleanup) {
+            this.reducedMotionCleanup();
+            this.reducedMotionCleanup = null;
+        }
         
         // Clean up any pending timeout
         if (this.timeoutId !== null) {
@@ -148,6 +231,8 @@ export class LoopRunner {
             currentIteration: this.currentIteration,
             totalIterations: this.iterations,
             stopped: this.stopped,
+            parkedForReducedMotion: this.parked,
+            suspendedOffscreen: this.suspended,
             hasPendingTimeout: this.timeoutId !== null
         };
     }
@@ -20,13 +20,24 @@
  * // ...
  * runner.stop();
  * ```
+ *
+ * ♿ With a reduced motion policy, the ping-pong parks at the end state (before the next
+ * backward phase) while the user prefers reduced motion, and resumes when it is cleared.
+ *
+ * 👁️ suspend() holds the next phase while the slot is off-screen; resume() continues
+ * from the phase it stopped at. The coordinator pauses the phase in progress.
  */
 
+import { ReducedMotionPolicy } from '../../types/index.ts';
+import { reducedMotionManager } from '../../utils/environment/ReducedMotion.ts';
+
 export interface PingPongRunnerConfig {
     cycles: number; // Number of ping-pong cycles (Infinity for infinite, but with safety limits)
     delay: number; // Delay between phases in ms
     playForward: () => Promise<void>; // Function to play forward animation
     playBackward: () => Promise<void>; // Function to play backward animation
+    reducedMotion?: ReducedMotionPolicy; // Slot reduced motion policy (undefined = always cycle)
+    onCycle?: (cycle: number) => void; // Called after each finished forward+backward cycle (1-based count)
 }
 
 export class PingPongRunner {
@@ -38,6 +49,12 @@ export class PingPongRunner {
     private currentCycle = 0;
     private currentPhase: 'forward' | 'backward' = 'forward';
     private timeoutId: number | null = null;
+    private reducedMotion?: ReducedMotionPolicy;
+    private parked = false;
+    private reducedMotionCleanup: (() => void) | null = null;
+    private suspended = false;
+    private heldWhileSuspended = false;
+    private onCycle?: (cycle: number) => void;
     
     // 🚨 SAFETY: Prevent runaway infinite loops
     private readonly MAX_CYCLES = 5000; // Safety limit even for "infinite" cycles
@@ -49,6 +66,8 @@ export class PingPongRunner {
         this.delay = Math.max(config.delay, 0); // Allow 0 delay, just prevent negative values
         this.playForward = config.playForward;
         this.playBackward = config.playBackward;
+        this.reducedMotion = config.reducedMotion;
+        this.onCycle = config.onCycle;
         
         // 🚨 SAFETY: Cap infinite cycles to prevent runaway loops
         if (this.cycles === Infinity) {
@@ -69,11 +88,29 @@ export class PingPongRunner {
         this.stopped = false;
         this.currentCycle = 0;
         this.currentPhase = 'forward';
+        this.parked = false;
+        
+        // ♿ Resume a parked ping-pong when reduced motion is switched off
+        if (this.reducedMotion && this.reducedMotion !== ReducedMotionPolicy.NORMAL && !this.reducedMotionCleanup) {
+            this.reducedMotionCleanup = reducedMotionManager.subscribe(() => this.resumeIfParked());
+        }
         
         // Start the first phase immediately
         this.scheduleNextPhase();
     }
 
+    /**
+     * ♿ Resume phases that were parked for reduced motion
+     */
+    private resumeIfParked() {
+        if (!this.parked || this.stopped) return;
+        if (reducedMotionManager.resolvePolicy(this.reducedMotion) !== ReducedMotionPolicy.NORMAL) return;
+        
+        console.log(`🏓 [PingPongRunner] Reduced motion cleared - resuming at cycle ${this.currentCycle}, phase: ${this.currentPhase}`);
+        this.parked = false;
+        this.scheduleNextPhase();
+    }
+
     /**
      * 🔄 NON-BLOCKING: Schedule the next phase using setTimeout
      * This yields control to the browser between each phase
@@ -97,6 +134,20 @@ export class PingPongRunner {
             return;
         }
         
+        // ♿ Rest at the end state instead of swinging back
+        if (this.currentPhase === 'backward' && reducedMotionManager.resolvePolicy(this.reducedMotion) !== ReducedMotionPolicy.NORMAL) {
+            console.log(`🏓 [PingPongRunner] Reduced motion active - parking at end of cycle ${this.currentCycle}`);
+            this.parked = true;
+            return;
+        }
+        
+        // 👁️ Off-screen - wait for resume()
+        if (this.suspended) {
+            console.log(`🏓 [PingPongRunner] Suspended off-screen - holding cycle ${this.currentCycle}, phase: ${this.currentPhase}`);
+            this.heldWhileSuspended = true;
+            return;
+        }
+        
         // Execute current phase asynchronously
         this.executeCurrentPhase()
             .then(() => {
@@ -130,6 +181,9 @@ export class PingPongRunner {
                 await this.playBackward();
             }
             console.log(`🏓 [PingPongRunner] ${phaseLabel} phase completed successfully`);
+            if (this.currentPhase === 'backward' && !this.stopped) {
+                this.onCycle?.(this.currentCycle + 1);
+            }
         } catch (error) {
             console.error(`🏓 [PingPongRunner] ${phaseLabel} phase failed:`, error);
             // Don't stop the ping-pong on individual phase failures
@@ -150,6 +204,28 @@ export class PingPongRunner {
         }
     }
 
+    /**
+     * 👁️ Hold phases while the slot is off-screen
+     * Also valid before start() - the first phase then waits for resume().
+     */
+    public suspend() {
+        this.suspended = true;
+    }
+    
+    /**
+     * 👁️ Continue with the phase that was held while off-screen
+     */
+    public resume() {
+        if (!this.suspended) return;
+        this.suspended = false;
+        
+        if (this.heldWhileSuspended && !this.stopped) {
+            console.log(`🏓 [PingPongRunner] Back on-screen - resuming at cycle ${this.currentCycle}, phase: ${this.currentPhase}`);
+            this.heldWhileSuspended = false;
+            this.scheduleNextPhase();
+        }
+    }
+
     /**
      * Stops the ping-pong and cleans up any pending timeouts
      */
@@ -157,6 +233,13 @@ export class PingPongRunner {
         console.log(`🏓 [PingPongRunner] Stopping ping-pong at cycle ${this.currentCycle}, phase: ${this.currentPhase}`);
         
         this.stopped = true;
+        this.parked = false;
+        this.heldWhileSuspended = false;
+        
+        if (this.reducedMotionCleanup) {
+            this.reducedMotionCleanup();
+            this.reducedMotionCleanup = null;
+        }
         
         // Clean up any pending timeout
         if (this.timeoutId !== null) {
@@ -174,6 +257,8 @@ export class PingPongRunner {
             totalCycles: this.cycles,
             currentPhase: this.currentPhase,
             stopped: this.stopped,
+            parkedForReducedMotion: this.parked,
+            suspendedOffscreen: this.suspended,
             hasPendingTimeout: this.timeoutId !== null
         };
     }
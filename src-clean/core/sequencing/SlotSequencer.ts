@@ -0,0 +1,238 @@
+/**
+ * @file SlotSequencer.ts
+ * @description Starts slots relative to another slot's lifecycle (SLOT_SEQUENCE triggers).
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * A sequenced slot names a parent slot and a position, GSAP-style:
+ *
+ * - "<"        parent starts
+ * - ">"        parent completes
+ * - "40%"      parent has travelled 40% of its run
+ * - "<+0.2"    0.2s after the parent starts
+ * - ">-0.3"    0.3s before the parent completes (predicted from its timeline duration)
+ * - "+0.5"     0.5s after the parent completes
+ *
+ * The sequencer follows the parent's lifecycle CustomEvents (fame:start, fame:update,
+ * fame:complete, ...) on the document. Animation IDs only need to be unique within one FAME:
+ * the parent is looked up in the sequenced slot's own FAME, or - with an `afterInstance`
+ * ("hero/intro" in the After Slot control) - in the FAME with that Instance Name.
+ *
+ * 🔁 Reverse cascade: when the parent runs backward, the sequenced slot is fired with a
+ * backward direction and plays its mirrored behavior. Its own children follow it the same
+ * way, so reversing the first slot of a chain reverses the whole chain in order.
+ * An interrupted parent cancels sequenced starts that are still waiting for their offset.
+ *
+ * Usage:
+ * ```typescript
+ * const sequencer = new SlotSequencer();
+ * const stop = sequencer.follow(trigger.sequenceConfig, host.dataset.componentId, (direction) => {
+ *     const behavior = getSequencedBehavior(trigger.behavior, direction);
+ *     // ... run the slot with behavior
+ * });
+ * stop();
+ * ```
+ */
+
+import {
+    AnimationBehavior,
+    AnimationDirection,
+    AnimationLifecycleEvent,
+    SequencePoint,
+    type AnimationLifecycleDetail,
+    type SlotSequenceConfig,
+} from '../../types/index.ts';
+
+/** Lifecycle events the sequencer reacts to */
+const FOLLOWED_EVENTS: AnimationLifecycleEvent[] = [
+    AnimationLifecycleEvent.START,
+    AnimationLifecycleEvent.UPDATE,
+    AnimationLifecycleEvent.COMPLETE,
+    AnimationLifecycleEvent.REVERSE_COMPLETE,
+    AnimationLifecycleEvent.INTERRUPT,
+];
+
+/** "<", ">" or "40%", then an optional offset ("+0.2", "-=0.3") */
+const POSITION_PATTERN = /^(<|>|(\d+(?:\.\d+)?)%)?\s*(?:([+-])=?\s*(\d*\.?\d+))?$/;
+
+/** Behaviors played instead when the parent runs backward */
+const MIRRORED_BEHAVIORS: Partial<Record<AnimationBehavior, AnimationBehavior>> = {
+    [AnimationBehavior.PLAY_FORWARD]: AnimationBehavior.PLAY_BACKWARD,
+    [AnimationBehavior.PLAY_BACKWARD]: AnimationBehavior.PLAY_FORWARD,
+    [AnimationBehavior.PLAY_FORWARD_AND_RESET]: AnimationBehavior.PLAY_BACKWARD_AND_RESET,
+    [AnimationBehavior.PLAY_BACKWARD_AND_RESET]: AnimationBehavior.PLAY_FORWARD_AND_RESET,
+    [AnimationBehavior.PLAY_FORWARD_AND_REVERSE]: AnimationBehavior.PLAY_BACKWARD_AND_REVERSE,
+    [AnimationBehavior.PLAY_BACKWARD_AND_REVERSE]: AnimationBehavior.PLAY_FORWARD_AND_REVERSE,
+};
+
+/**
+ * Parse a GSAP-style position string
+ * @param position - Position string (empty = ">")
+ * @returns Point, progress and offset, or null when the string is invalid
+ */
+export function parseSequencePosition(position: string | undefined): Pick<SlotSequenceConfig, 'point' | 'progress' | 'offset'> | null {
+    const normalized = (position || '').replace(/\s+/g, '');
+    if (!normalized) {
+        return { point: SequencePoint.COMPLETE, offset: 0 };
+    }
+
+    const match = normalized.match(POSITION_PATTERN);
+    if (!match) return null;
+
+    const [, anchor, percentage, sign, amount] = match;
+    const offset = amount ? parseFloat(amount) * (sign === '-' ? -1 : 1) : 0;
+
+    if (anchor === '<') {
+        return { point: SequencePoint.START, offset };
+    }
+    if (percentage !== undefined) {
+        return { point: SequencePoint.PROGRESS, progress: Math.min(parseFloat(percentage) / 100, 1), offset };
+    }
+    // ">" or a bare offset
+    return { point: SequencePoint.COMPLETE, offset };
+}
+
+/**
+ * Get the behavior a sequenced slot plays for a parent run direction
+ * @param behavior - Configured trigger behavior
+ * @param direction - Direction of the parent run
+ */
+export function getSequencedBehavior(behavior: AnimationBehavior, direction: AnimationDirection): AnimationBehavior {
+    if (direction !== AnimationDirection.BACKWARD) return behavior;
+    return MIRRORED_BEHAVIORS[behavior] || behavior;
+}
+
+export class SlotSequencer {
+    /**
+     * Follow a parent slot and call onFire at the configured position of each of its runs
+     * @param config - Sequence configuration of the trigger
+     * @param componentId - data-component-id of the sequenced slot's FAME host (parent scope without afterInstance)
+     * @param onFire - Called with the parent run direction
+     * @returns Cleanup function that stops following
+     */
+    public follow(
+        config: SlotSequenceConfig,
+        componentId: string | undefined,
+        onFire: (direction: AnimationDirection) => void
+    ): () => void {
+        if (typeof document === 'undefined') return () => {};
+
+        // State of the parent run currently being followed
+        let active = false;
+        let reached = false; // Position reached (possibly still waiting for the offset)
+        let runDirection = AnimationDirection.FORWARD;
+        let runStartProgress = 0;
+        let timeoutId: number | null = null;
+
+        const clearPending = () => {
+            if (timeoutId !== null) {
+                clearTimeout(timeoutId);
+                timeoutId = null;
+            }
+        };
+
+        const fireAfter = (delaySeconds: number) => {
+            clearPending();
+            const direction = runDirection;
+            timeoutId = window.setTimeout(() => {
+                timeoutId = null;
+                console.log(`🔗 [SlotSequencer] Firing after "${config.afterSlotId}" (${config.point}, ${direction})`);
+                onFire(direction);
+            }, Math.max(0, delaySeconds * 1000));
+        };
+
+        const handleLifecycleEvent = (event: Event) => {
+            const detail = (event as CustomEvent<AnimationLifecycleDetail>).detail;
+            if (!detail || !this.isParentEvent(detail, config, componentId)) return;
+
+            switch (detail.type) {
+                case AnimationLifecycleEvent.START: {
+                    // A new parent run replaces any start still waiting from the previous one
+                    clearPending();
+                    runDirection = detail.direction || AnimationDirection.FORWARD;
+                    runStartProgress = detail.progress;
+                    reached = false;
+                    active = config.followReverse || runDirection !== AnimationDirection.BACKWARD;
+                    if (!active) return;
+
+                    if (config.point === SequencePoint.START || (config.point === SequencePoint.PROGRESS && (config.progress || 0) <= 0)) {
+                        reached = true;
+                        fireAfter(config.offset);
+                    } else if (config.point === SequencePoint.COMPLETE && config.offset < 0 && detail.duration !== undefined) {
+                        // Start before the parent ends - predicted from its timeline duration
+                        reached = true;
+                        fireAfter(detail.duration + config.offset);
+                    }
+                    return;
+                }
+
+                case AnimationLifecycleEvent.UPDATE: {
+                    if (!active || reached || config.point !== SequencePoint.PROGRESS) return;
+
+                    if (this.getTravelled(runStartProgress, detail.progress, runDirection) >= (config.progress || 0)) {
+                        reached = true;
+                        fireAfter(config.offset);
+                    }
+                    return;
+                }
+
+                case AnimationLifecycleEvent.COMPLETE:
+                case AnimationLifecycleEvent.REVERSE_COMPLETE: {
+                    if (!active) return;
+                    active = false;
+
+                    if (config.point === SequencePoint.COMPLETE) {
+                        if (reached && timeoutId !== null) {
+                            // Parent finished earlier than predicted - don't wait any longer
+                            fireAfter(0);
+                        } else if (!reached) {
+                            fireAfter(Math.max(0, config.offset));
+                        }
+                    } else if (!reached) {
+                        // Progress position never observed (e.g. very short run) - it has been passed now
+                        fireAfter(config.offset);
+                    }
+                    return;
+                }
+
+                case AnimationLifecycleEvent.INTERRUPT: {
+                    active = false;
+                    clearPending();
+                    return;
+                }
+            }
+        };
+
+        FOLLOWED_EVENTS.forEach(eventName => document.addEventListener(eventName, handleLifecycleEvent));
+
+        return () => {
+            clearPending();
+            FOLLOWED_EVENTS.forEach(eventName => document.removeEventListener(eventName, handleLifecycleEvent));
+        };
+    }
+
+    /**
+     * Whether a lifecycle event belongs to the followed parent slot
+     * Authored Animation IDs repeat across FAME instances, so they only match within the scoped host.
+     */
+    private isParentEvent(detail: AnimationLifecycleDetail, config: SlotSequenceConfig, componentId: string | undefined): boolean {
+        // The generated slot ID is unique on the page (code-dispatched events)
+        if (detail.slotId === config.afterSlotId) return true;
+        if (detail.slotName !== config.afterSlotId) return false;
+
+        if (config.afterInstance) {
+            return detail.instanceName === config.afterInstance;
+        }
+        return componentId === undefined || detail.componentId === componentId;
+    }
+
+    /**
+     * Fraction of the run's distance travelled (0-1)
+     */
+    private getTravelled(startProgress: number, progress: number, direction: AnimationDirection): number {
+        if (direction === AnimationDirection.BACKWARD) {
+            return startProgress > 0 ? (startProgress - progress) / startProgress : 1;
+        }
+        return startProgress < 1 ? (progress - startProgress) / (1 - startProgress) : 1;
+    }
+}
@@ -198,11 +198,12 @@ export class AnimationStateManager {
      * @param slotId - Animation slot identifier
      * @param behavior - Desired behavior (toggle, forward, etc.)
      * @param overrideState - Whether to override state when at target
+     * @param labelProgress - Resolved label progress (PLAY_TO_LABEL only)
      * @returns Decision object with target progress and direction
      */
-    decideBehavior(slotId: string, behavior: AnimationBehavior, overrideState: boolean = false): BehaviorDecision {
+    decideBehavior(slotId: string, behavior: AnimationBehavior, overrideState: boolean = false, labelProgress?: number): BehaviorDecision {
         const currentState = this.getState(slotId);
-        return this.behaviorEngine.decideBehavior(currentState, behavior, overrideState);
+        return this.behaviorEngine.decideBehavior(currentState, behavior, overrideState, labelProgress);
     }
     
     /**
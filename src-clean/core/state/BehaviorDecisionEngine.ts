@@ -11,6 +11,7 @@
  * - Manages animation direction decisions
  * - Handles reset, reverse, and toggle behaviors
  * - State override and intention-based behaviors
+ * - Playback control behaviors (pause, resume, toggle pause)
  * 
  * @architecture
  * - Single responsibility: behavior decisions only
@@ -53,6 +54,25 @@ export interface BehaviorDecision {
     
     /** NEW: Override State Feature - Instant position change before animation */
     overrideStartProgress?: number; // If set, instantly jump to this progress before animating
+    
+    /** Playback control to apply instead of animating (PAUSE, RESUME, TOGGLE_PAUSE) */
+    playbackControl?: PlaybackControlAction;
+}
+
+/**
+ * Playback control action decided for PAUSE / RESUME / TOGGLE_PAUSE
+ * 'none' = nothing to pause or resume in the current state
+ */
+export type PlaybackControlAction = 'pause' | 'resume' | 'none';
+
+/**
+ * Check whether a behavior controls playback instead of starting an animation
+ * @param behavior - Trigger behavior
+ */
+export function isPlaybackControlBehavior(behavior: AnimationBehavior | string): boolean {
+    return behavior === AnimationBehavior.PAUSE ||
+        behavior === AnimationBehavior.RESUME ||
+        behavior === AnimationBehavior.TOGGLE_PAUSE;
 }
 
 /**
@@ -76,17 +96,19 @@ export class BehaviorDecisionEngine {
      * @param currentState - Current animation state (or null for initial state)
      * @param behavior - Desired behavior (toggle, forward, etc.)
      * @param overrideState - Whether to override state when at target
+     * @param labelProgress - Resolved label progress (PLAY_TO_LABEL only)
      * @returns Decision object with target progress and direction
      */
     decideBehavior(
         currentState: AnimationState | null, 
         behavior: AnimationBehavior, 
-        overrideState: boolean = false
+        overrideState: boolean = false,
+        labelProgress?: number
     ): BehaviorDecision {
         
         // If no current state, create default initial decision
         if (!currentState) {
-            return this.decideForInitialState(behavior);
+            return this.decideForInitialState(behavior, labelProgress);
         }
         
         // Decide based on behavior type
@@ -119,6 +141,16 @@ export class BehaviorDecisionEngine {
             case AnimationBehavior.DELAYED_TRIGGER:
                 return this.decideDelayedTrigger(currentState);
             
+            // ⏸️ PHASE 6 - PLAYBACK CONTROL BEHAVIORS (NEW)
+            case AnimationBehavior.PAUSE:
+            case AnimationBehavior.RESUME:
+            case AnimationBehavior.TOGGLE_PAUSE:
+                return this.decidePlaybackControl(currentState, behavior);
+            
+            // 🏷️ PHASE 7 - LABEL BEHAVIORS (NEW)
+            case AnimationBehavior.PLAY_TO_LABEL:
+                return this.decidePlayToLabel(currentState, labelProgress);
+            
             // 📜 LEGACY COMPATIBILITY (DEPRECATED - mapped to new behaviors)
             case AnimationBehavior.PLAY_ONCE:
                 console.warn(`🎯 [BehaviorDecisionEngine] PLAY_ONCE is deprecated, use PLAY_FORWARD`);
@@ -165,13 +197,24 @@ export class BehaviorDecisionEngine {
      * Create initial decision for first animation trigger
      * Updated for target-based architecture
      */
-    private decideForInitialState(behavior: AnimationBehavior): BehaviorDecision {
+    private decideForInitialState(behavior: AnimationBehavior, labelProgress?: number): BehaviorDecision {
         // Determine target based on behavior
         let targetProgress: number;
         let direction: AnimationDirection;
         let shouldResetAfterCompletion: boolean = false;
         let overrideStartProgress: number | undefined;
         
+        // Nothing has played yet - there is nothing to pause or resume
+        if (isPlaybackControlBehavior(behavior)) {
+            return {
+                targetProgress: 0.0,
+                direction: AnimationDirection.FORWARD,
+                shouldResetAfterCompletion: false,
+                isLoopIteration: false,
+                playbackControl: 'none'
+            };
+        }
+        
         switch (behavior) {
             case AnimationBehavior.PLAY_FORWARD:
             case AnimationBehavior.TOGGLE: // First toggle always goes forward
@@ -199,6 +242,12 @@ export class BehaviorDecisionEngine {
                 overrideStartProgress = 1.0; // Always start from 1
                 break;
                 
+            // 🏷️ Nothing has played yet - play from the start to the label
+            case AnimationBehavior.PLAY_TO_LABEL:
+                targetProgress = labelProgress ?? 0.0;
+                direction = AnimationDirection.FORWARD;
+                break;
+                
             default:
                 // Default: go forward
                 targetProgress = 1.0;
@@ -255,6 +304,22 @@ export class BehaviorDecisionEngine {
         };
     }
     
+    /**
+     * Handle PLAY_TO_LABEL behavior
+     * Plays forward or backward from the current progress to the label
+     */
+    private decidePlayToLabel(currentState: AnimationState, labelProgress?: number): BehaviorDecision {
+        const currentProgress = currentState.progress;
+        const targetProgress = labelProgress ?? currentProgress; // Unknown label - stay put
+        
+        return {
+            targetProgress,
+            direction: targetProgress < currentProgress ? AnimationDirection.BACKWARD : AnimationDirection.FORWARD,
+            shouldResetAfterCompletion: false,
+            isLoopIteration: false
+        };
+    }
+    
     /**
      * Handle PLAY_BACKWARD behavior
      */
@@ -408,6 +473,32 @@ export class BehaviorDecisionEngine {
         };
     }
 
+    /**
+     * Handle PAUSE / RESUME / TOGGLE_PAUSE behaviors
+     * Keeps the current intention (target) and only decides whether playback stops or continues
+     */
+    private decidePlaybackControl(currentState: AnimationState, behavior: AnimationBehavior): BehaviorDecision {
+        const isRunning = currentState.status === AnimationStatus.RUNNING;
+        const isPaused = currentState.status === AnimationStatus.PAUSED;
+        
+        let playbackControl: PlaybackControlAction = 'none';
+        if (behavior === AnimationBehavior.PAUSE && isRunning) {
+            playbackControl = 'pause';
+        } else if (behavior === AnimationBehavior.RESUME && isPaused) {
+            playbackControl = 'resume';
+        } else if (behavior === AnimationBehavior.TOGGLE_PAUSE) {
+            playbackControl = isPaused ? 'resume' : isRunning ? 'pause' : 'none';
+        }
+        
+        return {
+            targetProgress: currentState.targetProgress,
+            direction: currentState.progress <= currentState.targetProgress ? AnimationDirection.FORWARD : AnimationDirection.BACKWARD,
+            shouldResetAfterCompletion: false,
+            isLoopIteration: false,
+            playbackControl
+        };
+    }
+    
     /**
      * Handle DELAYED_TRIGGER behavior
      * Counts triggers and executes behavior after skip count is reached
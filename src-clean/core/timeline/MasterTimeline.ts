@@ -41,7 +41,7 @@
  * ```
  */
 
-import { AnimationProperty } from '../../types/index.ts';
+import { AnimationProperty, ReducedMotionPolicy, TimelineLabel } from '../../types/index.ts';
 import { 
     PropertyTimeline, 
     PropertyKeyframe, 
@@ -50,6 +50,8 @@ import {
     sortKeyframesByTime,
     deduplicateKeyframes
 } from './PropertyTimeline.ts';
+import { isTextEffectProperty } from '../../utils/text/effects/TextEffectChannels.ts';
+import { SpringConfig, calculateSpringDuration, isPhysicsSpringEasing } from '../../utils/easings/EasingFunctions.ts';
 
 //=======================================
 //        MASTER TIMELINE SYSTEM
@@ -69,6 +71,18 @@ export interface MasterTimeline {
     /** Global settings that can be applied to all properties */
     globalSettings?: GlobalTimelineConfig;
     
+    /** Reduced motion policy of the owning slot (resolved at playback time) */
+    reducedMotion?: ReducedMotionPolicy;
+    
+    /** Playback speed of the owning slot (set at playback time, default 1) */
+    timeScale?: number;
+    
+    /** Named points in time (label → seconds), targeted by PLAY_TO_LABEL */
+    labels?: Record<string, number>;
+    
+    /** Whether the owning slot runs on the compositor backend when it can (set at playback time) */
+    useCompositor?: boolean;
+    
     /** Metadata for debugging and analysis */
     metadata?: {
         originalInstanceCount: number;
@@ -96,10 +110,7 @@ export interface GlobalTimelineConfig {
     easing?: string;
     
     /** Global spring configuration */
-    springConfig?: {
-        amplitude: number;
-        period: number;
-    };
+    springConfig?: SpringConfig;
 }
 
 //=======================================
@@ -116,11 +127,13 @@ export class MasterTimelineBuilder {
      * Build master timeline from animation properties
      * @param properties - Array of animation properties (can have duplicates)
      * @param globalSettings - Optional global timeline configuration
+     * @param labels - Optional named points in time
      * @returns Master timeline with coordinated property timelines
      */
     buildMasterTimeline(
         properties: AnimationProperty[], 
-        globalSettings?: GlobalTimelineConfig
+        globalSettings?: GlobalTimelineConfig,
+        labels?: TimelineLabel[]
     ): MasterTimeline {
         console.log('🎬 [MasterTimelineBuilder] Building master timeline from properties:', {
             propertyCount: properties.length,
@@ -146,10 +159,13 @@ export class MasterTimelineBuilder {
             maxDuration = Math.max(maxDuration, propertyTimeline.totalDuration);
         });
         
+        const labelTimes = this.resolveLabels(labels);
+        
         const masterTimeline: MasterTimeline = {
             propertyTimelines,
             totalDuration: maxDuration,
             globalSettings,
+            ...(labelTimes && { labels: labelTimes }),
             metadata: {
                 originalInstanceCount: properties.length,
                 propertyTypes: Array.from(propertiesByType.keys()),
@@ -161,12 +177,56 @@ export class MasterTimelineBuilder {
         console.log('🎬 [MasterTimelineBuilder] Master timeline built:', {
             propertyTimelineCount: propertyTimelines.length,
             totalDuration: maxDuration,
-            propertyTypes: masterTimeline.metadata?.propertyTypes
+            propertyTypes: masterTimeline.metadata?.propertyTypes,
+            labels: masterTimeline.labels
         });
         
         return masterTimeline;
     }
     
+    /**
+     * Add property timelines to an existing master timeline
+     * Used for channels derived after the slot's properties were built (e.g. text effects)
+     * @param masterTimeline - Master timeline to extend
+     * @param properties - Additional animation properties
+     * @returns New master timeline containing both sets of property timelines
+     */
+    extendMasterTimeline(
+        masterTimeline: MasterTimeline,
+        properties: AnimationProperty[]
+    ): MasterTimeline {
+        if (properties.length === 0) return masterTimeline;
+        
+        const addedTimelines: PropertyTimeline[] = [];
+        this.groupPropertiesByType(properties).forEach((instances, propertyType) => {
+            addedTimelines.push(
+                this.buildPropertyTimeline(propertyType, instances, masterTimeline.globalSettings)
+            );
+        });
+        
+        const propertyTimelines = [...masterTimeline.propertyTimelines, ...addedTimelines];
+        const totalDuration = Math.max(
+            masterTimeline.totalDuration,
+            ...addedTimelines.map(timeline => timeline.totalDuration)
+        );
+        
+        console.log('🎬 [MasterTimelineBuilder] Extended master timeline:', {
+            addedPropertyTypes: addedTimelines.map(timeline => timeline.property),
+            totalDuration
+        });
+        
+        return {
+            ...masterTimeline,
+            propertyTimelines,
+            totalDuration,
+            metadata: masterTimeline.metadata && {
+                ...masterTimeline.metadata,
+                originalInstanceCount: masterTimeline.metadata.originalInstanceCount + properties.length,
+                propertyTypes: propertyTimelines.map(timeline => timeline.property)
+            }
+        };
+    }
+    
     /**
      * Group animation properties by property type
      * @param properties - Array of animation properties
@@ -225,6 +285,12 @@ export class MasterTimelineBuilder {
                 globalSettings
             );
             
+            // 🎞️ Explicit keyframe track: one keyframe per stop instead of from → to
+            if (instance.keyframes && instance.keyframes.length >= 2) {
+                keyframes.push(...this.createKeyframeTrack(instance, startTime, endTime));
+                return;
+            }
+            
             // Create start keyframe
             keyframes.push({
                 time: startTime,
@@ -241,6 +307,8 @@ export class MasterTimelineBuilder {
                 time: endTime,
                 value: toValue,
                 easing: instance.easing || 'ease',
+                colorSpace: instance.colorSpace,
+                hueInterpolation: instance.hueInterpolation,
                 metadata: {
                     sourceInstanceId: instance.instanceId || instance.property
                     // ❌ REMOVED: originalIndex - Timeline preserves order naturally through keyframe timing
@@ -322,6 +390,12 @@ export class MasterTimelineBuilder {
             }
         }
         
+        // Physics springs run until they settle - their duration comes from the spring itself
+        if (isPhysicsSpringEasing(instance.easing)) {
+            const springConfig = instance.springConfig || (globalSettings?.enabled ? globalSettings.springConfig : undefined);
+            duration = calculateSpringDuration(springConfig);
+        }
+        
         // Convert to seconds if needed (assuming internal format is already in seconds)
         const startTime = delay;
         const endTime = delay + duration;
@@ -334,12 +408,69 @@ export class MasterTimelineBuilder {
         };
     }
     
+    /**
+     * Convert an instance's explicit keyframe stops to timeline keyframes
+     * Each stop's easing shapes the segment arriving at it (first stop: linear)
+     * @param instance - Property instance with keyframes
+     * @param startTime - Instance start time in seconds
+     * @param endTime - Instance end time in seconds
+     * @returns Keyframes spread across the instance's duration
+     */
+    private createKeyframeTrack(
+        instance: AnimationProperty,
+        startTime: number,
+        endTime: number
+    ): PropertyKeyframe[] {
+        const duration = endTime - startTime;
+        const stops = [...instance.keyframes!]
+            .map(stop => ({ ...stop, offset: Math.min(Math.max(stop.offset, 0), 1) }))
+            .sort((a, b) => a.offset - b.offset);
+        
+        return stops.map((stop, index) => ({
+            time: startTime + stop.offset * duration,
+            value: stop.value,
+            easing: index === 0 ? 'linear' : (stop.easing || instance.easing || 'ease'),
+            colorSpace: instance.colorSpace,
+            hueInterpolation: instance.hueInterpolation,
+            metadata: {
+                sourceInstanceId: instance.instanceId || instance.property
+            }
+        }));
+    }
+    
+    /**
+     * Convert labels to a name → time map
+     * Labels without a name or with an invalid time are dropped; duplicate names keep the last time.
+     * @param labels - Labels from the slot configuration
+     * @returns Label map, or undefined when there are no valid labels
+     */
+    private resolveLabels(labels?: TimelineLabel[]): Record<string, number> | undefined {
+        if (!labels || labels.length === 0) return undefined;
+        
+        const labelTimes: Record<string, number> = {};
+        labels.forEach(label => {
+            const name = label.name?.trim();
+            if (!name || !Number.isFinite(label.time)) {
+                console.warn(`🏷️ [MasterTimelineBuilder] Ignoring invalid label:`, label);
+                return;
+            }
+            labelTimes[name] = Math.max(0, label.time);
+        });
+        
+        return Object.keys(labelTimes).length > 0 ? labelTimes : undefined;
+    }
+    
     /**
      * Check if instance should use global settings
      * @param instance - Property instance
      * @returns Whether to use global settings
      */
     private shouldUseGlobalSettings(instance: AnimationProperty): boolean {
+        // Text effect channels carry their own resolved timing (see createTextEffectProperties)
+        if (isTextEffectProperty(instance.property)) {
+            return false;
+        }
+        
         // Check if instance has a useGlobalSettings flag (from property controls)
         // For now, assume all instances use global settings if global timeline is enabled
         // This can be enhanced based on property control implementation
@@ -563,6 +694,21 @@ export function getMasterTimelineInitialValues(
     return getMasterTimelineValuesAtTime(masterTimeline, 0);
 }
 
+/**
+ * 🏷️ Get the progress (0-1) of a named label
+ * Labels past the end of the timeline resolve to 1.
+ * @param masterTimeline - Master timeline
+ * @param label - Label name
+ * @returns Label progress, or null when the timeline has no such label
+ */
+export function getLabelProgress(masterTimeline: MasterTimeline, label: string): number | null {
+    const time = masterTimeline.labels?.[label.trim()];
+    if (time === undefined) return null;
+    
+    if (masterTimeline.totalDuration <= 0) return 0;
+    return Math.min(time / masterTimeline.totalDuration, 1);
+}
+
 /**
  * Validate master timeline structure
  * @param masterTimeline - Master timeline to validate
@@ -26,12 +26,40 @@
  * player.seekTo(masterTimeline, element, 2.5);         // Jump to 2.5s position
  * player.reset(masterTimeline, element);               // Jump to beginning (0s)
  * await player.toggle(masterTimeline, element);        // Smart toggle based on position
+ * 
+ * // Control a running playback:
+ * player.pauseElement(element);                        // Freeze, keep elapsed time
+ * player.seekElement(element, 0.5);                    // Move the paused/running playback to 50%
+ * player.resumeElement(element);                       // Continue where it stopped
+ * player.setTimeScale(element, 0.5);                   // Half speed for this element
+ * MasterTimelinePlayer.setGlobalTimeScale(2);          // Double speed for every playback
  * ```
+ * 
+ * Compositor backend:
+ * Timelines of slots with useCompositor are compiled into a WAAPI animation when they only
+ * animate transforms and opacity. The rAF loop then only keeps the clock, progress callbacks
+ * and completion; styles are written back inline when the playback ends or is interrupted.
+ * 
+ * Physics spring velocity handoff:
+ * When a running playback is interrupted (stopElement, or a new playback on the same element),
+ * the position and velocity of every spring.physics property are recorded. If the next playback
+ * starts right away, those properties spring from where they are toward the new target while
+ * keeping their speed, instead of restarting from rest.
  */
 
-import { AnimationBehavior, ReverseMode } from '../../types/index.ts';
+import { AnimationBehavior, ReverseMode, ReducedMotionPolicy } from '../../types/index.ts';
 import { MasterTimeline, getMasterTimelineValuesAtTime } from './MasterTimeline.ts';
+import { PropertyTimeline } from './PropertyTimeline.ts';
 import { applyProperty } from '../../execution/StyleApplicator.ts';
+import {
+    SpringConfig,
+    getSpringState,
+    calculateSpringDuration,
+    isPhysicsSpringEasing
+} from '../../utils/easings/EasingFunctions.ts';
+import { reducedMotionManager, crossfadeElement } from '../../utils/environment/ReducedMotion.ts';
+import { performanceGovernor } from '../../utils/performance/PerformanceGovernor.ts';
+import { compositorBackend } from '../../execution/CompositorBackend.ts';
 
 //=======================================
 //        PLAYBACK STATE MANAGEMENT
@@ -56,6 +84,21 @@ interface PlaybackState {
     /** Start time for timing calculations */
     startTime: number;
     
+    /** Playback time elapsed in milliseconds (scaled by time scale, frozen while paused) */
+    elapsed: number;
+    
+    /** Timestamp of the last clock update */
+    lastFrameTime: number;
+    
+    /** Whether playback is paused (isPlaying stays true so stops/cleanups still find it) */
+    isPaused: boolean;
+    
+    /** Playback speed of this element (combined with the global time scale) */
+    timeScale: number;
+    
+    /** Frame callback, kept so resume can continue the same playback */
+    tick?: (currentTime: number) => void;
+    
     /** Duration for this playback session */
     duration: number;
     
@@ -64,6 +107,74 @@ interface PlaybackState {
     
     /** Callback for progress updates */
     progressCallback?: (progress: number) => void;
+    
+    /** Timeline being played */
+    masterTimeline: MasterTimeline;
+    
+    /** Timeline start position in seconds */
+    fromTime: number;
+    
+    /** Timeline target position in seconds */
+    toTime: number;
+    
+    /** Wall-clock duration of the timeline part in milliseconds (duration may be longer for handoffs) */
+    timelineDuration: number;
+    
+    /** Physics spring properties continuing an interrupted playback */
+    springHandoffs: SpringHandoff[];
+    
+    /** Whether this playback counts against the governor's maxConcurrentAnimations */
+    holdsPlaybackSlot: boolean;
+    
+    /** WAAPI animation rendering this playback (compositor backend), driven by the playback clock */
+    compositorAnimation?: Animation;
+}
+
+/**
+ * Physics spring property continuing with the velocity of an interrupted playback
+ */
+interface SpringHandoff {
+    /** Property name */
+    property: string;
+    
+    /** Numeric value when the handoff started */
+    from: number;
+    
+    /** Numeric target value */
+    to: number;
+    
+    /** Unit appended to the numeric value */
+    unit: string;
+    
+    /** Spring configuration including the normalized initial velocity */
+    springConfig: SpringConfig;
+    
+    /** Settling time in seconds */
+    duration: number;
+}
+
+/**
+ * Motion of physics spring properties when a playback was interrupted
+ */
+interface MotionSnapshot {
+    /** performance.now() at the interruption */
+    capturedAt: number;
+    
+    /** Property name → numeric value, velocity (units per second) and unit */
+    properties: Map<string, { value: number; velocity: number; unit: string }>;
+}
+
+/** Maximum gap between an interruption and the next playback for velocity to carry over (ms) */
+const VELOCITY_HANDOFF_WINDOW = 100;
+
+/** Timeline step for numeric velocity estimation (seconds) */
+const VELOCITY_SAMPLE_STEP = 1 / 240;
+
+/**
+ * Sanitize a time scale (negative, NaN or infinite values play at normal speed)
+ */
+function sanitizeTimeScale(scale: number | undefined): number {
+    return typeof scale === 'number' && Number.isFinite(scale) && scale >= 0 ? scale : 1;
 }
 
 //=======================================
@@ -75,13 +186,34 @@ interface PlaybackState {
  * Replaces complex multi-property instance coordination
  */
 export class MasterTimelinePlayer {
+    /** Speed multiplier applied to every playback of every player */
+    private static globalTimeScale = 1;
+    
     private activeTimelines = new Map<string, PlaybackState>();
+    private motionSnapshots = new Map<string, MotionSnapshot>();
     private timelineCounter = 0;
     
     constructor() {
         console.log('🎬 [MasterTimelinePlayer] Initialized');
     }
     
+    /**
+     * Set the global time scale (1 = normal, 0.5 = slow motion, 2 = double speed)
+     * Applies from the next frame, including to playbacks already running.
+     * @param scale - Speed multiplier (>= 0)
+     */
+    static setGlobalTimeScale(scale: number): void {
+        MasterTimelinePlayer.globalTimeScale = sanitizeTimeScale(scale);
+        console.log(`⏩ [MasterTimelinePlayer] Global time scale: ${MasterTimelinePlayer.globalTimeScale}`);
+    }
+    
+    /**
+     * Get the global time scale
+     */
+    static getGlobalTimeScale(): number {
+        return MasterTimelinePlayer.globalTimeScale;
+    }
+    
     //=======================================
     //        PRIMARY PLAYBACK METHODS
     //=======================================
@@ -168,8 +300,9 @@ export class MasterTimelinePlayer {
         
         // console.log(`🎬 [MasterTimelinePlayer] 🚨 [InitialValueFix] Seeking to: ${(clampedProgress * 100).toFixed(1)}% (${time.toFixed(2)}s)`);
         
-        // Cancel any active playback for this element
+        // Cancel any active playback for this element - a seek leaves nothing in motion
         this.stopPlayback(element);
+        this.motionSnapshots.delete(this.getElementKey(element));
         
         // 🚨 ENHANCED: Apply all property values at this time (already immediate)
         this.applyTimelineAtTime(masterTimeline, element, time);
@@ -233,6 +366,7 @@ export class MasterTimelinePlayer {
      * @param currentProgress - Current progress (0-1) from external state source
      * @param progressCallback - Optional progress callback
      * @param reverseMode - Reverse mode for reverse behaviors
+     * @param targetProgress - Resolved label progress for PLAY_TO_LABEL
      * @returns Promise that resolves with the final expected progress after behavior completion
      */
     async executeBehavior(
@@ -241,8 +375,15 @@ export class MasterTimelinePlayer {
         element: HTMLElement,
         currentProgress: number,
         progressCallback?: (progress: number) => void,
-        reverseMode: ReverseMode = ReverseMode.EASING_PRESERVATION
+        reverseMode: ReverseMode = ReverseMode.EASING_PRESERVATION,
+        targetProgress?: number
     ): Promise<number> {
+        // ♿ DISABLE policy: leave element and state untouched while reduced motion is preferred
+        if (reducedMotionManager.resolvePolicy(masterTimeline.reducedMotion) === ReducedMotionPolicy.DISABLE) {
+            console.log(`♿ [MasterTimelinePlayer] Reduced motion DISABLE - skipping ${behavior}`);
+            return currentProgress;
+        }
+        
         // 🔍 DEBUG: Log executeBehavior call
         // console.log(`🔍 [MASTER-TIMELINE-DEBUG] executeBehavior() called:`, {
         //     behavior,
@@ -395,7 +536,29 @@ export class MasterTimelinePlayer {
                 // For STOP_LOOP, we don't animate - just stay at current position
                 console.log(`🔄 [MasterTimelinePlayer] STOP_LOOP: Staying at current position`);
                 return currentProgress; // No change for stop loop
-                
+
+            // ⏸️ PHASE 6 - PLAYBACK CONTROL BEHAVIORS (NEW)
+            case AnimationBehavior.PAUSE:
+            case AnimationBehavior.RESUME:
+            case AnimationBehavior.TOGGLE_PAUSE:
+                // Handled by pauseElement()/resumeElement() - nothing to play from here
+                console.log(`⏸️ [MasterTimelinePlayer] ${behavior}: Staying at current position`);
+                return currentProgress;
+
+            // 🏷️ PHASE 7 - LABEL BEHAVIORS (NEW)
+            case AnimationBehavior.PLAY_TO_LABEL: {
+                // Time-based in both directions so the label lands exactly on its keyframe values
+                const labelProgress = targetProgress ?? currentProgress;
+                await this.playToPosition(
+                    masterTimeline,
+                    element,
+                    currentProgress * masterTimeline.totalDuration,
+                    labelProgress * masterTimeline.totalDuration,
+                    progressCallback
+                );
+                return labelProgress;
+            }
+
             // 🔄 PHASE 3 - PING PONG BEHAVIORS (IMPLEMENTED)
             case AnimationBehavior.START_PING_PONG:
                 // For START_PING_PONG, we execute forward then reverse (like PLAY_FORWARD_AND_REVERSE)
@@ -482,30 +645,65 @@ export class MasterTimelinePlayer {
             return Promise.resolve();
         }
         
-        // Cancel any existing playback for this element
-        this.stopPlayback(element);
+        // Cancel any existing playback for this element (an interruption keeps its velocity)
+        this.stopPlayback(element, true);
+        
+        // 🌀 Physics springs interrupted a moment ago continue with their velocity
+        const springHandoffs = this.consumeSpringHandoffs(masterTimeline, element, toTime);
+        
+        // ♿ Reduced motion: jump, crossfade or ignore instead of animating
+        const reducedMotionPolicy = reducedMotionManager.resolvePolicy(masterTimeline.reducedMotion);
+        if (reducedMotionPolicy !== ReducedMotionPolicy.NORMAL) {
+            return this.playReducedMotion(masterTimeline, element, toTime, reducedMotionPolicy, progressCallback);
+        }
+        
+        // 🐢 Too many playbacks at once: jump to the end state instead of animating
+        if (!performanceGovernor.acquirePlayback()) {
+            return this.playReducedMotion(masterTimeline, element, toTime, ReducedMotionPolicy.SKIP_TO_END, progressCallback);
+        }
         
         // Calculate playback parameters
         const distance = Math.abs(toTime - fromTime);
         const direction = toTime > fromTime ? 'forward' : 'backward';
-        const duration = distance * 1000; // Convert to milliseconds for timing
+        const timelineDuration = distance * 1000; // Convert to milliseconds for timing
+        
+        // Handoff springs settle on their own clock - playback lasts until the slowest one is done
+        const duration = Math.max(timelineDuration, ...springHandoffs.map(handoff => handoff.duration * 1000));
+        const handoffProperties = new Set(springHandoffs.map(handoff => handoff.property));
         
         // Create playback state
         const playbackId = `${++this.timelineCounter}-${Date.now()}`;
+        const now = performance.now();
         const playbackState: PlaybackState = {
             currentTime: fromTime,
             direction,
             isPlaying: true,
-            startTime: performance.now(),
+            startTime: now,
+            elapsed: 0,
+            lastFrameTime: now,
+            isPaused: false,
+            timeScale: sanitizeTimeScale(masterTimeline.timeScale),
             duration,
             element,
-            progressCallback
+            progressCallback,
+            masterTimeline,
+            fromTime,
+            toTime,
+            timelineDuration,
+            springHandoffs,
+            holdsPlaybackSlot: true
         };
         
         // 🚨 CRITICAL FIX: Apply initial values IMMEDIATELY before starting animation
         // This prevents the 1-frame flash where elements show their natural CSS state
         // console.log(`🔍 [MASTER-TIMELINE-DEBUG] Applying initial timeline values at time: ${fromTime.toFixed(3)}s`);
-        this.applyTimelineAtTime(masterTimeline, element, fromTime);
+        this.applyTimelineAtTime(masterTimeline, element, fromTime, handoffProperties);
+        this.applySpringHandoffs(element, springHandoffs, 0);
+        
+        // 🧊 Let the browser render the segment when the slot opted in and it compiles
+        if (masterTimeline.useCompositor) {
+            this.startCompositorPlayback(playbackState);
+        }
         
         // Store active playback
         this.activeTimelines.set(this.getElementKey(element), playbackState);
@@ -527,16 +725,51 @@ export class MasterTimelinePlayer {
                     return;
                 }
                 
-                // Calculate progress (0 to 1)
-                const elapsed = currentTime - playbackState.startTime;
+                // ⏸️ Paused: resumeElement() schedules the next frame
+                if (playbackState.isPaused) {
+                    return;
+                }
+                
+                // 🐢 Lowered frame rate: skip rendering, the clock catches up on the next rendered frame
+                if (!performanceGovernor.beginFrame(currentTime)) {
+                    playbackState.animationId = requestAnimationFrame(animate);
+                    return;
+                }
+                
+                // Calculate progress (0 to 1) on the scaled playback clock
+                this.advanceClock(playbackState, currentTime);
+                const elapsed = playbackState.elapsed;
                 const rawProgress = elapsed / duration;
-                const clampedProgress = Math.min(rawProgress, 1.0);
                 
-                // Calculate current timeline position
-                const timelinePosition = fromTime + (toTime - fromTime) * clampedProgress;
+                // ♿ Finish instantly if reduced motion was switched on mid-playback
+                const reducedMotionActive = reducedMotionManager.resolvePolicy(masterTimeline.reducedMotion) !== ReducedMotionPolicy.NORMAL;
+                const clampedProgress = reducedMotionActive ? 1.0 : Math.min(rawProgress, 1.0);
+                
+                // Calculate current timeline position (handoff springs may outlast the timeline part)
+                const timelineProgress = clampedProgress >= 1.0 || timelineDuration <= 0
+                    ? 1.0
+                    : Math.min(elapsed / timelineDuration, 1.0);
+                const timelinePosition = fromTime + (toTime - fromTime) * timelineProgress;
+                playbackState.currentTime = timelinePosition;
                 
-                // Apply timeline values at current position
-                this.applyTimelineAtTime(masterTimeline, element, timelinePosition);
+                if (playbackState.compositorAnimation) {
+                    // 🧊 The compositor renders - styles are only written back at the end
+                    if (clampedProgress >= 1.0) {
+                        this.applyTimelineAtTime(masterTimeline, element, timelinePosition, handoffProperties);
+                    } else if (playbackState.compositorAnimation.playbackRate !== this.getEffectiveTimeScale(playbackState)) {
+                        this.syncCompositorAnimation(playbackState); // Global time scale changed
+                    }
+                } else {
+                    // 🐢 Reduced effects: expensive properties only change on the final frame
+                    const governedProperties = performanceGovernor.getSkippedProperties();
+                    const skipProperties = clampedProgress >= 1.0 || governedProperties.size === 0
+                        ? handoffProperties
+                        : new Set([...handoffProperties, ...governedProperties]);
+                    
+                    // Apply timeline values at current position
+                    this.applyTimelineAtTime(masterTimeline, element, timelinePosition, skipProperties);
+                    this.applySpringHandoffs(element, springHandoffs, clampedProgress >= 1.0 ? Infinity : elapsed / 1000);
+                }
                 
                 // Call progress callback
                 if (progressCallback) {
@@ -556,6 +789,8 @@ export class MasterTimelinePlayer {
                     
                     // Cleanup
                     playbackState.isPlaying = false;
+                    this.releasePlaybackSlot(playbackState);
+                    this.releaseCompositorAnimation(playbackState, false);
                     this.activeTimelines.delete(this.getElementKey(element));
                     
                     resolve();
@@ -568,20 +803,58 @@ export class MasterTimelinePlayer {
             
             // Start animation
             // console.log(`🔍 [MASTER-TIMELINE-DEBUG] Starting animation: ${fromTime.toFixed(3)}s → ${toTime.toFixed(3)}s (${duration}ms)`);
+            playbackState.tick = animate;
             playbackState.animationId = requestAnimationFrame(animate);
         });
     }
     
+    /**
+     * Reach the target position without motion, according to the reduced motion policy
+     * @param masterTimeline - Master timeline
+     * @param element - Element to animate
+     * @param toTime - Target time in seconds
+     * @param policy - Resolved (non-NORMAL) reduced motion policy
+     * @param progressCallback - Optional progress callback
+     */
+    private async playReducedMotion(
+        masterTimeline: MasterTimeline,
+        element: HTMLElement,
+        toTime: number,
+        policy: ReducedMotionPolicy,
+        progressCallback?: (progress: number) => void
+    ): Promise<void> {
+        if (policy === ReducedMotionPolicy.DISABLE) {
+            return;
+        }
+        
+        const applyEndState = () => {
+            this.applyTimelineAtTime(masterTimeline, element, toTime);
+            if (progressCallback) {
+                progressCallback(toTime / masterTimeline.totalDuration);
+            }
+        };
+        
+        if (policy === ReducedMotionPolicy.CROSSFADE) {
+            await crossfadeElement(element, applyEndState);
+            return;
+        }
+        
+        // SKIP_TO_END
+        applyEndState();
+    }
+    
     /**
      * Apply timeline values at specific time
      * @param masterTimeline - Master timeline
      * @param element - Element to animate
      * @param time - Time position in seconds
+     * @param skipProperties - Properties driven elsewhere (spring handoffs)
      */
     private applyTimelineAtTime(
         masterTimeline: MasterTimeline, 
         element: HTMLElement, 
-        time: number
+        time: number,
+        skipProperties?: Set<string>
     ): void {
         // Get values for all properties at this time - returns a Map
         const propertyValues = getMasterTimelineValuesAtTime(masterTimeline, time);
@@ -603,6 +876,8 @@ export class MasterTimelinePlayer {
         
         // Apply each property value to the element - iterate over Map entries
         for (const [propertyName, value] of propertyValues.entries()) {
+            if (skipProperties?.has(propertyName)) continue;
+            
             try {
                 applyProperty(element, propertyName, value);
                 
@@ -623,13 +898,20 @@ export class MasterTimelinePlayer {
     /**
      * Stop any active playback for element
      * @param element - Element to stop
+     * @param recordMotion - Record physics spring velocity for the next playback (interruptions)
      */
-    private stopPlayback(element: HTMLElement): void {
+    private stopPlayback(element: HTMLElement, recordMotion: boolean = false): void {
         const key = this.getElementKey(element);
         const playbackState = this.activeTimelines.get(key);
         
         if (playbackState) {
+            if (recordMotion && playbackState.isPlaying) {
+                this.recordMotionSnapshot(key, playbackState);
+            }
+            
             playbackState.isPlaying = false;
+            this.releasePlaybackSlot(playbackState);
+            this.releaseCompositorAnimation(playbackState, true);
             
             if (playbackState.animationId) {
                 cancelAnimationFrame(playbackState.animationId);
@@ -640,6 +922,17 @@ export class MasterTimelinePlayer {
         }
     }
     
+    /**
+     * Return the playback's concurrency slot to the governor (safe to call twice)
+     * @param playbackState - Playback that ended
+     */
+    private releasePlaybackSlot(playbackState: PlaybackState): void {
+        if (!playbackState.holdsPlaybackSlot) return;
+        
+        playbackState.holdsPlaybackSlot = false;
+        performanceGovernor.releasePlayback();
+    }
+    
     /**
      * Generate unique key for element
      * @param element - HTML element
@@ -654,6 +947,390 @@ export class MasterTimelinePlayer {
         return element.dataset.fameTimelineKey;
     }
     
+    //=======================================
+    //        PLAYBACK CONTROL
+    //=======================================
+    
+    /**
+     * Pause the running playback of an element
+     * The elapsed time is kept, so resumeElement() continues from the same point.
+     * @param element - Element to pause
+     * @returns Whether a running playback was paused
+     */
+    pauseElement(element: HTMLElement): boolean {
+        const playbackState = this.activeTimelines.get(this.getElementKey(element));
+        if (!playbackState || !playbackState.isPlaying || playbackState.isPaused) {
+            return false;
+        }
+        
+        this.advanceClock(playbackState, performance.now());
+        playbackState.isPaused = true;
+        this.syncCompositorAnimation(playbackState);
+        
+        if (playbackState.animationId) {
+            cancelAnimationFrame(playbackState.animationId);
+            playbackState.animationId = undefined;
+        }
+        
+        return true;
+    }
+    
+    /**
+     * Resume a paused playback
+     * @param element - Element to resume
+     * @returns Whether a paused playback was resumed
+     */
+    resumeElement(element: HTMLElement): boolean {
+        const playbackState = this.activeTimelines.get(this.getElementKey(element));
+        if (!playbackState || !playbackState.isPlaying || !playbackState.isPaused || !playbackState.tick) {
+            return false;
+        }
+        
+        // Paused time does not count - the clock restarts from now
+        playbackState.isPaused = false;
+        playbackState.lastFrameTime = performance.now();
+        this.syncCompositorAnimation(playbackState);
+        playbackState.animationId = requestAnimationFrame(playbackState.tick);
+        
+        return true;
+    }
+    
+    /**
+     * Check if the playback of an element is paused
+     * @param element - Element to check
+     */
+    isPaused(element: HTMLElement): boolean {
+        const playbackState = this.activeTimelines.get(this.getElementKey(element));
+        return playbackState?.isPaused || false;
+    }
+    
+    /**
+     * Move the active (running or paused) playback of an element to a timeline progress
+     * 
+     * The position is clamped to the segment being played, so the playback still ends at
+     * its original target. A paused playback stays paused at the new position.
+     * 
+     * @param element - Element to seek
+     * @param progress - Timeline progress (0-1)
+     * @returns Whether the element had an active playback
+     */
+    seekElement(element: HTMLElement, progress: number): boolean {
+        const playbackState = this.activeTimelines.get(this.getElementKey(element));
+        if (!playbackState || !playbackState.isPlaying) {
+            return false;
+        }
+        
+        const { masterTimeline, fromTime, toTime, timelineDuration } = playbackState;
+        const requestedTime = Math.max(0, Math.min(progress, 1)) * masterTimeline.totalDuration;
+        const time = Math.max(Math.min(fromTime, toTime), Math.min(requestedTime, Math.max(fromTime, toTime)));
+        
+        // Timeline part runs at 1 timeline second per playback second
+        const distance = Math.abs(toTime - fromTime);
+        playbackState.elapsed = distance > 0 ? (Math.abs(time - fromTime) / distance) * timelineDuration : 0;
+        playbackState.lastFrameTime = performance.now();
+        playbackState.currentTime = time;
+        
+        if (playbackState.compositorAnimation) {
+            this.syncCompositorAnimation(playbackState);
+        } else {
+            const handoffProperties = new Set(playbackState.springHandoffs.map(handoff => handoff.property));
+            this.applyTimelineAtTime(masterTimeline, element, time, handoffProperties);
+            this.applySpringHandoffs(element, playbackState.springHandoffs, playbackState.elapsed / 1000);
+        }
+        
+        if (playbackState.progressCallback && masterTimeline.totalDuration > 0) {
+            playbackState.progressCallback(time / masterTimeline.totalDuration);
+        }
+        
+        return true;
+    }
+    
+    /**
+     * Set the playback speed of an element
+     * Applies to the active playback immediately; later playbacks use their timeline's time scale.
+     * @param element - Element to update
+     * @param scale - Speed multiplier (1 = normal, 0.5 = half speed, 2 = double speed)
+     * @returns Whether the element had an active playback
+     */
+    setTimeScale(element: HTMLElement, scale: number): boolean {
+        const playbackState = this.activeTimelines.get(this.getElementKey(element));
+        if (!playbackState || !playbackState.isPlaying) {
+            return false;
+        }
+        
+        // Bank the time played at the old speed before switching
+        if (!playbackState.isPaused) {
+            this.advanceClock(playbackState, performance.now());
+        }
+        playbackState.timeScale = sanitizeTimeScale(scale);
+        this.syncCompositorAnimation(playbackState);
+        
+        return true;
+    }
+    
+    /**
+     * Advance the scaled playback clock to a timestamp
+     * @param playbackState - Playback to advance
+     * @param now - Current timestamp (performance.now() or rAF time)
+     */
+    private advanceClock(playbackState: PlaybackState, now: number): void {
+        const delta = Math.max(0, now - playbackState.lastFrameTime);
+        playbackState.elapsed += delta * this.getEffectiveTimeScale(playbackState);
+        playbackState.lastFrameTime = Math.max(now, playbackState.lastFrameTime);
+    }
+    
+    /**
+     * Element time scale combined with the global time scale
+     */
+    private getEffectiveTimeScale(playbackState: PlaybackState): number {
+        return playbackState.timeScale * MasterTimelinePlayer.globalTimeScale;
+    }
+    
+    //=======================================
+    //        COMPOSITOR BACKEND
+    //=======================================
+    
+    /**
+     * Hand the playback's segment to the compositor, if it compiles
+     * @param playbackState - Playback that just started
+     */
+    private startCompositorPlayback(playbackState: PlaybackState): void {
+        const { masterTimeline, element, fromTime, toTime, timelineDuration } = playbackState;
+        
+        const incompatibility = compositorBackend.getIncompatibility(masterTimeline);
+        if (incompatibility) {
+            console.log(`🧊 [MasterTimelinePlayer] Using JS playback: ${incompatibility}`);
+            return;
+        }
+        
+        const animation = compositorBackend.playTimed(
+            element,
+            progress => getMasterTimelineValuesAtTime(masterTimeline, fromTime + (toTime - fromTime) * progress),
+            timelineDuration
+        );
+        if (!animation) return;
+        
+        playbackState.compositorAnimation = animation;
+        this.syncCompositorAnimation(playbackState);
+    }
+    
+    /**
+     * Align the compositor animation with the playback clock (position, speed, paused state)
+     * @param playbackState - Playback to sync
+     */
+    private syncCompositorAnimation(playbackState: PlaybackState): void {
+        const animation = playbackState.compositorAnimation;
+        if (!animation) return;
+        
+        const elapsed = Math.min(playbackState.elapsed, playbackState.timelineDuration);
+        animation.playbackRate = this.getEffectiveTimeScale(playbackState);
+        animation.currentTime = elapsed;
+        
+        // play() on a finished animation would rewind it
+        if (playbackState.isPaused || elapsed >= playbackState.timelineDuration) {
+            animation.pause();
+        } else {
+            animation.play();
+        }
+    }
+    
+    /**
+     * Stop the compositor animation of a playback
+     * @param playbackState - Playback that ended
+     * @param commitPosition - Write the position reached back inline (interruptions); completion writes the target itself
+     */
+    private releaseCompositorAnimation(playbackState: PlaybackState, commitPosition: boolean): void {
+        const animation = playbackState.compositorAnimation;
+        if (!animation) return;
+        
+        playbackState.compositorAnimation = undefined;
+        
+        if (commitPosition) {
+            const { masterTimeline, element, fromTime, toTime, timelineDuration } = playbackState;
+            const played = typeof animation.currentTime === 'number' && timelineDuration > 0
+                ? Math.min(animation.currentTime / timelineDuration, 1)
+                : 0;
+            this.applyTimelineAtTime(masterTimeline, element, fromTime + (toTime - fromTime) * played);
+        }
+        
+        // Inline styles now hold the state - the animation can go
+        animation.cancel();
+    }
+    
+    //=======================================
+    //        PHYSICS SPRING VELOCITY HANDOFF
+    //=======================================
+    
+    /**
+     * Record value and velocity of the physics spring properties of a running playback
+     * @param key - Element key
+     * @param playbackState - Playback being interrupted
+     */
+    private recordMotionSnapshot(key: string, playbackState: PlaybackState): void {
+        const now = performance.now();
+        
+        // A paused playback is at rest - nothing to carry over
+        if (playbackState.isPaused) {
+            this.motionSnapshots.delete(key);
+            return;
+        }
+        
+        this.advanceClock(playbackState, now);
+        const elapsed = playbackState.elapsed;
+        const speed = this.getEffectiveTimeScale(playbackState); // Playback seconds per wall-clock second
+        const properties: MotionSnapshot['properties'] = new Map();
+        
+        // Properties already continuing a handoff report their spring state directly
+        playbackState.springHandoffs.forEach(handoff => {
+            if (elapsed / 1000 >= handoff.duration) return;
+            
+            const state = getSpringState(elapsed / 1000, handoff.springConfig);
+            const range = handoff.to - handoff.from;
+            properties.set(handoff.property, {
+                value: handoff.from + range * state.position,
+                velocity: range * state.velocity * speed,
+                unit: handoff.unit
+            });
+        });
+        
+        // Timeline-driven properties: differentiate the timeline at the current position
+        const { masterTimeline, fromTime, toTime, timelineDuration } = playbackState;
+        if (timelineDuration > 0 && elapsed < timelineDuration) {
+            const position = fromTime + (toTime - fromTime) * (elapsed / timelineDuration);
+            const timeRate = ((toTime - fromTime) / (timelineDuration / 1000)) * speed; // Timeline seconds per wall-clock second
+            
+            masterTimeline.propertyTimelines.forEach(propertyTimeline => {
+                if (properties.has(propertyTimeline.property) || !this.usesPhysicsSpring(propertyTimeline)) return;
+                
+                const current = this.parseNumericValue(this.valueAtTime(propertyTimeline, position));
+                const before = this.parseNumericValue(this.valueAtTime(propertyTimeline, Math.max(0, position - VELOCITY_SAMPLE_STEP)));
+                const after = this.parseNumericValue(this.valueAtTime(propertyTimeline, Math.min(masterTimeline.totalDuration, position + VELOCITY_SAMPLE_STEP)));
+                if (!current || !before || !after) return;
+                
+                const sampleSpan = Math.min(masterTimeline.totalDuration, position + VELOCITY_SAMPLE_STEP) - Math.max(0, position - VELOCITY_SAMPLE_STEP);
+                if (sampleSpan <= 0) return;
+                
+                properties.set(propertyTimeline.property, {
+                    value: current.value,
+                    velocity: ((after.value - before.value) / sampleSpan) * timeRate,
+                    unit: current.unit
+                });
+            });
+        }
+        
+        if (properties.size > 0) {
+            this.motionSnapshots.set(key, { capturedAt: now, properties });
+        } else {
+            this.motionSnapshots.delete(key);
+        }
+    }
+    
+    /**
+     * Turn a recent motion snapshot into spring handoffs toward the new target
+     * @param masterTimeline - Timeline about to play
+     * @param element - Element being animated
+     * @param toTime - Target time of the new playback
+     * @returns Handoffs for physics spring properties (empty when nothing was interrupted)
+     */
+    private consumeSpringHandoffs(masterTimeline: MasterTimeline, element: HTMLElement, toTime: number): SpringHandoff[] {
+        // Handoff springs run on the playback clock, recorded velocities are wall-clock
+        const speed = sanitizeTimeScale(masterTimeline.timeScale) * MasterTimelinePlayer.globalTimeScale;
+        
+        const key = this.getElementKey(element);
+        const snapshot = this.motionSnapshots.get(key);
+        this.motionSnapshots.delete(key);
+        
+        if (!snapshot || performance.now() - snapshot.capturedAt > VELOCITY_HANDOFF_WINDOW) {
+            return [];
+        }
+        
+        const handoffs: SpringHandoff[] = [];
+        
+        masterTimeline.propertyTimelines.forEach(propertyTimeline => {
+            const motion = snapshot.properties.get(propertyTimeline.property);
+            if (!motion || !this.usesPhysicsSpring(propertyTimeline)) return;
+            
+            const target = this.parseNumericValue(this.valueAtTime(propertyTimeline, toTime));
+            if (!target || target.unit !== motion.unit) return;
+            
+            const range = target.value - motion.value;
+            if (Math.abs(range) < 1e-6) return;
+            
+            // Spring progress runs 0 → 1 over the range, so velocity is normalized by it
+            const springConfig: SpringConfig = {
+                ...(propertyTimeline.springConfig || {}),
+                velocity: speed > 0 ? motion.velocity / range / speed : 0
+            };
+            
+            handoffs.push({
+                property: propertyTimeline.property,
+                from: motion.value,
+                to: target.value,
+                unit: target.unit,
+                springConfig,
+                duration: calculateSpringDuration(springConfig)
+            });
+        });
+        
+        // console.log(`🌀 [MasterTimelinePlayer] Velocity handoff for ${handoffs.length} spring properties`);
+        
+        return handoffs;
+    }
+    
+    /**
+     * Apply spring handoff values
+     * @param element - Element to animate
+     * @param handoffs - Active spring handoffs
+     * @param elapsed - Seconds since the handoff started (Infinity = settled)
+     */
+    private applySpringHandoffs(element: HTMLElement, handoffs: SpringHandoff[], elapsed: number): void {
+        handoffs.forEach(handoff => {
+            const position = elapsed >= handoff.duration
+                ? 1
+                : getSpringState(elapsed, handoff.springConfig).position;
+            const value = handoff.from + (handoff.to - handoff.from) * position;
+            
+            try {
+                applyProperty(element, handoff.property, `${value}${handoff.unit}`);
+            } catch (error) {
+                console.error(`🌀 [MasterTimelinePlayer] ❌ Failed to apply spring handoff ${handoff.property}: ${value}`, error);
+            }
+        });
+    }
+    
+    /**
+     * Check whether a property timeline animates with the physics spring
+     */
+    private usesPhysicsSpring(propertyTimeline: PropertyTimeline): boolean {
+        return propertyTimeline.keyframes.some(keyframe => isPhysicsSpringEasing(keyframe.easing));
+    }
+    
+    /**
+     * Interpolated value of a single property timeline
+     */
+    private valueAtTime(propertyTimeline: PropertyTimeline, time: number): any {
+        return propertyTimeline.interpolator.valueAtTime(
+            propertyTimeline.keyframes,
+            time,
+            propertyTimeline.springConfig
+        );
+    }
+    
+    /**
+     * Parse a single numeric value with optional unit ("120px", 0.5, "45deg")
+     * @returns Number and unit, or null for colors, lists and other non-numeric values
+     */
+    private parseNumericValue(value: unknown): { value: number; unit: string } | null {
+        if (typeof value === 'number') {
+            return Number.isFinite(value) ? { value, unit: '' } : null;
+        }
+        
+        if (typeof value !== 'string') return null;
+        
+        const match = value.trim().match(/^(-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)([a-z%]*)$/i);
+        return match ? { value: parseFloat(match[1]), unit: match[2] } : null;
+    }
+    
     //=======================================
     //        REVERSE MODE UTILITIES
     //=======================================
@@ -739,10 +1416,12 @@ export class MasterTimelinePlayer {
     
     /**
      * Stop animation for a specific element
+     * Physics spring velocity is recorded so an immediately following playback continues it.
      * @param element - Element to stop animation for
      */
     stopElement(element: HTMLElement): void {
-        this.stopPlayback(element);
+        // Stopping an element is how interrupts cancel it - keep its motion for the next playback
+        this.stopPlayback(element, true);
     }
     
     /**
@@ -753,12 +1432,15 @@ export class MasterTimelinePlayer {
         
         this.activeTimelines.forEach((playbackState) => {
             playbackState.isPlaying = false;
+            this.releasePlaybackSlot(playbackState);
+            this.releaseCompositorAnimation(playbackState, true);
             if (playbackState.animationId) {
                 cancelAnimationFrame(playbackState.animationId);
             }
         });
         
         this.activeTimelines.clear();
+        this.motionSnapshots.clear();
     }
     
     /**
@@ -44,7 +44,9 @@
 
 import { PropertyValue } from '../../types/index.ts';
 import { applyEasing, SpringConfig } from '../../utils/easings/EasingFunctions.ts';
+import { isTextEffectProperty } from '../../utils/text/effects/TextEffectChannels.ts';
 import { interpolateToPixels } from '../../utils/units/SimpleUnitConverter.ts';
+import { interpolateColor, ColorInterpolationSpace, HueInterpolationMethod } from '../../utils/color/index.ts';
 
 // Import advanced interpolators for complex properties
 import { 
@@ -74,9 +76,15 @@ export interface PropertyKeyframe {
     /** Property value at this time */
     value: PropertyValue;
     
-    /** Easing function to this keyframe (optional) */
+    /** Easing function to this keyframe: easing name or CSS easing string (optional) */
     easing?: string;
     
+    /** Color space used to interpolate into this keyframe (color properties only, default: oklab) */
+    colorSpace?: ColorInterpolationSpace;
+    
+    /** Hue arc used when colorSpace is 'oklch' (default: shorter) */
+    hueInterpolation?: HueInterpolationMethod;
+    
     /** Optional metadata for debugging */
     metadata?: {
         sourceInstanceId?: string; // Which original instance created this keyframe
@@ -310,8 +318,11 @@ export const opacityInterpolator: PropertyInterpolator = {
 };
 
 /**
- * Basic color interpolator with RGB interpolation support
- * Handles hex colors, rgb() colors, and fallback to nearest-neighbor for other formats
+ * Color interpolator backed by the color subsystem
+ * Parses any CSS color (hex, rgb, hsl, hwb, lab, lch, oklab, oklch, color-mix(),
+ * named, var(--token, fallback)) and interpolates in the keyframe's color space
+ * (OKLab by default). Falls back to nearest-neighbor for unresolvable values such as
+ * currentColor without an element context.
  */
 export const colorInterpolator: PropertyInterpolator = {
     propertyType: 'color',
@@ -331,78 +342,14 @@ export const colorInterpolator: PropertyInterpolator = {
         const timeProgress = (time - before.time) / (after.time - before.time);
         const easedProgress = applyEasing(timeProgress, after.easing || 'linear', springConfig);
         
-        // Try to interpolate colors
-        const fromColor = String(before.value);
-        const toColor = String(after.value);
-        
-        // Parse colors to RGB
-        const fromRGB = parseColor(fromColor);
-        const toRGB = parseColor(toColor);
-        
-        // If both colors can be parsed, interpolate them
-        if (fromRGB && toRGB) {
-            const interpolatedR = Math.round(fromRGB.r + (toRGB.r - fromRGB.r) * easedProgress);
-            const interpolatedG = Math.round(fromRGB.g + (toRGB.g - fromRGB.g) * easedProgress);
-            const interpolatedB = Math.round(fromRGB.b + (toRGB.b - fromRGB.b) * easedProgress);
-            
-            // Handle alpha if present
-            if (fromRGB.a !== undefined && toRGB.a !== undefined) {
-                const interpolatedA = fromRGB.a + (toRGB.a - fromRGB.a) * easedProgress;
-                return `rgba(${interpolatedR}, ${interpolatedG}, ${interpolatedB}, ${interpolatedA})`;
-            }
-            
-            return `rgb(${interpolatedR}, ${interpolatedG}, ${interpolatedB})`;
-        }
-        
-        // Fallback to nearest-neighbor for unsupported color formats
-        return easedProgress < 0.5 ? before.value : after.value;
+        // Color space settings travel with the target keyframe, like easing
+        return interpolateColor(String(before.value), String(after.value), easedProgress, {
+            space: after.colorSpace,
+            hue: after.hueInterpolation
+        });
     }
 };
 
-/**
- * Parse a color string to RGB values
- * Supports hex (#ffffff, #fff), rgb(), and rgba() formats
- */
-function parseColor(color: string): { r: number; g: number; b: number; a?: number } | null {
-    const trimmed = color.trim();
-    
-    // Handle hex colors
-    if (trimmed.startsWith('#')) {
-        const hex = trimmed.substring(1);
-        let r: number, g: number, b: number;
-        
-        if (hex.length === 3) {
-            // Short hex format (#abc)
-            r = parseInt(hex[0] + hex[0], 16);
-            g = parseInt(hex[1] + hex[1], 16);
-            b = parseInt(hex[2] + hex[2], 16);
-        } else if (hex.length === 6) {
-            // Long hex format (#aabbcc)
-            r = parseInt(hex.substring(0, 2), 16);
-            g = parseInt(hex.substring(2, 4), 16);
-            b = parseInt(hex.substring(4, 6), 16);
-        } else {
-            return null; // Invalid hex format
-        }
-        
-        return { r, g, b };
-    }
-    
-    // Handle rgb() and rgba() colors
-    const rgbMatch = trimmed.match(/rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+))?\s*\)/);
-    if (rgbMatch) {
-        const r = parseInt(rgbMatch[1], 10);
-        const g = parseInt(rgbMatch[2], 10);
-        const b = parseInt(rgbMatch[3], 10);
-        const a = rgbMatch[4] ? parseFloat(rgbMatch[4]) : undefined;
-        
-        return { r, g, b, a };
-    }
-    
-    // Unsupported color format
-    return null;
-}
-
 /**
  * Default fallback interpolator
  * Uses simple nearest-neighbor for unknown property types
@@ -667,6 +614,11 @@ export const enhancedStringInterpolator: PropertyInterpolator = {
  * @returns Appropriate interpolator for the property
  */
 export function getInterpolatorForProperty(propertyName: string): PropertyInterpolator {
+    // ✨ Text effect channels are 0-1 progress values (clamped like opacity)
+    if (isTextEffectProperty(propertyName)) {
+        return opacityInterpolator;
+    }
+    
     // Properties with units (layout, spacing, transforms, typography)
     if (propertyName.includes('translate') || 
         propertyName.includes('width') || 
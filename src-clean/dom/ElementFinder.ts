@@ -193,37 +193,28 @@ function buildSelector(selector: any): string {
 }
 
 /**
- * Apply inclusion/exclusion logic to filter elements
+ * Keep the matches picked by a selection mode
  *
- * This function determines whether to include or exclude elements based on
- * whether they match a selector. It supports two modes:
- * - INCLUDE: Return only elements that match the selector
- * - EXCLUDE: Return all elements except those that match the selector
- *
- * @param allElements - The complete set of elements to filter
- * @param filteredElements - Elements that match the selector
- * @param mode - Whether to include or exclude matching elements
- * @returns Filtered array of elements
+ * @param elements - Matching elements in document order
+ * @param mode - Which matches to keep (default: ALL)
+ * @returns Picked elements
  */
 function applySelectionMode(
-    allElements: HTMLElement[],
-    filteredElements: HTMLElement[],
-    mode: SelectionMode
+    elements: HTMLElement[],
+    mode: SelectionMode | undefined
 ): HTMLElement[] {
-    // Default to INCLUDE mode if not specified or if using old modes
-    if (
-        !mode ||
-        mode === SelectionMode.FIRST ||
-        mode === SelectionMode.LAST ||
-        mode === SelectionMode.ALL ||
-        mode === SelectionMode.RANDOM
-    ) {
-        // For backward compatibility with selection modes, default to include
-        return filteredElements
+    if (elements.length === 0) return elements
+
+    switch (mode) {
+        case SelectionMode.FIRST:
+            return [elements[0]]
+        case SelectionMode.LAST:
+            return [elements[elements.length - 1]]
+        case SelectionMode.RANDOM:
+            return [elements[Math.floor(Math.random() * elements.length)]]
+        default:
+            return elements
     }
-
-    // Future: Add INCLUDE/EXCLUDE mode support when types are updated
-    return filteredElements
 }
 
 /**
@@ -370,6 +361,107 @@ function getSearchRoot(
     }
 }
 
+/**
+ * Parse an NTH value ("3", "odd", "even", "2n+1", "-n+3") into An+B form
+ *
+ * @param value - NTH criteria value
+ * @returns Step and offset, or null when the value is invalid
+ */
+function parseNthExpression(value: string): { step: number; offset: number } | null {
+    const normalized = value.replace(/\s+/g, "").toLowerCase()
+
+    if (normalized === "odd") return { step: 2, offset: 1 }
+    if (normalized === "even") return { step: 2, offset: 0 }
+    if (/^[+-]?\d+$/.test(normalized)) return { step: 0, offset: parseInt(normalized, 10) }
+
+    const match = normalized.match(/^([+-]?\d*)n([+-]\d+)?$/)
+    if (!match) return null
+
+    const step = match[1] === "" || match[1] === "+" ? 1 : match[1] === "-" ? -1 : parseInt(match[1], 10)
+    const offset = match[2] ? parseInt(match[2], 10) : 0
+    return { step, offset }
+}
+
+/**
+ * Parse an INDEX_RANGE value ("2-5", "3-", "-4", "3") into 1-based inclusive bounds
+ *
+ * @param value - INDEX_RANGE criteria value
+ * @returns Bounds, or null when the value is invalid
+ */
+function parseIndexRange(value: string): { from: number; to: number } | null {
+    const match = value.replace(/\s+/g, "").match(/^(\d*)(-?)(\d*)$/)
+    if (!match || (!match[1] && !match[3])) return null
+
+    const from = match[1] ? parseInt(match[1], 10) : 1
+    const to = match[3] ? parseInt(match[3], 10) : match[2] ? Infinity : from
+    return { from, to }
+}
+
+/**
+ * Check if a 1-based position matches a positional criteria
+ *
+ * @param position - 1-based position among the elements being filtered
+ * @param criteria - NTH or INDEX_RANGE criteria
+ * @returns True if the position matches (false for invalid values)
+ */
+function matchesPositionalCriteria(position: number, criteria: SelectionCriteria): boolean {
+    if (criteria.type === CriteriaType.NTH) {
+        const nth = parseNthExpression(criteria.value)
+        if (!nth) return false
+        if (nth.step === 0) return position === nth.offset
+
+        const steps = (position - nth.offset) / nth.step
+        return Number.isInteger(steps) && steps >= 0
+    }
+
+    const range = parseIndexRange(criteria.value)
+    return !!range && position >= range.from && position <= range.to
+}
+
+/**
+ * Check if a criteria selects by position instead of by element attributes
+ */
+function isPositionalCriteria(criteria: SelectionCriteria): boolean {
+    return criteria.type === CriteriaType.NTH || criteria.type === CriteriaType.INDEX_RANGE
+}
+
+/**
+ * Apply criteria groups with OR logic
+ * `criteria` and every entry of `criteriaGroups` is an AND group; an element is kept
+ * when it matches any group. Document order of the candidates is preserved.
+ *
+ * @param elements - Elements to filter
+ * @param selection - Selection holding the criteria groups
+ * @param debug - Whether to enable debug logging
+ * @returns Elements matching at least one group
+ */
+function applyCriteriaGroups(
+    elements: HTMLElement[],
+    selection: ElementSelection,
+    debug: boolean = false
+): HTMLElement[] {
+    const groups = [selection.criteria || [], ...(selection.criteriaGroups || [])].filter(
+        (group) => group.length > 0
+    )
+
+    if (groups.length <= 1) {
+        return applyMultiCriteria(elements, groups[0] || [], debug)
+    }
+
+    const matched = new Set<HTMLElement>()
+    groups.forEach((group) => {
+        applyMultiCriteria(elements, group, debug).forEach((element) => matched.add(element))
+    })
+
+    if (debug) {
+        console.debug(
+            `[ElementFinder] 🔀 ${groups.length} criteria groups (OR): ${elements.length} → ${matched.size} elements`
+        )
+    }
+
+    return elements.filter((element) => matched.has(element))
+}
+
 /**
  * NEW: Apply multiple criteria with AND logic
  * Filters elements based on multiple criteria that must all match
@@ -400,7 +492,8 @@ function applyMultiCriteria(
         criteria: criteria.map((c, index) => ({
             index: index + 1,
             type: c.type,
-            value: c.value
+            value: c.value,
+            negate: c.negate === true
         }))
     });
     
@@ -416,13 +509,16 @@ function applyMultiCriteria(
     for (const criterion of criteria) {
         const beforeCount = filteredElements.length
 
-        filteredElements = filteredElements.filter((element) => {
-            return applySingleCriteria(element, criterion, debug)
-        })
+        // NOT criteria keep the elements that don't match; positional criteria count
+        // among the elements left by the criteria before them
+        const keepMatches = criterion.negate !== true
+        filteredElements = isPositionalCriteria(criterion)
+            ? filteredElements.filter((_, index) => matchesPositionalCriteria(index + 1, criterion) === keepMatches)
+            : filteredElements.filter((element) => applySingleCriteria(element, criterion, debug) === keepMatches)
 
         if (debug) {
             console.debug(
-                `[ElementFinder] 🔍 Criteria ${criterion.type}="${criterion.value}": ${beforeCount} → ${filteredElements.length} elements`
+                `[ElementFinder] 🔍 Criteria ${keepMatches ? "" : "NOT "}${criterion.type}="${criterion.value}": ${beforeCount} → ${filteredElements.length} elements`
             )
         }
 
@@ -706,14 +802,14 @@ function findElementsWithMultiCriteria(
         );
         filteredElements = candidateElements
     } else {
-        // For other scopes (CHILDREN, SIBLINGS, DOCUMENT), apply criteria filters (AND logic)
+        // For other scopes (CHILDREN, SIBLINGS, DOCUMENT), apply criteria filters (AND within a group, OR between groups)
         console.log("[ATOMIC_SEARCH] ElementFinder: scope=", selection.scope, 
             "criteria=", selection.criteria, 
             `applying ${selection.criteria?.length || 0} criteria to ${candidateElements.length} candidates`
         );
-        filteredElements = applyMultiCriteria(
+        filteredElements = applyCriteriaGroups(
             candidateElements,
-            selection.criteria || [],
+            selection,
             debug
         )
         console.log("[ATOMIC_SEARCH] ElementFinder: scope=", selection.scope, 
@@ -751,9 +847,9 @@ function findElementsWithMultiCriteria(
 
             console.log(`🚨 [ElementFinder] Fallback deep candidates: ${deepCandidates.length}`);
 
-            filteredElements = applyMultiCriteria(
+            filteredElements = applyCriteriaGroups(
                 deepCandidates,
-                selection.criteria || [],
+                selection,
                 debug
             );
 
@@ -761,7 +857,10 @@ function findElementsWithMultiCriteria(
         }
     }
 
-    // Step 4: Always return array (let downstream logic handle single vs multiple)
+    // Step 4: Keep the matches picked by the selection mode (first / last / random / all)
+    filteredElements = applySelectionMode(filteredElements, selection.mode)
+
+    // Step 5: Always return array (let downstream logic handle single vs multiple)
     console.log(`🚨 [ElementFinder] PRODUCTION DEBUG: Final result: ${filteredElements.length} elements to return`);
     
     return filteredElements
@@ -872,6 +971,35 @@ export function findAnimatedElementsWithCriteria(
     return result
 }
 
+/**
+ * Find the subtree whose structural changes can change a selection's matches
+ * SELF and PARENT resolve to a single element, so their root is that element's
+ * parent - replacing the element itself happens there.
+ *
+ * @param parentElement - FAME component's parent element
+ * @param selection - Element selection configuration (scope + criteria)
+ * @returns Node to observe for added and removed elements
+ */
+export function getSelectionObservationRoot(
+    parentElement: HTMLElement,
+    selection: ElementSelection
+): Node {
+    const searchRoot = getSearchRoot(selection.scope, parentElement)
+
+    if (searchRoot instanceof Document) {
+        return searchRoot.body || searchRoot.documentElement
+    }
+
+    if (
+        selection.scope === ElementScope.SELF ||
+        selection.scope === ElementScope.PARENT
+    ) {
+        return searchRoot.parentElement || searchRoot
+    }
+
+    return searchRoot
+}
+
 /**
  * 🚀 NEW: Enhanced children finder with depth support
  * Solves the nested text element targeting issue
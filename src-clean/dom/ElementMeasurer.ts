@@ -247,7 +247,7 @@ export function isElementWithinContainer(
 // TODO: Copy all remaining utility functions from src-refactored
 // TODO: Add performance optimizations (measurement caching)
 // TODO: Add support for ResizeObserver integration
-// TODO: Add support for IntersectionObserver integration
+// ✅ IntersectionObserver integration: utils/performance/ViewportOptimization.ts
 // TODO: Implement proper error handling throughout
 // TODO: Add comprehensive unit tests
 // TODO: Add performance benchmarks
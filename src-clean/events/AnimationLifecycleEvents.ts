@@ -0,0 +1,231 @@
+/**
+ * FAME Animation System - Animation Lifecycle Events
+ *
+ * @fileOverview Publishes slot lifecycle events as DOM CustomEvents
+ * @version 1.0.0
+ * @status ACTIVE
+ *
+ * @description
+ * Each event-driven slot publishes where it is in its lifecycle so code components can
+ * react to it (start a video when an intro finishes, fire analytics on a click animation):
+ *
+ * - fame:start            - a trigger started playing the slot
+ * - fame:update           - progress changed (coalesced to one event per slot per frame)
+ * - fame:complete         - every element finished, slot ended away from its start
+ * - fame:reverse-complete - every element finished, slot ended back at its start
+ * - fame:loop             - a LoopRunner iteration or PingPongRunner cycle finished
+ * - fame:interrupt        - a newer trigger cancelled the slot before it completed
+ *
+ * Events bubble from the FAME host element, so one listener on a page section catches
+ * every FAME component inside it. FAME also forwards them to its onAnimation* props.
+ *
+ * A "run" is one trigger's playback across all of the slot's animated elements. Runs are
+ * numbered so late element completions from a cancelled run cannot complete the next one.
+ *
+ * @example
+ * ```typescript
+ * // Coordinator side
+ * const unregister = animationLifecycleEmitter.registerHost(slot.id, hostElement);
+ * const runId = animationLifecycleEmitter.beginRun(slot.id, elements.length, 0);
+ * animationLifecycleEmitter.finishElement(slot.id, runId, 1);
+ *
+ * // Consumer side
+ * section.addEventListener('fame:complete', (event) => {
+ *     const { slotId, progress } = (event as CustomEvent<AnimationLifecycleDetail>).detail;
+ * });
+ * ```
+ */
+
+import { AnimationLifecycleEvent, AnimationDirection, type AnimationLifecycleDetail } from '../types/index.ts';
+
+/**
+ * Playback of one trigger across a slot's elements
+ */
+interface LifecycleRun {
+    id: number;
+    remainingElements: number;
+    direction?: AnimationDirection;
+}
+
+/** Progress at or below this counts as "back at the start" */
+const REVERSE_COMPLETE_THRESHOLD = 0.001;
+
+/**
+ * Animation Lifecycle Emitter
+ *
+ * Tracks runs per slot and dispatches lifecycle CustomEvents on the slot's host element.
+ */
+export class AnimationLifecycleEmitter {
+    /** Slot ID → FAME host element that receives the events */
+    private hosts: Map<string, HTMLElement> = new Map();
+    
+    /** Slot ID → authored slot name included in event details */
+    private slotNames: Map<string, string> = new Map();
+
+    /** Slot ID → run that has not completed yet */
+    private activeRuns: Map<string, LifecycleRun> = new Map();
+
+    /** Slot ID → latest progress waiting for the next update frame */
+    private pendingUpdates: Map<string, number> = new Map();
+
+    private updateFrameId: number | null = null;
+    private runCounter = 0;
+
+    /**
+     * Register the element that receives a slot's lifecycle events
+     * @param slotId - Animation slot identifier
+     * @param hostElement - FAME host element
+     * @param slotName - Authored "Animation ID" of the slot
+     * @returns Cleanup function that unregisters the host
+     */
+    registerHost(slotId: string, hostElement: HTMLElement, slotName?: string): () => void {
+        this.hosts.set(slotId, hostElement);
+        if (slotName) {
+            this.slotNames.set(slotId, slotName);
+        }
+
+        return () => {
+            if (this.hosts.get(slotId) === hostElement) {
+                this.hosts.delete(slotId);
+                this.slotNames.delete(slotId);
+                this.activeRuns.delete(slotId);
+                this.pendingUpdates.delete(slotId);
+            }
+        };
+    }
+
+    /**
+     * Start a run and dispatch fame:start
+     * An unfinished previous run of the slot is reported as interrupted first.
+     * @param slotId - Animation slot identifier
+     * @param elementCount - Number of elements that have to finish before the run completes
+     * @param progress - Slot progress the run starts from
+     * @param direction - Direction the run plays in (included in every event of the run)
+     * @param duration - Expected run duration in seconds (fame:start only)
+     * @returns Run ID to pass to finishElement()
+     */
+    beginRun(slotId: string, elementCount: number, progress: number, direction?: AnimationDirection, duration?: number): number {
+        this.interrupt(slotId, progress);
+
+        const run: LifecycleRun = {
+            id: ++this.runCounter,
+            remainingElements: Math.max(1, elementCount),
+            direction
+        };
+        this.activeRuns.set(slotId, run);
+
+        this.dispatch(slotId, AnimationLifecycleEvent.START, progress, { direction, duration });
+        return run.id;
+    }
+
+    /**
+     * Queue a fame:update for the next animation frame
+     * Several elements reporting progress in the same frame produce a single event.
+     * @param slotId - Animation slot identifier
+     * @param progress - Current slot progress
+     */
+    update(slotId: string, progress: number): void {
+        if (!this.hosts.has(slotId)) return;
+
+        this.pendingUpdates.set(slotId, progress);
+
+        if (this.updateFrameId === null) {
+            this.updateFrameId = requestAnimationFrame(() => this.flushUpdates());
+        }
+    }
+
+    /**
+     * Record that one element of a run finished
+     * When the last element finishes, fame:complete or fame:reverse-complete is dispatched.
+     * @param slotId - Animation slot identifier
+     * @param runId - Run returned by beginRun()
+     * @param progress - Final slot progress
+     */
+    finishElement(slotId: string, runId: number, progress: number): void {
+        const run = this.activeRuns.get(slotId);
+        if (!run || run.id !== runId) return; // Stale element from a cancelled run
+
+        run.remainingElements--;
+        if (run.remainingElements > 0) return;
+
+        this.activeRuns.delete(slotId);
+
+        // Deliver the final progress before the completion event
+        this.pendingUpdates.delete(slotId);
+        this.dispatch(slotId, AnimationLifecycleEvent.UPDATE, progress, { direction: run.direction });
+
+        const type = progress <= REVERSE_COMPLETE_THRESHOLD
+            ? AnimationLifecycleEvent.REVERSE_COMPLETE
+            : AnimationLifecycleEvent.COMPLETE;
+        this.dispatch(slotId, type, progress, { direction: run.direction });
+    }
+
+    /**
+     * Dispatch fame:interrupt if the slot has an unfinished run
+     * @param slotId - Animation slot identifier
+     * @param progress - Slot progress at the interruption
+     * @returns Whether a run was interrupted
+     */
+    interrupt(slotId: string, progress: number): boolean {
+        const run = this.activeRuns.get(slotId);
+        if (!run) return false;
+
+        this.activeRuns.delete(slotId);
+        this.pendingUpdates.delete(slotId);
+        this.dispatch(slotId, AnimationLifecycleEvent.INTERRUPT, progress, { direction: run.direction });
+        return true;
+    }
+
+    /**
+     * Dispatch fame:loop
+     * @param slotId - Animation slot identifier
+     * @param iteration - Completed iterations/cycles so far (1-based)
+     * @param progress - Slot progress at the end of the iteration
+     */
+    loop(slotId: string, iteration: number, progress: number): void {
+        this.dispatch(slotId, AnimationLifecycleEvent.LOOP, progress, { iteration });
+    }
+
+    //=======================================
+    //        INTERNAL HELPERS
+    //=======================================
+
+    private flushUpdates(): void {
+        this.updateFrameId = null;
+
+        const updates = Array.from(this.pendingUpdates.entries());
+        this.pendingUpdates.clear();
+
+        updates.forEach(([slotId, progress]) => {
+            this.dispatch(slotId, AnimationLifecycleEvent.UPDATE, progress, { direction: this.activeRuns.get(slotId)?.direction });
+        });
+    }
+
+    private dispatch(
+        slotId: string,
+        type: AnimationLifecycleEvent,
+        progress: number,
+        extra: Pick<AnimationLifecycleDetail, 'iteration' | 'direction' | 'duration'> = {}
+    ): void {
+        const host = this.hosts.get(slotId);
+        if (!host) return;
+
+        const slotName = this.slotNames.get(slotId);
+        const detail: AnimationLifecycleDetail = {
+            type,
+            slotId,
+            ...(slotName && { slotName }),
+            componentId: host.dataset.componentId,
+            ...(host.dataset.fameName && { instanceName: host.dataset.fameName }),
+            progress,
+            ...(extra.iteration !== undefined && { iteration: extra.iteration }),
+            ...(extra.direction !== undefined && { direction: extra.direction }),
+            ...(extra.duration !== undefined && { duration: extra.duration })
+        };
+
+        host.dispatchEvent(new CustomEvent<AnimationLifecycleDetail>(type, { detail, bubbles: true }));
+    }
+}
+
+// Export singleton instance for use across the system
+export const animationLifecycleEmitter = new AnimationLifecycleEmitter();
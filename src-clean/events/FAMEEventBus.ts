@@ -0,0 +1,152 @@
+/**
+ * FAME Animation System - Event Bus
+ *
+ * @fileOverview Named channels connecting separately authored FAME instances
+ * @version 1.0.0
+ * @status ACTIVE
+ *
+ * @description
+ * Lets one FAME instance start slots in another (e.g. a sequenced page intro built from
+ * components in different page sections). A slot emits a message on a channel at a point
+ * in its lifecycle; CUSTOM_EVENT triggers listening on that channel fire their behavior.
+ *
+ * Messages travel as a "fame:bus" CustomEvent on window rather than through a module-level
+ * registry, so instances from separately bundled Framer code files share one bus, and
+ * hand-written code components can emit and listen too.
+ *
+ * Scoping: a message emitted or listened to with PAGE scope is only delivered when the
+ * emitter's page (location.pathname at emit) is the page the listener subscribed on. A
+ * listener that stays mounted across client-side navigation therefore ignores PAGE messages
+ * from other pages; SITE scope on both sides crosses pages.
+ *
+ * @reference
+ * components-reference/CrossComponentInteraction_prod.tsx
+ * - InteractionManager trigger/listener pattern (interaction ID → listeners)
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = fameEventBus.subscribe('intro-done', (message) => {
+ *     console.log(message.payload);
+ * });
+ *
+ * // From any code component on the page
+ * emitFAMEEvent('intro-done', { section: 'hero' });
+ * ```
+ */
+
+import { EventBusScope, type EventBusMessage } from '../types/index.ts';
+
+/** Window event carrying bus messages */
+export const FAME_BUS_EVENT = 'fame:bus';
+
+/**
+ * Listener for bus messages on one channel
+ */
+export type EventBusListener = (message: EventBusMessage) => void;
+
+/**
+ * FAME Event Bus
+ *
+ * Publishes and receives channel messages through window CustomEvents.
+ */
+export class FAMEEventBus {
+    private static instance: FAMEEventBus | null = null;
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): FAMEEventBus {
+        if (!FAMEEventBus.instance) {
+            FAMEEventBus.instance = new FAMEEventBus();
+        }
+        return FAMEEventBus.instance;
+    }
+
+    private constructor() {}
+
+    /**
+     * Emit a message on a channel
+     * @param channel - Channel name
+     * @param payload - Optional payload delivered to listeners
+     * @param scope - Which listeners may receive it (default: PAGE)
+     * @param sourceSlotId - Emitting slot, for debugging
+     */
+    emit(channel: string, payload?: unknown, scope: EventBusScope = EventBusScope.PAGE, sourceSlotId?: string): void {
+        const normalizedChannel = channel.trim();
+        if (!normalizedChannel || typeof window === 'undefined') return;
+
+        const message: EventBusMessage = {
+            channel: normalizedChannel,
+            payload,
+            scope,
+            page: getCurrentPage(),
+            sourceSlotId,
+            timestamp: Date.now()
+        };
+
+        console.log(`📡 [FAMEEventBus] Emit "${normalizedChannel}" (${scope})`, payload);
+        window.dispatchEvent(new CustomEvent<EventBusMessage>(FAME_BUS_EVENT, { detail: message }));
+    }
+
+    /**
+     * Listen for messages on a channel
+     * @param channel - Channel name
+     * @param listener - Called for every delivered message
+     * @param scope - PAGE only accepts messages emitted on the page the listener subscribed on (default: PAGE)
+     * @returns Cleanup function that removes the listener
+     */
+    subscribe(channel: string, listener: EventBusListener, scope: EventBusScope = EventBusScope.PAGE): () => void {
+        const normalizedChannel = channel.trim();
+        if (!normalizedChannel || typeof window === 'undefined') {
+            return () => {};
+        }
+
+        // Page of the listener - the current page at delivery always equals the emitter's
+        const subscribedPage = getCurrentPage();
+
+        const handleMessage = (event: Event) => {
+            const message = (event as CustomEvent<EventBusMessage>).detail;
+            if (!message || message.channel !== normalizedChannel) return;
+
+            const pageScoped = scope === EventBusScope.PAGE || message.scope === EventBusScope.PAGE;
+            if (pageScoped && message.page !== subscribedPage) return;
+
+            listener(message);
+        };
+
+        window.addEventListener(FAME_BUS_EVENT, handleMessage);
+        return () => window.removeEventListener(FAME_BUS_EVENT, handleMessage);
+    }
+}
+
+/**
+ * Check a message payload against a CUSTOM_EVENT trigger's payload filter
+ * Matches the payload itself or its `value` field, compared as strings.
+ * @param payload - Message payload
+ * @param payloadFilter - Filter from the trigger (empty = match everything)
+ */
+export function matchesPayloadFilter(payload: unknown, payloadFilter?: string): boolean {
+    if (!payloadFilter) return true;
+
+    if (payload !== null && typeof payload === 'object' && 'value' in payload) {
+        return String((payload as { value: unknown }).value) === payloadFilter;
+    }
+    return payload !== undefined && String(payload) === payloadFilter;
+}
+
+function getCurrentPage(): string {
+    return typeof window !== 'undefined' ? window.location.pathname : '';
+}
+
+// Export singleton instance for use across the system
+export const fameEventBus = FAMEEventBus.getInstance();
+
+/**
+ * Emit a FAME bus message from code components or overrides
+ * @param channel - Channel name
+ * @param payload - Optional payload
+ * @param scope - Default: PAGE
+ */
+export function emitFAMEEvent(channel: string, payload?: unknown, scope: EventBusScope = EventBusScope.PAGE): void {
+    fameEventBus.emit(channel, payload, scope);
+}
@@ -0,0 +1,164 @@
+/**
+ * @file KeyEventFilter.ts
+ * @description Key, code, modifier and repeat filtering for KEYDOWN/KEYUP triggers
+ *
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @description
+ * Keyboard triggers used to fire on any keystroke. This module decides whether a
+ * KeyboardEvent matches a trigger's KeyTriggerConfig, so Esc-to-close menus and
+ * arrow-key carousels only react to the keys they are configured for.
+ *
+ * @example
+ * ```typescript
+ * const config = { keys: ['Escape'], listenOnDocument: true };
+ * document.addEventListener('keydown', (event) => {
+ *   if (matchesKeyFilter(event, config)) closeMenu();
+ * });
+ * ```
+ */
+
+import { EventType, KeyTriggerConfig } from '../types/index.ts';
+
+/**
+ * Friendly aliases accepted in property controls, mapped to KeyboardEvent.key values
+ */
+const KEY_ALIASES: Record<string, string> = {
+    esc: 'escape',
+    space: ' ',
+    spacebar: ' ',
+    left: 'arrowleft',
+    right: 'arrowright',
+    up: 'arrowup',
+    down: 'arrowdown',
+    return: 'enter',
+    del: 'delete',
+};
+
+/**
+ * Check whether an event type is a keyboard trigger event
+ */
+export function isKeyboardEventType(event: EventType | string): boolean {
+    return event === EventType.KEYDOWN || event === EventType.KEYUP;
+}
+
+/**
+ * Check whether a DOM event matches a trigger's key filter
+ *
+ * @param event - DOM event received by the trigger listener
+ * @param config - Key filter (undefined = match any key, previous behavior)
+ * @returns True if the trigger should fire
+ */
+export function matchesKeyFilter(event: Event | undefined, config?: KeyTriggerConfig): boolean {
+    if (!config) return true;
+
+    // Non-keyboard events (or synthetic calls without an event) can't be filtered
+    if (!event || !isKeyboardEvent(event)) return true;
+
+    if (config.ignoreRepeat !== false && event.repeat) {
+        return false;
+    }
+
+    const match = matchKeyOrCode(event, config);
+    if (!match) {
+        return false;
+    }
+
+    // Shift is part of a typed character ("?", "!", "A"), so keys matched by
+    // KeyboardEvent.key ignore it unless it is required; code matches stay strict
+    return matchesModifiers(event, config, match === 'key');
+}
+
+/**
+ * Parse a comma-separated key list from property controls
+ *
+ * @example parseKeyList("Escape, ArrowLeft,ArrowRight") // ['Escape', 'ArrowLeft', 'ArrowRight']
+ * @example parseKeyList("Space, Esc") // ['Space', 'Esc'] (aliases are resolved at match time)
+ */
+export function parseKeyList(value: string | string[] | undefined): string[] {
+    if (!value) return [];
+    if (Array.isArray(value)) return value.filter(key => key !== '');
+
+    // A single literal comma is a valid key
+    if (value.trim() === ',') return [','];
+
+    return value
+        .split(',')
+        .map(key => key.trim())
+        .filter(key => key !== '');
+}
+
+/**
+ * Build a stable signature for a key filter
+ * Used to keep separate listener entries for triggers of the same slot
+ * that differ only in their keys (e.g. ArrowLeft → backward, ArrowRight → forward)
+ */
+export function describeKeyFilter(config?: KeyTriggerConfig): string {
+    if (!config) return 'any';
+
+    const modifiers = config.modifiers || {};
+    return [
+        (config.keys || []).map(normalizeKey).join('|'),
+        (config.codes || []).join('|'),
+        ['shift', 'alt', 'ctrl', 'meta'].filter(mod => modifiers[mod as keyof typeof modifiers]).join('+'),
+        config.exactModifiers === false ? 'loose' : 'exact',
+        config.ignoreRepeat === false ? 'repeat' : 'norepeat',
+    ].join('/');
+}
+
+//=======================================
+//        INTERNAL MATCHING
+//=======================================
+
+function isKeyboardEvent(event: Event): event is KeyboardEvent {
+    return typeof (event as KeyboardEvent).key === 'string' || typeof (event as KeyboardEvent).code === 'string';
+}
+
+function matchesModifiers(event: KeyboardEvent, config: KeyTriggerConfig, ignoreShift: boolean): boolean {
+    const required = config.modifiers || {};
+    const exact = config.exactModifiers !== false;
+    const shiftHeld = ignoreShift && !required.shift ? false : event.shiftKey;
+
+    const checks: Array<[boolean | undefined, boolean]> = [
+        [required.shift, shiftHeld],
+        [required.alt, event.altKey],
+        [required.ctrl, event.ctrlKey],
+        [required.meta, event.metaKey],
+    ];
+
+    return checks.every(([isRequired, isHeld]) => {
+        if (isRequired) return isHeld;
+        return exact ? !isHeld : true;
+    });
+}
+
+/**
+ * Find how an event matches the trigger's keys and codes
+ * @returns 'key' / 'code' for the list that matched, 'any' without a restriction, null for no match
+ */
+function matchKeyOrCode(event: KeyboardEvent, config: KeyTriggerConfig): 'key' | 'code' | 'any' | null {
+    const keys = config.keys || [];
+    const codes = config.codes || [];
+
+    // No key/code restriction: any key with the right modifiers fires
+    if (keys.length === 0 && codes.length === 0) return 'any';
+
+    const eventKey = normalizeKey(event.key || '');
+    if (keys.some(key => normalizeKey(key) === eventKey)) {
+        return 'key';
+    }
+
+    return codes.some(code => code.toLowerCase() === (event.code || '').toLowerCase()) ? 'code' : null;
+}
+
+/**
+ * Normalize a key for case-insensitive comparison, resolving aliases
+ * Note: " " (space) must not be trimmed away
+ */
+function normalizeKey(key: string): string {
+    if (key === ' ') return ' ';
+
+    const lower = key.trim().toLowerCase();
+    return KEY_ALIASES[lower] ?? lower;
+}
@@ -11,13 +11,19 @@
  * detector.startDetection((direction) => {
  *   console.log('Scroll direction changed to:', direction);
  * });
+ * 
+ * // Horizontal rail: reports 'left' / 'right'
+ * getScrollDirectionDetector({ axis: 'x', scrollContainer: '.rail' }).startDetection(...);
  * ```
  */
 
 // ✅ PERFORMANCE FIX: Back to UnifiedScrollManager for efficient single scroll listener
 import { unifiedScrollManager } from '../utils/performance/UnifiedScrollManager.ts';
+import { resolveScrollTarget, getScrollPosition } from '../utils/dom/ScrollContainerResolver.ts';
+import type { ScrollAxisConfig } from '../types/index.ts';
 
-export type ScrollDirection = 'up' | 'down';
+/** Vertical scrolling reports up/down, horizontal scrolling left/right */
+export type ScrollDirection = 'up' | 'down' | 'left' | 'right';
 
 export interface ScrollDirectionConfig {
     /** Minimum velocity change required to trigger direction change (default: 50) */
@@ -26,6 +32,8 @@ export interface ScrollDirectionConfig {
     debounceDelay?: number;
     /** Sample rate for velocity calculation in milliseconds (default: 16) */
     sampleRate?: number;
+    /** Axis and scroll container to watch (default: vertical window scrolling; 'auto' follows the dominant axis) */
+    scrollAxis?: ScrollAxisConfig;
 }
 
 /**
@@ -45,7 +53,8 @@ export interface ScrollDirectionConfig {
  * - Lazy activation: only runs when actually needed
  */
 export class ScrollDirectionDetector {
-    private config: Required<ScrollDirectionConfig>;
+    private config: Required<Omit<ScrollDirectionConfig, 'scrollAxis'>>;
+    private scrollAxis: ScrollAxisConfig;
     private callbacks: Set<(direction: ScrollDirection) => void> = new Set();
     private currentDirection: ScrollDirection | null = null;
     private debounceTimer: ReturnType<typeof setTimeout> | null = null;
@@ -54,19 +63,23 @@ export class ScrollDirectionDetector {
     
     // 🚨 ISOLATION FIX: Direct scroll listener cleanup (isolated from UnifiedScrollManager)
     private scrollListenerCleanup: (() => void) | null = null;
+    private containerCleanup: (() => void) | null = null;
     
     // Velocity calculation state
+    private lastScrollX = 0;
     private lastScrollY = 0;
     private lastTimestamp = 0;
-    private velocityHistory: Array<{ velocity: number; timestamp: number }> = [];
+    private velocityHistory: Array<{ velocityX: number; velocityY: number; timestamp: number }> = [];
 
     constructor(config: ScrollDirectionConfig = {}) {
+        const { scrollAxis, ...detectionConfig } = config;
         this.config = {
             threshold: 50,
             debounceDelay: 100,
             sampleRate: 16,
-            ...config
+            ...detectionConfig
         };
+        this.scrollAxis = scrollAxis || { axis: 'y' };
         
         console.log(`🌊 [ScrollDirectionDetector] Initialized with config:`, this.config);
     }
@@ -128,6 +141,11 @@ export class ScrollDirectionDetector {
             this.scrollListenerCleanup = null;
             console.log(`🌊 [ScrollDirectionDetector] Unregistered from UnifiedScrollManager`);
         }
+        
+        if (this.containerCleanup) {
+            this.containerCleanup();
+            this.containerCleanup = null;
+        }
     }
 
     /**
@@ -163,6 +181,7 @@ export class ScrollDirectionDetector {
         // Reset all internal state
         this.currentDirection = null;
         this.hasDetectedInitialDirection = false;
+        this.lastScrollX = 0;
         this.lastScrollY = 0;
         this.lastTimestamp = 0;
         this.velocityHistory = [];
@@ -188,8 +207,14 @@ export class ScrollDirectionDetector {
             return; // Already set up
         }
 
+        // Resolve the watched container (no trigger element - only an explicit selector can pick one)
+        const { container, axis: resolvedAxis } = resolveScrollTarget(null, this.scrollAxis);
+        const readScroll = (axis: 'x' | 'y') => getScrollPosition({ container, axis });
+        const followDominantAxis = this.scrollAxis.axis === 'auto';
+        
         // Initialize tracking values
-        this.lastScrollY = window.scrollY;
+        this.lastScrollX = readScroll('x');
+        this.lastScrollY = readScroll('y');
         this.lastTimestamp = performance.now();
         this.velocityHistory = [];
         this.currentDirection = null;
@@ -208,41 +233,51 @@ export class ScrollDirectionDetector {
             }
             
             const currentTime = performance.now();
-            const currentScrollY = window.scrollY;
+            const currentScrollX = readScroll('x');
+            const currentScrollY = readScroll('y');
             
             // console.log(`🚨 [ScrollDirectionDetector] [DEBUG] Current scroll: ${currentScrollY}, Last scroll: ${this.lastScrollY}, Delta: ${currentScrollY - this.lastScrollY}`);
             
             // Track velocity for smoothing
-            const deltaY = currentScrollY - this.lastScrollY;
             const deltaTime = Math.max(currentTime - this.lastTimestamp, 1);
-            const velocity = deltaY / deltaTime;
+            const velocityX = (currentScrollX - this.lastScrollX) / deltaTime;
+            const velocityY = (currentScrollY - this.lastScrollY) / deltaTime;
             
             // console.log(`🚨 [ScrollDirectionDetector] [DEBUG] Velocity: ${velocity}, Threshold: ${this.config.threshold / 1000}`);
             
             // Add to velocity history for smoothing
-            this.velocityHistory.push({ velocity, timestamp: currentTime });
+            this.velocityHistory.push({ velocityX, velocityY, timestamp: currentTime });
             
             // Keep only recent velocity samples (within sample rate window)
             const cutoffTime = currentTime - (this.config.sampleRate * 3);
             this.velocityHistory = this.velocityHistory.filter(sample => sample.timestamp > cutoffTime);
             
-            // Calculate smoothed velocity
-            const averageVelocity = this.velocityHistory.length > 0
-                ? this.velocityHistory.reduce((sum, sample) => sum + sample.velocity, 0) / this.velocityHistory.length
-                : velocity;
+            // Calculate smoothed velocity per axis
+            const sampleCount = Math.max(this.velocityHistory.length, 1);
+            const averageVelocityX = this.velocityHistory.reduce((sum, sample) => sum + sample.velocityX, 0) / sampleCount;
+            const averageVelocityY = this.velocityHistory.reduce((sum, sample) => sum + sample.velocityY, 0) / sampleCount;
+            
+            // Pick the watched axis ('auto' follows whichever axis moves more)
+            const axis = followDominantAxis
+                ? (Math.abs(averageVelocityX) > Math.abs(averageVelocityY) ? 'x' : 'y')
+                : resolvedAxis;
+            const averageVelocity = axis === 'x' ? averageVelocityX : averageVelocityY;
             
             // console.log(`🚨 [ScrollDirectionDetector] [DEBUG] Average velocity: ${averageVelocity}`);
             
             // Only process if there's significant movement
             if (Math.abs(averageVelocity) < this.config.threshold / 1000) {
                 // console.log(`🚨 [ScrollDirectionDetector] [DEBUG] Movement too small, skipping direction detection`);
+                this.lastScrollX = currentScrollX;
                 this.lastScrollY = currentScrollY;
                 this.lastTimestamp = currentTime;
                 return;
             }
             
             // Determine direction based on smoothed velocity
-            const newDirection: ScrollDirection = averageVelocity > 0 ? 'down' : 'up';
+            const newDirection: ScrollDirection = axis === 'x'
+                ? (averageVelocity > 0 ? 'right' : 'left')
+                : (averageVelocity > 0 ? 'down' : 'up');
             
             // console.log(`🚨 [ScrollDirectionDetector] [DEBUG] New direction: ${newDirection}, Current direction: ${this.currentDirection}, Has detected initial: ${this.hasDetectedInitialDirection}`);
             
@@ -264,6 +299,7 @@ export class ScrollDirectionDetector {
             }
             
             // Update tracking values
+            this.lastScrollX = currentScrollX;
             this.lastScrollY = currentScrollY;
             this.lastTimestamp = currentTime;
         };
@@ -273,10 +309,11 @@ export class ScrollDirectionDetector {
         // ✅ PERFORMANCE FIX: Use UnifiedScrollManager for efficient coordination
         // This eliminates duplicate scroll listeners while maintaining proper isolation
         this.scrollListenerCleanup = unifiedScrollManager.registerAnimation(
-            'scroll-direction-detector', // Unique ID for this system
+            `scroll-direction-detector${getScrollAxisKey(this.scrollAxis)}`, // Unique ID per watched axis/container
             scrollUpdateHandler,
             'high' // High priority for direction detection
         );
+        this.containerCleanup = unifiedScrollManager.observeScrollContainer(container);
 
         console.log(`🌊 [ScrollDirectionDetector] Setup complete with UnifiedScrollManager coordination (eliminates duplicate scroll listeners)`);
         // console.log(`🚨 [ScrollDirectionDetector] [DEBUG] Setup complete, cleanup function: ${!!this.scrollListenerCleanup}`);
@@ -306,6 +343,14 @@ export class ScrollDirectionDetector {
     }
 }
 
+/**
+ * Registration suffix for an axis config ('' for the default vertical window detector)
+ */
+function getScrollAxisKey(scrollAxis: ScrollAxisConfig): string {
+    if (scrollAxis.axis === 'y' && !scrollAxis.scrollContainer) return '';
+    return `-${scrollAxis.axis}${scrollAxis.scrollContainer ? `-${scrollAxis.scrollContainer}` : ''}`;
+}
+
 /**
  * Global scroll direction detector instance
  * 
@@ -317,4 +362,30 @@ export const globalScrollDirectionDetector = new ScrollDirectionDetector({
     threshold: 100, // Require 100px/s velocity to trigger direction change
     debounceDelay: 150, // Wait 150ms before firing to avoid excessive events
     sampleRate: 16 // Sample every 16ms (60fps)
-}); 
\ No newline at end of file
+}); 
+
+/** Detectors for non-default axes/containers, shared by every trigger watching the same one */
+const axisDetectors = new Map<string, ScrollDirectionDetector>();
+
+/**
+ * Get the shared detector for an axis config
+ * 
+ * @param scrollAxis - Axis / container to watch (default: vertical window scrolling)
+ * @returns globalScrollDirectionDetector for the default, a shared per-axis detector otherwise
+ */
+export function getScrollDirectionDetector(scrollAxis?: ScrollAxisConfig): ScrollDirectionDetector {
+    const key = scrollAxis ? getScrollAxisKey(scrollAxis) : '';
+    if (!key) return globalScrollDirectionDetector;
+    
+    let detector = axisDetectors.get(key);
+    if (!detector) {
+        detector = new ScrollDirectionDetector({
+            threshold: 100,
+            debounceDelay: 150,
+            sampleRate: 16,
+            scrollAxis
+        });
+        axisDetectors.set(key, detector);
+    }
+    return detector;
+}
@@ -0,0 +1,367 @@
+/**
+ * FAME Animation System - Compositor Backend
+ *
+ * @fileOverview Runs compilable slots on the browser's animation engine instead of rAF loops
+ * @version 1.0.0
+ * @status ACTIVE
+ *
+ * @description
+ * Optional execution backend for slots with useCompositor enabled. Transform and opacity
+ * animations are compiled into Web Animations API keyframes, so the browser can run them
+ * off the main thread:
+ * - Timed playback → element.animate() driven by MasterTimelinePlayer's clock
+ * - Scrubbed scroll → element.animate() on a ViewTimeline of the trigger element
+ *
+ * Anything that cannot be compiled returns null and the caller keeps using the JS path:
+ * properties other than transforms/opacity, physics springs, cross-unit or calc() values,
+ * scroll boundaries in units other than px/%/vh/vw, triggers inside nested scroll
+ * containers, and browsers without WAAPI / ViewTimeline.
+ *
+ * @architecture
+ * Easings are not translated - each timeline is sampled with the same interpolators the
+ * JS path uses and played back linearly between samples, so every FAME and CSS easing
+ * looks the same on both backends.
+ *
+ * Inline !important styles outrank animations, so the animated properties are removed
+ * from the inline style while the compositor owns them. Callers write the final (or
+ * interrupted) state back with the JS applicator before cancelling the animation.
+ *
+ * @example
+ * ```typescript
+ * const animation = compositorBackend.playTimed(element, sample, durationMs);
+ * if (!animation) {
+ *     // Not compilable - animate with the rAF loop
+ * }
+ * ```
+ */
+
+import type { MasterTimeline } from '../core/timeline/MasterTimeline.ts';
+import type { ScrollBoundary } from '../types/ScrollTypes.ts';
+import type { ScrollBoundaries } from './ScrollProgressTracker.ts';
+import { isPhysicsSpringEasing } from '../utils/easings/EasingFunctions.ts';
+import { combineTransforms } from '../utils/properties/TransformUtils.ts';
+import type { ResolvedScrollAxis } from '../utils/dom/ScrollContainerResolver.ts';
+
+/**
+ * Property values of one element at a point of the animation (0-1)
+ */
+export type CompositorSampler = (progress: number) => Map<string, any>;
+
+/**
+ * ViewTimeline constructor (not in TypeScript's DOM lib yet)
+ */
+interface ViewTimelineConstructor {
+    new (options: { subject: Element; axis?: 'block' | 'inline' | 'x' | 'y' }): AnimationTimeline;
+}
+
+/**
+ * Animation with scroll-driven range support (not in TypeScript's DOM lib yet)
+ */
+interface RangedAnimation extends Animation {
+    rangeStart: string;
+    rangeEnd: string;
+}
+
+/** Transform functions handled by StyleApplicator */
+const TRANSFORM_PROPERTIES = new Set([
+    'translateX', 'translateY', 'translateZ',
+    'scale', 'scaleX', 'scaleY',
+    'rotate', 'rotateX', 'rotateY', 'rotateZ',
+    'skewX', 'skewY'
+]);
+
+/** Keyframe samples per second of timed playback */
+const SAMPLES_PER_SECOND = 60;
+const MIN_SAMPLES = 2;
+const MAX_SAMPLES = 240;
+
+/** Keyframe samples across a scrubbed scroll range */
+const SCRUB_SAMPLES = 100;
+
+/** Overflow values that make an element the scroll container of a ViewTimeline */
+const SCROLL_CONTAINER_OVERFLOW = /(auto|scroll|hidden)/;
+
+/**
+ * Compositor Backend
+ *
+ * @description
+ * Compiles timelines into WAAPI animations. Stateless apart from the resize handling of
+ * scrubbed animations, which is torn down by the cleanup they return.
+ */
+export class CompositorBackend {
+    /**
+     * Check if the browser can run timed animations on the compositor
+     */
+    isSupported(): boolean {
+        return typeof Element !== 'undefined' && typeof Element.prototype.animate === 'function';
+    }
+
+    /**
+     * Check if the browser can run scroll-driven animations
+     */
+    isScrollSupported(): boolean {
+        return this.isSupported() && typeof window !== 'undefined' && 'ViewTimeline' in window;
+    }
+
+    /**
+     * Check whether a timeline only uses compositor-friendly properties and easings
+     * Values are checked later, while sampling.
+     * @param masterTimeline - Timeline to check
+     * @returns Reason it cannot be compiled, or null when it can
+     */
+    getIncompatibility(masterTimeline: MasterTimeline): string | null {
+        for (const propertyTimeline of masterTimeline.propertyTimelines) {
+            if (!this.isCompositorProperty(propertyTimeline.property)) {
+                return `property "${propertyTimeline.property}" is not a transform or opacity`;
+            }
+
+            // Physics springs carry velocity between playbacks, which only the JS path tracks
+            if (propertyTimeline.keyframes.some(keyframe => isPhysicsSpringEasing(keyframe.easing))) {
+                return `property "${propertyTimeline.property}" uses a physics spring`;
+            }
+        }
+
+        return null;
+    }
+
+    //=======================================
+    //        TIMED PLAYBACK
+    //=======================================
+
+    /**
+     * Start a timed animation on the compositor
+     *
+     * The animation starts paused at 0 with a linear timing of durationMs; the caller drives
+     * it (play, currentTime, playbackRate) and cancels it after writing back the final state.
+     *
+     * @param element - Element to animate
+     * @param sample - Values at each progress of the played segment
+     * @param durationMs - Duration of the segment at normal speed
+     * @returns The animation, or null when the values cannot be compiled
+     */
+    playTimed(element: HTMLElement, sample: CompositorSampler, durationMs: number): Animation | null {
+        if (!this.isSupported() || durationMs <= 0) return null;
+
+        const sampleCount = Math.min(MAX_SAMPLES, Math.max(MIN_SAMPLES, Math.ceil(durationMs / 1000 * SAMPLES_PER_SECOND)));
+        const keyframes = this.compileKeyframes(element, sample, sampleCount);
+        if (!keyframes) return null;
+
+        this.releaseInlineStyles(element, keyframes);
+        const animation = element.animate(keyframes, { duration: durationMs, fill: 'both', easing: 'linear' });
+        animation.pause();
+
+        return animation;
+    }
+
+    //=======================================
+    //        SCRUBBED SCROLL
+    //=======================================
+
+    /**
+     * Scrub elements on a ViewTimeline of the trigger element
+     * @param elements - Elements to animate
+     * @param sample - Values of an element (by index) at each scroll progress
+     * @param triggerElement - Element whose position drives the progress
+     * @param boundaries - Start and end boundaries of the scroll range
+     * @param axis - Page scroll axis the slot tracks (default: vertical)
+     * @returns Cleanup that cancels the animations, or null when the slot cannot be compiled
+     */
+    playScrubbed(
+        elements: HTMLElement[],
+        sample: (progress: number, elementIndex: number) => Map<string, any>,
+        triggerElement: HTMLElement,
+        boundaries: ScrollBoundaries,
+        axis: ResolvedScrollAxis = 'y'
+    ): (() => void) | null {
+        if (!this.isScrollSupported() || elements.length === 0) return null;
+
+        if (this.isInsideScrollContainer(triggerElement, axis)) {
+            console.log('🧊 [CompositorBackend] Trigger is inside a scroll container - using JS scrubbing');
+            return null;
+        }
+
+        const range = this.resolveRange(triggerElement, boundaries, axis);
+        if (!range) return null;
+
+        // Compile everything before touching the DOM, so a failure leaves the elements as they are
+        const compiled: Array<{ element: HTMLElement; keyframes: Keyframe[] }> = [];
+        for (let index = 0; index < elements.length; index++) {
+            const keyframes = this.compileKeyframes(elements[index], progress => sample(progress, index), SCRUB_SAMPLES + 1);
+            if (!keyframes) return null;
+            compiled.push({ element: elements[index], keyframes });
+        }
+
+        const ViewTimeline = (window as unknown as { ViewTimeline: ViewTimelineConstructor }).ViewTimeline;
+        const timeline = new ViewTimeline({ subject: triggerElement, axis });
+
+        const animations = compiled.map(({ element, keyframes }) => {
+            this.releaseInlineStyles(element, keyframes);
+            const animation = element.animate(keyframes, { fill: 'both', easing: 'linear', timeline }) as RangedAnimation;
+            animation.rangeStart = range.start;
+            animation.rangeEnd = range.end;
+            return animation;
+        });
+
+        // Boundaries in % and vh move with the layout
+        const updateRange = () => {
+            const updated = this.resolveRange(triggerElement, boundaries, axis);
+            if (!updated) return;
+            animations.forEach(animation => {
+                animation.rangeStart = updated.start;
+                animation.rangeEnd = updated.end;
+            });
+        };
+        const resizeObserver = typeof ResizeObserver !== 'undefined' ? new ResizeObserver(updateRange) : null;
+        resizeObserver?.observe(triggerElement);
+        window.addEventListener('resize', updateRange);
+
+        console.log(`🧊 [CompositorBackend] Scrubbing ${animations.length} element(s) on a ViewTimeline (${range.start} → ${range.end})`);
+
+        return () => {
+            resizeObserver?.disconnect();
+            window.removeEventListener('resize', updateRange);
+            animations.forEach(animation => animation.cancel());
+        };
+    }
+
+    /**
+     * Convert FAME boundaries to ViewTimeline 'cover' range offsets
+     * 'cover 0px' is where the trigger's leading edge meets the viewport's trailing edge, so a
+     * boundary "element offset e meets viewport offset v" sits at cover (e - v + viewport size).
+     * Sizes are measured along the scroll axis (heights for y, widths for x).
+     */
+    private resolveRange(triggerElement: HTMLElement, boundaries: ScrollBoundaries, axis: ResolvedScrollAxis): { start: string; end: string } | null {
+        const viewportSize = axis === 'x' ? document.documentElement.clientWidth : document.documentElement.clientHeight;
+        const elementSize = axis === 'x' ? triggerElement.offsetWidth : triggerElement.offsetHeight;
+        const start = this.resolveBoundaryOffset(boundaries.start, elementSize, viewportSize);
+        const end = this.resolveBoundaryOffset(boundaries.end, elementSize, viewportSize);
+
+        if (start === null || end === null) {
+            console.log('🧊 [CompositorBackend] Boundary units not supported on ViewTimeline - using JS scrubbing');
+            return null;
+        }
+        if (end <= start) {
+            console.log('🧊 [CompositorBackend] Empty scroll range - using JS scrubbing');
+            return null;
+        }
+
+        return { start: `cover ${start}px`, end: `cover ${end}px` };
+    }
+
+    private resolveBoundaryOffset(boundary: ScrollBoundary, elementSize: number, viewportSize: number): number | null {
+        const elementOffset = this.toPixels(boundary.element.value, elementSize);
+        const viewportOffset = this.toPixels(boundary.viewport.value, viewportSize);
+        if (elementOffset === null || viewportOffset === null) return null;
+
+        return elementOffset - viewportOffset + viewportSize;
+    }
+
+    /**
+     * Convert a boundary value like ScrollProgressTracker does (px, %, vh, vw only)
+     */
+    private toPixels(value: string, referenceSize: number): number | null {
+        const match = /^(-?\d*\.?\d+)(px|%|vh|vw)$/.exec(value.trim());
+        if (!match) return null;
+
+        const amount = parseFloat(match[1]);
+        switch (match[2]) {
+            case 'px': return amount;
+            case '%': return amount / 100 * referenceSize;
+            case 'vh': return amount / 100 * window.innerHeight;
+            default: return amount / 100 * window.innerWidth;
+        }
+    }
+
+    /**
+     * ViewTimeline follows the nearest scroll container, while FAME measures against the
+     * page - only page-scrolled triggers produce the same progress on both backends
+     */
+    private isInsideScrollContainer(element: HTMLElement, axis: ResolvedScrollAxis): boolean {
+        let current = element.parentElement;
+        while (current && current !== document.body && current !== document.documentElement) {
+            const style = window.getComputedStyle(current);
+            if (SCROLL_CONTAINER_OVERFLOW.test(axis === 'x' ? style.overflowX : style.overflowY)) {
+                return true;
+            }
+            current = current.parentElement;
+        }
+        return false;
+    }
+
+    //=======================================
+    //        KEYFRAME COMPILATION
+    //=======================================
+
+    /**
+     * Sample values into evenly spaced WAAPI keyframes
+     * Transforms are combined on top of the element's current transform, as applyTransform does.
+     * @returns Keyframes, or null when a value cannot run on the compositor
+     */
+    private compileKeyframes(element: HTMLElement, sample: CompositorSampler, sampleCount: number): Keyframe[] | null {
+        const baseTransform = this.getBaseTransform(element);
+        const keyframes: Keyframe[] = [];
+
+        for (let index = 0; index < sampleCount; index++) {
+            const offset = index / (sampleCount - 1);
+            const keyframe: Keyframe = { offset };
+            const transformValues: Array<[string, string]> = [];
+
+            for (const [property, value] of sample(offset)) {
+                const valueStr = String(value);
+                if (!this.isCompositorProperty(property) || valueStr.startsWith('__CROSS_UNIT_INTERPOLATION__') || valueStr.includes('calc(')) {
+                    console.log(`🧊 [CompositorBackend] ${property}: "${valueStr}" cannot be compiled - using JS playback`);
+                    return null;
+                }
+
+                if (property === 'opacity') {
+                    keyframe.opacity = valueStr;
+                } else {
+                    transformValues.push([property, valueStr]);
+                }
+            }
+
+            if (transformValues.length > 0) {
+                keyframe.transform = this.buildTransform(baseTransform, transformValues);
+            }
+            keyframes.push(keyframe);
+        }
+
+        return keyframes;
+    }
+
+    private buildTransform(baseTransform: string, values: Array<[string, string]>): string {
+        // combineTransforms keeps a matrix base first - add it once instead of per property
+        const isMatrix = baseTransform.includes('matrix');
+        let transform = isMatrix ? '' : baseTransform;
+        values.forEach(([property, value]) => {
+            transform = combineTransforms(transform, property, value);
+        });
+        return isMatrix ? `${baseTransform} ${transform}` : transform;
+    }
+
+    /**
+     * Transform the JS path would combine with: inline (previous FAME frames) or computed (Framer classes)
+     */
+    private getBaseTransform(element: HTMLElement): string {
+        const inlineTransform = element.style.transform;
+        if (inlineTransform) return inlineTransform;
+
+        const computedTransform = window.getComputedStyle(element).transform;
+        return computedTransform && computedTransform !== 'none' ? computedTransform : '';
+    }
+
+    /**
+     * Remove inline styles of the animated properties - inline !important would hide the animation
+     */
+    private releaseInlineStyles(element: HTMLElement, keyframes: Keyframe[]): void {
+        if (keyframes[0]?.transform !== undefined) element.style.removeProperty('transform');
+        if (keyframes[0]?.opacity !== undefined) element.style.removeProperty('opacity');
+    }
+
+    private isCompositorProperty(property: string): boolean {
+        return property === 'opacity' || TRANSFORM_PROPERTIES.has(property);
+    }
+}
+
+// Export singleton instance for use across the system
+export const compositorBackend = new CompositorBackend();
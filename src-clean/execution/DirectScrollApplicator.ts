@@ -31,6 +31,7 @@
 
 import type { PropertyBatch } from './ScrollPropertyApplicator.ts';
 import { applyProperty } from './StyleApplicator.ts';
+import { isTextEffectProperty } from '../utils/text/effects/TextEffectChannels.ts';
 
 /**
  * Simple transform state cache to avoid getComputedStyle calls
@@ -317,7 +318,8 @@ export class DirectScrollApplicator {
     private isSpecialProperty(property: string): boolean {
         return property === 'textBackgroundImage' ||
                property === 'gradientBackground' ||
-               property === 'clipPath';
+               property === 'clipPath' ||
+               isTextEffectProperty(property);
     }
 }
 
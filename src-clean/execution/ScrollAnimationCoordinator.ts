@@ -69,15 +69,22 @@ import {
 import { resolveElement, ensureElementId } from "../utils/dom/DynamicElementResolver.ts"
 
 import { EnvironmentDetector } from "../utils/environment/EnvironmentDetector.ts"
+import { reducedMotionManager } from "../utils/environment/ReducedMotion.ts"
+import { resolveScrollTarget } from "../utils/dom/ScrollContainerResolver.ts"
+import { viewportVisibilityManager } from "../utils/performance/ViewportOptimization.ts"
+import { performanceGovernor } from "../utils/performance/PerformanceGovernor.ts"
+import { compositorBackend } from "./CompositorBackend.ts"
 import { expandDistributedProperties } from "../config/adapters/AnimationSlotAdapter.ts"
 import { GridDetector } from "../utils/staggering/grid/GridDetector.ts"
 import { OriginResolver } from "../utils/staggering/grid/OriginResolver.ts"
 import { DistanceCalculator } from "../utils/staggering/grid/DistanceCalculator.ts"
+import { LinearStagger } from "../utils/staggering/strategies/LinearStagger.ts"
+import type { CustomStaggerOrderConfig, StaggerOrder } from "../utils/staggering/types/StaggerTypes.ts"
 
 // 🚨 NEW: Import existing coordinators for threshold stagger
 import { BehaviorCoordinator } from "../core/coordinators/BehaviorCoordinator.ts"
 import { animationStateManager } from "../core/state/AnimationStateManager.ts"
-import { AnimationBehavior, AnimationStatus, ReverseMode } from "../types/index.ts"
+import { AnimationBehavior, AnimationStatus, ReverseMode, ReducedMotionPolicy } from "../types/index.ts"
 
 // 🎨 NEW: Text Processing Integration for Scroll Animations
 import { TextSplitter } from "../utils/text/TextSplitter.ts"
@@ -117,6 +124,8 @@ export interface ScrollStaggerConfig {
     strategy?: "linear" | "grid" | "random"
     /** Element order for linear stagger */
     order?: string
+    /** Custom sequence (when order is 'custom') */
+    customOrder?: CustomStaggerOrderConfig
     /** Grid mode for grid stagger */
     gridMode?: "point-based" | "row-based" | "column-based"
     /** Grid origin point */
@@ -188,6 +197,16 @@ interface ActiveScrollAnimation {
         startProgress: number,
         reverseMode?: ReverseMode
     ) => Promise<void>
+    /** Last global scroll progress (re-applied when reduced motion changes) */
+    lastGlobalProgress?: number
+    /** prefers-reduced-motion subscription cleanup */
+    reducedMotionCleanup?: () => void
+    /** 👁️ Animated elements are off-screen - progress is recorded but not applied */
+    suspended?: boolean
+    /** 👁️ Viewport visibility watcher cleanup */
+    viewportCleanup?: () => void
+    /** 🧊 Scrubbed by the browser on a ViewTimeline - JS progress handling is skipped */
+    compositor?: boolean
 
 }
 
@@ -723,18 +742,18 @@ export class ScrollAnimationCoordinator {
         console.log(`🚀 [ScrollAnimationCoordinator] Creating isolated ScrollProgressTracker: ${animationId}`);
         
         let progressCleanup: () => void;
+        // 🧊 Opted-in slots that compile are scrubbed by the browser - no JS progress tracking
+        const compositorCleanup = this.isCanvasMode
+            ? null
+            : this.startCompositorScrub(expandedSlot, effectiveStaggerConfig, scrollTimeline, processedAnimatedElements, triggerElement, boundaries)
         
         if (this.isCanvasMode) {
             // Canvas mode - no scroll tracking needed
             progressCleanup = () => {};
+        } else if (compositorCleanup) {
+            progressCleanup = compositorCleanup
         } else {
-            // ✅ BEST APPROACH: Individual ScrollProgressTracker with UnifiedScrollManager coordination
-            const progressTracker = new ScrollProgressTracker();
-            progressCleanup = progressTracker.startTracking(
-                triggerElement,
-                boundaries,
-                progressCallback
-            );
+            progressCleanup = this.startProgressTracking(expandedSlot, triggerElement, boundaries, progressCallback)
         }
 
         // 🚨 DEBUG: Storage phase debugging (uncomment if needed)
@@ -805,10 +824,40 @@ export class ScrollAnimationCoordinator {
             thresholdStates,
             behaviorCoordinator,
             animationExecutor,
+            compositor: compositorCleanup !== null,
         }
 
         this.activeAnimations.set(animationId, activeAnimation)
 
+        // ♿ Re-apply the current scroll position when prefers-reduced-motion changes
+        // A compositor scrub cannot apply the policy, so it hands the slot over to JS scrubbing
+        if (expandedSlot.reducedMotion && expandedSlot.reducedMotion !== ReducedMotionPolicy.NORMAL) {
+            activeAnimation.reducedMotionCleanup = reducedMotionManager.subscribe(() => {
+                if (activeAnimation.compositor) {
+                    console.log(`🧊 [ScrollAnimationCoordinator] Reduced motion changed - moving slot ${expandedSlot.id} to JS scrubbing`)
+                    activeAnimation.progressCleanup()
+                    activeAnimation.compositor = false
+                    activeAnimation.progressCleanup = this.startProgressTracking(expandedSlot, triggerElement, boundaries, progressCallback)
+                    return
+                }
+                this.handleScrollProgress(animationId, activeAnimation.lastGlobalProgress ?? 0)
+            })
+        }
+
+        // 👁️ Stop scrubbing off-screen elements and catch up with the scroll position when they return
+        // Elements are placed by their layout box - their rendered box moves with the scrub
+        // Threshold stagger is excluded - it plays one-off timed animations that should start on time
+        const viewportOptimization = performanceGovernor.getSettings().enableViewportOptimization
+        // The compositor backend is skipped too - the browser already skips off-screen work
+        if (viewportOptimization && !activeAnimation.compositor && expandedSlot.pauseWhenOffscreen !== false && effectiveStaggerConfig?.mode !== "threshold") {
+            activeAnimation.viewportCleanup = viewportVisibilityManager.observe(processedAnimatedElements, (isVisible) => {
+                activeAnimation.suspended = !isVisible
+                if (isVisible) {
+                    this.handleScrollProgress(animationId, activeAnimation.lastGlobalProgress ?? 0)
+                }
+            })
+        }
+
         // Apply initial values based on stagger mode
         if (!effectiveStaggerConfig) {
             // No stagger configuration means stagger is disabled - apply initial values at progress 0
@@ -828,6 +877,76 @@ export class ScrollAnimationCoordinator {
         return () => this.stopScrollAnimation(animationId)
     }
 
+    /**
+     * Track scroll progress of a slot on the JS path
+     * Uses the slot's scrub smoothing and scroll axis / container (horizontal rails).
+     * @returns Cleanup stopping the tracker
+     */
+    private startProgressTracking(
+        slot: AnimationSlot,
+        triggerElement: HTMLElement,
+        boundaries: ScrollBoundaries,
+        progressCallback: (globalProgress: number) => void
+    ): () => void {
+        // ✅ BEST APPROACH: Individual ScrollProgressTracker with UnifiedScrollManager coordination
+        const scrubbedConfig = slot.scrollConfig?.mode === 'scrubbed'
+            ? slot.scrollConfig.scrubbedConfig
+            : undefined
+        const progressTracker = new ScrollProgressTracker();
+        return progressTracker.startTracking(
+            triggerElement,
+            boundaries,
+            progressCallback,
+            scrubbedConfig?.smoothing,
+            scrubbedConfig?.scrollAxis
+        );
+    }
+
+    /**
+     * Start scrubbing a slot on the compositor backend, if it opted in and compiles
+     * Staggered slots stay on the JS path - their progress is per element. So do slots whose
+     * reduced motion policy is in effect (slot or component policy while the user prefers
+     * reduced motion), resolved like the JS path does at every frame.
+     * @returns Cleanup cancelling the compositor animations, or null to use JS scrubbing
+     */
+    private startCompositorScrub(
+        slot: AnimationSlot,
+        staggerConfig: ScrollStaggerConfig | undefined,
+        scrollTimeline: ScrollTimeline,
+        animatedElements: HTMLElement[],
+        triggerElement: HTMLElement,
+        boundaries: ScrollBoundaries
+    ): (() => void) | null {
+        if (!slot.useCompositor) return null
+
+        if (staggerConfig || reducedMotionManager.resolvePolicy(slot.reducedMotion) !== ReducedMotionPolicy.NORMAL) {
+            console.log(`🧊 [ScrollAnimationCoordinator] Slot ${slot.id} uses stagger or reduced motion - using JS scrubbing`)
+            return null
+        }
+
+        // ViewTimeline ranges are computed for page scrolling, along the slot's axis
+        const scrollAxis = slot.scrollConfig?.mode === 'scrubbed' ? slot.scrollConfig.scrubbedConfig.scrollAxis : undefined
+        const scrollTarget = resolveScrollTarget(triggerElement, scrollAxis)
+        if (scrollTarget.container !== window) {
+            console.log(`🧊 [ScrollAnimationCoordinator] Slot ${slot.id} tracks a scroll container - using JS scrubbing`)
+            return null
+        }
+
+        const incompatibility = compositorBackend.getIncompatibility(scrollTimeline.originalTimeline)
+        if (incompatibility) {
+            console.log(`🧊 [ScrollAnimationCoordinator] Slot ${slot.id} uses JS scrubbing: ${incompatibility}`)
+            return null
+        }
+
+        return compositorBackend.playScrubbed(
+            animatedElements,
+            (progress, elementIndex) => timelineScrollMapper.getValuesUsingOriginalInterpolationForElement(scrollTimeline, progress, elementIndex),
+            triggerElement,
+            boundaries,
+            scrollTarget.axis
+        )
+    }
+
     /**
      * Create behavior coordinator for threshold stagger
      * 
@@ -898,7 +1017,11 @@ export class ScrollAnimationCoordinator {
                 // This ensures proper handling of forward/backward behaviors and state management
                 const finalProgress = await this.masterTimelinePlayer.executeBehavior(
                     behavior as AnimationBehavior,
-                    elementSpecificSlot.masterTimeline as MasterTimeline,
+                    {
+                        ...(elementSpecificSlot.masterTimeline as MasterTimeline),
+                        reducedMotion: elementSpecificSlot.reducedMotion,
+                        useCompositor: elementSpecificSlot.useCompositor,
+                    },
                     element,
                     currentProgress,
                     progressCallback,
@@ -947,7 +1070,25 @@ export class ScrollAnimationCoordinator {
         const animation = this.activeAnimations.get(animationId)
         if (!animation) return
 
+        // 🧊 The compositor backend renders this slot
+        if (animation.compositor) return
+
         const { staggerConfig, animatedElementIds, scrollTimeline } = animation
+        animation.lastGlobalProgress = globalProgress
+
+        // 👁️ Off-screen: the latest progress is applied when the elements come back
+        if (animation.suspended) return
+
+        // ♿ Reduced motion for scrubbed paths (threshold stagger plays through MasterTimelinePlayer)
+        if (staggerConfig?.mode !== "threshold") {
+            const reducedMotionPolicy = reducedMotionManager.resolvePolicy(animation.slot.reducedMotion)
+            if (reducedMotionPolicy === ReducedMotionPolicy.DISABLE) {
+                return
+            }
+            if (reducedMotionPolicy === ReducedMotionPolicy.SKIP_TO_END) {
+                globalProgress = 1
+            }
+        }
 
         // 🎯 NEW: Check if stagger is enabled
         if (!staggerConfig) {
@@ -1064,9 +1205,13 @@ export class ScrollAnimationCoordinator {
             try {
                 // Get property values using the working timeline approach
                 console.log(`🚨 [DEBUG] Calling getValuesUsingOriginalInterpolationForElement...`);
-                const propertyValues = timelineScrollMapper.getValuesUsingOriginalInterpolationForElement(
-                    scrollTimeline,
-                    elementFinalProgress,
+                const propertyValues = this.applyReducedMotionCrossfade(
+                    animation,
+                    timelineScrollMapper.getValuesUsingOriginalInterpolationForElement(
+                        scrollTimeline,
+                        elementFinalProgress,
+                        elementIndex
+                    ),
                     elementIndex
                 );
 
@@ -1131,9 +1276,13 @@ export class ScrollAnimationCoordinator {
 
             // ✅ FIXED: Use the same reliable approach as working methods
             // Get property values using the working timeline approach
-            const propertyValues = timelineScrollMapper.getValuesUsingOriginalInterpolationForElement(
-                scrollTimeline,
-                elementFinalProgress,
+            const propertyValues = this.applyReducedMotionCrossfade(
+                animation,
+                timelineScrollMapper.getValuesUsingOriginalInterpolationForElement(
+                    scrollTimeline,
+                    elementFinalProgress,
+                    elementIndex
+                ),
                 elementIndex
             );
 
@@ -1151,6 +1300,32 @@ export class ScrollAnimationCoordinator {
         });
     }
 
+    /**
+     * ♿ CROSSFADE policy for scrubbed animations: only opacity follows the scroll,
+     * every other property is held at its end state
+     */
+    private applyReducedMotionCrossfade(
+        animation: ActiveScrollAnimation,
+        propertyValues: Map<string, any>,
+        elementIndex: number
+    ): Map<string, any> {
+        if (reducedMotionManager.resolvePolicy(animation.slot.reducedMotion) !== ReducedMotionPolicy.CROSSFADE) {
+            return propertyValues
+        }
+
+        const endValues = timelineScrollMapper.getValuesUsingOriginalInterpolationForElement(
+            animation.scrollTimeline,
+            1,
+            elementIndex
+        )
+
+        const crossfadeValues = new Map(endValues)
+        if (propertyValues.has("opacity")) {
+            crossfadeValues.set("opacity", propertyValues.get("opacity"))
+        }
+        return crossfadeValues
+    }
+
     /**
      * Handle threshold stagger progress
      * 🔥 DOM DISCONNECTION FIX: Updated to use dynamic element resolution
@@ -1307,16 +1482,63 @@ export class ScrollAnimationCoordinator {
         elementProgress: Map<string, number>
     ): void {
         const scrubWindow = staggerConfig.scrubWindow || 100
-        const staggerStep = (100 - scrubWindow) / (elements.length - 1)
+        const { groupIndices, groupCount } = this.resolveLinearOrderGroups(elements, staggerConfig)
+        const staggerStep = groupCount > 1 ? (100 - scrubWindow) / (groupCount - 1) : 0
 
         elements.forEach((element, index) => {
-            const startProgress = (index * staggerStep) / 100
+            const startProgress = (groupIndices[index] * staggerStep) / 100
             // 🔥 DOM DISCONNECTION FIX: Use element ID as key
             const elementId = ensureElementId(element)
             elementProgress.set(elementId, startProgress)
         })
     }
 
+    /**
+     * Resolve the sequence position of each element for linear scroll staggers
+     *
+     * @description
+     * Reuses LinearStagger's order resolution (including custom sequences) so scroll
+     * offsets follow the same order as timed staggering. Elements sharing a group
+     * (same custom value, same distance from center) get the same offset.
+     *
+     * @returns Group index per element (DOM order) and the number of groups
+     */
+    private resolveLinearOrderGroups(
+        elements: HTMLElement[],
+        staggerConfig: ScrollStaggerConfig
+    ): { groupIndices: number[]; groupCount: number } {
+        const order = (staggerConfig.order || "first-to-last") as StaggerOrder
+        const groupIndices = elements.map((_, index) => index)
+
+        if (order === "first-to-last" || elements.length === 0) {
+            return { groupIndices, groupCount: elements.length }
+        }
+
+        // Unit delay → each timing's delay equals its group index
+        const result = new LinearStagger().calculateTimedDelays(
+            elements,
+            {
+                enabled: true,
+                delay: 1,
+                strategy: "linear",
+                order: {
+                    forward: order,
+                    backward: order,
+                    ...(staggerConfig.customOrder && { custom: staggerConfig.customOrder }),
+                },
+            },
+            "forward"
+        )
+
+        let groupCount = 0
+        result.timings.forEach((timing) => {
+            groupIndices[timing.index] = timing.delay
+            groupCount = Math.max(groupCount, timing.delay + 1)
+        })
+
+        return { groupIndices, groupCount }
+    }
+
     /**
      * Calculate grid scrubbed stagger offsets
      * 🔥 DOM DISCONNECTION FIX: Updated to use element IDs as map keys
@@ -1555,11 +1777,12 @@ export class ScrollAnimationCoordinator {
         const startOffset = 0.01 // Start at 1% progress
         const endOffset = 0.99 // End at 99% progress
         const totalRange = endOffset - startOffset
+        const { groupIndices, groupCount } = this.resolveLinearOrderGroups(elements, staggerConfig)
         const step =
-            elements.length > 1 ? totalRange / (elements.length - 1) : 0
+            groupCount > 1 ? totalRange / (groupCount - 1) : 0
 
         elements.forEach((element, index) => {
-            const checkpoint = startOffset + index * step
+            const checkpoint = startOffset + groupIndices[index] * step
             // 🎯 CRITICAL FIX: Generate element slot ID that matches createElementSpecificSlot pattern
             // This ensures consistent state tracking across threshold stagger system
             const elementSlotId = `${slot.id}-element-${index}`
@@ -1910,6 +2133,8 @@ export class ScrollAnimationCoordinator {
 
         // Clean up progress tracking
         animation.progressCleanup()
+        animation.reducedMotionCleanup?.()
+        animation.viewportCleanup?.()
 
         // Clean up property applications for all elements
         animation.animatedElementIds.forEach((elementId) => {
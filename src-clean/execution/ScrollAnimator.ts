@@ -16,13 +16,15 @@
  * - No independent animation triggering
  * - Full integration with BehaviorCoordinator system
  * - ✅ OPTIMIZED: Uses UnifiedScrollManager for coordinated scroll handling
+ * - ↔️ Vertical or horizontal thresholds, measured against the window or a scroll container
  */
 
-import { AnimationSlot } from '../types/index.ts';
+import { AnimationSlot, ScrollAxisConfig } from '../types/index.ts';
 import { EnvironmentDetector } from '../utils/environment/EnvironmentDetector.ts';
 import { logger } from '../utils/environment/Logger.ts';
 // ✅ NEW: Import unified scroll coordination
 import { unifiedScrollManager } from '../utils/performance/UnifiedScrollManager.ts';
+import { resolveScrollTarget, getScrollViewport, type ScrollTarget } from '../utils/dom/ScrollContainerResolver.ts';
 
 /**
  * Interface for scroll event configuration
@@ -31,6 +33,7 @@ interface ScrollConfig {
     elementStart: number;  // 0-100 percentage
     viewportThreshold: number;  // 0-100 percentage
     thresholdCrossedBackward?: boolean;
+    scrollAxis?: ScrollAxisConfig; // Default: vertical, auto-detected container
 }
 
 /**
@@ -40,6 +43,7 @@ interface ScrollConfig {
 interface ScrollTriggerInfo {
     triggerElement: HTMLElement;
     scrollConfig: ScrollConfig;
+    scrollTarget: ScrollTarget;
     hasPassedThreshold: boolean;
     triggerCallback: (scrollDirection?: 'forward' | 'backward') => void; // 🎯 NEW: Pass direction context
     cleanup: () => void;
@@ -97,9 +101,14 @@ export class ScrollAnimator {
             'high' // High priority - scroll threshold detection (direction detection is now isolated)
         );
         
+        // Thresholds are measured along the configured axis of the trigger's scroll container
+        const scrollTarget = resolveScrollTarget(triggerElement, scrollConfig.scrollAxis);
+        const containerCleanup = unifiedScrollManager.observeScrollContainer(scrollTarget.container);
+        
         // Create cleanup function
         const cleanup = () => {
             unifiedManagerCleanup(); // Clean up from unified manager
+            containerCleanup();
             this.activeAnimations.delete(triggerId);
         };
         
@@ -107,6 +116,7 @@ export class ScrollAnimator {
         this.activeAnimations.set(triggerId, {
             triggerElement,
             scrollConfig,
+            scrollTarget,
             hasPassedThreshold: false,
             triggerCallback,
             cleanup
@@ -126,10 +136,10 @@ export class ScrollAnimator {
         const triggerInfo = this.activeAnimations.get(triggerId);
         if (!triggerInfo) return;
         
-        const { triggerElement, scrollConfig, hasPassedThreshold, triggerCallback } = triggerInfo;
+        const { triggerElement, scrollConfig, scrollTarget, hasPassedThreshold, triggerCallback } = triggerInfo;
         
         // Calculate if threshold is currently crossed
-        const isThresholdCrossed = this.isThresholdCrossed(triggerElement, scrollConfig);
+        const isThresholdCrossed = this.isThresholdCrossed(triggerElement, scrollConfig, scrollTarget);
         
         // 🎯 UNIFIED BEHAVIOR: Fire callback once when threshold is crossed (like click events)
         if (isThresholdCrossed && !hasPassedThreshold) {
@@ -150,19 +160,20 @@ export class ScrollAnimator {
      * Check if scroll threshold is currently crossed
      * 🎯 NEW: Simple boolean check (not continuous progress)
      */
-    private isThresholdCrossed(element: HTMLElement, scrollConfig: ScrollConfig): boolean {
+    private isThresholdCrossed(element: HTMLElement, scrollConfig: ScrollConfig, scrollTarget: ScrollTarget): boolean {
         const rect = element.getBoundingClientRect();
-        const elementHeight = rect.height;
-        const viewportHeight = window.innerHeight;
+        const isHorizontal = scrollTarget.axis === 'x';
+        const elementSize = isHorizontal ? rect.width : rect.height;
+        const viewport = getScrollViewport(scrollTarget);
         
         // Calculate element position relative to viewport
-        const elementTop = rect.top;
+        const elementStart = isHorizontal ? rect.left : rect.top;
         
         // Calculate trigger points
-        const elementTriggerPoint = elementTop + (elementHeight * scrollConfig.elementStart / 100);
-        const viewportTriggerPoint = viewportHeight * scrollConfig.viewportThreshold / 100;
+        const elementTriggerPoint = elementStart + (elementSize * scrollConfig.elementStart / 100);
+        const viewportTriggerPoint = viewport.start + viewport.size * scrollConfig.viewportThreshold / 100;
         
-        // Threshold is crossed when element trigger point is above viewport trigger point
+        // Threshold is crossed when element trigger point is above (left of) viewport trigger point
         return elementTriggerPoint <= viewportTriggerPoint;
     }
 
@@ -11,6 +11,8 @@
  * for smooth 60fps updates and efficient boundary calculations.
  * 
  * Each animation gets its own ScrollProgressTracker instance for complete isolation.
+ * Tracks vertical window scrolling by default; a ScrollAxisConfig switches to the
+ * horizontal axis and/or an explicit scroll container (e.g. horizontal gallery rails).
  * 
  * @architecture
  * - RAF-based smooth updates (60fps)
@@ -38,9 +40,18 @@
  */
 
 import type { ScrollBoundary } from '../types/ScrollTypes.ts';
+import type { ScrubSmoothingConfig, ScrollAxisConfig } from '../types/index.ts';
 import { convertToPixels } from '../utils/units/SimpleUnitConverter.ts';
 import { EnvironmentDetector } from '../utils/environment/EnvironmentDetector.ts';
 import { unifiedScrollManager } from '../utils/performance/UnifiedScrollManager.ts';
+import { ScrubSmoother } from './ScrubSmoother.ts';
+import {
+    resolveScrollTarget,
+    getScrollPosition,
+    getScrollViewport,
+    getElementExtent,
+    type ScrollTarget
+} from '../utils/dom/ScrollContainerResolver.ts';
 
 /**
  * Scroll boundaries configuration for progress tracking
@@ -59,8 +70,8 @@ interface BoundaryCache {
     startPx: number;
     endPx: number;
     timestamp: number;
-    viewportHeight: number;
-    elementHeight: number;
+    viewportSize: number;
+    elementSize: number;
 }
 
 /**
@@ -79,16 +90,20 @@ export class ScrollProgressTracker {
     private rafId: number | null = null;
     private isTracking: boolean = false;
     private boundaryCache: BoundaryCache | null = null;
-    private lastScrollY: number = 0;
+    private lastScrollPosition: number = 0;
     private lastProgress: number = 0;
     private isCanvasMode: boolean;
     
     // Element-specific tracking
-    private scrollElement: HTMLElement | Window | null = null;
+    private scrollTarget: ScrollTarget | null = null;
+    private containerCleanup: (() => void) | null = null;
     private triggerElement: HTMLElement | null = null;
     private boundaries: ScrollBoundaries | null = null;
     private progressCallback: ProgressCallback | null = null;
     
+    // Scrub smoothing (null = progress follows scroll directly)
+    private smoother: ScrubSmoother | null = null;
+    
     // Enhanced boundary caching
     private resizeObserver: ResizeObserver | null = null;
     private debounceTimeout: number | null = null;
@@ -114,85 +129,10 @@ export class ScrollProgressTracker {
     }
     
     /**
-     * Find the scrollable container for the trigger element
-     */
-    private findScrollableContainer(element: HTMLElement): HTMLElement | Window {
-        let current: HTMLElement | null = element;
-        
-        while (current && current !== document.body) {
-            const computedStyle = window.getComputedStyle(current);
-            const overflowY = computedStyle.overflowY;
-            const overflowX = computedStyle.overflowX;
-            
-            // Check if element is scrollable
-            if (overflowY === 'scroll' || overflowY === 'auto' || overflowX === 'scroll' || overflowX === 'auto') {
-                // Check if element actually has scrollable content
-                if (current.scrollHeight > current.clientHeight || current.scrollWidth > current.clientWidth) {
-                    // console.log(`🎯 [ScrollProgressTracker] Found scrollable container:`, {
-                    //     element: current.tagName,
-                    //     id: current.id,
-                    //     className: current.className,
-                    //     scrollHeight: current.scrollHeight,
-                    //     clientHeight: current.clientHeight,
-                    //     overflowY: overflowY
-                    // });
-                    return current;
-                }
-            }
-            
-            current = current.parentElement;
-        }
-        
-        // Fallback to window if no scrollable container found (most common case)
-        //console.log(`🎯 [ScrollProgressTracker] No scrollable container found, using window`);
-        return window;
-    }
-    
-    /**
-     * Get current scroll position from the correct scroll container
+     * Get current scroll position along the tracked axis
      */
-    private getCurrentScrollY(): number {
-        if (!this.scrollElement) {
-            return 0;
-        }
-        
-        if (this.scrollElement === window) {
-            return window.scrollY || 0;
-        } else {
-            return (this.scrollElement as HTMLElement).scrollTop || 0;
-        }
-    }
-    
-    /**
-     * Get the scroll container's dimensions and position
-     */
-    private getScrollContainerInfo(): { 
-        scrollTop: number; 
-        containerHeight: number; 
-        containerTop: number; 
-        isWindow: boolean;
-    } {
-        if (!this.scrollElement) {
-            return { scrollTop: 0, containerHeight: window.innerHeight, containerTop: 0, isWindow: true };
-        }
-        
-        if (this.scrollElement === window) {
-            return { 
-                scrollTop: window.scrollY || 0, 
-                containerHeight: window.innerHeight, 
-                containerTop: 0, 
-                isWindow: true 
-            };
-        } else {
-            const element = this.scrollElement as HTMLElement;
-            const rect = element.getBoundingClientRect();
-            return { 
-                scrollTop: element.scrollTop || 0, 
-                containerHeight: element.clientHeight, 
-                containerTop: rect.top + (window.scrollY || 0), 
-                isWindow: false 
-            };
-        }
+    private getCurrentScrollPosition(): number {
+        return this.scrollTarget ? getScrollPosition(this.scrollTarget) : 0;
     }
     
     /**
@@ -201,12 +141,16 @@ export class ScrollProgressTracker {
      * @param triggerElement - Element to track scroll progress for
      * @param boundaries - Start and end boundaries for progress calculation
      * @param progressCallback - Callback fired when progress changes
+     * @param smoothing - Optional smoothing; progress then keeps easing towards the scroll position after scrolling stops
+     * @param scrollAxis - Optional axis / scroll container (default: vertical, auto-detected container)
      * @returns Cleanup function to stop tracking
      */
     startTracking(
         triggerElement: HTMLElement,
         boundaries: ScrollBoundaries,
-        progressCallback: ProgressCallback
+        progressCallback: ProgressCallback,
+        smoothing?: ScrubSmoothingConfig,
+        scrollAxis?: ScrollAxisConfig
     ): () => void {
         // Skip in Canvas mode
         if (this.isCanvasMode) {
@@ -221,6 +165,7 @@ export class ScrollProgressTracker {
         this.triggerElement = triggerElement;
         this.boundaries = boundaries;
         this.progressCallback = progressCallback;
+        this.smoother = ScrubSmoother.isEnabled(smoothing) ? new ScrubSmoother(smoothing) : null;
         this.isTracking = true;
         
         // Generate unique tracking ID
@@ -232,11 +177,13 @@ export class ScrollProgressTracker {
         
         //console.log(`🌊 [ScrollProgressTracker] Generated unique tracking ID: ${this.trackingId}`);
         
-        // Find the correct scroll container for this trigger element
-        this.scrollElement = this.findScrollableContainer(triggerElement);
+        // Find the correct scroll container and axis for this trigger element
+        this.scrollTarget = resolveScrollTarget(triggerElement, scrollAxis);
+        this.containerCleanup = unifiedScrollManager.observeScrollContainer(this.scrollTarget.container);
         
         // Register with unified manager (medium priority for progress tracking)
-        const scrollUpdateHandler = () => {
+        // Smoothed tracking steps inside the manager's frame so it can ask for frames until settled
+        const scrollUpdateHandler = this.smoother ? () => this.updateSmoothedProgress() : () => {
             if (this.isTracking && this.rafId === null) {
                 this.rafId = requestAnimationFrame(() => {
                     this.rafId = null;
@@ -257,7 +204,8 @@ export class ScrollProgressTracker {
         // Set up intelligent cache invalidation on resize
         this.setupResizeObserver();
         
-        // Initial progress calculation
+        // Initial progress calculation (smoothing starts settled at the current position)
+        this.smoother?.jumpTo(this.calculateProgress());
         this.updateProgress();
         
         // Log optimization info
@@ -281,11 +229,17 @@ export class ScrollProgressTracker {
             this.unifiedManagerCleanup = null;
         }
         
+        if (this.containerCleanup) {
+            this.containerCleanup();
+            this.containerCleanup = null;
+        }
+        
         this.isTracking = false;
-        this.scrollElement = null;
+        this.scrollTarget = null;
         this.triggerElement = null;
         this.boundaries = null;
         this.progressCallback = null;
+        this.smoother = null;
         this.boundaryCache = null;
         this.trackingId = null;
         
@@ -303,14 +257,14 @@ export class ScrollProgressTracker {
             return;
         }
         
-        const currentScrollY = this.getCurrentScrollY();
+        const currentScrollPosition = this.getCurrentScrollPosition();
         
         // Skip if scroll hasn't changed enough (reduced threshold for smoother large animations)
-        if (Math.abs(currentScrollY - this.lastScrollY) < 0.1) {
+        if (Math.abs(currentScrollPosition - this.lastScrollPosition) < 0.1) {
             return;
         }
         
-        this.lastScrollY = currentScrollY;
+        this.lastScrollPosition = currentScrollPosition;
         
         // Calculate current progress
         const progress = this.calculateProgress();
@@ -324,6 +278,29 @@ export class ScrollProgressTracker {
         this.progressCallback(progress);
     }
     
+    /**
+     * Step the smoother towards the current scroll progress
+     * @returns True while the smoother still needs frames
+     */
+    private updateSmoothedProgress(): boolean {
+        if (!this.isTracking || !this.smoother || !this.progressCallback) {
+            return false;
+        }
+        
+        this.smoother.setTarget(this.calculateProgress());
+        const progress = this.smoother.step(performance.now());
+        const settled = this.smoother.isSettled();
+        
+        // Same resolution as unsmoothed tracking, but always land exactly on the target
+        const delta = Math.abs(progress - this.lastProgress);
+        if (delta >= ScrollProgressTracker.PROGRESS_EPSILON || (settled && delta > 0)) {
+            this.lastProgress = progress;
+            this.progressCallback(progress);
+        }
+        
+        return !settled;
+    }
+    
     /**
      * Calculate progress (0-1) based on scroll position and boundaries
      */
@@ -335,8 +312,8 @@ export class ScrollProgressTracker {
         // Get or calculate boundary positions
         const { startPx, endPx } = this.getBoundaryPositions();
         
-        // Current viewport scroll position
-        const currentScrollY = this.getCurrentScrollY();
+        // Current scroll position along the tracked axis
+        const currentScrollPosition = this.getCurrentScrollPosition();
         
         // Calculate progress
         const totalDistance = endPx - startPx;
@@ -346,7 +323,7 @@ export class ScrollProgressTracker {
             return 0;
         }
         
-        const scrollDistance = currentScrollY - startPx;
+        const scrollDistance = currentScrollPosition - startPx;
         const progress = scrollDistance / totalDistance;
         
         // Clamp progress to 0-1 range
@@ -357,7 +334,7 @@ export class ScrollProgressTracker {
      * Get boundary positions in pixels (with caching)
      */
     private getBoundaryPositions(): { startPx: number; endPx: number } {
-        if (!this.triggerElement || !this.boundaries) {
+        if (!this.triggerElement || !this.boundaries || !this.scrollTarget) {
             return { startPx: 0, endPx: 0 };
         }
         
@@ -378,8 +355,8 @@ export class ScrollProgressTracker {
             startPx,
             endPx,
             timestamp: Date.now(),
-            viewportHeight: window.innerHeight,
-            elementHeight: this.triggerElement.offsetHeight
+            viewportSize: getScrollViewport(this.scrollTarget).size,
+            elementSize: getElementExtent(this.triggerElement, this.scrollTarget.axis).size
         };
         
         return { startPx, endPx };
@@ -387,42 +364,34 @@ export class ScrollProgressTracker {
     
     /**
      * Calculate absolute pixel position for a boundary
+     * Positions are scroll offsets along the tracked axis (top/height for y, left/width for x)
      */
     private calculateBoundaryPosition(boundary: ScrollBoundary): number {
-        if (!this.triggerElement) {
+        if (!this.triggerElement || !this.scrollTarget) {
             return 0;
         }
         
-        // Get scroll container information
-        const scrollContainerInfo = this.getScrollContainerInfo();
+        // Visible area of the scroll container along the axis
+        const viewport = getScrollViewport(this.scrollTarget);
         
-        // Get element position relative to the scroll container
-        const elementRect = this.triggerElement.getBoundingClientRect();
-        
-        // Calculate element top relative to scroll container
-        let elementTop: number;
-        if (scrollContainerInfo.isWindow) {
-            // For window scrolling, use standard calculation
-            elementTop = elementRect.top + scrollContainerInfo.scrollTop;
-        } else {
-            // For element scrolling, calculate relative to the scroll container
-            elementTop = elementRect.top + scrollContainerInfo.scrollTop - scrollContainerInfo.containerTop;
-        }
+        // Element start edge in scroll coordinates of the container
+        const element = getElementExtent(this.triggerElement, this.scrollTarget.axis);
+        const elementStart = element.start - viewport.start + this.getCurrentScrollPosition();
         
         // Convert element position to pixels
         const elementOffsetPx = this.convertToPixels(
             boundary.element.value,
-            this.triggerElement.offsetHeight
+            element.size
         );
         
         // Convert viewport position to pixels (relative to scroll container)
         const viewportOffsetPx = this.convertToPixels(
             boundary.viewport.value,
-            scrollContainerInfo.containerHeight
+            viewport.size
         );
         
         // Calculate absolute position within the scroll container
-        const absolutePosition = elementTop + elementOffsetPx - viewportOffsetPx;
+        const absolutePosition = elementStart + elementOffsetPx - viewportOffsetPx;
         
         return absolutePosition;
     }
@@ -473,7 +442,7 @@ export class ScrollProgressTracker {
      * Check if boundary cache is still valid
      */
     private isCacheValid(): boolean {
-        if (!this.boundaryCache || !this.triggerElement) return false;
+        if (!this.boundaryCache || !this.triggerElement || !this.scrollTarget) return false;
         
         const now = Date.now();
         const cacheAge = now - this.boundaryCache.timestamp;
@@ -484,12 +453,16 @@ export class ScrollProgressTracker {
         }
         
         // Check if viewport or element dimensions changed
-        const currentViewportHeight = window.innerHeight;
-        const currentElementHeight = this.triggerElement.offsetHeight;
+        const currentViewportSize = this.scrollTarget.container === window
+            ? getScrollViewport(this.scrollTarget).size
+            : this.boundaryCache.viewportSize; // Container resizes are caught by the ResizeObserver
+        const currentElementSize = this.scrollTarget.axis === 'x'
+            ? this.triggerElement.offsetWidth
+            : this.triggerElement.offsetHeight;
         
         if (
-            currentViewportHeight !== this.boundaryCache.viewportHeight ||
-            currentElementHeight !== this.boundaryCache.elementHeight
+            currentViewportSize !== this.boundaryCache.viewportSize ||
+            currentElementSize !== this.boundaryCache.elementSize
         ) {
             return false;
         }
@@ -502,21 +475,27 @@ export class ScrollProgressTracker {
      */
     getCurrentProgress(
         triggerElement: HTMLElement,
-        boundaries: ScrollBoundaries
+        boundaries: ScrollBoundaries,
+        scrollAxis?: ScrollAxisConfig
     ): number {
         // Temporarily set up for calculation
         const originalTriggerElement = this.triggerElement;
         const originalBoundaries = this.boundaries;
+        const originalScrollTarget = this.scrollTarget;
+        const originalBoundaryCache = this.boundaryCache;
         
         this.triggerElement = triggerElement;
         this.boundaries = boundaries;
-        this.scrollElement = this.findScrollableContainer(triggerElement);
+        this.scrollTarget = resolveScrollTarget(triggerElement, scrollAxis);
+        this.boundaryCache = null;
         
         const progress = this.calculateProgress();
         
         // Restore original state
         this.triggerElement = originalTriggerElement;
         this.boundaries = originalBoundaries;
+        this.scrollTarget = originalScrollTarget;
+        this.boundaryCache = originalBoundaryCache;
         
         return progress;
     }
@@ -558,8 +537,11 @@ export class ScrollProgressTracker {
             }, ScrollProgressTracker.RESIZE_DEBOUNCE_MS);
         });
         
-        // Observe the trigger element for size changes
+        // Observe the trigger element (and an overflow scroll container) for size changes
         this.resizeObserver.observe(this.triggerElement);
+        if (this.scrollTarget && this.scrollTarget.container !== window) {
+            this.resizeObserver.observe(this.scrollTarget.container as HTMLElement);
+        }
         
         //console.log(`🌊 [ScrollProgressTracker] ResizeObserver set up for intelligent cache invalidation`);
     }
@@ -0,0 +1,148 @@
+/**
+ * @file ScrubSmoother.ts
+ * @description Makes scrubbed progress follow the scroll position with inertia
+ *
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @description
+ * Raw scroll progress jumps with every wheel step. A ScrubSmoother sits between the raw
+ * progress and the animation: it is given the raw value as its target and is stepped once
+ * per frame, moving its own value towards the target. Stepping is frame-rate independent,
+ * so 120Hz displays and the performance governor's reduced frame rate settle in the same time.
+ *
+ * Modes:
+ * - time: exponential catch-up that covers the distance within `duration` seconds
+ * - lerp: covers `factor` of the remaining distance per 60fps frame
+ * - spring: damped spring follower (can overshoot with low damping)
+ *
+ * @example
+ * ```typescript
+ * const smoother = new ScrubSmoother({ mode: 'time', duration: 0.5 });
+ * smoother.jumpTo(rawProgress);
+ *
+ * // Every frame:
+ * smoother.setTarget(rawProgress);
+ * const progress = smoother.step(performance.now());
+ * if (smoother.isSettled()) { ... stop ticking ... }
+ * ```
+ */
+
+import type { ScrubSmoothingConfig } from '../types/index.ts';
+
+/**
+ * Frame-rate independent progress follower for one scrubbed animation
+ */
+export class ScrubSmoother {
+    private current: number = 0;
+    private target: number = 0;
+    private velocity: number = 0;
+    private lastTime: number | null = null;
+
+    private readonly config: ScrubSmoothingConfig;
+
+    // Defaults and limits
+    private static readonly DEFAULT_DURATION = 0.5; // seconds
+    private static readonly DEFAULT_FACTOR = 0.1;
+    private static readonly DEFAULT_STIFFNESS = 170;
+    private static readonly DEFAULT_DAMPING = 26;
+    private static readonly CATCH_UP_TIME_CONSTANTS = 5; // e^-5 ≈ 0.7% left after `duration`
+    private static readonly REFERENCE_FRAME_MS = 1000 / 60;
+    private static readonly MAX_STEP_MS = 64; // Tab switches and long frames must not make springs explode
+    private static readonly SPRING_SUB_STEP_MS = 4;
+    private static readonly SETTLE_EPSILON = 0.0005; // Same resolution as ScrollProgressTracker callbacks
+
+    constructor(config: ScrubSmoothingConfig) {
+        this.config = config;
+    }
+
+    /**
+     * Check if a config actually smooths anything
+     */
+    static isEnabled(config: ScrubSmoothingConfig | undefined): config is ScrubSmoothingConfig {
+        return !!config && config.mode !== 'none';
+    }
+
+    /**
+     * Place the smoother at a value without animating (initial progress)
+     */
+    jumpTo(value: number): void {
+        this.current = value;
+        this.target = value;
+        this.velocity = 0;
+        this.lastTime = null;
+    }
+
+    /**
+     * Set the raw progress to follow
+     */
+    setTarget(value: number): void {
+        if (value !== this.target && this.isSettled()) {
+            this.lastTime = null; // Resting since the last frame - don't count the idle time
+        }
+        this.target = value;
+    }
+
+    /**
+     * Advance to the given time
+     * @param now - Frame timestamp in milliseconds
+     * @returns Smoothed progress clamped to 0-1
+     */
+    step(now: number): number {
+        const elapsed = this.lastTime === null ? ScrubSmoother.REFERENCE_FRAME_MS : now - this.lastTime;
+        const dtMs = Math.min(Math.max(elapsed, 0), ScrubSmoother.MAX_STEP_MS);
+        this.lastTime = now;
+
+        const distance = this.target - this.current;
+
+        switch (this.config.mode) {
+            case 'time': {
+                const duration = Math.max(this.config.duration ?? ScrubSmoother.DEFAULT_DURATION, 0.001);
+                const timeConstantMs = (duration * 1000) / ScrubSmoother.CATCH_UP_TIME_CONSTANTS;
+                this.current += distance * (1 - Math.exp(-dtMs / timeConstantMs));
+                break;
+            }
+            case 'lerp': {
+                const factor = Math.min(Math.max(this.config.factor ?? ScrubSmoother.DEFAULT_FACTOR, 0.001), 1);
+                this.current += distance * (1 - Math.pow(1 - factor, dtMs / ScrubSmoother.REFERENCE_FRAME_MS));
+                break;
+            }
+            case 'spring': {
+                const stiffness = Math.max(this.config.stiffness ?? ScrubSmoother.DEFAULT_STIFFNESS, 1);
+                const damping = Math.max(this.config.damping ?? ScrubSmoother.DEFAULT_DAMPING, 0);
+                // Semi-implicit Euler in small sub-steps - stable for the stiffness/damping range the controls allow
+                const subSteps = Math.max(1, Math.ceil(dtMs / ScrubSmoother.SPRING_SUB_STEP_MS));
+                const dt = dtMs / subSteps / 1000;
+                for (let i = 0; i < subSteps; i++) {
+                    this.velocity += (stiffness * (this.target - this.current) - damping * this.velocity) * dt;
+                    this.current += this.velocity * dt;
+                }
+                break;
+            }
+            default:
+                this.current = this.target;
+        }
+
+        if (this.isSettled()) {
+            this.current = this.target;
+            this.velocity = 0;
+        }
+
+        return this.getValue();
+    }
+
+    /**
+     * Current smoothed progress clamped to 0-1 (springs may overshoot internally)
+     */
+    getValue(): number {
+        return Math.max(0, Math.min(1, this.current));
+    }
+
+    /**
+     * Whether the smoother has reached its target and needs no more frames
+     */
+    isSettled(): boolean {
+        return Math.abs(this.target - this.current) < ScrubSmoother.SETTLE_EPSILON &&
+            Math.abs(this.velocity) < ScrubSmoother.SETTLE_EPSILON;
+    }
+}
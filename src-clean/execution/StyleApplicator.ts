@@ -51,6 +51,10 @@ import {
     interpolateClipPath
 } from '../utils/properties/AdvancedInterpolators.ts'
 
+// ✨ Text effect channels (scramble, typewriter, reveal, glitch)
+import { isTextEffectProperty } from '../utils/text/effects/TextEffectChannels.ts'
+import { textEffectRenderer } from '../utils/text/effects/TextEffectRenderer.ts'
+
 /**
  * Convert camelCase property names to kebab-case for CSS
  * 
@@ -74,6 +78,12 @@ export function applyProperty(
     let valueStr = String(value);
     let finalValue = valueStr;
     
+    // ✨ TEXT EFFECT CHANNELS: Render progress (0-1) as text instead of a CSS value
+    if (isTextEffectProperty(property)) {
+        textEffectRenderer.applyChannel(element, property, value);
+        return; // Early return for special property
+    }
+    
     // 🎨 SPECIAL PROPERTY HANDLING: Handle textBackgroundImage before regular processing
     if (property === 'textBackgroundImage') {
         // Find the actual text element within the target element
@@ -39,7 +39,8 @@ import {
     AnimationSlot,
     AnimationProperty,
     PropertyValue,
-    AnimationDirection
+    AnimationDirection,
+    ReducedMotionPolicy
 } from '../types/index.ts';
 
 // Import behavior decision interface for automatic continuation
@@ -63,6 +64,9 @@ import { applyProperty } from './StyleApplicator.ts';
 // 🔥 DOM DISCONNECTION FIX: Import dynamic element resolution
 import { resolveElement, ensureElementId } from '../utils/dom/DynamicElementResolver.ts';
 
+// ♿ Reduced motion policy resolution
+import { reducedMotionManager, crossfadeElement } from '../utils/environment/ReducedMotion.ts';
+
 // 🚀 PERFORMANCE OPTIMIZATION TYPES - Essential for 60fps springs!
 interface PerformanceConfig {
     targetFPS: number;
@@ -210,9 +214,24 @@ export class TimedAnimator {
             stateManager
         };
         
+        // ♿ Reduced motion: DISABLE leaves the element untouched
+        const reducedMotionPolicy = reducedMotionManager.resolvePolicy(slot.reducedMotion);
+        if (reducedMotionPolicy === ReducedMotionPolicy.DISABLE) {
+            console.log(`♿ [TimedAnimator] Reduced motion DISABLE - skipping animation for slot ${slot.id}`);
+            return () => {};
+        }
+        
         // Store animation for tracking
         this.runningAnimations.set(animationId, animation);
         
+        // ♿ Reduced motion: SKIP_TO_END / CROSSFADE reach the end state without motion
+        if (reducedMotionPolicy !== ReducedMotionPolicy.NORMAL) {
+            this.finishWithReducedMotion(animation, animatedElement, reducedMotionPolicy, initialStyles);
+            return () => {
+                this.stopAnimation(animationId);
+            };
+        }
+        
         // Start the animation loop with high-performance queue
         this.startAnimationLoop(animation, initialStyles);
         
@@ -241,6 +260,9 @@ export class TimedAnimator {
             // 🚨 CRITICAL TIMING FIX: Track completion per-property instead of global
             let allPropertiesComplete = true;
             
+            // ♿ Jump to the end if reduced motion was switched on mid-animation
+            const reducedMotionActive = reducedMotionManager.resolvePolicy(animation.slot.reducedMotion) !== ReducedMotionPolicy.NORMAL;
+            
             // Apply animation to each property with INDIVIDUAL timing control
             animation.slot.properties.forEach(prop => {
                 // 🎯 CRITICAL FIX: Use property-specific duration, defaulting to slot duration or 1 second
@@ -251,14 +273,14 @@ export class TimedAnimator {
                 const adjustedTimestamp = currentTime - propDelay;
                 
                 // If we're still in the delay period, mark as incomplete and skip this property
-                if (adjustedTimestamp < animation.startTime) {
+                if (adjustedTimestamp < animation.startTime && !reducedMotionActive) {
                     allPropertiesComplete = false;
                     return;
                 }
                 
                 // Calculate elapsed time and progress using PROPERTY duration
                 const elapsed = adjustedTimestamp - animation.startTime;
-                let timeProgress = Math.min(elapsed / propDuration, 1);
+                let timeProgress = reducedMotionActive ? 1 : Math.min(elapsed / propDuration, 1);
                 
                 // 🎯 DIRECTIONAL ANIMATION: Map time progress to start→end progress range
                 const progressRange = animation.endProgress - animation.startProgress;
@@ -314,6 +336,38 @@ export class TimedAnimator {
         this.addToAnimationQueue(animation.id, animate, 'high');
     }
     
+    /**
+     * Reach the end progress without motion (SKIP_TO_END or CROSSFADE policy)
+     */
+    private finishWithReducedMotion(
+        animation: RunningAnimation,
+        element: HTMLElement,
+        policy: ReducedMotionPolicy,
+        initialStyles: Map<string, PropertyValue>
+    ): void {
+        const applyEndState = () => {
+            if (!animation.isActive) return;
+
+            animation.slot.properties.forEach(prop => {
+                const fromValue = prop.from !== undefined ? prop.from : initialStyles.get(prop.property) || 0;
+                const endValue = interpolateProperty(fromValue, prop.to, animation.endProgress, prop.property);
+                applyProperty(element, prop.property, endValue, prop.unit);
+            });
+
+            if (animation.progressCallback) {
+                animation.progressCallback(animation.endProgress);
+            }
+        };
+
+        if (policy === ReducedMotionPolicy.CROSSFADE) {
+            crossfadeElement(element, applyEndState).then(() => this.completeAnimation(animation.id));
+            return;
+        }
+
+        applyEndState();
+        this.completeAnimation(animation.id);
+    }
+    
     /**
      * Stop a specific animation
      */
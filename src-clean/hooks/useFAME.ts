@@ -0,0 +1,41 @@
+/**
+ * @file useFAME.ts
+ * @description React hook returning the imperative handle of a named FAME instance
+ *
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @description
+ * Code components use this to drive a FAME instance placed elsewhere on the page.
+ * The hook returns null until an instance with the name mounts and re-renders when it
+ * mounts or unmounts, so components can disable their controls while it is missing.
+ *
+ * @example
+ * ```tsx
+ * export default function PlayButton() {
+ *     const hero = useFAME('hero');
+ *     return <button disabled={!hero} onClick={() => hero?.toggle('intro')}>Toggle</button>;
+ * }
+ * ```
+ */
+
+import { useState, useEffect } from 'react';
+import type { FAMEHandle } from '../types/index.ts';
+import { fameRegistry } from '../core/api/FAMERegistry.ts';
+
+/**
+ * Get the handle of a named FAME instance
+ * @param name - Instance name set on the FAME component
+ * @returns Handle, or null while no instance with that name is mounted
+ */
+export function useFAME(name: string): FAMEHandle | null {
+    const [handle, setHandle] = useState<FAMEHandle | null>(() => fameRegistry.get(name));
+
+    useEffect(() => {
+        // The instance may have mounted between render and effect
+        setHandle(fameRegistry.get(name));
+        return fameRegistry.subscribe(name, setHandle);
+    }, [name]);
+
+    return handle;
+}
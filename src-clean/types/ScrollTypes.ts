@@ -66,7 +66,7 @@
  */
 
 // Import required types from main type system
-import type { ElementSelection, AnimatedElement } from './index.ts';
+import type { ElementSelection, AnimatedElement, ScrubSmoothingConfig, ScrollAxisConfig } from './index.ts';
 import { ElementScope } from './index.ts';
 
 // Import stagger types for hybrid support
@@ -206,6 +206,9 @@ export interface TimedScrollConfig {
     
     /** Behavior when scrolling backward past threshold */
     thresholdCrossedBackward: 'reverse' | 'reset' | 'complete' | 'none';
+    
+    /** Scroll axis and container (default: vertical, auto-detected container) */
+    scrollAxis?: ScrollAxisConfig;
 }
 
 //=======================================
@@ -637,6 +640,12 @@ export interface ScrubbedScrollConfig {
     
     /** Stagger configuration for multiple elements */
     stagger: ScrubStaggerConfig;
+    
+    /** How progress follows the scroll position (default: no smoothing) */
+    smoothing?: ScrubSmoothingConfig;
+    
+    /** Scroll axis and container (default: vertical, auto-detected container) */
+    scrollAxis?: ScrollAxisConfig;
 }
 
 //=======================================
@@ -33,6 +33,12 @@ import type {
     GridOrigin,
 } from "../utils/staggering/index.ts"
 
+// 🎨 Color interpolation settings for color properties
+import type {
+    ColorInterpolationSpace,
+    HueInterpolationMethod,
+} from "../utils/color/types.ts"
+
 //=======================================
 //          ELEMENT SELECTION TYPES
 //=======================================
@@ -46,6 +52,8 @@ import type {
  * Users can now combine any number of criteria with AND logic:
  * - scope: CHILDREN + criteria: [{type: FRAMER_NAME, value: "hello"}, {type: HTML_TAG, value: "button"}]
  * - This finds children elements that have framer name "hello" AND are button tags
+ * - criteriaGroups add OR alternatives, `negate` excludes matches, NTH / INDEX_RANGE pick by position
+ * - e.g. all "Card" children except "Featured": [{FRAMER_NAME "Card"}, {FRAMER_NAME "Featured", negate}]
  *
  * @benefits
  * - Unlimited combinations of filters
@@ -56,6 +64,8 @@ import type {
 export interface ElementSelection {
     scope: ElementScope // Where to search for elements
     criteria?: SelectionCriteria[] // Array of filters to apply (AND logic)
+    criteriaGroups?: SelectionCriteria[][] // 🔀 More AND groups - an element matching ANY group (incl. `criteria`) is selected
+    mode?: SelectionMode // Which of the matches to keep (default: ALL)
 
     // 🚀 NEW: Depth system for CHILDREN and SIBLINGS scopes
     depth?: ScopeDepth // Only applies to CHILDREN and SIBLINGS scopes (default: DIRECT)
@@ -63,11 +73,13 @@ export interface ElementSelection {
 
 /**
  * Individual selection criteria for filtering elements
- * Multiple criteria are combined with AND logic
+ * Multiple criteria are combined with AND logic, applied in order
+ * (positional criteria count among the elements left by the criteria before them)
  */
 export interface SelectionCriteria {
     type: CriteriaType // What type of filter to apply
     value: string // The value to match against
+    negate?: boolean // NOT: keep the elements that do NOT match (default: false)
 }
 
 /**
@@ -109,6 +121,8 @@ export enum CriteriaType {
     HTML_TAG = "htmlTag", // tagName === "value"
     CSS_SELECTOR = "cssSelector", // matches("value")
     ELEMENT_ID = "elementId", // id === "value"
+    NTH = "nth", // 1-based position: "3", "odd", "even", "2n+1"
+    INDEX_RANGE = "indexRange", // 1-based inclusive range: "2-5", "3-" (to the end), "-4" (first four)
 }
 
 /**
@@ -126,9 +140,14 @@ export interface TriggerElement {
         viewportThreshold: number // Viewport threshold (0-100%)
         thresholdCrossedBackward: string // Reverse behavior ('none', 'reverse', 'reset', 'complete')
     }
+    scrollAxis?: ScrollAxisConfig // ↔️ Axis / container for SCROLL and SCROLL_DIRECTION_CHANGE triggers (default: vertical)
     loopConfig?: LoopConfig
     pingPongConfig?: PingPongConfig
     delayedTriggerConfig?: DelayedTriggerConfig
+    keyConfig?: KeyTriggerConfig // ⌨️ Key filtering for KEYDOWN/KEYUP triggers
+    customEventConfig?: CustomEventTriggerConfig // 📡 Channel for CUSTOM_EVENT triggers
+    sequenceConfig?: SlotSequenceConfig // 🔗 Parent slot and position for SLOT_SEQUENCE triggers
+    targetLabel?: string // 🏷️ Timeline label for PLAY_TO_LABEL
 }
 
 /**
@@ -184,12 +203,48 @@ export enum EventType {
     TOUCHEND = "touchend",
     SUBMIT = "submit",
     SCROLL_DIRECTION_CHANGE = "scrollDirectionChange",
+    // 📡 NEW: Named channel on the FAME event bus (cross-component triggers)
+    CUSTOM_EVENT = "customEvent",
+    // 🔗 NEW: Lifecycle point of another slot (sequencing)
+    SLOT_SEQUENCE = "slotSequence",
+    // 🧩 NEW: Imperative FAME API call (not offered in property controls)
+    API = "api",
 }
 
 //=======================================
 //        SCROLL CONFIGURATION TYPES
 //=======================================
 
+/**
+ * Scroll axis to track
+ * - y: vertical scrolling (default)
+ * - x: horizontal scrolling (e.g. gallery rails)
+ * - auto: detected from the scroll container (horizontal when it only scrolls sideways)
+ */
+export type ScrollAxis = "y" | "x" | "auto"
+
+export interface ScrollAxisConfig {
+    axis: ScrollAxis
+    scrollContainer?: string // CSS selector of the scroll container - overrides auto-detection
+}
+
+/**
+ * How scrubbed animations follow the scroll position
+ * - none: progress jumps with every scroll step
+ * - time: catches up within `duration` seconds (like GSAP's scrub: 0.5)
+ * - lerp: covers `factor` of the remaining distance every 60fps frame
+ * - spring: spring follower with `stiffness` / `damping` (may overshoot)
+ */
+export type ScrubSmoothingMode = "none" | "time" | "lerp" | "spring"
+
+export interface ScrubSmoothingConfig {
+    mode: ScrubSmoothingMode
+    duration?: number // time: seconds to catch up (default 0.5)
+    factor?: number // lerp: 0-1 (default 0.1)
+    stiffness?: number // spring (default 170)
+    damping?: number // spring (default 26)
+}
+
 /**
  * Enhanced scroll configuration with dual-mode architecture
  * Temporary definition to avoid circular dependency - will be expanded in property controls phase
@@ -206,6 +261,7 @@ export type ScrollConfig =
                   | "reset"
                   | "complete"
                   | "none"
+              scrollAxis?: ScrollAxisConfig
           }
       }
     | {
@@ -226,6 +282,8 @@ export type ScrollConfig =
                   mode: "scrubbed" | "threshold"
                   scrubWindow?: number
               }
+              smoothing?: ScrubSmoothingConfig
+              scrollAxis?: ScrollAxisConfig
           }
       }
 
@@ -265,7 +323,8 @@ export enum ReverseMode {
  * Property controls are converted to this format via AnimationSlotAdapter
  */
 export interface AnimationSlot {
-    id: string
+    id: string // Generated, unique per component instance
+    name?: string // Authored "Animation ID" (used to reference the slot from other slots and code)
 
     // Trigger elements (each with their own event and behavior)
     triggers: TriggerElement[] // Array of trigger elements
@@ -294,6 +353,26 @@ export interface AnimationSlot {
 
     // 🚨 NEW: Interrupt behavior configuration
     interruptBehavior?: InterruptBehavior // How to handle new triggers while animating (default: IMMEDIATE)
+
+    // ♿ NEW: Reduced motion policy (undefined = inherit from component, then NORMAL)
+    reducedMotion?: ReducedMotionPolicy // Applied only while the user prefers reduced motion
+
+    // ⏩ NEW: Playback speed multiplier (1 = normal, 0.5 = half speed, 2 = double speed)
+    timeScale?: number // Combined with the global time scale of MasterTimelinePlayer
+
+    // 👁️ NEW: Suspend loops, running playback and scrubbing while the slot's elements are off-screen
+    pauseWhenOffscreen?: boolean // Default: true
+
+    // 🧊 NEW: Run transform/opacity timelines on the browser's compositor (WAAPI / ViewTimeline) when they compile
+    useCompositor?: boolean // Default: false
+
+    // 🔭 NEW: Re-resolve animated and trigger elements when CMS lists or conditional layers change the DOM
+    observeDomChanges?: boolean // Default: false (event-driven slots only)
+
+    // 📡 NEW: Bus messages this slot emits (start other slots, even in other FAME instances)
+    emitEvents?: SlotEventEmit[]
+    // 📱 NEW: Per-viewport variants (resolved with matchMedia, re-applied when the viewport changes)
+    breakpoints?: SlotBreakpointOverride[]
 }
 
 export enum AnimationMode {
@@ -324,6 +403,14 @@ export enum AnimationBehavior {
     // 🎯 PHASE 5 - CONDITIONAL BEHAVIORS (NEW)
     DELAYED_TRIGGER = "delayedTrigger", // Do nothing for N times, then execute behavior
 
+    // ⏸️ PHASE 6 - PLAYBACK CONTROL BEHAVIORS (NEW)
+    PAUSE = "pause", // Freeze the running animation, keep its elapsed time
+    RESUME = "resume", // Continue a paused animation where it stopped
+    TOGGLE_PAUSE = "togglePause", // Pause when running, resume when paused
+
+    // 🏷️ PHASE 7 - LABEL BEHAVIORS (NEW)
+    PLAY_TO_LABEL = "playToLabel", // Play forward or backward to a named timeline label
+
     // 📜 LEGACY COMPATIBILITY (DEPRECATED - mapped to new behaviors)
     PLAY_ONCE = "playOnce", // Maps to PLAY_FORWARD
     REPEAT = "repeat", // Maps to PLAY_FORWARD_AND_RESET
@@ -380,6 +467,45 @@ export interface DelayedTriggerConfig {
     behavior?: AnimationBehavior;
 }
 
+/**
+ * Configuration for keyboard triggers (KEYDOWN / KEYUP)
+ *
+ * @description
+ * Without a key config a keyboard trigger fires on any key. When keys and/or
+ * codes are provided, the event must match at least one entry of either list.
+ * Modifiers listed as true must be held; with exactModifiers (default true),
+ * modifiers not listed must NOT be held (so "Escape" doesn't fire on Ctrl+Escape).
+ * Shift is ignored for entries matched through `keys` - it is how characters such as
+ * "?" or "A" are typed - but required like any other modifier for `codes`.
+ */
+export interface KeyTriggerConfig {
+    /** KeyboardEvent.key values, case-insensitive (e.g. ["Escape", "ArrowRight", "k"]) */
+    keys?: string[];
+
+    /** KeyboardEvent.code values, layout-independent (e.g. ["KeyK", "Space"]) */
+    codes?: string[];
+
+    /** Required modifier keys */
+    modifiers?: {
+        shift?: boolean;
+        alt?: boolean;
+        ctrl?: boolean;
+        meta?: boolean;
+    };
+
+    /** Reject events with extra, non-required modifiers held (default: true) */
+    exactModifiers?: boolean;
+
+    /** Ignore auto-repeat events while a key is held down (default: true) */
+    ignoreRepeat?: boolean;
+
+    /** Listen on document instead of the trigger element (default: false) */
+    listenOnDocument?: boolean;
+
+    /** Call preventDefault() on matching events, e.g. to stop arrow keys scrolling (default: false) */
+    preventDefault?: boolean;
+}
+
 //=======================================
 //        📊 DISTRIBUTED PROPERTIES TYPES (FEATURE 3A)
 //=======================================
@@ -427,8 +553,6 @@ export interface DelayedTriggerConfig {
  * - Invalid patterns should fail gracefully with helpful error messages
  *
  * @future_extensions
- * - Random patterns with seed configuration
- * - Grid-aware patterns with 2D positioning
  * - Custom curve patterns with easing functions
  */
 export interface DistributedPropertyConfig {
@@ -483,8 +607,11 @@ export interface LinearRangePattern {
 }
 
 /**
- * Random pattern (Phase 4 - Future Enhancement)
- * Values generated randomly within specified constraints
+ * Random pattern
+ * Values generated randomly within specified constraints.
+ * A fixed seed produces the same values (in element order) on every render.
+ *
+ * @example minValue: '-20deg', maxValue: '20deg', seed: 42, distribution: 'gaussian'
  */
 export interface RandomPattern {
     type: "random"
@@ -502,8 +629,10 @@ export interface RandomPattern {
 }
 
 /**
- * Grid-aware pattern (Phase 4 - Future Enhancement)
- * Values based on element position in detected grid layout
+ * Grid-aware pattern
+ * Values based on element position in detected grid layout (via GridDetector)
+ *
+ * @example direction: 'diagonal', startCorner: 'top-left' → 0px in the top-left corner, 100px in the bottom-right
  */
 export interface GridAwarePattern {
     type: "grid-aware"
@@ -513,6 +642,12 @@ export interface GridAwarePattern {
         direction: "row-wise" | "column-wise" | "diagonal"
         /** Starting corner for progression */
         startCorner: "top-left" | "top-right" | "bottom-left" | "bottom-right"
+        /** Value at the start corner */
+        minValue: string
+        /** Value at the opposite end of the grid */
+        maxValue: string
+        /** How values progress along the grid order (default: linear) */
+        progression?: LinearProgression
     }
 }
 
@@ -555,6 +690,13 @@ export interface AnimationProperty {
     easing?: string
     springConfig?: SpringConfig // Configuration for spring-based easings
 
+    // 🎞️ Explicit keyframe track (replaces from → to; from/to mirror the first/last stop)
+    keyframes?: AnimationKeyframe[]
+
+    // 🎨 Color properties only: space used to interpolate from → to
+    colorSpace?: ColorInterpolationSpace // Default: 'oklab'
+    hueInterpolation?: HueInterpolationMethod // Hue arc for 'oklch' (default: 'shorter')
+
     // 🚀 PHASE 4.1: Multi-property instance support
     instanceId?: string // For multiple instances: 'translateX', 'translateX_1', 'translateX_2'
     controlIdSuffix?: string // Internal tracking: '', '_1', '_2'
@@ -579,6 +721,24 @@ export interface AnimationProperty {
     // ❌ REMOVED: totalEndTime - Timeline has totalDuration instead
 }
 
+/**
+ * One stop of an explicit keyframe track
+ * e.g. opacity 0 → 1 → 0.4 → 1 at offsets 0, 0.3, 0.7, 1
+ */
+export interface AnimationKeyframe {
+    offset: number // Position within the property's duration (0-1)
+    value: PropertyValue
+    easing?: string // Easing of the segment arriving at this stop (default: property easing)
+}
+
+/**
+ * Named point in time on a slot's master timeline
+ */
+export interface TimelineLabel {
+    name: string
+    time: number // Seconds from the start of the timeline
+}
+
 export type PropertyValue = string | number | boolean
 
 //=======================================
@@ -593,7 +753,7 @@ export interface GlobalTimelineConfig {
     enabled: boolean // Whether to use global timeline settings
     duration?: number // Global duration in milliseconds (default for all properties)
     delay?: number // Global delay in milliseconds (added to all property delays)
-    easing?: string // Global easing function (default for all properties)
+    easing?: string // Global easing function or CSS easing string (default for all properties)
     springConfig?: SpringConfig // Global spring configuration
 }
 
@@ -628,7 +788,7 @@ export interface MultiPropertyAnimationSlot extends AnimationSlot {
 export interface TimingConfig {
     duration: number // Animation duration in milliseconds
     delay: number // Animation delay in milliseconds
-    easing: string // Easing function name
+    easing: string // Easing function name or CSS easing string (cubic-bezier(), steps(), linear())
     springConfig?: SpringConfig // Configuration for spring-based easings
 }
 
@@ -729,6 +889,173 @@ export enum AnimationDirection {
     BACKWARD = "backward",
 }
 
+//=======================================
+//        LIFECYCLE EVENT TYPES
+//=======================================
+
+/**
+ * Lifecycle events published by each slot
+ * Values are the DOM CustomEvent names dispatched (bubbling) on the FAME host element
+ */
+export enum AnimationLifecycleEvent {
+    /** A trigger started playing the slot */
+    START = "fame:start",
+
+    /** Progress changed (at most once per frame) */
+    UPDATE = "fame:update",
+
+    /** Every element finished and the slot ended away from its start (progress > 0) */
+    COMPLETE = "fame:complete",
+
+    /** Every element finished and the slot ended back at its start (progress 0) */
+    REVERSE_COMPLETE = "fame:reverse-complete",
+
+    /** A loop iteration or ping-pong cycle finished */
+    LOOP = "fame:loop",
+
+    /** A newer trigger cancelled the slot before it completed */
+    INTERRUPT = "fame:interrupt",
+}
+
+/**
+ * CustomEvent detail for lifecycle events
+ */
+export interface AnimationLifecycleDetail {
+    type: AnimationLifecycleEvent
+    slotId: string
+    slotName?: string // Authored "Animation ID" of the slot, when set
+    componentId?: string // data-component-id of the FAME host element
+    instanceName?: string // Instance Name of the FAME host, when set
+    progress: number // Slot progress (0-1) when the event fired
+    iteration?: number // LOOP only: completed iterations/cycles so far (1-based)
+    direction?: AnimationDirection // Direction of the run the event belongs to
+    duration?: number // START only: expected run duration in seconds (timeline part, staggers excluded)
+}
+
+/**
+ * Lifecycle callback signature for FAME React props
+ */
+export type AnimationLifecycleCallback = (detail: AnimationLifecycleDetail) => void
+
+//=======================================
+//        EVENT BUS TYPES
+//=======================================
+
+/**
+ * Which FAME instances a bus message reaches
+ * When either the emitter or the listener uses PAGE, both must be on the same page (pathname)
+ */
+export enum EventBusScope {
+    /** Only instances on the page the message was emitted from */
+    PAGE = "page",
+
+    /** Every instance, whichever page it is on */
+    SITE = "site",
+}
+
+/**
+ * Message sent over the FAME event bus
+ */
+export interface EventBusMessage {
+    channel: string
+    payload?: unknown // Parsed JSON when the emitter configured JSON, otherwise the raw string
+    scope: EventBusScope
+    page: string // window.location.pathname at emit time
+    sourceSlotId?: string // Slot that emitted the message (undefined for code emitters)
+    timestamp: number
+}
+
+/**
+ * CUSTOM_EVENT trigger configuration
+ */
+export interface CustomEventTriggerConfig {
+    channel: string // Channel name (case-sensitive, trimmed)
+    scope?: EventBusScope // Default: PAGE
+    payloadFilter?: string // Only fire when the payload (or payload.value) equals this string
+}
+
+/**
+ * Bus message a slot emits at a point in its lifecycle
+ */
+export interface SlotEventEmit {
+    channel: string
+    on: AnimationLifecycleEvent // START, COMPLETE, REVERSE_COMPLETE, LOOP or INTERRUPT
+    payload?: unknown
+    scope?: EventBusScope // Default: PAGE
+}
+
+//=======================================
+//        SLOT SEQUENCING TYPES
+//=======================================
+
+/**
+ * Point in the parent slot's run that a sequenced slot is positioned against
+ */
+export enum SequencePoint {
+    /** Parent run starts ("<" in position strings) */
+    START = "start",
+
+    /** Parent run completes (">" in position strings) */
+    COMPLETE = "complete",
+
+    /** Parent run has travelled a fraction of its distance ("40%" in position strings) */
+    PROGRESS = "progress",
+}
+
+/**
+ * SLOT_SEQUENCE trigger configuration
+ *
+ * Position strings follow GSAP's position parameter:
+ * "<" start, ">" complete, "40%" progress, each with an optional offset in seconds
+ * ("<+0.2", ">-0.3", "40%+0.1"). A bare offset ("+0.5") is relative to complete.
+ */
+export interface SlotSequenceConfig {
+    afterSlotId: string // Animation ID of the parent slot
+    afterInstance?: string // Instance Name of the parent's FAME (unset = the sequenced slot's own FAME)
+    point: SequencePoint
+    progress?: number // PROGRESS only: fraction of the parent run (0-1)
+    offset: number // Seconds after the point (negative = before; only COMPLETE can start early)
+    followReverse: boolean // Backward parent runs play this slot backward too (default: true)
+}
+
+//=======================================
+//        IMPERATIVE API TYPES
+//=======================================
+
+/**
+ * Snapshot of one slot returned by FAMEHandle state queries
+ */
+export interface FAMESlotState {
+    slotId: string
+    name?: string // Authored "Animation ID" of the slot, when set
+    progress: number // Current progress (0-1)
+    targetProgress: number // Progress the current playback is heading to
+    status: AnimationStatus
+    isPaused: boolean
+}
+
+/**
+ * Programmatic control of a named FAME instance (see FAMERegistry and useFAME)
+ *
+ * `slot` is a slot's Animation ID (or generated slot ID). When omitted, actions apply to
+ * every event-driven slot of the instance and queries read the first one.
+ */
+export interface FAMEHandle {
+    play(slot?: string): void
+    reverse(slot?: string): void
+    toggle(slot?: string): void
+    playToLabel(label: string, slot?: string): void
+    seek(progress: number, slot?: string): void
+    pause(slot?: string): void
+    resume(slot?: string): void
+    getState(slot?: string): FAMESlotState | null
+    getStates(): FAMESlotState[]
+    isPlaying(slot?: string): boolean
+    isPaused(slot?: string): boolean
+    getProgress(slot?: string): number
+    exportPreset(presetName?: string): string // Slots of the instance as SlotPreset JSON
+}
+
 //=======================================
 //        PROPERTY REGISTRY TYPES
 //=======================================
@@ -785,6 +1112,9 @@ export interface FAMEProps {
     styleSlots?: any[] // Raw property controls format - converted by adapter
 
     showFameElement?:boolean;
+    // 🧩 NEW: Instance name for the imperative API (useFAME, getFAME, FAME overrides)
+    name?: string
+
     // Global settings
     debug?: boolean
     disabled?: boolean
@@ -795,6 +1125,21 @@ export interface FAMEProps {
     // 🚀 NEW: Canvas mode style slots setting
     showStyleSlotsInCanvas?: boolean // Whether to show style slots in Canvas mode (default: false)
 
+    // ♿ NEW: Component-wide reduced motion policy (slots can override)
+    reducedMotion?: ReducedMotionPolicy // Default: NORMAL
+
+    // 📦 NEW: Pasted SlotPreset JSON and how its slots combine with the property controls slots
+    slotPreset?: string
+    presetMode?: PresetImportMode // Default: APPEND
+
+    // 📣 NEW: Lifecycle callbacks (same events are dispatched as DOM CustomEvents on the FAME element)
+    onAnimationStart?: AnimationLifecycleCallback
+    onAnimationUpdate?: AnimationLifecycleCallback
+    onAnimationComplete?: AnimationLifecycleCallback
+    onAnimationReverseComplete?: AnimationLifecycleCallback
+    onAnimationLoop?: AnimationLifecycleCallback
+    onAnimationInterrupt?: AnimationLifecycleCallback
+
     // NEW: Sophisticated debug configuration
     debugConfig?: DebugConfig
 
@@ -989,6 +1334,28 @@ export enum InterruptBehavior {
     QUEUE_LATEST = "queueLatest",
 }
 
+//=======================================
+//        REDUCED MOTION TYPES
+//=======================================
+
+/**
+ * What a slot does while the user has prefers-reduced-motion enabled
+ * Has no effect when the media query does not match
+ */
+export enum ReducedMotionPolicy {
+    /** Play the animation as normal */
+    NORMAL = "normal",
+
+    /** Jump to the end state instantly */
+    SKIP_TO_END = "skipToEnd",
+
+    /** Fade opacity out and back in, swapping to the end state while hidden */
+    CROSSFADE = "crossfade",
+
+    /** Do not animate at all, elements stay where they are */
+    DISABLE = "disable",
+}
+
 /**
  * Queued animation intent for QUEUE_LATEST behavior
  */
@@ -999,6 +1366,101 @@ export interface QueuedIntent {
     timestamp: number
 }
 
+//=======================================
+//        BREAKPOINT VARIANT TYPES
+//=======================================
+
+/**
+ * Viewport width range (CSS pixels, both bounds inclusive)
+ * A missing bound is open, so an empty range matches every width
+ */
+export interface ViewportRange {
+    minWidth?: number
+    maxWidth?: number
+}
+
+/**
+ * Per-viewport replacement of one animated property's values and timing
+ * Applies to every instance of the property in the slot
+ */
+export interface AnimationPropertyOverride {
+    property: string // CSS property name (e.g., 'translateY')
+    from?: PropertyValue // Replaces from (and the keyframe track / distributed from values)
+    to?: PropertyValue // Replaces to (and the keyframe track / distributed to values)
+    duration?: number // Seconds (ignored while the global timeline sets the duration)
+    delay?: number // Seconds
+    easing?: string
+}
+
+/**
+ * Variant of an AnimationSlot used while the viewport is inside a width range
+ * When several overrides match, they apply in list order (later ones win)
+ */
+export interface SlotBreakpointOverride extends ViewportRange {
+    disabled?: boolean // The slot does not run in this range
+    properties?: AnimationPropertyOverride[]
+    staggering?: StaggerConfig | null // Time-based stagger for this range (null = no stagger)
+}
+
+/**
+ * Variant of a StyleSlot used while the viewport is inside a width range
+ */
+export interface StyleSlotBreakpointOverride extends ViewportRange {
+    disabled?: boolean // The slot's styles are not applied in this range
+    styleProperties?: StyleProperty[] // Replaces same-named properties, adds the others
+}
+
+//=======================================
+//        SLOT PRESET TYPES
+//=======================================
+
+/**
+ * Portable, versioned JSON form of a set of slots
+ * Slots are stored in property controls format, exactly as FAME receives them from Framer,
+ * so importing a preset runs them through the regular slot adapters.
+ */
+export interface SlotPreset {
+    format: string // Always SLOT_PRESET_FORMAT
+    version: number // Schema version, migrated to the current one on import
+    name?: string
+    animationSlots: any[] // Raw property controls format - converted by AnimationSlotAdapter
+    styleSlots: any[] // Raw property controls format - converted by StyleSlotAdapter
+}
+
+/**
+ * How imported preset slots combine with the slots set in property controls
+ */
+export enum PresetImportMode {
+    /** Preset slots run after the slots from property controls */
+    APPEND = "append",
+
+    /** Preset slots replace the slots from property controls */
+    REPLACE = "replace",
+}
+
+/**
+ * FAMEError codes reported while importing a preset
+ */
+export enum PresetErrorCode {
+    INVALID_JSON = "PRESET_INVALID_JSON",
+    INVALID_FORMAT = "PRESET_INVALID_FORMAT",
+    UNSUPPORTED_VERSION = "PRESET_UNSUPPORTED_VERSION",
+    MIGRATION_FAILED = "PRESET_MIGRATION_FAILED",
+    INVALID_TYPE = "PRESET_INVALID_TYPE",
+    INVALID_OPTION = "PRESET_INVALID_OPTION",
+    OUT_OF_RANGE = "PRESET_OUT_OF_RANGE",
+    TOO_MANY_ITEMS = "PRESET_TOO_MANY_ITEMS",
+}
+
+/**
+ * Outcome of importing a preset string
+ * Error contexts carry the `path` of the offending value (e.g. `animationSlots[0].triggers[1].event`)
+ */
+export interface PresetImportResult extends ValidationResult {
+    preset: SlotPreset | null // Migrated preset, null when empty or invalid
+    migratedFrom?: number // Original schema version when a migration ran
+}
+
 //=======================================
 //        STYLE SLOT TYPES
 //=======================================
@@ -1024,6 +1486,8 @@ export interface StyleSlot {
 
     // Validation and error handling
     validationErrors?: StyleValidationError[]
+    // 📱 Per-viewport variants
+    breakpoints?: StyleSlotBreakpointOverride[]
 }
 
 /**
@@ -1102,6 +1566,15 @@ export interface TextProcessingConfig {
     /** Text effects to apply (Phase 3) */
     textEffects?: TextEffect[]
 
+    /** How the unsplit text is exposed to screen readers (default: AUTO) */
+    accessibleText?: TextAccessibilityMode
+
+    /**
+     * BCP 47 locale for grapheme/word segmentation (e.g. "ja", "th")
+     * Defaults to the closest `lang` attribute, then the document language.
+     */
+    locale?: string
+
     // 🔧 INTERNAL: Derived properties (not exposed in property controls)
     /** @internal Type of text splitting to perform - derived from animateBy */
     splitType?: TextSplitType
@@ -1158,6 +1631,27 @@ export interface TextCanvasConfig {
     maxTextLength: number
 }
 
+/**
+ * How split text stays readable for assistive technology
+ *
+ * @description
+ * Split spans are always marked aria-hidden; the original text is exposed once
+ * through one of these strategies.
+ */
+export enum TextAccessibilityMode {
+    /** aria-label on headings, links, buttons and elements with a role; hidden copy otherwise */
+    AUTO = "auto",
+
+    /** Set aria-label on the split element */
+    ARIA_LABEL = "ariaLabel",
+
+    /** Insert a visually-hidden copy of the text */
+    VISUALLY_HIDDEN = "visuallyHidden",
+
+    /** Leave accessibility untouched (split spans are read as-is) */
+    NONE = "none",
+}
+
 /**
  * Canvas mode fallback strategies
  */
@@ -36,6 +36,8 @@
  *   '0px'
  * );
  * // Result: ['0px', '25px', '50px', '75px', '100px'] (for 5 elements)
+ * 
+ * // Nested DistributedPropertyPattern objects and the flat control config are both accepted
  * ```
  * 
  * @god_class_prevention
@@ -51,9 +53,22 @@
  * - Edge cases: empty arrays, single elements, invalid patterns
  * - Performance tests for large element arrays
  * 
+ * // Seeded random pattern - same seed, same values on every reload
+ * const values = generator.generateElementValues(
+ *   elements,
+ *   { enabled: true, pattern: 'random', minValue: '-20deg', maxValue: '20deg', seed: 42, distribution: 'gaussian' },
+ *   '0deg'
+ * );
+ * 
+ * // Grid-aware pattern - values follow the detected grid layout
+ * const values = generator.generateElementValues(
+ *   elements,
+ *   { enabled: true, pattern: 'grid-aware', minValue: '0px', maxValue: '100px', gridDirection: 'diagonal', gridStartCorner: 'top-left' },
+ *   '0px'
+ * );
+ * ```
+ * 
  * @future_extensions
- * - Random patterns with seeded randomness
- * - Grid-aware patterns using existing stagger grid detection
  * - Custom curve patterns with easing functions
  */
 
@@ -62,9 +77,18 @@ import type {
     DistributedPropertyPattern,
     CommaSeparatedPattern,
     LinearRangePattern,
+    RandomPattern,
+    GridAwarePattern,
     LinearProgression,
     PropertyValue
 } from "../types/index.ts";
+import { GridDetector } from "./staggering/grid/GridDetector.ts";
+
+/** Seed used by random patterns when none is configured */
+const DEFAULT_RANDOM_SEED = 1;
+
+/** Standard deviation of gaussian random patterns (in 0-1 progress space) */
+const GAUSSIAN_SIGMA = 1 / 6;
 
 /**
  * Distributed property pattern generator
@@ -92,7 +116,8 @@ import type {
  * @performance_considerations
  * - O(n) complexity for pattern generation (n = number of elements)
  * - Minimal memory allocation (reuse parsed values)
- * - No DOM access (works with element count only)
+ * - No DOM access (works with element count only), except grid-aware patterns
+ *   which measure element positions through GridDetector
  * 
  * @color_gradient_support
  * NEW: Supports smooth color gradients for distributed properties
@@ -203,6 +228,9 @@ export class DistributedPropertyPatternGenerator {
         // Handle the flat config structure from AnimationSlotAdapter
         console.log('[DistributedPropertyPatternGenerator] Processing config:', config);
         
+        // Nested pattern objects (DistributedPropertyConfig) are flattened first
+        config = this.normalizeConfig(config);
+        
         // The config now has pattern type directly in config.pattern field
         const patternType = config.pattern;
         if (!patternType) {
@@ -220,11 +248,9 @@ export class DistributedPropertyPatternGenerator {
                 case 'linear-range':
                     return this.generateLinearRangePattern(elements, config);
                 case 'random':
-                    console.warn('[DistributedPropertyPatternGenerator] Random patterns not yet implemented - falling back to base value');
-                    return elements.map(() => baseValue);
+                    return this.generateRandomPattern(elements, config, baseValue);
                 case 'grid-aware':
-                    console.warn('[DistributedPropertyPatternGenerator] Grid-aware patterns not yet implemented - falling back to base value');
-                    return elements.map(() => baseValue);
+                    return this.generateGridAwarePattern(elements, config, baseValue);
                 default:
                     console.error(`[DistributedPropertyPatternGenerator] Unknown pattern type: ${patternType}`);
                     return elements.map(() => baseValue);
@@ -455,6 +481,225 @@ export class DistributedPropertyPatternGenerator {
         return result;
     }
 
+    /**
+     * Generate values using seeded random pattern
+     * 
+     * @description
+     * Gives every element a random value between min and max. The sequence is driven
+     * by a seeded PRNG, so the same seed always produces the same values in the same
+     * element order - scattered layouts stay art-directable across reloads.
+     * 
+     * @param elements - Array of elements (used for count)
+     * @param config - Flat config with minValue, maxValue, seed, distribution fields
+     * @param baseValue - Fallback when the range cannot be parsed
+     * 
+     * @returns Array of random values within the range
+     * 
+     * @complexity O(n) where n = elements.length
+     * 
+     * @distributions
+     * - uniform: Every value in the range is equally likely
+     * - gaussian: Values cluster around the middle of the range (clamped to min/max)
+     * 
+     * @examples
+     * ```typescript
+     * // -20deg → 20deg, seed 42, uniform, 4 elements
+     * // Result: four values scattered within ±20deg - identical on every run
+     * 
+     * // Same range, seed 7 → a different (but equally stable) scatter
+     * ```
+     */
+    private generateRandomPattern(
+        elements: HTMLElement[],
+        config: any,
+        baseValue: PropertyValue
+    ): PropertyValue[] {
+        const interpolate = this.createRangeInterpolator(config.minValue, config.maxValue);
+        if (!interpolate) {
+            console.warn('[DistributedPropertyPatternGenerator] Failed to parse random range, using base value for all elements');
+            return elements.map(() => baseValue);
+        }
+
+        const seed = Number.isFinite(Number(config.seed)) ? Number(config.seed) : DEFAULT_RANDOM_SEED;
+        const distribution = config.distribution === 'gaussian' ? 'gaussian' : 'uniform';
+        const random = this.createSeededRandom(seed);
+
+        const result = elements.map(() => {
+            const progress = distribution === 'gaussian'
+                ? this.gaussianProgress(random)
+                : random();
+            return interpolate(progress);
+        });
+
+        console.log(`🎲 [DistributedPropertyPatternGenerator] Generated ${distribution} random values (seed ${seed}):`, result.slice(0, 5));
+        return result;
+    }
+
+    /**
+     * Generate values using grid-aware pattern
+     * 
+     * @description
+     * Orders elements by their position in the detected grid layout and distributes
+     * the min → max range along that order. Reuses the stagger GridDetector so the
+     * grid matches what grid staggers see.
+     * 
+     * @param elements - Array of elements (measured for grid positions)
+     * @param config - Flat config with minValue, maxValue, progression, gridDirection, gridStartCorner
+     * @param baseValue - Fallback when the range cannot be parsed
+     * 
+     * @returns Array of values following the grid order
+     * 
+     * @complexity O(n log n) where n = elements.length
+     * 
+     * @grid_directions
+     * - row-wise: Row by row, starting at the start corner
+     * - column-wise: Column by column, starting at the start corner
+     * - diagonal: Diagonal bands away from the start corner (same band = same value)
+     * 
+     * @fallback
+     * Elements GridDetector cannot measure (hidden, detached) keep their DOM order position.
+     */
+    private generateGridAwarePattern(
+        elements: HTMLElement[],
+        config: any,
+        baseValue: PropertyValue
+    ): PropertyValue[] {
+        const interpolate = this.createRangeInterpolator(config.minValue, config.maxValue);
+        if (!interpolate) {
+            console.warn('[DistributedPropertyPatternGenerator] Failed to parse grid-aware range, using base value for all elements');
+            return elements.map(() => baseValue);
+        }
+
+        const direction = config.gridDirection || 'row-wise';
+        const startCorner: string = config.gridStartCorner || 'top-left';
+        const progression: LinearProgression = config.progression || 'linear';
+
+        const grid = new GridDetector().analyzeLayout(elements);
+        const fromRight = startCorner.endsWith('right');
+        const fromBottom = startCorner.startsWith('bottom');
+
+        // Order key per element - DOM order fallback for unmeasured elements
+        const keys: number[] = elements.map((_, index) => index);
+        if (grid.elements.length === elements.length) {
+            grid.elements.forEach((gridElement) => {
+                const column = fromRight ? grid.columns - 1 - gridElement.position.x : gridElement.position.x;
+                const row = fromBottom ? grid.rows - 1 - gridElement.position.y : gridElement.position.y;
+
+                switch (direction) {
+                    case 'column-wise':
+                        keys[gridElement.index] = column * grid.rows + row;
+                        break;
+                    case 'diagonal':
+                        keys[gridElement.index] = column + row;
+                        break;
+                    case 'row-wise':
+                    default:
+                        keys[gridElement.index] = row * grid.columns + column;
+                        break;
+                }
+            });
+        } else {
+            console.warn(`[DistributedPropertyPatternGenerator] Grid detection covered ${grid.elements.length}/${elements.length} elements, using DOM order`);
+        }
+
+        // Dense rank so partially filled grids still span the full range
+        const uniqueKeys = Array.from(new Set(keys)).sort((a, b) => a - b);
+        const lastRank = Math.max(1, uniqueKeys.length - 1);
+
+        const result = keys.map((key) => {
+            const progress = uniqueKeys.length === 1 ? 0 : uniqueKeys.indexOf(key) / lastRank;
+            return interpolate(this.applyProgressionCurve(progress, progression));
+        });
+
+        console.log(`🔲 [DistributedPropertyPatternGenerator] Generated grid-aware values (${grid.rows}x${grid.columns}, ${direction} from ${startCorner}):`, result.slice(0, 5));
+        return result;
+    }
+
+    /**
+     * Flatten a nested DistributedPropertyPattern into the flat control config shape
+     * 
+     * @description
+     * Property controls hand over flat configs (`pattern: 'random', minValue, ...`), while
+     * DistributedPropertyConfig nests the pattern object. Both end up in the flat shape.
+     */
+    private normalizeConfig(config: any): any {
+        const pattern = config.pattern as DistributedPropertyPattern | string;
+        if (!pattern || typeof pattern !== 'object') {
+            return config;
+        }
+
+        switch (pattern.type) {
+            case 'comma-separated':
+                return { enabled: config.enabled, pattern: pattern.type, values: (pattern as CommaSeparatedPattern).values };
+            case 'linear-range':
+                return { enabled: config.enabled, pattern: pattern.type, ...(pattern as LinearRangePattern).linearRange };
+            case 'random':
+                return { enabled: config.enabled, pattern: pattern.type, ...(pattern as RandomPattern).randomConfig };
+            case 'grid-aware': {
+                const { direction, startCorner, ...range } = (pattern as GridAwarePattern).gridConfig;
+                return { enabled: config.enabled, pattern: pattern.type, gridDirection: direction, gridStartCorner: startCorner, ...range };
+            }
+            default:
+                return { ...config, pattern: (pattern as any).type };
+        }
+    }
+
+    /**
+     * Create a progress → value interpolator for a min/max range
+     * 
+     * @description
+     * Color ranges interpolate in RGB, numeric ranges keep the unit of the min (or max) value.
+     * 
+     * @returns Interpolator, or null when the values are neither colors nor numbers
+     */
+    private createRangeInterpolator(minValue: string, maxValue: string): ((progress: number) => PropertyValue) | null {
+        if (typeof minValue !== 'string' || typeof maxValue !== 'string') {
+            return null;
+        }
+
+        const minColor = this.parseColor(minValue);
+        const maxColor = this.parseColor(maxValue);
+        if (minColor && maxColor) {
+            return (progress: number) => this.interpolateColors(minColor, maxColor, progress);
+        }
+
+        const minNum = this.parseNumericValue(minValue);
+        const maxNum = this.parseNumericValue(maxValue);
+        if (minNum === null || maxNum === null) {
+            return null;
+        }
+
+        const unit = this.extractUnit(minValue) || this.extractUnit(maxValue) || '';
+        return (progress: number) => `${minNum + (maxNum - minNum) * progress}${unit}`;
+    }
+
+    /**
+     * Create a seeded pseudo-random number generator (mulberry32)
+     * 
+     * @param seed - Any number; the same seed always yields the same sequence
+     * @returns Function returning the next value between 0 (inclusive) and 1 (exclusive)
+     */
+    private createSeededRandom(seed: number): () => number {
+        let state = Math.floor(seed) >>> 0;
+        return () => {
+            state = (state + 0x6D2B79F5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+    }
+
+    /**
+     * Draw a gaussian progress value centred on 0.5 (Box-Muller), clamped to 0-1
+     */
+    private gaussianProgress(random: () => number): number {
+        const u1 = Math.max(random(), Number.EPSILON);
+        const u2 = random();
+        const standardNormal = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+        return Math.max(0, Math.min(1, 0.5 + standardNormal * GAUSSIAN_SIGMA));
+    }
+
     /**
      * Generate deterministic seeded random value with better distribution
      * 
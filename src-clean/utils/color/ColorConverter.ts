@@ -0,0 +1,317 @@
+/**
+ * FAME Animation System - Color Converter
+ *
+ * @fileOverview Conversions between sRGB, linear RGB, HSL, HWB, CIE Lab/LCH and OKLab/OKLCH
+ * @version 2.1.0-oklab-interpolation
+ * @status ACTIVE - Pure math, no DOM access
+ *
+ * @description
+ * All conversions go through sRGB (0-255 channels) as the hub format.
+ * Matrices follow the CSS Color Module Level 4 reference implementation
+ * and Björn Ottosson's OKLab definition.
+ *
+ * @example
+ * ```typescript
+ * const lab = rgbToOklab({ r: 255, g: 0, b: 0 });   // { l: 0.628, a: 0.225, b: 0.126 }
+ * const rgb = oklchToRgb({ l: 0.7, c: 0.15, h: 200 });
+ * ```
+ */
+
+import { RGBColor, HSLColor, OKLabColor, OKLCHColor } from './types.ts';
+
+//=======================================
+//        sRGB TRANSFER FUNCTIONS
+//=======================================
+
+/**
+ * Convert a gamma-encoded sRGB channel (0-1) to linear light (0-1)
+ */
+export function srgbChannelToLinear(value: number): number {
+    const abs = Math.abs(value);
+    if (abs <= 0.04045) {
+        return value / 12.92;
+    }
+    return Math.sign(value) * Math.pow((abs + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Convert a linear light channel (0-1) to gamma-encoded sRGB (0-1)
+ */
+export function linearChannelToSrgb(value: number): number {
+    const abs = Math.abs(value);
+    if (abs <= 0.0031308) {
+        return value * 12.92;
+    }
+    return Math.sign(value) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055);
+}
+
+/**
+ * Convert sRGB (0-255) to linear RGB (0-1)
+ */
+export function rgbToLinearRgb(color: RGBColor): RGBColor {
+    return {
+        r: srgbChannelToLinear(color.r / 255),
+        g: srgbChannelToLinear(color.g / 255),
+        b: srgbChannelToLinear(color.b / 255),
+        a: color.a
+    };
+}
+
+/**
+ * Convert linear RGB (0-1) to sRGB (0-255)
+ */
+export function linearRgbToRgb(color: RGBColor): RGBColor {
+    return {
+        r: linearChannelToSrgb(color.r) * 255,
+        g: linearChannelToSrgb(color.g) * 255,
+        b: linearChannelToSrgb(color.b) * 255,
+        a: color.a
+    };
+}
+
+//=======================================
+//        HSL / HWB
+//=======================================
+
+/**
+ * Convert HSL to sRGB (0-255)
+ */
+export function hslToRgb(color: HSLColor): RGBColor {
+    const h = normalizeHue(color.h);
+    const s = color.s / 100;
+    const l = color.l / 100;
+
+    const channel = (n: number) => {
+        const k = (n + h / 30) % 12;
+        const amount = s * Math.min(l, 1 - l);
+        return l - amount * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    };
+
+    return { r: channel(0) * 255, g: channel(8) * 255, b: channel(4) * 255, a: color.a };
+}
+
+/**
+ * Convert sRGB (0-255) to HSL
+ */
+export function rgbToHsl(color: RGBColor): HSLColor {
+    const r = color.r / 255;
+    const g = color.g / 255;
+    const b = color.b / 255;
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const l = (max + min) / 2;
+    const delta = max - min;
+
+    let h = 0;
+    let s = 0;
+
+    if (delta !== 0) {
+        s = l === 0 || l === 1 ? 0 : (max - l) / Math.min(l, 1 - l);
+
+        switch (max) {
+            case r: h = (g - b) / delta + (g < b ? 6 : 0); break;
+            case g: h = (b - r) / delta + 2; break;
+            default: h = (r - g) / delta + 4;
+        }
+        h *= 60;
+    }
+
+    return { h, s: s * 100, l: l * 100, a: color.a };
+}
+
+/**
+ * Convert HWB (hue 0-360, whiteness/blackness 0-100) to sRGB (0-255)
+ */
+export function hwbToRgb(h: number, whiteness: number, blackness: number, alpha?: number): RGBColor {
+    const w = whiteness / 100;
+    const bl = blackness / 100;
+
+    // Whiteness + blackness >= 1 produces an achromatic grey
+    if (w + bl >= 1) {
+        const grey = (w / (w + bl)) * 255;
+        return { r: grey, g: grey, b: grey, a: alpha };
+    }
+
+    const pure = hslToRgb({ h, s: 100, l: 50 });
+    const scale = 1 - w - bl;
+
+    return {
+        r: (pure.r / 255 * scale + w) * 255,
+        g: (pure.g / 255 * scale + w) * 255,
+        b: (pure.b / 255 * scale + w) * 255,
+        a: alpha
+    };
+}
+
+//=======================================
+//        OKLAB / OKLCH
+//=======================================
+
+/**
+ * Convert sRGB (0-255) to OKLab
+ */
+export function rgbToOklab(color: RGBColor): OKLabColor {
+    const linear = rgbToLinearRgb(color);
+
+    const l = 0.4122214708 * linear.r + 0.5363325363 * linear.g + 0.0514459929 * linear.b;
+    const m = 0.2119034982 * linear.r + 0.6806995451 * linear.g + 0.1073969566 * linear.b;
+    const s = 0.0883024619 * linear.r + 0.2817188376 * linear.g + 0.6299787005 * linear.b;
+
+    const lRoot = Math.cbrt(l);
+    const mRoot = Math.cbrt(m);
+    const sRoot = Math.cbrt(s);
+
+    return {
+        l: 0.2104542553 * lRoot + 0.7936177850 * mRoot - 0.0040720468 * sRoot,
+        a: 1.9779984951 * lRoot - 2.4285922050 * mRoot + 0.4505937099 * sRoot,
+        b: 0.0259040371 * lRoot + 0.7827717662 * mRoot - 0.8086757660 * sRoot,
+        alpha: color.a
+    };
+}
+
+/**
+ * Convert OKLab to sRGB (0-255)
+ * Result may be out of gamut - callers clamp when formatting
+ */
+export function oklabToRgb(color: OKLabColor): RGBColor {
+    const lRoot = color.l + 0.3963377774 * color.a + 0.2158037573 * color.b;
+    const mRoot = color.l - 0.1055613458 * color.a - 0.0638541728 * color.b;
+    const sRoot = color.l - 0.0894841775 * color.a - 1.2914855480 * color.b;
+
+    const l = lRoot * lRoot * lRoot;
+    const m = mRoot * mRoot * mRoot;
+    const s = sRoot * sRoot * sRoot;
+
+    return linearRgbToRgb({
+        r: 4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+        g: -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+        b: -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s,
+        a: color.alpha
+    });
+}
+
+/**
+ * Convert OKLab to OKLCH
+ * Hue is NaN for achromatic colors so interpolation can take the other hue
+ */
+export function oklabToOklch(color: OKLabColor): OKLCHColor {
+    const c = Math.sqrt(color.a * color.a + color.b * color.b);
+    const h = c < 1e-4 ? NaN : normalizeHue(Math.atan2(color.b, color.a) * 180 / Math.PI);
+    return { l: color.l, c, h, alpha: color.alpha };
+}
+
+/**
+ * Convert OKLCH to OKLab
+ */
+export function oklchToOklab(color: OKLCHColor): OKLabColor {
+    const hue = isNaN(color.h) ? 0 : color.h * Math.PI / 180;
+    return {
+        l: color.l,
+        a: color.c * Math.cos(hue),
+        b: color.c * Math.sin(hue),
+        alpha: color.alpha
+    };
+}
+
+/**
+ * Convert sRGB (0-255) to OKLCH
+ */
+export function rgbToOklch(color: RGBColor): OKLCHColor {
+    return oklabToOklch(rgbToOklab(color));
+}
+
+/**
+ * Convert OKLCH to sRGB (0-255)
+ */
+export function oklchToRgb(color: OKLCHColor): RGBColor {
+    return oklabToRgb(oklchToOklab(color));
+}
+
+//=======================================
+//        CIE LAB / LCH (D50)
+//=======================================
+
+const LAB_KAPPA = 24389 / 27;
+const LAB_EPSILON = 216 / 24389;
+const D50_WHITE = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+/**
+ * Convert CIE Lab (D50, as used by CSS lab()) to sRGB (0-255)
+ */
+export function labToRgb(lightness: number, a: number, b: number, alpha?: number): RGBColor {
+    const fy = (lightness + 16) / 116;
+    const fx = a / 500 + fy;
+    const fz = fy - b / 200;
+
+    const xr = Math.pow(fx, 3) > LAB_EPSILON ? Math.pow(fx, 3) : (116 * fx - 16) / LAB_KAPPA;
+    const yr = lightness > LAB_KAPPA * LAB_EPSILON ? Math.pow(fy, 3) : lightness / LAB_KAPPA;
+    const zr = Math.pow(fz, 3) > LAB_EPSILON ? Math.pow(fz, 3) : (116 * fz - 16) / LAB_KAPPA;
+
+    const x50 = xr * D50_WHITE[0];
+    const y50 = yr * D50_WHITE[1];
+    const z50 = zr * D50_WHITE[2];
+
+    // Bradford chromatic adaptation D50 → D65
+    const x65 = 0.9554734527042182 * x50 - 0.023098536874261423 * y50 + 0.0632593086610217 * z50;
+    const y65 = -0.028369706963208136 * x50 + 1.0099954580058226 * y50 + 0.021041398966943008 * z50;
+    const z65 = 0.012314001688319899 * x50 - 0.020507696433477912 * y50 + 1.3303659366080753 * z50;
+
+    return linearRgbToRgb({
+        r: 3.2409699419045226 * x65 - 1.537383177570094 * y65 - 0.4986107602930034 * z65,
+        g: -0.9692436362808796 * x65 + 1.8759675015077202 * y65 + 0.04155505740717559 * z65,
+        b: 0.05563007969699366 * x65 - 0.20397695888897652 * y65 + 1.0569715142428786 * z65,
+        a: alpha
+    });
+}
+
+/**
+ * Convert CIE LCH (D50, as used by CSS lch()) to sRGB (0-255)
+ */
+export function lchToRgb(lightness: number, chroma: number, hue: number, alpha?: number): RGBColor {
+    const hueRadians = (isNaN(hue) ? 0 : hue) * Math.PI / 180;
+    return labToRgb(lightness, chroma * Math.cos(hueRadians), chroma * Math.sin(hueRadians), alpha);
+}
+
+//=======================================
+//        HELPERS
+//=======================================
+
+/**
+ * Normalize a hue angle into the 0-360 range
+ */
+export function normalizeHue(hue: number): number {
+    const normalized = hue % 360;
+    return normalized < 0 ? normalized + 360 : normalized;
+}
+
+/**
+ * Clamp an RGB color into the displayable sRGB gamut
+ */
+export function clampRgb(color: RGBColor): RGBColor {
+    const clamp = (value: number) => Math.max(0, Math.min(255, isNaN(value) ? 0 : value));
+    return {
+        r: clamp(color.r),
+        g: clamp(color.g),
+        b: clamp(color.b),
+        a: color.a === undefined ? undefined : Math.max(0, Math.min(1, color.a))
+    };
+}
+
+/**
+ * Format an RGB color as a CSS string
+ * Uses rgb() for opaque colors and rgba() when alpha is below 1
+ */
+export function formatRgb(color: RGBColor): string {
+    const clamped = clampRgb(color);
+    const r = Math.round(clamped.r);
+    const g = Math.round(clamped.g);
+    const b = Math.round(clamped.b);
+
+    if (clamped.a !== undefined && clamped.a < 1) {
+        // Limit alpha precision to keep style strings short and stable
+        const a = Math.round(clamped.a * 1000) / 1000;
+        return `rgba(${r}, ${g}, ${b}, ${a})`;
+    }
+
+    return `rgb(${r}, ${g}, ${b})`;
+}
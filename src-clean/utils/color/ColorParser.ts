@@ -0,0 +1,545 @@
+/**
+ * FAME Animation System - Color Parser
+ *
+ * @fileOverview Parse any CSS color string into sRGB components
+ * @version 2.1.0-oklab-interpolation
+ * @status ACTIVE - Full CSS Color 4 syntax coverage for animation use
+ *
+ * @description
+ * Supported formats:
+ * - Hex: #rgb, #rgba, #rrggbb, #rrggbbaa
+ * - rgb()/rgba(), hsl()/hsla(), hwb() (legacy comma and modern space syntax)
+ * - lab(), lch() (CIE, D50) and oklab(), oklch()
+ * - color-mix(in <space> [<hue> hue], <color> [<pct>], <color> [<pct>])
+ * - Named keywords, `transparent` and `currentColor`
+ * - Framer tokens / custom properties: var(--token, fallback)
+ *
+ * @performance
+ * Context-independent strings (everything except var() and currentColor) are
+ * cached, since interpolators parse the same keyframe values on every frame.
+ *
+ * @example
+ * ```typescript
+ * parseColor('#ff000080');                        // { r: 255, g: 0, b: 0, a: 0.5 }
+ * parseColor('oklch(70% 0.15 200 / 50%)');
+ * parseColor('var(--token-abc, rgb(0, 0, 0))', { element });
+ * parseColor('color-mix(in oklab, red 30%, blue)');
+ * ```
+ */
+
+import { RGBColor, ColorParseContext, ColorInterpolationSpace, HueInterpolationMethod } from './types.ts';
+import { hslToRgb, hwbToRgb, labToRgb, lchToRgb, oklabToRgb, oklchToRgb } from './ColorConverter.ts';
+import { mixRgbColors } from './ColorMixer.ts';
+import { NAMED_COLORS } from './NamedColors.ts';
+
+/** Maximum var() / color-mix() nesting before giving up (guards against cyclic tokens) */
+const MAX_NESTING_DEPTH = 8;
+
+/** Maximum number of cached parse results */
+const MAX_CACHE_SIZE = 512;
+
+const parseCache = new Map<string, RGBColor | null>();
+
+/**
+ * Parse a color string into RGB components
+ * @param colorString - Color in any supported format
+ * @param context - Optional element context for currentColor and var() tokens
+ * @returns RGB color object (alpha always set) or null if invalid
+ */
+export function parseColor(colorString: string, context?: ColorParseContext): RGBColor | null {
+    if (typeof colorString !== 'string') {
+        return null;
+    }
+
+    return parseColorInternal(colorString, context, 0);
+}
+
+/**
+ * Check whether a string is a parseable CSS color
+ * Context-dependent values (currentColor, var()) are accepted without resolving them
+ */
+export function isValidColor(value: string): boolean {
+    if (typeof value !== 'string') return false;
+
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'currentcolor' || normalized.startsWith('var(')) {
+        return true;
+    }
+
+    return parseColor(value) !== null;
+}
+
+/**
+ * Clear the parse cache (e.g. after theme/token changes)
+ */
+export function clearColorParseCache(): void {
+    parseCache.clear();
+}
+
+//=======================================
+//        INTERNAL PARSING
+//=======================================
+
+function parseColorInternal(colorString: string, context: ColorParseContext | undefined, depth: number): RGBColor | null {
+    if (depth > MAX_NESTING_DEPTH) {
+        console.warn(`🎨 [ColorParser] Maximum nesting depth exceeded while parsing "${colorString}"`);
+        return null;
+    }
+
+    const input = colorString.trim();
+    const normalized = input.toLowerCase();
+
+    if (!normalized) return null;
+
+    // Context-dependent values are never cached
+    if (normalized === 'currentcolor') {
+        return resolveCurrentColor(context, depth);
+    }
+
+    if (normalized.includes('var(') || normalized.includes('currentcolor')) {
+        return parseUncached(input, context, depth);
+    }
+
+    const cached = parseCache.get(normalized);
+    if (cached !== undefined) {
+        return cached ? { ...cached } : null;
+    }
+
+    const result = parseUncached(input, context, depth);
+
+    if (parseCache.size >= MAX_CACHE_SIZE) {
+        parseCache.clear();
+    }
+    parseCache.set(normalized, result ? { ...result } : null);
+
+    return result;
+}
+
+function parseUncached(input: string, context: ColorParseContext | undefined, depth: number): RGBColor | null {
+    const normalized = input.toLowerCase();
+
+    if (normalized === 'transparent') {
+        return { r: 0, g: 0, b: 0, a: 0 };
+    }
+
+    if (normalized.startsWith('#')) {
+        return parseHex(normalized.substring(1));
+    }
+
+    if (NAMED_COLORS[normalized]) {
+        return parseHex(NAMED_COLORS[normalized].substring(1));
+    }
+
+    const call = parseFunctionCall(input);
+    if (!call) {
+        return null;
+    }
+
+    switch (call.name) {
+        case 'rgb':
+        case 'rgba':
+            return parseRgbFunction(call.body);
+        case 'hsl':
+        case 'hsla':
+            return parseHslFunction(call.body);
+        case 'hwb':
+            return parseHwbFunction(call.body);
+        case 'lab':
+            return parseLabFunction(call.body);
+        case 'lch':
+            return parseLchFunction(call.body);
+        case 'oklab':
+            return parseOklabFunction(call.body);
+        case 'oklch':
+            return parseOklchFunction(call.body);
+        case 'color-mix':
+            return parseColorMixFunction(call.body, context, depth);
+        case 'var':
+            return resolveVariable(call.body, context, depth);
+        default:
+            return null;
+    }
+}
+
+/**
+ * Parse hex digits (without #) in 3, 4, 6 or 8 digit form
+ */
+function parseHex(hex: string): RGBColor | null {
+    if (!/^[0-9a-f]+$/.test(hex)) return null;
+
+    let expanded = hex;
+    if (hex.length === 3 || hex.length === 4) {
+        expanded = hex.split('').map(char => char + char).join('');
+    } else if (hex.length !== 6 && hex.length !== 8) {
+        return null;
+    }
+
+    return {
+        r: parseInt(expanded.substring(0, 2), 16),
+        g: parseInt(expanded.substring(2, 4), 16),
+        b: parseInt(expanded.substring(4, 6), 16),
+        a: expanded.length === 8 ? parseInt(expanded.substring(6, 8), 16) / 255 : 1
+    };
+}
+
+//=======================================
+//        COLOR FUNCTIONS
+//=======================================
+
+function parseRgbFunction(body: string): RGBColor | null {
+    const components = splitComponents(body);
+    if (!components) return null;
+
+    const [rToken, gToken, bToken] = components.channels;
+    const r = parseNumberComponent(rToken, 255);
+    const g = parseNumberComponent(gToken, 255);
+    const b = parseNumberComponent(bToken, 255);
+    const a = parseAlphaComponent(components.alpha);
+
+    if (r === null || g === null || b === null || a === null) return null;
+    return { r, g, b, a };
+}
+
+function parseHslFunction(body: string): RGBColor | null {
+    const components = splitComponents(body);
+    if (!components) return null;
+
+    const h = parseHueComponent(components.channels[0]);
+    const s = parseNumberComponent(components.channels[1], 100);
+    const l = parseNumberComponent(components.channels[2], 100);
+    const a = parseAlphaComponent(components.alpha);
+
+    if (h === null || s === null || l === null || a === null) return null;
+    return hslToRgb({ h, s, l, a });
+}
+
+function parseHwbFunction(body: string): RGBColor | null {
+    const components = splitComponents(body);
+    if (!components) return null;
+
+    const h = parseHueComponent(components.channels[0]);
+    const w = parseNumberComponent(components.channels[1], 100);
+    const b = parseNumberComponent(components.channels[2], 100);
+    const a = parseAlphaComponent(components.alpha);
+
+    if (h === null || w === null || b === null || a === null) return null;
+    return hwbToRgb(h, w, b, a);
+}
+
+function parseLabFunction(body: string): RGBColor | null {
+    const components = splitComponents(body);
+    if (!components) return null;
+
+    const l = parseNumberComponent(components.channels[0], 100);
+    const a = parseNumberComponent(components.channels[1], 125);
+    const b = parseNumberComponent(components.channels[2], 125);
+    const alpha = parseAlphaComponent(components.alpha);
+
+    if (l === null || a === null || b === null || alpha === null) return null;
+    return labToRgb(l, a, b, alpha);
+}
+
+function parseLchFunction(body: string): RGBColor | null {
+    const components = splitComponents(body);
+    if (!components) return null;
+
+    const l = parseNumberComponent(components.channels[0], 100);
+    const c = parseNumberComponent(components.channels[1], 150);
+    const h = parseHueComponent(components.channels[2]);
+    const alpha = parseAlphaComponent(components.alpha);
+
+    if (l === null || c === null || h === null || alpha === null) return null;
+    return lchToRgb(l, c, h, alpha);
+}
+
+function parseOklabFunction(body: string): RGBColor | null {
+    const components = splitComponents(body);
+    if (!components) return null;
+
+    const l = parseNumberComponent(components.channels[0], 1);
+    const a = parseNumberComponent(components.channels[1], 0.4);
+    const b = parseNumberComponent(components.channels[2], 0.4);
+    const alpha = parseAlphaComponent(components.alpha);
+
+    if (l === null || a === null || b === null || alpha === null) return null;
+    return oklabToRgb({ l, a, b, alpha });
+}
+
+function parseOklchFunction(body: string): RGBColor | null {
+    const components = splitComponents(body);
+    if (!components) return null;
+
+    const l = parseNumberComponent(components.channels[0], 1);
+    const c = parseNumberComponent(components.channels[1], 0.4);
+    const h = parseHueComponent(components.channels[2]);
+    const alpha = parseAlphaComponent(components.alpha);
+
+    if (l === null || c === null || h === null || alpha === null) return null;
+    return oklchToRgb({ l, c, h, alpha });
+}
+
+/**
+ * Parse color-mix(in <space> [<hue> hue], <color> [<pct>], <color> [<pct>])
+ * Spaces we don't interpolate in natively map to their closest supported space
+ */
+function parseColorMixFunction(body: string, context: ColorParseContext | undefined, depth: number): RGBColor | null {
+    const parts = splitTopLevel(body, ',');
+    if (parts.length !== 3) return null;
+
+    const methodMatch = parts[0].trim().toLowerCase().match(/^in\s+([a-z0-9-]+)(?:\s+(shorter|longer|increasing|decreasing)\s+hue)?$/);
+    if (!methodMatch) return null;
+
+    const space = mapColorMixSpace(methodMatch[1]);
+    if (!space) return null;
+
+    // increasing/decreasing are approximated by longer/shorter arcs
+    const hue: HueInterpolationMethod = methodMatch[2] === 'longer' || methodMatch[2] === 'increasing' ? 'longer' : 'shorter';
+
+    const first = parseMixStop(parts[1]);
+    const second = parseMixStop(parts[2]);
+    if (!first || !second) return null;
+
+    const firstColor = parseColorInternal(first.color, context, depth + 1);
+    const secondColor = parseColorInternal(second.color, context, depth + 1);
+    if (!firstColor || !secondColor) return null;
+
+    // Percentage normalization per CSS Color 5
+    let p1 = first.percentage;
+    let p2 = second.percentage;
+    if (p1 === undefined && p2 === undefined) {
+        p1 = 50;
+        p2 = 50;
+    } else if (p1 === undefined) {
+        p1 = 100 - p2!;
+    } else if (p2 === undefined) {
+        p2 = 100 - p1;
+    }
+
+    const sum = p1 + p2!;
+    if (sum <= 0) return null;
+
+    const mixed = mixRgbColors(firstColor, secondColor, p2! / sum, space, hue);
+
+    // Percentages summing below 100% scale the result alpha down
+    if (sum < 100) {
+        mixed.a = (mixed.a ?? 1) * (sum / 100);
+    }
+
+    return mixed;
+}
+
+function mapColorMixSpace(space: string): ColorInterpolationSpace | null {
+    switch (space) {
+        case 'srgb':
+            return 'srgb';
+        case 'srgb-linear':
+        case 'xyz':
+        case 'xyz-d50':
+        case 'xyz-d65':
+            return 'linear-rgb';
+        case 'oklab':
+        case 'lab':
+            return 'oklab';
+        case 'oklch':
+        case 'lch':
+        case 'hsl':
+        case 'hwb':
+            return 'oklch';
+        default:
+            return null;
+    }
+}
+
+/**
+ * Split a color-mix stop into its color and optional percentage (either order)
+ */
+function parseMixStop(stop: string): { color: string; percentage?: number } | null {
+    const trimmed = stop.trim();
+    const leading = trimmed.match(/^([-+]?\d*\.?\d+)%\s+([\s\S]+)$/);
+    if (leading) {
+        return { color: leading[2], percentage: parseFloat(leading[1]) };
+    }
+
+    const trailing = trimmed.match(/^([\s\S]+?)\s+([-+]?\d*\.?\d+)%$/);
+    if (trailing) {
+        return { color: trailing[1], percentage: parseFloat(trailing[2]) };
+    }
+
+    return trimmed ? { color: trimmed } : null;
+}
+
+//=======================================
+//        CONTEXT-DEPENDENT VALUES
+//=======================================
+
+/**
+ * Resolve var(--token[, fallback]) against the context element or document root
+ */
+function resolveVariable(body: string, context: ColorParseContext | undefined, depth: number): RGBColor | null {
+    const [nameToken, ...fallbackParts] = splitTopLevel(body, ',');
+    const name = nameToken.trim();
+    const fallback = fallbackParts.join(',').trim();
+
+    if (!name.startsWith('--')) return null;
+
+    const resolved = readCustomProperty(name, context?.element);
+    if (resolved) {
+        const color = parseColorInternal(resolved, context, depth + 1);
+        if (color) return color;
+    }
+
+    return fallback ? parseColorInternal(fallback, context, depth + 1) : null;
+}
+
+function readCustomProperty(name: string, element?: HTMLElement): string {
+    if (typeof window === 'undefined' || typeof document === 'undefined') {
+        return '';
+    }
+
+    const target = element || document.documentElement;
+    if (!target) return '';
+
+    try {
+        return window.getComputedStyle(target).getPropertyValue(name).trim();
+    } catch {
+        return '';
+    }
+}
+
+function resolveCurrentColor(context: ColorParseContext | undefined, depth: number): RGBColor | null {
+    if (context?.currentColor && context.currentColor.trim().toLowerCase() !== 'currentcolor') {
+        return parseColorInternal(context.currentColor, context, depth + 1);
+    }
+
+    if (context?.element && typeof window !== 'undefined') {
+        try {
+            const computed = window.getComputedStyle(context.element).color;
+            return computed ? parseColorInternal(computed, undefined, depth + 1) : null;
+        } catch {
+            return null;
+        }
+    }
+
+    return null;
+}
+
+//=======================================
+//        TOKENIZING HELPERS
+//=======================================
+
+/**
+ * Split "name(body)" into its parts, ensuring the outer parentheses are balanced
+ */
+function parseFunctionCall(input: string): { name: string; body: string } | null {
+    const match = input.match(/^([a-zA-Z-]+)\(([\s\S]*)\)$/);
+    if (!match) return null;
+
+    // Make sure the final ")" closes the first "(" (rejects "rgb(1 2 3) foo(4)")
+    let balance = 0;
+    for (let i = match[1].length; i < input.length; i++) {
+        if (input[i] === '(') balance++;
+        if (input[i] === ')') balance--;
+        if (balance === 0 && i !== input.length - 1) return null;
+    }
+
+    return { name: match[1].toLowerCase(), body: match[2] };
+}
+
+/**
+ * Split a string on a separator, ignoring separators inside parentheses
+ */
+function splitTopLevel(input: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of input) {
+        if (char === '(') depth++;
+        if (char === ')') depth--;
+
+        if (char === separator && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+
+    parts.push(current);
+    return parts;
+}
+
+/**
+ * Split a color function body into three channels and an optional alpha
+ * Accepts both "r, g, b, a" (legacy) and "r g b / a" (modern) syntax
+ */
+function splitComponents(body: string): { channels: string[]; alpha?: string } | null {
+    const trimmed = body.trim();
+
+    if (splitTopLevel(trimmed, ',').length > 1) {
+        const parts = splitTopLevel(trimmed, ',').map(part => part.trim());
+        if (parts.length !== 3 && parts.length !== 4) return null;
+        return { channels: parts.slice(0, 3), alpha: parts[3] };
+    }
+
+    const [main, alpha, ...rest] = splitTopLevel(trimmed, '/');
+    if (rest.length > 0) return null;
+
+    const channels = main.trim().split(/\s+/);
+    if (channels.length !== 3) return null;
+
+    return { channels, alpha: alpha?.trim() };
+}
+
+/**
+ * Parse a numeric channel
+ * @param token - Raw token (number, percentage or "none")
+ * @param percentScale - Value that 100% maps to for this channel
+ */
+function parseNumberComponent(token: string | undefined, percentScale: number): number | null {
+    if (token === undefined) return null;
+
+    const value = token.trim().toLowerCase();
+    if (value === 'none') return 0;
+
+    if (/^[-+]?(\d*\.?\d+)(e[-+]?\d+)?%$/.test(value)) {
+        return (parseFloat(value) / 100) * percentScale;
+    }
+
+    if (/^[-+]?(\d*\.?\d+)(e[-+]?\d+)?$/.test(value)) {
+        return parseFloat(value);
+    }
+
+    return null;
+}
+
+/**
+ * Parse a hue channel in degrees (deg, rad, grad, turn or unitless)
+ */
+function parseHueComponent(token: string | undefined): number | null {
+    if (token === undefined) return null;
+
+    const value = token.trim().toLowerCase();
+    if (value === 'none') return 0;
+
+    const match = value.match(/^([-+]?\d*\.?\d+(?:e[-+]?\d+)?)(deg|rad|grad|turn)?$/);
+    if (!match) return null;
+
+    const amount = parseFloat(match[1]);
+    switch (match[2]) {
+        case 'rad': return amount * 180 / Math.PI;
+        case 'grad': return amount * 0.9;
+        case 'turn': return amount * 360;
+        default: return amount;
+    }
+}
+
+/**
+ * Parse an alpha channel (defaults to 1, clamped to 0-1)
+ */
+function parseAlphaComponent(token: string | undefined): number | null {
+    if (token === undefined || token === '') return 1;
+
+    const alpha = parseNumberComponent(token, 1);
+    return alpha === null ? null : Math.max(0, Math.min(1, alpha));
+}
@@ -1,88 +1,43 @@
 /**
  * FAME Animation System - Color Utilities
- * 
- * @fileOverview Color manipulation and animation utilities
- * @version 2.0.0-clean
- * @status PLACEHOLDER - Will copy and adapt from src-refactored
- * 
+ *
+ * @fileOverview Color parsing, conversion and interpolation utilities
+ * @version 2.1.0-oklab-interpolation
+ * @status ACTIVE - Complete color subsystem
+ *
  * @description
  * Color utilities for animating colors, converting between color spaces,
- * and handling color interpolation. Based on working code from src-refactored.
- * 
- * @reference
- * src-refactored/utils/color/
- * - Color parsing and conversion utilities (if they exist)
- * - Color interpolation for smooth color transitions
- * - Support for various color formats (hex, rgb, hsl, etc.)
- * 
+ * and handling color interpolation.
+ *
  * @responsibilities
- * - Parse color values from strings
- * - Convert between color spaces (RGB, HSL, etc.)
- * - Interpolate between colors for smooth animations
+ * - Parse color values from strings (hex, rgb, hsl, hwb, lab, lch, oklab,
+ *   oklch, color-mix(), keywords, currentColor, var(--token, fallback))
+ * - Convert between color spaces (sRGB, linear RGB, HSL, HWB, Lab, OKLab, OKLCH)
+ * - Interpolate between colors in a selectable space (sRGB, linear RGB,
+ *   OKLab, OKLCH with shorter/longer hue)
  * - Handle color format validation
- * - Support for CSS color keywords
+ *
+ * @example
+ * ```typescript
+ * import { parseColor, interpolateColor } from './utils/color/index.ts';
+ *
+ * parseColor('oklch(62.8% 0.258 29.2)');                          // ≈ { r: 255, g: 0, b: 0, a: 1 }
+ * interpolateColor('#ff0066', '#00ccff', 0.5, { space: 'oklch' });
+ * ```
  */
 
-// TODO: Export color utilities
-// export * from './ColorParser.ts';
-// export * from './ColorConverter.ts';
-// export * from './ColorInterpolator.ts';
+// Shared types
+export * from './types.ts';
 
-// TODO: Implement or copy color utilities
-// Files to create/copy:
-// - ColorParser.ts → Parse color strings (hex, rgb, hsl, keywords)
-// - ColorConverter.ts → Convert between color spaces
-// - ColorInterpolator.ts → Smooth color transitions for animations
+// Color space conversions
+export * from './ColorConverter.ts';
 
-/**
- * Parse a color string into RGB components
- * @param colorString - Color in any supported format
- * @returns RGB color object or null if invalid
- */
-export function parseColor(colorString: string): RGBColor | null {
-  // TODO: Implement color parsing
-  // Support formats: #hex, rgb(), rgba(), hsl(), hsla(), CSS keywords
-  throw new Error('PLACEHOLDER - Implement color parsing');
-}
-
-/**
- * Interpolate between two colors
- * @param fromColor - Starting color
- * @param toColor - Ending color
- * @param progress - Animation progress (0-1)
- * @returns Interpolated color
- */
-export function interpolateColor(fromColor: string, toColor: string, progress: number): string {
-  // TODO: Implement color interpolation
-  // Use RGB or HSL interpolation for smooth transitions
-  throw new Error('PLACEHOLDER - Implement color interpolation');
-}
+// Parsing and validation
+export { parseColor, isValidColor, clearColorParseCache } from './ColorParser.ts';
 
-/**
- * RGB color interface
- */
-export interface RGBColor {
-  r: number; // 0-255
-  g: number; // 0-255
-  b: number; // 0-255
-  a?: number; // 0-1 (alpha)
-}
-
-/**
- * HSL color interface
- */
-export interface HSLColor {
-  h: number; // 0-360 (hue)
-  s: number; // 0-100 (saturation)
-  l: number; // 0-100 (lightness)
-  a?: number; // 0-1 (alpha)
-}
+// Mixing and interpolation
+export { mixRgbColors } from './ColorMixer.ts';
+export * from './ColorInterpolator.ts';
 
-/*
-IMPLEMENTATION NOTES:
-- Focus on performance for animation use cases
-- Support all common CSS color formats
-- Provide smooth interpolation for color animations
-- Handle edge cases (invalid colors, alpha channels)
-- Consider using existing color libraries if appropriate
-*/ 
\ No newline at end of file
+// Named keywords table
+export { NAMED_COLORS } from './NamedColors.ts';
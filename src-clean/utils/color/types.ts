@@ -0,0 +1,109 @@
+/**
+ * FAME Animation System - Color Types
+ *
+ * @fileOverview Shared types for the color system
+ * @version 2.1.0-oklab-interpolation
+ * @status ACTIVE - Shared types to avoid circular imports
+ *
+ * @description
+ * Shared type definitions for color parsing, conversion and interpolation.
+ * Separated to avoid circular import issues in Framer environment.
+ */
+
+/**
+ * RGB color interface
+ *
+ * @description
+ * Channels are kept as floats (not rounded) so that repeated conversions
+ * stay precise. Values can leave the 0-255 range for out-of-gamut colors
+ * (e.g. wide oklch chroma); formatting clamps them back into sRGB.
+ */
+export interface RGBColor {
+    r: number; // 0-255
+    g: number; // 0-255
+    b: number; // 0-255
+    a?: number; // 0-1 (alpha)
+}
+
+/**
+ * HSL color interface
+ */
+export interface HSLColor {
+    h: number; // 0-360 (hue)
+    s: number; // 0-100 (saturation)
+    l: number; // 0-100 (lightness)
+    a?: number; // 0-1 (alpha)
+}
+
+/**
+ * OKLab color interface (perceptually uniform, cartesian)
+ */
+export interface OKLabColor {
+    l: number; // 0-1 (lightness)
+    a: number; // ~-0.4-0.4 (green-red axis)
+    b: number; // ~-0.4-0.4 (blue-yellow axis)
+    alpha?: number; // 0-1
+}
+
+/**
+ * OKLCH color interface (perceptually uniform, polar)
+ */
+export interface OKLCHColor {
+    l: number; // 0-1 (lightness)
+    c: number; // 0-~0.4 (chroma)
+    h: number; // 0-360 (hue, NaN when achromatic)
+    alpha?: number; // 0-1
+}
+
+/**
+ * Color space used for interpolation
+ *
+ * @description
+ * Mirrors the CSS `color-interpolation-method` spaces we support:
+ * - srgb: gamma-encoded sRGB (legacy browser behavior, muddy midpoints)
+ * - linear-rgb: physically linear light mixing
+ * - oklab: perceptually uniform, no grey dip between saturated colors (default)
+ * - oklch: perceptually uniform with hue rotation
+ */
+export type ColorInterpolationSpace = 'srgb' | 'linear-rgb' | 'oklab' | 'oklch';
+
+/**
+ * Hue interpolation method for polar spaces (oklch)
+ */
+export type HueInterpolationMethod = 'shorter' | 'longer';
+
+/**
+ * Context used to resolve element-dependent colors
+ *
+ * @description
+ * `currentColor` and `var(--token)` can only be resolved against an element.
+ * When no element is given, tokens resolve against the document root and
+ * `currentColor` falls back to `currentColor` (if provided) or fails to parse.
+ */
+export interface ColorParseContext {
+    /** Element used to resolve `currentColor` and CSS custom properties */
+    element?: HTMLElement;
+
+    /** Explicit value for `currentColor` (takes precedence over element lookup) */
+    currentColor?: string;
+}
+
+/**
+ * Options for color interpolation
+ */
+export interface ColorInterpolationOptions {
+    /** Interpolation space (default: 'oklab') */
+    space?: ColorInterpolationSpace;
+
+    /** Hue interpolation method for polar spaces (default: 'shorter') */
+    hue?: HueInterpolationMethod;
+
+    /** Context for resolving `currentColor` and `var()` tokens */
+    context?: ColorParseContext;
+}
+
+/** Default interpolation space for all color animations */
+export const DEFAULT_COLOR_SPACE: ColorInterpolationSpace = 'oklab';
+
+/** Default hue interpolation method */
+export const DEFAULT_HUE_INTERPOLATION: HueInterpolationMethod = 'shorter';
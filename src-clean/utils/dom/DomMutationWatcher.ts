@@ -0,0 +1,126 @@
+/**
+ * @file DomMutationWatcher.ts
+ * @description Batched MutationObserver notifications for live element re-resolution
+ *
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @description
+ * Framer CMS lists (load more, pagination, filters) and conditional layers add and
+ * remove elements after FAME resolved its selections. A watch reports that the element
+ * structure below its roots changed, so the caller can resolve its selection again.
+ *
+ * Only structural changes count: attribute and style changes (including the ones FAME
+ * makes while animating) are not observed, text-only changes are ignored, and so are
+ * the nodes TextSplitter creates when it splits text. Bursts of mutations are collapsed
+ * into one callback once the DOM has been quiet for MUTATION_SETTLE_MS.
+ *
+ * @example
+ * ```typescript
+ * const stop = domMutationWatcher.watch([listElement], () => {
+ *     // Re-run the selection and diff the matches
+ * });
+ * stop();
+ * ```
+ */
+
+/** Quiet time before a burst of mutations is reported */
+const MUTATION_SETTLE_MS = 100;
+
+/** Nodes created by TextSplitter */
+const FAME_GENERATED_SELECTOR = '[data-fame-split], .fame-line-mask';
+
+/**
+ * DOM Mutation Watcher
+ *
+ * @description
+ * Singleton handing out one MutationObserver per watch. Each watch observes its own
+ * roots so a slot's notifications are never delayed by another slot's busy list.
+ */
+export class DomMutationWatcher {
+    private static instance: DomMutationWatcher | null = null;
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): DomMutationWatcher {
+        if (!DomMutationWatcher.instance) {
+            DomMutationWatcher.instance = new DomMutationWatcher();
+        }
+        return DomMutationWatcher.instance;
+    }
+
+    private constructor() {}
+
+    /**
+     * Check if mutation tracking is available in this environment
+     */
+    isSupported(): boolean {
+        return typeof window !== 'undefined' && typeof MutationObserver !== 'undefined';
+    }
+
+    /**
+     * Watch the element structure below a set of roots
+     * @param roots - Subtrees to observe (nested roots are fine)
+     * @param callback - Called once per settled burst of relevant mutations
+     * @returns Cleanup function that stops watching
+     */
+    watch(roots: Node[], callback: () => void): () => void {
+        const uniqueRoots = Array.from(new Set(roots));
+        if (!this.isSupported() || uniqueRoots.length === 0) {
+            return () => {};
+        }
+
+        let settleTimer: ReturnType<typeof setTimeout> | null = null;
+
+        const observer = new MutationObserver(records => {
+            if (!records.some(record => this.isRelevant(record))) return;
+
+            if (settleTimer !== null) {
+                clearTimeout(settleTimer);
+            }
+            settleTimer = setTimeout(() => {
+                settleTimer = null;
+                callback();
+            }, MUTATION_SETTLE_MS);
+        });
+
+        uniqueRoots.forEach(root => observer.observe(root, { childList: true, subtree: true }));
+
+        return () => {
+            observer.disconnect();
+            if (settleTimer !== null) {
+                clearTimeout(settleTimer);
+                settleTimer = null;
+            }
+        };
+    }
+
+    /**
+     * Check if a mutation added or removed elements that selections could match
+     */
+    private isRelevant(record: MutationRecord): boolean {
+        // Re-splitting text replaces the contents of split elements
+        if (record.target instanceof Element && record.target.closest(FAME_GENERATED_SELECTOR)) {
+            return false;
+        }
+
+        return this.hasAuthoredElement(record.addedNodes) || this.hasAuthoredElement(record.removedNodes);
+    }
+
+    /**
+     * Check if a node list contains an element that FAME did not generate
+     */
+    private hasAuthoredElement(nodes: NodeList): boolean {
+        for (let i = 0; i < nodes.length; i++) {
+            const node = nodes[i];
+            if (node instanceof Element && !node.matches(FAME_GENERATED_SELECTOR)) {
+                return true;
+            }
+        }
+        return false;
+    }
+}
+
+// Export singleton instance for use across the system
+export const domMutationWatcher = DomMutationWatcher.getInstance();
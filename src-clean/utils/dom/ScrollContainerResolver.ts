@@ -0,0 +1,162 @@
+/**
+ * @file ScrollContainerResolver.ts
+ * @description Resolves which container and axis a scroll-driven slot tracks
+ *
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @description
+ * Scroll slots used to assume vertical window scrolling. A ScrollTarget pairs the
+ * scroll container (window or an overflow element) with the axis to read, so trackers
+ * can measure positions along either axis with the same code.
+ *
+ * Resolution order:
+ * 1. Explicit `scrollContainer` selector (closest ancestor of the trigger, then anywhere in the document)
+ * 2. Nearest ancestor that scrolls along the requested axis ('auto' accepts either axis)
+ * 3. The window
+ *
+ * With axis 'auto' the container decides: horizontal when it only scrolls sideways,
+ * vertical otherwise.
+ *
+ * @example
+ * ```typescript
+ * const target = resolveScrollTarget(triggerElement, { axis: 'auto' });
+ * const scrolled = getScrollPosition(target);
+ * const { start, size } = getScrollViewport(target);
+ * ```
+ */
+
+import type { ScrollAxisConfig } from '../../types/index.ts';
+
+/** Axis after resolving 'auto' */
+export type ResolvedScrollAxis = 'x' | 'y';
+
+/**
+ * Scroll container and the axis read from it
+ */
+export interface ScrollTarget {
+    container: HTMLElement | Window;
+    axis: ResolvedScrollAxis;
+}
+
+/**
+ * Check if an element is a scroll container along an axis
+ */
+function scrollsAlong(element: HTMLElement, axis: ResolvedScrollAxis): boolean {
+    const style = window.getComputedStyle(element);
+    const overflow = axis === 'x' ? style.overflowX : style.overflowY;
+    if (overflow !== 'auto' && overflow !== 'scroll') {
+        return false;
+    }
+
+    return axis === 'x'
+        ? element.scrollWidth > element.clientWidth
+        : element.scrollHeight > element.clientHeight;
+}
+
+/**
+ * Pick the axis of a container for 'auto' - horizontal only when it cannot scroll vertically
+ */
+function detectAxis(container: HTMLElement | Window): ResolvedScrollAxis {
+    const element = container === window ? document.documentElement : container as HTMLElement;
+    const overflowsX = element.scrollWidth > element.clientWidth;
+    const overflowsY = element.scrollHeight > element.clientHeight;
+    return overflowsX && !overflowsY ? 'x' : 'y';
+}
+
+/**
+ * Find the container named by a selector
+ */
+function findExplicitContainer(triggerElement: HTMLElement | null, selector: string): HTMLElement | null {
+    try {
+        return (triggerElement?.closest(selector) as HTMLElement | null) ||
+            document.querySelector<HTMLElement>(selector);
+    } catch (error) {
+        console.warn(`↔️ [ScrollContainerResolver] Invalid scroll container selector "${selector}"`, error);
+        return null;
+    }
+}
+
+/**
+ * Resolve the scroll container and axis for a trigger element
+ * @param triggerElement - Element whose ancestors are searched (null = no element, e.g. global direction detection)
+ * @param config - Axis and optional container selector (default: vertical, auto-detected container)
+ * @returns Container and resolved axis
+ */
+export function resolveScrollTarget(
+    triggerElement: HTMLElement | null,
+    config?: ScrollAxisConfig
+): ScrollTarget {
+    const requestedAxis = config?.axis || 'y';
+
+    // 1. Explicit container selector
+    if (config?.scrollContainer) {
+        const container = findExplicitContainer(triggerElement, config.scrollContainer);
+        if (container) {
+            return {
+                container,
+                axis: requestedAxis === 'auto' ? detectAxis(container) : requestedAxis
+            };
+        }
+        console.warn(`↔️ [ScrollContainerResolver] Scroll container "${config.scrollContainer}" not found - detecting automatically`);
+    }
+
+    // 2. Nearest ancestor scrolling along the axis
+    let current: HTMLElement | null = triggerElement;
+    while (current && current !== document.body && current !== document.documentElement) {
+        if (requestedAxis === 'auto') {
+            if (scrollsAlong(current, 'y')) return { container: current, axis: 'y' };
+            if (scrollsAlong(current, 'x')) return { container: current, axis: 'x' };
+        } else if (scrollsAlong(current, requestedAxis)) {
+            return { container: current, axis: requestedAxis };
+        }
+        current = current.parentElement;
+    }
+
+    // 3. Window (most common case)
+    return {
+        container: window,
+        axis: requestedAxis === 'auto' ? detectAxis(window) : requestedAxis
+    };
+}
+
+/**
+ * Current scroll offset along the target's axis
+ */
+export function getScrollPosition(target: ScrollTarget): number {
+    if (target.container === window) {
+        return (target.axis === 'x' ? window.scrollX : window.scrollY) || 0;
+    }
+
+    const element = target.container as HTMLElement;
+    return (target.axis === 'x' ? element.scrollLeft : element.scrollTop) || 0;
+}
+
+/**
+ * Visible area of the container along the target's axis
+ * @returns Viewport-relative start edge and size in pixels
+ */
+export function getScrollViewport(target: ScrollTarget): { start: number; size: number } {
+    if (target.container === window) {
+        return {
+            start: 0,
+            size: target.axis === 'x' ? window.innerWidth : window.innerHeight
+        };
+    }
+
+    const element = target.container as HTMLElement;
+    const rect = element.getBoundingClientRect();
+    return target.axis === 'x'
+        ? { start: rect.left + element.clientLeft, size: element.clientWidth }
+        : { start: rect.top + element.clientTop, size: element.clientHeight };
+}
+
+/**
+ * Element's viewport-relative start edge and layout size along an axis
+ */
+export function getElementExtent(element: HTMLElement, axis: ResolvedScrollAxis): { start: number; size: number } {
+    const rect = element.getBoundingClientRect();
+    return axis === 'x'
+        ? { start: rect.left, size: element.offsetWidth }
+        : { start: rect.top, size: element.offsetHeight };
+}
@@ -0,0 +1,345 @@
+/**
+ * FAME Animation System - CSS Easing Parser
+ *
+ * @fileOverview Parses CSS easing strings into easing curves
+ * @version 1.0.0
+ * @status ACTIVE
+ *
+ * @description
+ * Turns any CSS <easing-function> into a curve usable by applyEasing, so curves copied
+ * from CSS, Figma or DevTools work wherever an easing name is accepted
+ * (PropertyKeyframe.easing, TimingConfig.easing, GlobalTimelineConfig.easing).
+ *
+ * Supported syntax:
+ * - Keywords: ease, ease-in, ease-out, ease-in-out, step-start, step-end
+ * - cubic-bezier(x1, y1, x2, y2)
+ * - steps(n, jump-start | jump-end | jump-none | jump-both | start | end)
+ * - linear(0, 0.25 40%, 1) - multi-point linear with optional input percentages
+ *
+ * Parsed curves are cached by their normalized string. Invalid strings are cached
+ * too, so they only warn once.
+ *
+ * @example
+ * ```typescript
+ * const curve = parseCssEasing('cubic-bezier(.16, 1, .3, 1)');
+ * curve?.(0.5); // ≈ 0.97
+ *
+ * parseCssEasing('steps(4, jump-end)')?.(0.3);     // 0.25
+ * parseCssEasing('linear(0, 0.8 30%, 1)')?.(0.15); // 0.4
+ * ```
+ */
+
+/**
+ * Easing curve: maps time progress (0-1) to eased progress
+ */
+export type EasingCurve = (t: number) => number;
+
+/** CSS easing keywords and their function equivalents */
+const CSS_EASING_KEYWORDS: Record<string, string> = {
+    'ease': 'cubic-bezier(0.25, 0.1, 0.25, 1)',
+    'ease-in': 'cubic-bezier(0.42, 0, 1, 1)',
+    'ease-out': 'cubic-bezier(0, 0, 0.58, 1)',
+    'ease-in-out': 'cubic-bezier(0.42, 0, 0.58, 1)',
+    'step-start': 'steps(1, jump-start)',
+    'step-end': 'steps(1, jump-end)'
+};
+
+/** CSS easing functions handled by this parser */
+const CSS_EASING_FUNCTION_PATTERN = /^(cubic-bezier|steps|linear)\s*\((.*)\)$/;
+
+/** Maximum number of cached curves (oldest entry is dropped first) */
+const MAX_CACHED_CURVES = 200;
+
+/** Normalized easing string → parsed curve (null = invalid) */
+const curveCache = new Map<string, EasingCurve | null>();
+
+/**
+ * Check whether an easing string looks like CSS (keyword or easing function), valid or not
+ * Used to route strings to the CSS parser rather than the FAME easing names.
+ * @param easing - Easing string
+ */
+export function isCssEasingSyntax(easing: string): boolean {
+    const normalized = normalizeEasing(easing);
+    return normalized in CSS_EASING_KEYWORDS || CSS_EASING_FUNCTION_PATTERN.test(normalized);
+}
+
+/**
+ * Check whether an easing string is valid CSS easing
+ * Malformed functions such as "cubic-bezier(0, 0, 1)" or "linear()" are rejected.
+ * @param easing - Easing string
+ */
+export function isCssEasing(easing: string): boolean {
+    return isCssEasingSyntax(easing) && getCachedCurve(normalizeEasing(easing)) !== null;
+}
+
+/**
+ * Parse a CSS easing string into a curve
+ * @param easing - CSS easing string
+ * @returns Easing curve, or null when the string is not valid CSS easing syntax
+ */
+export function parseCssEasing(easing: string): EasingCurve | null {
+    const normalized = normalizeEasing(easing);
+    const isCached = curveCache.has(normalized);
+
+    const curve = getCachedCurve(normalized);
+    if (!curve && !isCached) {
+        console.warn(`🎯 [CssEasing] Invalid CSS easing "${easing}". Falling back to linear.`);
+    }
+
+    return curve;
+}
+
+//=======================================
+//        INTERNAL HELPERS
+//=======================================
+
+function normalizeEasing(easing: string): string {
+    return easing.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function getCachedCurve(normalized: string): EasingCurve | null {
+    if (curveCache.has(normalized)) {
+        return curveCache.get(normalized)!;
+    }
+
+    const curve = createCurve(normalized);
+    if (curveCache.size >= MAX_CACHED_CURVES) {
+        const oldestKey = curveCache.keys().next().value;
+        if (oldestKey !== undefined) curveCache.delete(oldestKey);
+    }
+    curveCache.set(normalized, curve);
+
+    return curve;
+}
+
+function createCurve(normalized: string): EasingCurve | null {
+    const keyword = CSS_EASING_KEYWORDS[normalized];
+    if (keyword) {
+        return createCurve(keyword);
+    }
+
+    const match = normalized.match(CSS_EASING_FUNCTION_PATTERN);
+    if (!match) return null;
+
+    const [, name, rawArgs] = match;
+    const args = rawArgs.split(',').map(arg => arg.trim());
+
+    switch (name) {
+        case 'cubic-bezier':
+            return createCubicBezierCurve(args);
+        case 'steps':
+            return createStepsCurve(args);
+        case 'linear':
+            return createLinearCurve(args);
+        default:
+            return null;
+    }
+}
+
+/**
+ * Parse a plain CSS number (no units)
+ */
+function parseNumber(value: string): number | null {
+    if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/.test(value)) return null;
+    return parseFloat(value);
+}
+
+/**
+ * cubic-bezier(x1, y1, x2, y2)
+ *
+ * @description
+ * Solves x(t) = progress with Newton-Raphson, falling back to bisection where the
+ * slope is too flat, then evaluates y(t). x1 and x2 must be within [0, 1].
+ */
+function createCubicBezierCurve(args: string[]): EasingCurve | null {
+    if (args.length !== 4) return null;
+
+    const values = args.map(parseNumber);
+    if (values.some(value => value === null)) return null;
+
+    const [x1, y1, x2, y2] = values as number[];
+    if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) return null;
+
+    // Straight line - no solving needed
+    if (x1 === y1 && x2 === y2) {
+        return (t: number) => t;
+    }
+
+    // Polynomial coefficients: B(t) = ((a * t + b) * t + c) * t
+    const cx = 3 * x1;
+    const bx = 3 * (x2 - x1) - cx;
+    const ax = 1 - cx - bx;
+    const cy = 3 * y1;
+    const by = 3 * (y2 - y1) - cy;
+    const ay = 1 - cy - by;
+
+    const sampleX = (t: number) => ((ax * t + bx) * t + cx) * t;
+    const sampleY = (t: number) => ((ay * t + by) * t + cy) * t;
+    const sampleSlopeX = (t: number) => (3 * ax * t + 2 * bx) * t + cx;
+
+    const solveT = (x: number): number => {
+        // Newton-Raphson - converges in a few steps for most curves
+        let t = x;
+        for (let i = 0; i < 8; i++) {
+            const error = sampleX(t) - x;
+            if (Math.abs(error) < 1e-7) return t;
+
+            const slope = sampleSlopeX(t);
+            if (Math.abs(slope) < 1e-6) break;
+            t -= error / slope;
+        }
+
+        // Bisection - always converges because x(t) is monotonic for x1, x2 in [0, 1]
+        let low = 0;
+        let high = 1;
+        t = x;
+        for (let i = 0; i < 40; i++) {
+            const current = sampleX(t);
+            if (Math.abs(current - x) < 1e-7) break;
+
+            if (current < x) {
+                low = t;
+            } else {
+                high = t;
+            }
+            t = (low + high) / 2;
+        }
+        return t;
+    };
+
+    return (t: number) => {
+        if (t <= 0) return 0;
+        if (t >= 1) return 1;
+        return sampleY(solveT(t));
+    };
+}
+
+/**
+ * steps(n, <step-position>)
+ *
+ * @description
+ * Follows the CSS step easing algorithm (without the "before flag", which only
+ * matters for fill-backwards phases FAME does not have).
+ */
+function createStepsCurve(args: string[]): EasingCurve | null {
+    if (args.length < 1 || args.length > 2) return null;
+
+    const steps = parseNumber(args[0]);
+    if (steps === null || !Number.isInteger(steps) || steps < 1) return null;
+
+    const position = args[1] || 'jump-end';
+    const jumpsAtStart = position === 'jump-start' || position === 'start' || position === 'jump-both';
+
+    let jumps: number;
+    switch (position) {
+        case 'jump-start':
+        case 'start':
+        case 'jump-end':
+        case 'end':
+            jumps = steps;
+            break;
+        case 'jump-none':
+            if (steps < 2) return null;
+            jumps = steps - 1;
+            break;
+        case 'jump-both':
+            jumps = steps + 1;
+            break;
+        default:
+            return null;
+    }
+
+    return (t: number) => {
+        let step = Math.floor(t * steps);
+        if (jumpsAtStart) step += 1;
+        if (t >= 0 && step < 0) step = 0;
+        if (t <= 1 && step > jumps) step = jumps;
+        return step / jumps;
+    };
+}
+
+/**
+ * linear(<point>, ...) where a point is "output [input%] [input%]"
+ *
+ * @description
+ * Missing inputs are filled in as CSS specifies: the first defaults to 0%, the last to
+ * 100%, inputs never go backwards, and runs of missing inputs are spread evenly.
+ */
+function createLinearCurve(args: string[]): EasingCurve | null {
+    const points: { output: number; input: number | null }[] = [];
+
+    for (const arg of args) {
+        const parts = arg.split(' ').filter(Boolean);
+        if (parts.length < 1 || parts.length > 3) return null;
+
+        const output = parseNumber(parts[0]);
+        if (output === null) return null;
+
+        const inputs: number[] = [];
+        for (const part of parts.slice(1)) {
+            if (!part.endsWith('%')) return null;
+            const percentage = parseNumber(part.slice(0, -1));
+            if (percentage === null) return null;
+            inputs.push(percentage / 100);
+        }
+
+        // "0.5 20% 40%" is shorthand for two points with the same output
+        if (inputs.length === 0) {
+            points.push({ output, input: null });
+        } else {
+            inputs.forEach(input => points.push({ output, input }));
+        }
+    }
+
+    if (points.length < 2) return null;
+
+    // Default first/last inputs
+    if (points[0].input === null) points[0].input = 0;
+    if (points[points.length - 1].input === null) points[points.length - 1].input = 1;
+
+    // Inputs never decrease
+    let largestInput = -Infinity;
+    points.forEach(point => {
+        if (point.input === null) return;
+        if (point.input < largestInput) point.input = largestInput;
+        largestInput = point.input;
+    });
+
+    // Spread runs of missing inputs evenly between their known neighbours
+    for (let i = 1; i < points.length; i++) {
+        if (points[i].input !== null) continue;
+
+        let runEnd = i;
+        while (points[runEnd].input === null) runEnd++;
+
+        const startInput = points[i - 1].input!;
+        const endInput = points[runEnd].input!;
+        const segments = runEnd - (i - 1);
+        for (let j = i; j < runEnd; j++) {
+            points[j].input = startInput + ((endInput - startInput) * (j - (i - 1))) / segments;
+        }
+        i = runEnd;
+    }
+
+    const resolved = points as { output: number; input: number }[];
+
+    return (t: number) => {
+        if (t <= resolved[0].input) return resolved[0].output;
+
+        const last = resolved[resolved.length - 1];
+        if (t >= last.input) return last.output;
+
+        // Last segment containing t (equal inputs create an instant jump)
+        for (let i = resolved.length - 1; i > 0; i--) {
+            const start = resolved[i - 1];
+            const end = resolved[i];
+            if (t >= start.input && t <= end.input) {
+                if (end.input === start.input) return end.output;
+                const segmentProgress = (t - start.input) / (end.input - start.input);
+                return start.output + (end.output - start.output) * segmentProgress;
+            }
+        }
+
+        return last.output;
+    };
+}
@@ -18,6 +18,8 @@
  * - Spring functions: spring.in and spring.out with amplitude and period
  * 
  * @new_features
+ * - Physics spring (spring.physics): mass/stiffness/damping with settling-time duration
+ * - CSS easing strings: cubic-bezier(), steps(), linear() and keywords (see CssEasing.ts)
  * - Cubic-bezier easing support
  * - Smooth easings (Smooth Out, Smooth In)
  * - Advanced easings (Pause, Out-N-in variants)
@@ -39,21 +41,49 @@
  * const easedProgress = applyEasing(0.5, 'cubic.inout'); // 0.75
  * const springProgress = applyEasing(0.5, 'spring.out', { amplitude: 1.2, period: 0.4 }); // with spring config
  * const smoothProgress = applyEasing(0.5, 'smooth.out'); // Custom cubic-bezier curve
+ * const physicsProgress = applyEasing(0.5, 'spring.physics', { stiffness: 170, damping: 26 });
  * ```
  */
 
+import { isCssEasingSyntax, parseCssEasing } from './CssEasing.ts';
+
 // ============================================================================
 // 🎯 SPRING CONFIGURATION
 // ============================================================================
 
 /**
  * Spring configuration for spring-based easing functions
+ * 
+ * amplitude/period shape the curve-based springs (spring, spring.in, spring.out).
+ * mass/stiffness/damping/rest thresholds drive the physics spring (spring.physics).
  */
 export interface SpringConfig {
     /** Controls the intensity of the oscillation (1-10) */
     amplitude?: number;
     /** Controls the speed of the oscillation (0.1-2) */
     period?: number;
+    /** Physics spring: moving mass (default 1) */
+    mass?: number;
+    /** Physics spring: spring stiffness (default 170) */
+    stiffness?: number;
+    /** Physics spring: damping coefficient (default 26) */
+    damping?: number;
+    /** Physics spring: distance from target treated as settled, in progress units (default 0.001) */
+    restDelta?: number;
+    /** Physics spring: speed treated as settled, in progress units per second (default 0.01) */
+    restSpeed?: number;
+    /** Physics spring: initial velocity in progress units per second (set by velocity handoff) */
+    velocity?: number;
+}
+
+/**
+ * Position and velocity of a physics spring at a point in time
+ */
+export interface SpringState {
+    /** Progress from start (0) to target (1), may overshoot */
+    position: number;
+    /** Velocity in progress units per second */
+    velocity: number;
 }
 
 // ============================================================================
@@ -168,6 +198,11 @@ export const EasingFunctions = {
     spring: (t: number, config?: SpringConfig) => {
         return originalElasticOut(t, config);
     },
+
+    // 🆕 NEW: Physics spring - mass/stiffness/damping, duration from settling time
+    "spring.physics": (t: number, config?: SpringConfig) => {
+        return physicsSpring(t, config);
+    },
 };
 
 /**
@@ -198,6 +233,144 @@ function originalElasticOut(t: number, config?: SpringConfig): number {
     );
 }
 
+// ============================================================================
+// 🎯 PHYSICS SPRING
+// ============================================================================
+
+/** Physics spring defaults (critically damped feel at ~0.6s settling time) */
+const PHYSICS_SPRING_DEFAULTS = {
+    mass: 1,
+    stiffness: 170,
+    damping: 26,
+    restDelta: 0.001,
+    restSpeed: 0.01
+};
+
+/** Step used to search the settling time (seconds) */
+const SETTLE_STEP = 1 / 120;
+
+/** Upper bound for settling time so extreme configs cannot stall a timeline (seconds) */
+const MAX_SETTLE_DURATION = 10;
+
+/** Settling times per configuration - applyEasing runs every frame */
+const settleDurationCache = new Map<string, number>();
+
+/**
+ * Resolve physics spring parameters with defaults and guards against invalid values
+ */
+function resolvePhysicsSpring(config?: SpringConfig) {
+    const positive = (value: number | undefined, fallback: number) =>
+        typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+    return {
+        mass: positive(config?.mass, PHYSICS_SPRING_DEFAULTS.mass),
+        stiffness: positive(config?.stiffness, PHYSICS_SPRING_DEFAULTS.stiffness),
+        damping: typeof config?.damping === 'number' && config.damping >= 0 ? config.damping : PHYSICS_SPRING_DEFAULTS.damping,
+        restDelta: positive(config?.restDelta, PHYSICS_SPRING_DEFAULTS.restDelta),
+        restSpeed: positive(config?.restSpeed, PHYSICS_SPRING_DEFAULTS.restSpeed),
+        velocity: typeof config?.velocity === 'number' && Number.isFinite(config.velocity) ? config.velocity : 0
+    };
+}
+
+/**
+ * Solve the damped harmonic oscillator moving from 0 to 1
+ * 
+ * Closed-form solution for under-, critically and over-damped springs, so the result
+ * does not depend on frame rate.
+ * 
+ * @param time - Seconds since the spring started
+ * @param config - Physics spring configuration (velocity = initial velocity)
+ * @returns Position (0 → 1) and velocity at that time
+ */
+export function getSpringState(time: number, config?: SpringConfig): SpringState {
+    const { mass, stiffness, damping, velocity } = resolvePhysicsSpring(config);
+    const t = Math.max(0, time);
+
+    const omega0 = Math.sqrt(stiffness / mass);
+    const zeta = damping / (2 * Math.sqrt(stiffness * mass));
+
+    // Displacement from target: d(0) = -1, d'(0) = initial velocity
+    const d0 = -1;
+    let displacement: number;
+    let speed: number;
+
+    if (zeta < 1) {
+        // Underdamped: oscillates around the target
+        const omegaD = omega0 * Math.sqrt(1 - zeta * zeta);
+        const decay = Math.exp(-zeta * omega0 * t);
+        const a = d0;
+        const b = (velocity + zeta * omega0 * a) / omegaD;
+        const cos = Math.cos(omegaD * t);
+        const sin = Math.sin(omegaD * t);
+
+        displacement = decay * (a * cos + b * sin);
+        speed = decay * ((b * omegaD - zeta * omega0 * a) * cos - (a * omegaD + zeta * omega0 * b) * sin);
+    } else if (zeta === 1) {
+        // Critically damped: fastest approach without oscillation
+        const decay = Math.exp(-omega0 * t);
+        const a = d0;
+        const b = velocity + omega0 * a;
+
+        displacement = (a + b * t) * decay;
+        speed = (b - omega0 * (a + b * t)) * decay;
+    } else {
+        // Overdamped: slow approach without oscillation
+        const root = omega0 * Math.sqrt(zeta * zeta - 1);
+        const r1 = -zeta * omega0 + root;
+        const r2 = -zeta * omega0 - root;
+        const c2 = (velocity - r1 * d0) / (r2 - r1);
+        const c1 = d0 - c2;
+
+        displacement = c1 * Math.exp(r1 * t) + c2 * Math.exp(r2 * t);
+        speed = c1 * r1 * Math.exp(r1 * t) + c2 * r2 * Math.exp(r2 * t);
+    }
+
+    return {
+        position: 1 + displacement,
+        velocity: speed
+    };
+}
+
+/**
+ * Calculate how long a physics spring takes to settle
+ * 
+ * The spring is settled once it stays within restDelta of the target while moving
+ * slower than restSpeed. This is the duration of a spring.physics animation.
+ * 
+ * @param config - Physics spring configuration
+ * @returns Settling time in seconds
+ */
+export function calculateSpringDuration(config?: SpringConfig): number {
+    const resolved = resolvePhysicsSpring(config);
+    const cacheKey = `${resolved.mass}|${resolved.stiffness}|${resolved.damping}|${resolved.restDelta}|${resolved.restSpeed}|${resolved.velocity}`;
+
+    const cached = settleDurationCache.get(cacheKey);
+    if (cached !== undefined) return cached;
+
+    let duration = MAX_SETTLE_DURATION;
+    for (let time = SETTLE_STEP; time < MAX_SETTLE_DURATION; time += SETTLE_STEP) {
+        const state = getSpringState(time, config);
+        if (Math.abs(1 - state.position) <= resolved.restDelta && Math.abs(state.velocity) <= resolved.restSpeed) {
+            duration = time;
+            break;
+        }
+    }
+
+    settleDurationCache.set(cacheKey, duration);
+    return duration;
+}
+
+/**
+ * Physics spring as an easing curve
+ * Maps progress (0-1) onto the spring's settling time
+ */
+function physicsSpring(t: number, config?: SpringConfig): number {
+    if (t <= 0) return 0;
+    if (t >= 1) return 1;
+
+    return getSpringState(t * calculateSpringDuration(config), config).position;
+}
+
 // ============================================================================
 // 🎯 MAIN EASING FUNCTION
 // ============================================================================
@@ -207,7 +380,7 @@ function originalElasticOut(t: number, config?: SpringConfig): number {
  * Enhanced version with spring configuration support
  * 
  * @param progress - Linear progress value (0-1)
- * @param easingType - Easing curve type
+ * @param easingType - Easing curve type or CSS easing string
  * @param springConfig - Optional spring configuration for spring easings
  * @returns Eased progress value (0-1)
  * 
@@ -220,9 +393,22 @@ function originalElasticOut(t: number, config?: SpringConfig): number {
  * // Spring easings with configuration
  * applyEasing(0.5, 'spring.out', { amplitude: 1.2, period: 0.4 }) // Custom spring
  * applyEasing(0.7, 'spring.in')   // Default spring in
+ * applyEasing(0.5, 'spring.physics', { mass: 1, stiffness: 170, damping: 26 }) // Physics spring
+ * 
+ * // CSS easing strings
+ * applyEasing(0.5, 'cubic-bezier(.16, 1, .3, 1)')
+ * applyEasing(0.5, 'steps(4, jump-end)')
+ * applyEasing(0.5, 'linear(0, 0.8 30%, 1)')
  * ```
  */
 export function applyEasing(progress: number, easingType: string, springConfig?: SpringConfig): number {
+    // CSS easing strings - checked first because steps()/linear() may not start at 0 or end at 1
+    if (isCssEasingSyntax(easingType)) {
+        const curve = parseCssEasing(easingType);
+        const clampedProgress = Math.max(0, Math.min(progress, 1));
+        return curve ? curve(clampedProgress) : clampedProgress; // Linear fallback for invalid syntax
+    }
+    
     // Always return exact values at boundaries
     if (progress <= 0) return 0;
     if (progress >= 1) return 1;
@@ -232,6 +418,8 @@ export function applyEasing(progress: number, easingType: string, springConfig?:
         // Apply appropriate spring function (exact copy of original logic)
         if (easingType === 'spring.in') {
             return EasingFunctions['spring.in'](progress, springConfig);
+        } else if (easingType === 'spring.physics') {
+            return EasingFunctions['spring.physics'](progress, springConfig);
         } else {
             // Default to spring.out for all other spring variants (including "spring")
             return EasingFunctions['spring.out'](progress, springConfig);
@@ -288,7 +476,8 @@ export const EASING_OPTIONS = [
     'back.in',
     'spring',
     'spring.in',
-    'spring.out'
+    'spring.out',
+    'spring.physics'
 ] as const;
 
 /**
@@ -312,12 +501,22 @@ export function isSpringEasing(easingType: string): boolean {
     return easingType.startsWith('spring');
 }
 
+/**
+ * Check if an easing type is the physics spring (duration comes from settling time)
+ */
+export function isPhysicsSpringEasing(easingType: string | undefined): boolean {
+    return easingType === 'spring.physics';
+}
+
 /**
  * Get default spring configuration
  */
 export function getDefaultSpringConfig(): SpringConfig {
     return {
         amplitude: 1,
-        period: 0.3
+        period: 0.3,
+        mass: PHYSICS_SPRING_DEFAULTS.mass,
+        stiffness: PHYSICS_SPRING_DEFAULTS.stiffness,
+        damping: PHYSICS_SPRING_DEFAULTS.damping
     };
 } 
\ No newline at end of file
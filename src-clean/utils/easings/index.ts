@@ -14,4 +14,8 @@
 export * from './EasingFunctions.ts';
 
 // ✅ Re-export commonly used functions for convenience
-export { applyEasing } from './EasingFunctions.ts'; 
\ No newline at end of file
+export { applyEasing } from './EasingFunctions.ts'; 
+
+// ✅ CSS easing strings (cubic-bezier(), steps(), linear(), keywords)
+export { isCssEasing, isCssEasingSyntax, parseCssEasing } from './CssEasing.ts';
+export type { EasingCurve } from './CssEasing.ts';
@@ -0,0 +1,207 @@
+/**
+ * @file ReducedMotion.ts
+ * @description prefers-reduced-motion detection and policy resolution for FAME slots
+ *
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @description
+ * Tracks the `(prefers-reduced-motion: reduce)` media query and resolves a slot's
+ * ReducedMotionPolicy into the policy that should actually run right now.
+ * Listeners are notified when the user toggles the OS setting, so running loops
+ * and scroll animations can react without a page reload.
+ *
+ * @example
+ * ```typescript
+ * import { reducedMotionManager } from '../utils/environment/ReducedMotion.ts';
+ *
+ * const policy = reducedMotionManager.resolvePolicy(slot.reducedMotion);
+ * if (policy === ReducedMotionPolicy.SKIP_TO_END) {
+ *     // apply end state instantly
+ * }
+ *
+ * const unsubscribe = reducedMotionManager.subscribe((prefersReduced) => { ... });
+ * ```
+ */
+
+import { ReducedMotionPolicy } from '../../types/index.ts';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/** Default duration of the CROSSFADE policy (fade out + fade in) */
+export const REDUCED_MOTION_CROSSFADE_DURATION = 250;
+
+type ReducedMotionListener = (prefersReducedMotion: boolean) => void;
+
+/**
+ * Singleton wrapper around the prefers-reduced-motion media query
+ */
+class ReducedMotionManager {
+    private mediaQuery: MediaQueryList | null = null;
+    private listeners = new Set<ReducedMotionListener>();
+    private isListening = false;
+
+    /**
+     * Whether the user currently prefers reduced motion
+     */
+    prefersReducedMotion(): boolean {
+        const mediaQuery = this.getMediaQuery();
+        return mediaQuery ? mediaQuery.matches : false;
+    }
+
+    /**
+     * Resolve the policy that should run right now
+     * @param policy - Slot policy (undefined = NORMAL)
+     * @returns NORMAL unless the user prefers reduced motion
+     */
+    resolvePolicy(policy?: ReducedMotionPolicy): ReducedMotionPolicy {
+        if (!policy || policy === ReducedMotionPolicy.NORMAL) {
+            return ReducedMotionPolicy.NORMAL;
+        }
+
+        return this.prefersReducedMotion() ? policy : ReducedMotionPolicy.NORMAL;
+    }
+
+    /**
+     * Listen for live changes of the media query
+     * @returns Unsubscribe function
+     */
+    subscribe(listener: ReducedMotionListener): () => void {
+        this.listeners.add(listener);
+        this.startListening();
+
+        return () => {
+            this.listeners.delete(listener);
+            if (this.listeners.size === 0) {
+                this.stopListening();
+            }
+        };
+    }
+
+    //=======================================
+    //        MEDIA QUERY WIRING
+    //=======================================
+
+    private getMediaQuery(): MediaQueryList | null {
+        if (this.mediaQuery) return this.mediaQuery;
+
+        if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') {
+            return null;
+        }
+
+        this.mediaQuery = window.matchMedia(REDUCED_MOTION_QUERY);
+        return this.mediaQuery;
+    }
+
+    private handleChange = (event: MediaQueryListEvent): void => {
+        console.log(`♿ [ReducedMotion] prefers-reduced-motion changed: ${event.matches ? 'reduce' : 'no-preference'}`);
+
+        this.listeners.forEach(listener => {
+            try {
+                listener(event.matches);
+            } catch (error) {
+                console.error('♿ [ReducedMotion] Listener failed:', error);
+            }
+        });
+    };
+
+    private startListening(): void {
+        if (this.isListening) return;
+
+        const mediaQuery = this.getMediaQuery();
+        if (!mediaQuery) return;
+
+        // Safari < 14 only supports the deprecated addListener API
+        if (typeof mediaQuery.addEventListener === 'function') {
+            mediaQuery.addEventListener('change', this.handleChange);
+        } else {
+            mediaQuery.addListener(this.handleChange);
+        }
+        this.isListening = true;
+    }
+
+    private stopListening(): void {
+        if (!this.isListening || !this.mediaQuery) return;
+
+        if (typeof this.mediaQuery.removeEventListener === 'function') {
+            this.mediaQuery.removeEventListener('change', this.handleChange);
+        } else {
+            this.mediaQuery.removeListener(this.handleChange);
+        }
+        this.isListening = false;
+    }
+}
+
+/** Shared reduced motion manager */
+export const reducedMotionManager = new ReducedMotionManager();
+
+/**
+ * Crossfade an element into its end state
+ * Fades opacity to 0, applies the end state while hidden, then fades back in
+ * to whatever opacity the end state leaves on the element - its own opacity when
+ * the end state does not animate opacity.
+ *
+ * @param element - Element to crossfade
+ * @param applyEndState - Applies the final property values
+ * @param duration - Total duration in milliseconds
+ * @returns Promise that resolves once the element is fully visible again
+ */
+export function crossfadeElement(
+    element: HTMLElement,
+    applyEndState: () => void,
+    duration: number = REDUCED_MOTION_CROSSFADE_DURATION
+): Promise<void> {
+    const halfDuration = duration / 2;
+    const originalOpacity = element.style.opacity;
+    const startOpacity = readOpacity(element);
+
+    return fadeOpacity(element, startOpacity, 0, halfDuration)
+        .then(() => {
+            // Put the original inline opacity back before the end state, so the fade-out's
+            // 0 is not mistaken for an end value (no frame is painted in between)
+            element.style.opacity = originalOpacity;
+            applyEndState();
+
+            // The end state may animate opacity itself - fade in to that value
+            const endOpacity = element.style.opacity;
+            const targetOpacity = readOpacity(element);
+            return fadeOpacity(element, 0, targetOpacity, halfDuration)
+                .then(() => {
+                    element.style.opacity = endOpacity;
+                });
+        });
+}
+
+function readOpacity(element: HTMLElement): number {
+    const inline = parseFloat(element.style.opacity);
+    if (!isNaN(inline)) return inline;
+
+    if (typeof window === 'undefined') return 1;
+    const computed = parseFloat(window.getComputedStyle(element).opacity);
+    return isNaN(computed) ? 1 : computed;
+}
+
+function fadeOpacity(element: HTMLElement, from: number, to: number, duration: number): Promise<void> {
+    return new Promise<void>((resolve) => {
+        if (duration <= 0 || typeof requestAnimationFrame === 'undefined') {
+            element.style.opacity = String(to);
+            resolve();
+            return;
+        }
+
+        const startTime = performance.now();
+        const step = (now: number) => {
+            const progress = Math.min((now - startTime) / duration, 1);
+            element.style.opacity = String(from + (to - from) * progress);
+
+            if (progress < 1) {
+                requestAnimationFrame(step);
+            } else {
+                resolve();
+            }
+        };
+
+        element.style.opacity = String(from);
+        requestAnimationFrame(step);
+    });
+}
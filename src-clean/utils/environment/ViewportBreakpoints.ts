@@ -0,0 +1,141 @@
+/**
+ * @file ViewportBreakpoints.ts
+ * @description matchMedia-based viewport width ranges for breakpoint slot variants
+ *
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @description
+ * Turns ViewportRange bounds into `(min-width) and (max-width)` media queries, answers
+ * whether a range matches right now and notifies subscribers when any of their ranges
+ * starts or stops matching. MediaQueryList objects are shared per query, and the change
+ * events of one resize are collapsed into a single notification per subscriber.
+ *
+ * In the Framer canvas the queries follow the editor window, not the breakpoint frame.
+ *
+ * @example
+ * ```typescript
+ * import { viewportBreakpoints } from '../utils/environment/ViewportBreakpoints.ts';
+ *
+ * const isPhone = viewportBreakpoints.matches({ maxWidth: 809 });
+ * const unsubscribe = viewportBreakpoints.subscribe([{ maxWidth: 809 }], () => { ... });
+ * ```
+ */
+
+import { ViewportRange } from '../../types/index.ts';
+
+type ViewportBreakpointListener = () => void;
+
+/**
+ * Build the media query for a width range
+ * @returns Media query, or null when the range has no bounds (matches every width)
+ */
+export function toMediaQuery(range: ViewportRange): string | null {
+    const conditions: string[] = [];
+
+    if (isBound(range.minWidth)) {
+        conditions.push(`(min-width: ${range.minWidth}px)`);
+    }
+    if (isBound(range.maxWidth)) {
+        conditions.push(`(max-width: ${range.maxWidth}px)`);
+    }
+
+    return conditions.length > 0 ? conditions.join(' and ') : null;
+}
+
+function isBound(value?: number): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Singleton cache of width media queries
+ */
+class ViewportBreakpointManager {
+    private mediaQueries = new Map<string, MediaQueryList>();
+
+    /**
+     * Whether the viewport is inside a range right now
+     * Without matchMedia (SSR) only unbounded ranges match.
+     */
+    matches(range: ViewportRange): boolean {
+        const query = toMediaQuery(range);
+        if (!query) return true;
+
+        const mediaQuery = this.getMediaQuery(query);
+        return mediaQuery ? mediaQuery.matches : false;
+    }
+
+    /**
+     * Listen for ranges starting or stopping to match
+     * @param ranges - Ranges whose queries are watched
+     * @param listener - Called once per viewport change that flips any of the ranges
+     * @returns Unsubscribe function
+     */
+    subscribe(ranges: ViewportRange[], listener: ViewportBreakpointListener): () => void {
+        const queries = new Set(
+            ranges.map(range => toMediaQuery(range)).filter((query): query is string => query !== null)
+        );
+
+        let pendingTimer: ReturnType<typeof setTimeout> | null = null;
+        const handleChange = () => {
+            // All queries crossed by one resize report separately - notify once
+            if (pendingTimer !== null) return;
+            pendingTimer = setTimeout(() => {
+                pendingTimer = null;
+                try {
+                    listener();
+                } catch (error) {
+                    console.error('📱 [ViewportBreakpoints] Listener failed:', error);
+                }
+            }, 0);
+        };
+
+        const mediaQueries: MediaQueryList[] = [];
+        queries.forEach(query => {
+            const mediaQuery = this.getMediaQuery(query);
+            if (!mediaQuery) return;
+
+            // Safari < 14 only supports the deprecated addListener API
+            if (typeof mediaQuery.addEventListener === 'function') {
+                mediaQuery.addEventListener('change', handleChange);
+            } else {
+                mediaQuery.addListener(handleChange);
+            }
+            mediaQueries.push(mediaQuery);
+        });
+
+        if (mediaQueries.length > 0) {
+            console.log(`📱 [ViewportBreakpoints] Watching ${mediaQueries.length} breakpoint quer${mediaQueries.length === 1 ? 'y' : 'ies'}`);
+        }
+
+        return () => {
+            mediaQueries.forEach(mediaQuery => {
+                if (typeof mediaQuery.removeEventListener === 'function') {
+                    mediaQuery.removeEventListener('change', handleChange);
+                } else {
+                    mediaQuery.removeListener(handleChange);
+                }
+            });
+            if (pendingTimer !== null) {
+                clearTimeout(pendingTimer);
+                pendingTimer = null;
+            }
+        };
+    }
+
+    private getMediaQuery(query: string): MediaQueryList | null {
+        const cached = this.mediaQueries.get(query);
+        if (cached) return cached;
+
+        if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') {
+            return null;
+        }
+
+        const mediaQuery = window.matchMedia(query);
+        this.mediaQueries.set(query, mediaQuery);
+        return mediaQuery;
+    }
+}
+
+/** Shared viewport breakpoint manager */
+export const viewportBreakpoints = new ViewportBreakpointManager();
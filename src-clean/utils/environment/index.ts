@@ -107,4 +107,17 @@ export {
     isLicenseValid,
     isFreeFramerDomain,
     shouldSkipLicenseVerification
-} from "./LicenseVerification.ts" 
\ No newline at end of file
+} from "./LicenseVerification.ts" 
+
+// ♿ NEW: prefers-reduced-motion policy resolution
+export {
+    reducedMotionManager,
+    crossfadeElement,
+    REDUCED_MOTION_CROSSFADE_DURATION
+} from "./ReducedMotion.ts"
+
+// 📱 NEW: Viewport width ranges for breakpoint slot variants
+export {
+    viewportBreakpoints,
+    toMediaQuery
+} from "./ViewportBreakpoints.ts"
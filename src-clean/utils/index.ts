@@ -12,7 +12,7 @@
 
 // Export utility modules
 // export * from './math/index.ts';
-// export * from './color/index.ts';
+export * from './color/index.ts';
 export * from './units/index.ts';
 // export * from './staggering/index.ts';
 // export * from './performance/index.ts';
@@ -0,0 +1,54 @@
+/**
+ * @file GPUAcceleration.ts
+ * @description Detects whether GPU-composited transforms are worth forcing
+ *
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @description
+ * Hardware acceleration is assumed when the browser can create a WebGL context that is
+ * not backed by a software rasterizer. The result is cached - it cannot change while
+ * the page is open.
+ *
+ * @example
+ * ```typescript
+ * if (shouldUseGPUAcceleration()) {
+ *     element.style.willChange = 'transform';
+ * }
+ * ```
+ */
+
+/** Renderer names reported by software rasterizers */
+const SOFTWARE_RENDERERS = /swiftshader|llvmpipe|software|basic render/i;
+
+let cachedResult: boolean | null = null;
+
+/**
+ * Check if GPU acceleration is available and recommended
+ * @returns True if GPU acceleration should be used
+ */
+export function shouldUseGPUAcceleration(): boolean {
+    if (cachedResult !== null) return cachedResult;
+
+    if (typeof document === 'undefined') {
+        return false; // Not cached - rendering on the server says nothing about the visitor
+    }
+
+    try {
+        const canvas = document.createElement('canvas');
+        const gl = (canvas.getContext('webgl') || canvas.getContext('experimental-webgl')) as WebGLRenderingContext | null;
+        if (!gl) {
+            cachedResult = false;
+            return cachedResult;
+        }
+
+        const debugInfo = gl.getExtension('WEBGL_debug_renderer_info');
+        const renderer = debugInfo ? String(gl.getParameter(debugInfo.UNMASKED_RENDERER_WEBGL)) : '';
+        cachedResult = !SOFTWARE_RENDERERS.test(renderer);
+    } catch (error) {
+        console.warn('🚀 [GPUAcceleration] Detection failed - assuming no GPU acceleration', error);
+        cachedResult = false;
+    }
+
+    return cachedResult;
+}
@@ -28,6 +28,7 @@ import { timelineCache } from './TimelineCache.ts';
 import { propertyValueCache } from './PropertyValueCache.ts';
 import { scrollEventManager } from './ScrollEventManager.ts';
 import { scrollPerformanceMonitor } from './ScrollPerformanceMonitor.ts';
+import { performanceGovernor, PerformanceLevel } from './PerformanceGovernor.ts';
 // REMOVED: ScrollCacheManager imports - was causing performance issues
 // Slot isolation test functions are defined within this file
 
@@ -164,6 +165,32 @@ class PerformanceDebugger {
         console.log('');
     }
     
+    /**
+     * Print the performance governor's level, settings and recent decisions
+     */
+    printGovernorInfo(): void {
+        const report = performanceGovernor.getReport();
+        
+        console.log('🐢 Performance Governor:');
+        console.log(`   Level: ${report.level}`);
+        console.log(`   Active Playbacks: ${report.activePlaybacks} / ${report.settings.maxConcurrentAnimations}`);
+        console.log(`   Skipped Playbacks (over cap): ${report.skippedPlaybacks}`);
+        console.log(`   Deferred Properties: ${report.skippedProperties.join(', ') || 'none'}`);
+        console.log(`   Target Frame Rate: ${report.settings.targetFrameRate}fps (throttling ${report.settings.throttleFrameRate ? 'allowed' : 'off'})`);
+        console.log(`   Viewport Optimization: ${report.settings.enableViewportOptimization ? 'on' : 'off'}`);
+        
+        if (report.decisions.length === 0) {
+            console.log('   Decisions: none');
+        } else {
+            console.log('   Decisions:');
+            report.decisions.slice(-10).forEach(decision => {
+                const time = new Date(decision.timestamp).toLocaleTimeString();
+                console.log(`     ${time} ${PerformanceLevel[decision.from]} → ${PerformanceLevel[decision.to]} (${decision.reason})`);
+            });
+        }
+        console.log('');
+    }
+    
     /**
      * Test slot isolation to ensure different animation slots don't interfere
      */
@@ -321,6 +348,7 @@ class PerformanceDebugger {
         
         // Print debug info
         this.printDebugInfo();
+        this.printGovernorInfo();
         
         // Test slot isolation
         this.testSlotIsolation();
@@ -518,6 +546,7 @@ declare global {
         debugFAME: {
             performance: typeof debugPerformance;
             quickCheck: typeof debugScrollPerformance;
+            governor: typeof performanceGovernor;
         };
     }
 }
@@ -527,11 +556,13 @@ if (typeof window !== 'undefined') {
     window.debugFAME = {
         performance: debugPerformance,
         quickCheck: debugScrollPerformance,
+        governor: performanceGovernor,
         // REMOVED: Scroll cache debugging - was causing performance issues
     };
     
     console.log('🔍 [PerformanceDebugger] Debug utilities available:');
     console.log('   window.debugFAME.performance.checkAll() - Comprehensive check');
     console.log('   window.debugFAME.quickCheck() - Quick performance check');
+    console.log('   window.debugFAME.governor.getReport() - Degradation level and decisions');
     // REMOVED: Scroll cache debug commands
 } 
\ No newline at end of file
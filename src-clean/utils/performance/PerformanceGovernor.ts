@@ -0,0 +1,408 @@
+/**
+ * @file PerformanceGovernor.ts
+ * @description Adaptive performance governor enforcing PerformanceSettings
+ *
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @description
+ * Watches frame times reported by the animation loops (MasterTimelinePlayer and
+ * UnifiedScrollManager) and steps animation quality down while the device cannot keep
+ * up, then back up once frames are fast again:
+ *
+ * 1. REDUCED_EFFECTS - filter, backdropFilter and boxShadow only change on the last frame
+ * 2. COARSE_STAGGER - stagger delays snap to STAGGER_STEP_MS so elements start in groups
+ * 3. REDUCED_FRAME_RATE - animation loops render at half the target frame rate
+ *    (only when throttleFrameRate is on)
+ *
+ * Independent of the level, playbacks beyond maxConcurrentAnimations jump to their end
+ * state instead of animating. Every level change is logged and kept for
+ * window.debugFAME.governor.
+ *
+ * @performance
+ * - Several loops share one frame: samples with the same rAF timestamp are counted once
+ * - Gaps longer than IDLE_GAP_MS (idle page, background tab) are not counted as slow frames
+ * - Degrading reacts within one sample window; recovering needs several fast windows
+ *
+ * @example
+ * ```typescript
+ * performanceGovernor.configure({ maxConcurrentAnimations: 50, targetFrameRate: 30 });
+ *
+ * const animate = (timestamp: number) => {
+ *     if (performanceGovernor.beginFrame(timestamp)) {
+ *         render();
+ *     }
+ *     requestAnimationFrame(animate);
+ * };
+ * ```
+ */
+
+/**
+ * Performance optimization settings
+ */
+export interface PerformanceSettings {
+    /** Keep GPU-heavy effects animated (false starts at REDUCED_EFFECTS) */
+    useGPUAcceleration: boolean;
+    /** Suspend slots while their elements are off-screen */
+    enableViewportOptimization: boolean;
+    /** Playbacks allowed to animate at once - later ones jump to their end state */
+    maxConcurrentAnimations: number;
+    /** Allow the governor to lower the frame rate as its last step */
+    throttleFrameRate: boolean;
+    /** Frame rate the frame budget is measured against */
+    targetFrameRate: number;
+}
+
+/**
+ * Degradation steps, from full quality to the lowest
+ */
+export enum PerformanceLevel {
+    FULL = 0,
+    REDUCED_EFFECTS = 1,
+    COARSE_STAGGER = 2,
+    REDUCED_FRAME_RATE = 3
+}
+
+/**
+ * A level change and the measurements behind it
+ */
+export interface GovernorDecision {
+    timestamp: number;
+    from: PerformanceLevel;
+    to: PerformanceLevel;
+    reason: string;
+    /** Share of slow frames in the window that triggered the change (0-1) */
+    slowFrameRatio: number;
+    averageFrameTime: number;
+}
+
+export const DEFAULT_PERFORMANCE_SETTINGS: PerformanceSettings = {
+    useGPUAcceleration: true,
+    enableViewportOptimization: true,
+    maxConcurrentAnimations: 200,
+    throttleFrameRate: true,
+    targetFrameRate: 60
+};
+
+/** Properties that are expensive to repaint every frame */
+const EXPENSIVE_PROPERTIES: ReadonlySet<string> = new Set(['filter', 'backdropFilter', 'boxShadow']);
+const NO_PROPERTIES: ReadonlySet<string> = new Set();
+
+/** Stagger delay granularity at COARSE_STAGGER */
+const STAGGER_STEP_MS = 100;
+
+/** Frames per measurement window */
+const SAMPLE_WINDOW = 30;
+/** A frame is slow when it takes longer than this multiple of the frame budget */
+const SLOW_FRAME_FACTOR = 1.5;
+/** Share of slow frames that degrades one level */
+const DEGRADE_RATIO = 0.3;
+/** Share of slow frames below which a window counts as fast */
+const RECOVER_RATIO = 0.05;
+/** Consecutive fast windows needed to recover one level */
+const RECOVER_WINDOWS = 5;
+/** Minimum time between two degradations / recoveries */
+const DEGRADE_COOLDOWN_MS = 1000;
+const RECOVER_COOLDOWN_MS = 3000;
+/** Frame intervals longer than this are pauses, not slow frames */
+const IDLE_GAP_MS = 250;
+/** Decisions kept for debugging */
+const MAX_DECISIONS = 50;
+
+const LEVEL_NAMES: Record<PerformanceLevel, string> = {
+    [PerformanceLevel.FULL]: 'FULL',
+    [PerformanceLevel.REDUCED_EFFECTS]: 'REDUCED_EFFECTS',
+    [PerformanceLevel.COARSE_STAGGER]: 'COARSE_STAGGER',
+    [PerformanceLevel.REDUCED_FRAME_RATE]: 'REDUCED_FRAME_RATE'
+};
+
+/**
+ * Performance Governor
+ *
+ * @description
+ * Singleton shared by every FAME instance on the page - they all compete for the same
+ * main thread, so they are measured and degraded together.
+ */
+export class PerformanceGovernor {
+    private static instance: PerformanceGovernor | null = null;
+
+    private settings: PerformanceSettings = { ...DEFAULT_PERFORMANCE_SETTINGS };
+    private level: PerformanceLevel = PerformanceLevel.FULL;
+
+    // Frame sampling
+    private lastFrameTimestamp: number | null = null;
+    private windowFrames = 0;
+    private windowSlowFrames = 0;
+    private windowFrameTime = 0;
+    private fastWindows = 0;
+    private lastLevelChange = 0;
+    private lastRenderTimestamp = 0;
+    private lastRenderDecision = true;
+
+    // Concurrency
+    private activePlaybacks = 0;
+    private skippedPlaybacks = 0;
+
+    private decisions: GovernorDecision[] = [];
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): PerformanceGovernor {
+        if (!PerformanceGovernor.instance) {
+            PerformanceGovernor.instance = new PerformanceGovernor();
+        }
+        return PerformanceGovernor.instance;
+    }
+
+    private constructor() {}
+
+    //=======================================
+    //        SETTINGS
+    //=======================================
+
+    /**
+     * Update settings (unspecified settings keep their value)
+     * @param settings - Settings to change
+     */
+    configure(settings: Partial<PerformanceSettings>): void {
+        this.settings = { ...this.settings, ...settings };
+        this.settings.maxConcurrentAnimations = Math.max(1, Math.floor(this.settings.maxConcurrentAnimations));
+        this.settings.targetFrameRate = Math.max(1, this.settings.targetFrameRate);
+
+        // Re-clamp the current level to what the new settings allow
+        const clamped = this.clampLevel(this.level);
+        if (clamped !== this.level) {
+            this.changeLevel(clamped, 'settings changed', 0, 0);
+        }
+    }
+
+    getSettings(): PerformanceSettings {
+        return { ...this.settings };
+    }
+
+    getLevel(): PerformanceLevel {
+        return this.level;
+    }
+
+    //=======================================
+    //        FRAME SAMPLING
+    //=======================================
+
+    /**
+     * Record an animation frame and decide whether to render it
+     * Call at the top of every rAF callback of an animation loop.
+     * @param timestamp - rAF timestamp
+     * @returns Whether the loop should render this frame
+     */
+    beginFrame(timestamp: number): boolean {
+        // Another loop already sampled this frame
+        if (timestamp === this.lastFrameTimestamp) {
+            return this.lastRenderDecision;
+        }
+
+        if (this.lastFrameTimestamp !== null) {
+            const frameTime = timestamp - this.lastFrameTimestamp;
+            if (frameTime > 0 && frameTime < IDLE_GAP_MS) {
+                this.recordFrame(frameTime, timestamp);
+            }
+        }
+        this.lastFrameTimestamp = timestamp;
+
+        this.lastRenderDecision = this.shouldRender(timestamp);
+        if (this.lastRenderDecision) {
+            this.lastRenderTimestamp = timestamp;
+        }
+        return this.lastRenderDecision;
+    }
+
+    private recordFrame(frameTime: number, timestamp: number): void {
+        const frameBudget = 1000 / this.settings.targetFrameRate;
+
+        this.windowFrames++;
+        this.windowFrameTime += frameTime;
+        if (frameTime > frameBudget * SLOW_FRAME_FACTOR) {
+            this.windowSlowFrames++;
+        }
+
+        if (this.windowFrames >= SAMPLE_WINDOW) {
+            this.evaluateWindow(timestamp);
+        }
+    }
+
+    private evaluateWindow(timestamp: number): void {
+        const slowFrameRatio = this.windowSlowFrames / this.windowFrames;
+        const averageFrameTime = this.windowFrameTime / this.windowFrames;
+
+        this.windowFrames = 0;
+        this.windowSlowFrames = 0;
+        this.windowFrameTime = 0;
+
+        if (slowFrameRatio > DEGRADE_RATIO) {
+            this.fastWindows = 0;
+            const next = this.clampLevel(this.level + 1);
+            if (next > this.level && timestamp - this.lastLevelChange >= DEGRADE_COOLDOWN_MS) {
+                this.lastLevelChange = timestamp;
+                this.changeLevel(next, 'slow frames', slowFrameRatio, averageFrameTime);
+            }
+            return;
+        }
+
+        if (slowFrameRatio >= RECOVER_RATIO) {
+            this.fastWindows = 0;
+            return;
+        }
+
+        this.fastWindows++;
+        if (this.fastWindows >= RECOVER_WINDOWS) {
+            this.fastWindows = 0;
+            const next = this.clampLevel(this.level - 1);
+            if (next < this.level && timestamp - this.lastLevelChange >= RECOVER_COOLDOWN_MS) {
+                this.lastLevelChange = timestamp;
+                this.changeLevel(next, 'frames recovered', slowFrameRatio, averageFrameTime);
+            }
+        }
+    }
+
+    private shouldRender(timestamp: number): boolean {
+        if (this.level < PerformanceLevel.REDUCED_FRAME_RATE) return true;
+
+        const throttledInterval = 2000 / this.settings.targetFrameRate;
+        // Half a frame of tolerance - rAF timestamps jitter around the display refresh
+        const tolerance = 500 / this.settings.targetFrameRate;
+        return timestamp - this.lastRenderTimestamp >= throttledInterval - tolerance;
+    }
+
+    /**
+     * Keep the level inside the range allowed by the settings
+     */
+    private clampLevel(level: PerformanceLevel): PerformanceLevel {
+        const floor = this.settings.useGPUAcceleration ? PerformanceLevel.FULL : PerformanceLevel.REDUCED_EFFECTS;
+        const ceiling = this.settings.throttleFrameRate ? PerformanceLevel.REDUCED_FRAME_RATE : PerformanceLevel.COARSE_STAGGER;
+        return Math.min(Math.max(level, floor), ceiling);
+    }
+
+    private changeLevel(
+        level: PerformanceLevel,
+        reason: string,
+        slowFrameRatio: number,
+        averageFrameTime: number
+    ): void {
+        const decision: GovernorDecision = {
+            timestamp: Date.now(),
+            from: this.level,
+            to: level,
+            reason,
+            slowFrameRatio,
+            averageFrameTime
+        };
+
+        this.decisions.push(decision);
+        if (this.decisions.length > MAX_DECISIONS) {
+            this.decisions.shift();
+        }
+        this.level = level;
+
+        console.log(
+            `🐢 [PerformanceGovernor] ${LEVEL_NAMES[decision.from]} → ${LEVEL_NAMES[level]} (${reason}, ` +
+            `${(slowFrameRatio * 100).toFixed(0)}% slow frames, avg ${averageFrameTime.toFixed(1)}ms)`
+        );
+    }
+
+    //=======================================
+    //        DEGRADATION STEPS
+    //=======================================
+
+    /**
+     * Properties to leave untouched on intermediate frames
+     * @returns Expensive properties at REDUCED_EFFECTS and above, otherwise none
+     */
+    getSkippedProperties(): ReadonlySet<string> {
+        return this.level >= PerformanceLevel.REDUCED_EFFECTS ? EXPENSIVE_PROPERTIES : NO_PROPERTIES;
+    }
+
+    /**
+     * Snap a stagger delay to coarser steps at COARSE_STAGGER and above
+     * @param delayMs - Stagger delay in milliseconds
+     * @returns Delay to use
+     */
+    coarsenStaggerDelay(delayMs: number): number {
+        if (this.level < PerformanceLevel.COARSE_STAGGER || delayMs <= 0) return delayMs;
+        return Math.round(delayMs / STAGGER_STEP_MS) * STAGGER_STEP_MS;
+    }
+
+    //=======================================
+    //        CONCURRENCY
+    //=======================================
+
+    /**
+     * Claim one of the maxConcurrentAnimations playback slots
+     * @returns False when the cap is reached - the playback should jump to its end state
+     */
+    acquirePlayback(): boolean {
+        if (this.activePlaybacks >= this.settings.maxConcurrentAnimations) {
+            this.skippedPlaybacks++;
+            return false;
+        }
+        this.activePlaybacks++;
+        return true;
+    }
+
+    /**
+     * Release a slot claimed with acquirePlayback()
+     */
+    releasePlayback(): void {
+        this.activePlaybacks = Math.max(0, this.activePlaybacks - 1);
+    }
+
+    //=======================================
+    //        DEBUGGING
+    //=======================================
+
+    /**
+     * Level changes, oldest first (last MAX_DECISIONS)
+     */
+    getDecisions(): GovernorDecision[] {
+        return [...this.decisions];
+    }
+
+    /**
+     * Current state of the governor
+     */
+    getReport(): {
+        level: string;
+        settings: PerformanceSettings;
+        activePlaybacks: number;
+        skippedPlaybacks: number;
+        skippedProperties: string[];
+        decisions: GovernorDecision[];
+    } {
+        return {
+            level: LEVEL_NAMES[this.level],
+            settings: this.getSettings(),
+            activePlaybacks: this.activePlaybacks,
+            skippedPlaybacks: this.skippedPlaybacks,
+            skippedProperties: Array.from(this.getSkippedProperties()),
+            decisions: this.getDecisions()
+        };
+    }
+
+    /**
+     * Return to full quality and forget measurements (keeps settings)
+     */
+    reset(): void {
+        this.level = this.clampLevel(PerformanceLevel.FULL);
+        this.lastFrameTimestamp = null;
+        this.windowFrames = 0;
+        this.windowSlowFrames = 0;
+        this.windowFrameTime = 0;
+        this.fastWindows = 0;
+        this.lastLevelChange = 0;
+        this.lastRenderDecision = true;
+        this.skippedPlaybacks = 0;
+        this.decisions = [];
+    }
+}
+
+// Export singleton instance for use across the system
+export const performanceGovernor = PerformanceGovernor.getInstance();
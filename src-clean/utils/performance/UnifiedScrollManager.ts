@@ -40,6 +40,7 @@
 
 import { EnvironmentDetector } from '../environment/EnvironmentDetector.ts';
 import { logger } from '../environment/Logger.ts';
+import { performanceGovernor } from './PerformanceGovernor.ts';
 
 /**
  * Animation registration interface
@@ -47,8 +48,9 @@ import { logger } from '../environment/Logger.ts';
 interface ScrollAnimationRegistration {
     /** Unique animation identifier */
     id: string;
-    /** Function to call on scroll events - contains the animation's existing logic */
-    updateHandler: () => void;
+    /** Function to call on scroll events - contains the animation's existing logic.
+     *  Returning true asks for another frame even without a new scroll event (e.g. smoothing still settling) */
+    updateHandler: () => void | boolean;
     /** Processing priority (high processed first) */
     priority: 'high' | 'medium' | 'low';
     /** Last time this animation was processed */
@@ -103,6 +105,9 @@ export class UnifiedScrollManager {
     
     // Animation management
     private animations = new Map<string, ScrollAnimationRegistration>();
+    
+    // Overflow containers whose scroll events feed the same frame loop (element → watcher count)
+    private scrollContainers = new Map<HTMLElement, number>();
     private rafId: number | null = null;
     private isProcessing = false;
     
@@ -153,14 +158,14 @@ export class UnifiedScrollManager {
      * Register animation with unified scroll coordination
      * 
      * @param id - Unique animation identifier
-     * @param updateHandler - Function containing the animation's scroll logic
+     * @param updateHandler - Function containing the animation's scroll logic (return true to keep receiving frames)
      * @param priority - Processing priority (high = processed first)
      * @param throttleMs - Optional per-animation throttling
      * @returns Cleanup function to unregister
      */
     registerAnimation(
         id: string,
-        updateHandler: () => void,
+        updateHandler: () => void | boolean,
         priority: 'high' | 'medium' | 'low' = 'medium',
         throttleMs?: number
     ): () => void {
@@ -220,6 +225,40 @@ export class UnifiedScrollManager {
         };
     }
     
+    /**
+     * Also process frames when an overflow container scrolls
+     * Element scroll events don't bubble to the window listener - containers must be watched explicitly.
+     * 
+     * @param container - Scroll container (the window is always watched)
+     * @returns Cleanup function to stop watching
+     */
+    observeScrollContainer(container: HTMLElement | Window): () => void {
+        if (this.isCanvasMode || container === window) {
+            return () => {};
+        }
+        
+        const element = container as HTMLElement;
+        const watchers = this.scrollContainers.get(element) || 0;
+        if (watchers === 0) {
+            element.addEventListener('scroll', this.handleGlobalScroll, { passive: true });
+        }
+        this.scrollContainers.set(element, watchers + 1);
+        
+        let released = false;
+        return () => {
+            if (released) return;
+            released = true;
+            
+            const remaining = (this.scrollContainers.get(element) || 1) - 1;
+            if (remaining > 0) {
+                this.scrollContainers.set(element, remaining);
+            } else {
+                this.scrollContainers.delete(element);
+                element.removeEventListener('scroll', this.handleGlobalScroll);
+            }
+        };
+    }
+    
     /**
      * Unregister animation from coordination
      */
@@ -269,6 +308,7 @@ export class UnifiedScrollManager {
             cancelAnimationFrame(this.rafId);
             this.rafId = null;
         }
+        this.isProcessing = false; // The cancelled frame would have reset this
         
         console.log('🚀 [UnifiedScrollManager] Global scroll listener deactivated');
     }
@@ -282,7 +322,6 @@ export class UnifiedScrollManager {
         
         if (this.isProcessing) return;
         
-        this.isProcessing = true;
         this.metrics.scrollEventCount++;
         
         // Track scroll changes
@@ -292,14 +331,30 @@ export class UnifiedScrollManager {
         
         // console.log(`🚨 [UnifiedScrollManager] [DEBUG] Scroll detected: Y=${currentScrollY}, Delta=${this.scrollDelta}, Animations=${this.animations.size}`);
         
+        this.scheduleFrame();
+    };
+    
+    /**
+     * Schedule one RAF-batched processing pass
+     * Also used without a scroll event while handlers still ask for frames
+     */
+    private scheduleFrame(): void {
+        this.isProcessing = true;
+        
         // RAF-batched processing
-        this.rafId = requestAnimationFrame(() => {
+        const processFrame = (timestamp: number) => {
+            // 🐢 Lowered frame rate: process this scroll on the next rendered frame
+            if (this.performanceConfig.adaptiveThrottling && !performanceGovernor.beginFrame(timestamp)) {
+                this.rafId = requestAnimationFrame(processFrame);
+                return;
+            }
+            
             const frameStart = performance.now();
             
             // console.log(`🚨 [UnifiedScrollManager] [DEBUG] RAF callback executing, processing ${this.animations.size} animations`);
             
             // Process all animations in optimized batches
-            this.processAnimationBatches(frameStart);
+            const needsAnotherFrame = this.processAnimationBatches(frameStart);
             
             // Update performance metrics
             const frameTime = performance.now() - frameStart;
@@ -307,14 +362,21 @@ export class UnifiedScrollManager {
             
             this.isProcessing = false;
             this.rafId = null;
-        });
-    };
+            
+            // 🌊 Keep ticking after scrolling stops until every handler has settled
+            if (needsAnotherFrame && this.animations.size > 0) {
+                this.scheduleFrame();
+            }
+        };
+        this.rafId = requestAnimationFrame(processFrame);
+    }
     
     /**
      * Process animations in batches to maintain frame budget
      * Each animation keeps its own logic and calculations
+     * @returns True if any animation needs another frame
      */
-    private processAnimationBatches(frameStart: number): void {
+    private processAnimationBatches(frameStart: number): boolean {
         const animations = Array.from(this.animations.values()).filter(anim => anim.isActive);
         const batchSize = this.performanceConfig.batchSize;
         
@@ -324,6 +386,8 @@ export class UnifiedScrollManager {
             return priorityOrder[b.priority] - priorityOrder[a.priority];
         });
         
+        let needsAnotherFrame = false;
+        
         for (let i = 0; i < sortedAnimations.length; i += batchSize) {
             // Check frame budget to maintain 60fps
             const currentTime = performance.now();
@@ -335,22 +399,30 @@ export class UnifiedScrollManager {
                     // if (this.performanceConfig.enableDebugLogging) {
                     //     console.warn(`🚀 [UnifiedScrollManager] Frame budget exceeded, skipping ${skipped} animations`);
                     // }
+                    needsAnotherFrame = true; // Pick the skipped animations up on the next frame
                 }
                 break;
             }
             
             const batch = sortedAnimations.slice(i, i + batchSize);
-            this.processBatch(batch, currentTime);
+            if (this.processBatch(batch, currentTime)) {
+                needsAnotherFrame = true;
+            }
         }
+        
+        return needsAnotherFrame;
     }
     
     /**
      * Process a batch of animations
      * Each animation maintains its own boundary calculations and logic
+     * @returns True if any handler asked for another frame
      */
-    private processBatch(animations: ScrollAnimationRegistration[], currentTime: number): void {
+    private processBatch(animations: ScrollAnimationRegistration[], currentTime: number): boolean {
         // console.log(`🚨 [UnifiedScrollManager] [DEBUG] Processing batch of ${animations.length} animations`);
         
+        let needsAnotherFrame = false;
+        
         animations.forEach(animation => {
             try {
                 // console.log(`🚨 [UnifiedScrollManager] [DEBUG] Processing animation: ${animation.id}`);
@@ -368,7 +440,9 @@ export class UnifiedScrollManager {
                 
                 // Call the animation's own update handler
                 // This preserves all existing boundary calculation logic
-                animation.updateHandler();
+                if (animation.updateHandler() === true) {
+                    needsAnotherFrame = true;
+                }
                 animation.lastUpdateTime = currentTime;
                 
                 // console.log(`🚨 [UnifiedScrollManager] [DEBUG] UpdateHandler completed for animation: ${animation.id}`);
@@ -377,6 +451,8 @@ export class UnifiedScrollManager {
                 console.error(`🚀 [UnifiedScrollManager] Error processing animation ${animation.id}:`, error);
             }
         });
+        
+        return needsAnotherFrame;
     }
     
     /**
@@ -0,0 +1,261 @@
+/**
+ * @file ViewportOptimization.ts
+ * @description Shared layout-box visibility tracking for off-screen suspension
+ *
+ * @version 1.0.0
+ * @since 1.0.0
+ *
+ * @description
+ * Reports when a group of elements (a slot's animated elements) enters or leaves the
+ * viewport, so loops, running playback and scroll scrubbing can pause while nobody can
+ * see them. A group is visible while any of its elements is near the viewport, extended
+ * by VIEWPORT_MARGIN so playback resumes just before elements scroll into view.
+ *
+ * Elements are placed by their layout box (getLayoutBox), not by their rendered box:
+ * the rendered box moves with the element's own transform, so an element sliding in
+ * from off-screen would count as off-screen until it had arrived.
+ *
+ * @performance
+ * - One capturing scroll listener (window and nested containers) and one resize listener
+ * - Visibility is re-checked at most every VIEWPORT_CHECK_INTERVAL while scrolling
+ * - Callbacks only fire on visibility changes
+ * - Outside the browser, groups are treated as always visible
+ *
+ * @example
+ * ```typescript
+ * const stop = viewportVisibilityManager.observe(elements, (isVisible) => {
+ *     isVisible ? runner.resume() : runner.suspend();
+ * });
+ * stop();
+ * ```
+ */
+
+/** Distance around the viewport that still counts as visible (px) */
+const VIEWPORT_MARGIN = 200;
+
+/** Minimum time between visibility checks while scrolling or resizing (ms) */
+const VIEWPORT_CHECK_INTERVAL = 100;
+
+/**
+ * Viewport rectangle of an element's layout box
+ */
+export interface LayoutBox {
+    left: number;
+    top: number;
+    right: number;
+    bottom: number;
+}
+
+/**
+ * Elements watched together and their visibility callback
+ */
+interface VisibilityGroup {
+    elements: Set<HTMLElement>;
+    visibleElements: Set<HTMLElement>;
+    isVisible: boolean;
+    callback: (isVisible: boolean) => void;
+}
+
+/**
+ * Viewport Visibility Manager
+ *
+ * @description
+ * Singleton sharing one set of scroll/resize listeners between all visibility groups.
+ */
+export class ViewportVisibilityManager {
+    private static instance: ViewportVisibilityManager | null = null;
+
+    /** Element → groups watching it */
+    private elementGroups: Map<HTMLElement, Set<VisibilityGroup>> = new Map();
+
+    private isListening = false;
+    private checkTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * Get singleton instance
+     */
+    static getInstance(): ViewportVisibilityManager {
+        if (!ViewportVisibilityManager.instance) {
+            ViewportVisibilityManager.instance = new ViewportVisibilityManager();
+        }
+        return ViewportVisibilityManager.instance;
+    }
+
+    private constructor() {}
+
+    /**
+     * Check if visibility tracking is available in this environment
+     */
+    isSupported(): boolean {
+        return typeof window !== 'undefined' && typeof document !== 'undefined';
+    }
+
+    /**
+     * Watch a group of elements
+     * The group starts as visible; the callback fires on every change afterwards
+     * (including right after observing, when no element is near the viewport).
+     * @param elements - Elements of the group
+     * @param callback - Called with the group's new visibility
+     * @returns Cleanup function that stops watching
+     */
+    observe(elements: HTMLElement[], callback: (isVisible: boolean) => void): () => void {
+        if (!this.isSupported() || elements.length === 0) {
+            return () => {};
+        }
+
+        const group: VisibilityGroup = {
+            elements: new Set(elements),
+            visibleElements: new Set(),
+            isVisible: true,
+            callback
+        };
+
+        group.elements.forEach(element => {
+            const groups = this.elementGroups.get(element);
+            if (groups) {
+                groups.add(group);
+            } else {
+                this.elementGroups.set(element, new Set([group]));
+            }
+        });
+
+        this.startListening();
+        this.scheduleCheck();
+
+        return () => {
+            group.elements.forEach(element => {
+                const groups = this.elementGroups.get(element);
+                if (!groups) return;
+
+                groups.delete(group);
+                if (groups.size === 0) {
+                    this.elementGroups.delete(element);
+                }
+            });
+            group.elements.clear();
+            group.visibleElements.clear();
+
+            if (this.elementGroups.size === 0) {
+                this.stopListening();
+            }
+        };
+    }
+
+    private startListening(): void {
+        if (this.isListening) return;
+        this.isListening = true;
+
+        // Capturing catches scrolling of nested containers too (scroll events do not bubble)
+        document.addEventListener('scroll', this.scheduleCheck, { capture: true, passive: true });
+        window.addEventListener('resize', this.scheduleCheck, { passive: true });
+    }
+
+    private stopListening(): void {
+        if (!this.isListening) return;
+        this.isListening = false;
+
+        document.removeEventListener('scroll', this.scheduleCheck, { capture: true });
+        window.removeEventListener('resize', this.scheduleCheck);
+        if (this.checkTimeoutId !== null) {
+            clearTimeout(this.checkTimeoutId);
+            this.checkTimeoutId = null;
+        }
+    }
+
+    private scheduleCheck = (): void => {
+        if (this.checkTimeoutId !== null) return;
+
+        this.checkTimeoutId = setTimeout(() => {
+            this.checkTimeoutId = null;
+            this.checkVisibility();
+        }, VIEWPORT_CHECK_INTERVAL);
+    };
+
+    private checkVisibility(): void {
+        const checkedGroups = new Set<VisibilityGroup>();
+        const parentBoxes = new Map<Element, DOMRect>();
+
+        this.elementGroups.forEach((groups, element) => {
+            const isVisible = isNearViewport(getLayoutBox(element, parentBoxes));
+
+            groups.forEach(group => {
+                if (isVisible) {
+                    group.visibleElements.add(element);
+                } else {
+                    group.visibleElements.delete(element);
+                }
+                checkedGroups.add(group);
+            });
+        });
+
+        checkedGroups.forEach(group => {
+            const isVisible = group.visibleElements.size > 0;
+            if (isVisible === group.isVisible) return;
+
+            group.isVisible = isVisible;
+            group.callback(isVisible);
+        });
+    }
+}
+
+// Export singleton instance for use across the system
+export const viewportVisibilityManager = ViewportVisibilityManager.getInstance();
+
+/**
+ * Get where an element sits in the viewport without its own transform
+ * Offsets are relative to the offsetParent's padding box; the offsetParent itself is
+ * measured as rendered, so transforms and scrolling of ancestors still count.
+ * @param element - Element to place
+ * @param parentBoxes - Optional cache of offsetParent boxes shared by one check
+ * @returns Layout box, or null when the element has no offsetParent (fixed, hidden or detached)
+ */
+export function getLayoutBox(element: HTMLElement, parentBoxes?: Map<Element, DOMRect>): LayoutBox | null {
+    const parent = element.offsetParent as HTMLElement | null;
+    if (!parent) return null;
+
+    let originLeft: number;
+    let originTop: number;
+    if (parent === document.body) {
+        // Offsets against the body are document coordinates
+        originLeft = -window.scrollX;
+        originTop = -window.scrollY;
+    } else {
+        let parentBox = parentBoxes?.get(parent);
+        if (!parentBox) {
+            parentBox = parent.getBoundingClientRect();
+            parentBoxes?.set(parent, parentBox);
+        }
+        originLeft = parentBox.left + parent.clientLeft - parent.scrollLeft;
+        originTop = parentBox.top + parent.clientTop - parent.scrollTop;
+    }
+
+    const left = originLeft + element.offsetLeft;
+    const top = originTop + element.offsetTop;
+    return { left, top, right: left + element.offsetWidth, bottom: top + element.offsetHeight };
+}
+
+/**
+ * Check whether a layout box is within VIEWPORT_MARGIN of the viewport
+ * Elements that cannot be placed count as visible, so they are never suspended by mistake.
+ */
+function isNearViewport(box: LayoutBox | null): boolean {
+    if (!box) return true;
+
+    return box.bottom >= -VIEWPORT_MARGIN &&
+        box.top <= window.innerHeight + VIEWPORT_MARGIN &&
+        box.right >= -VIEWPORT_MARGIN &&
+        box.left <= window.innerWidth + VIEWPORT_MARGIN;
+}
+
+/**
+ * Optimize animation based on viewport visibility
+ * @param element - Element to monitor
+ * @param callback - Callback for visibility changes
+ * @returns Cleanup function
+ */
+export function setupViewportOptimization(
+    element: HTMLElement,
+    callback: (isVisible: boolean) => void
+): () => void {
+    return viewportVisibilityManager.observe([element], callback);
+}
@@ -26,38 +26,13 @@
  * - Coordinate scroll events efficiently
  */
 
-// TODO: Export performance utilities
-// export * from './GPUAcceleration.ts';
-// export * from './ViewportOptimization.ts';
+// Off-screen suspension and GPU detection
+export * from './GPUAcceleration.ts';
+export * from './ViewportOptimization.ts';
+// Adaptive degradation and PerformanceSettings enforcement
+export * from './PerformanceGovernor.ts';
 // export * from './PerformanceMonitor.ts';
 
-/**
- * Check if GPU acceleration is available and recommended
- * @returns True if GPU acceleration should be used
- */
-export function shouldUseGPUAcceleration(): boolean {
-  // TODO: Implement GPU acceleration detection
-  // Check for hardware acceleration support
-  // Consider device capabilities and performance
-  throw new Error('PLACEHOLDER - Implement GPU acceleration detection');
-}
-
-/**
- * Optimize animation based on viewport visibility
- * @param element - Element to monitor
- * @param callback - Callback for visibility changes
- * @returns Cleanup function
- */
-export function setupViewportOptimization(
-  element: HTMLElement,
-  callback: (isVisible: boolean) => void
-): () => void {
-  // TODO: Implement viewport optimization
-  // Use Intersection Observer for efficient visibility detection
-  // Pause/resume animations based on visibility
-  throw new Error('PLACEHOLDER - Implement viewport optimization');
-}
-
 /**
  * Monitor animation performance
  * @param animationId - Animation to monitor
@@ -80,17 +55,6 @@ export interface LegacyPerformanceMetrics {
   isPerformant: boolean;
 }
 
-/**
- * Performance optimization settings
- */
-export interface PerformanceSettings {
-  useGPUAcceleration: boolean;
-  enableViewportOptimization: boolean;
-  maxConcurrentAnimations: number;
-  throttleFrameRate: boolean;
-  targetFrameRate: number;
-}
-
 /*
 IMPLEMENTATION NOTES:
 - Focus on real-world performance improvements
@@ -40,6 +40,7 @@
  */
 
 import { PropertyValue } from '../../types/index.ts';
+import { interpolateColor } from '../color/index.ts';
 
 //=======================================
 //        ENHANCED GRADIENT INTERPOLATION
@@ -163,88 +164,12 @@ export function parseGradient(gradientString: string): ParsedGradient {
 }
 
 /**
- * Parse RGB/RGBA color string to an object
- * Enhanced to handle both RGB and RGBA with proper alpha channel
- */
-function parseRgbColor(rgb: string): { r: number; g: number; b: number; a: number } {
-    // Handle rgba format
-    const rgbaMatch = rgb.match(
-        /rgba\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*,\s*([0-9.]+)\s*\)/i
-    );
-    if (rgbaMatch) {
-        return {
-            r: parseInt(rgbaMatch[1], 10),
-            g: parseInt(rgbaMatch[2], 10),
-            b: parseInt(rgbaMatch[3], 10),
-            a: parseFloat(rgbaMatch[4]),
-        };
-    }
-
-    // Handle rgb format
-    const rgbMatch = rgb.match(/rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)/i);
-    if (rgbMatch) {
-        return {
-            r: parseInt(rgbMatch[1], 10),
-            g: parseInt(rgbMatch[2], 10),
-            b: parseInt(rgbMatch[3], 10),
-            a: 1, // Default alpha
-        };
-    }
-
-    // Fallback
-    return { r: 0, g: 0, b: 0, a: 1 };
-}
-
-/**
- * Enhanced hex to RGB conversion that handles 3, 6, and 8 character hex values
- */
-function hexToRgb(hex: string): { r: number; g: number; b: number } {
-    // Remove the hash if it exists
-    hex = hex.replace(/^#/, "");
-
-    // Parse the hex values
-    let r, g, b;
-    if (hex.length === 3) {
-        r = parseInt(hex.charAt(0) + hex.charAt(0), 16);
-        g = parseInt(hex.charAt(1) + hex.charAt(1), 16);
-        b = parseInt(hex.charAt(2) + hex.charAt(2), 16);
-    } else {
-        r = parseInt(hex.substring(0, 2), 16);
-        g = parseInt(hex.substring(2, 4), 16);
-        b = parseInt(hex.substring(4, 6), 16);
-    }
-
-    return { r, g, b };
-}
-
-/**
- * Enhanced color interpolation that handles RGB, RGBA, and hex colors
- * Based on the sophisticated implementation from GradientInterpolationExample.tsx
+ * Enhanced color interpolation for gradient stops
+ * Delegates to the color subsystem (OKLab by default) so gradient stops
+ * accept every CSS color format and avoid grey sRGB midpoints
  */
 function interpolateRgbColors(color1: string, color2: string, factor: number): string {
-    // Parse colors - handle rgb(), rgba() and hex
-    let c1, c2;
-
-    if (color1.startsWith("rgb")) {
-        c1 = parseRgbColor(color1);
-    } else {
-        c1 = { ...hexToRgb(color1.replace("#", "")), a: 1 };
-    }
-
-    if (color2.startsWith("rgb")) {
-        c2 = parseRgbColor(color2);
-    } else {
-        c2 = { ...hexToRgb(color2.replace("#", "")), a: 1 };
-    }
-
-    // Interpolate each component
-    const r = Math.round(c1.r + (c2.r - c1.r) * factor);
-    const g = Math.round(c1.g + (c2.g - c1.g) * factor);
-    const b = Math.round(c1.b + (c2.b - c1.b) * factor);
-    const a = parseFloat((c1.a + (c2.a - c1.a) * factor).toFixed(2)); // Alpha component
-
-    // Return the interpolated color with alpha if needed
-    return a < 1 ? `rgba(${r}, ${g}, ${b}, ${a})` : `rgb(${r}, ${g}, ${b})`;
+    return interpolateColor(color1, color2, factor);
 }
 
 /**
@@ -48,6 +48,7 @@ import { PropertyValue } from '../../types/index.ts';
 
 // Import simple unit conversion system
 import { interpolateToPixels } from '../units/SimpleUnitConverter.ts';
+import { interpolateColor as interpolateColorValues } from '../color/index.ts';
 
 /**
  * Enhanced interpolate between two property values with cross-unit support
@@ -220,63 +221,13 @@ export function interpolateNumeric(fromValue: PropertyValue, toValue: PropertyVa
 /**
  * Enhanced color interpolation with support for different formats
  * 
- * @param fromColor - Starting color (hex, rgb, rgba, hsl, hsla)
- * @param toColor - Ending color (same format as fromColor)
+ * @param fromColor - Starting color (any CSS color: hex, rgb, hsl, oklch, named, ...)
+ * @param toColor - Ending color (any CSS color, format may differ from fromColor)
  * @param progress - Animation progress (0-1)
- * @returns Interpolated color string
+ * @returns Interpolated color string (OKLab interpolation, rgb()/rgba() output)
  */
 export function interpolateColor(fromColor: string, toColor: string, progress: number): string {
-    // Enhanced color interpolation - basic implementation
-    // TODO: Implement proper color space interpolation
-    
-    // Try to interpolate hex colors
-    if (fromColor.startsWith('#') && toColor.startsWith('#')) {
-        return interpolateHexColors(fromColor, toColor, progress);
-    }
-    
-    // For now, just return the target color at 50% progress
-    if (progress < 0.5) {
-        return fromColor;
-    } else {
-        return toColor;
-    }
-}
-
-/**
- * Interpolate between hex colors
- * 
- * @param fromHex - Starting hex color
- * @param toHex - Ending hex color
- * @param progress - Animation progress
- * @returns Interpolated hex color
- */
-function interpolateHexColors(fromHex: string, toHex: string, progress: number): string {
-    // Remove # symbols
-    const from = fromHex.replace('#', '');
-    const to = toHex.replace('#', '');
-    
-    // Handle 3-digit hex codes
-    const fromFull = from.length === 3 ? from.split('').map(c => c + c).join('') : from;
-    const toFull = to.length === 3 ? to.split('').map(c => c + c).join('') : to;
-    
-    // Extract RGB components
-    const fromR = parseInt(fromFull.slice(0, 2), 16);
-    const fromG = parseInt(fromFull.slice(2, 4), 16);
-    const fromB = parseInt(fromFull.slice(4, 6), 16);
-    
-    const toR = parseInt(toFull.slice(0, 2), 16);
-    const toG = parseInt(toFull.slice(2, 4), 16);
-    const toB = parseInt(toFull.slice(4, 6), 16);
-    
-    // Interpolate each component
-    const r = Math.round(fromR + (toR - fromR) * progress);
-    const g = Math.round(fromG + (toG - fromG) * progress);
-    const b = Math.round(fromB + (toB - fromB) * progress);
-    
-    // Convert back to hex
-    const toHexString = (val: number) => Math.max(0, Math.min(255, val)).toString(16).padStart(2, '0');
-    
-    return `#${toHexString(r)}${toHexString(g)}${toHexString(b)}`;
+    return interpolateColorValues(fromColor, toColor, progress);
 }
 
 /**
@@ -37,6 +37,9 @@ export { GridDetector } from './grid/GridDetector.ts';
 export { DistanceCalculator } from './grid/DistanceCalculator.ts';
 export { OriginResolver } from './grid/OriginResolver.ts';
 
+// Custom order utilities (index lists, data-* attributes, measured metrics)
+export { CustomOrderResolver, ensurePointerTracking } from './order/CustomOrderResolver.ts';
+
 // =============================================================================
 // SCROLL STAGGER UTILITIES (Future Implementation)
 // =============================================================================
@@ -0,0 +1,250 @@
+/**
+ * @file CustomOrderResolver.ts
+ * @description Resolves custom stagger sequences into ordered element groups
+ *
+ * @version 1.0.0
+ * @since 2.1.0
+ *
+ * @example
+ * ```typescript
+ * import { CustomOrderResolver } from './CustomOrderResolver.ts';
+ *
+ * const resolver = new CustomOrderResolver();
+ *
+ * // Explicit sequence: element 3 first, then 1, 0, 2
+ * resolver.resolveGroups(elements, { source: 'index-list', indices: '3,1,0,2' });
+ * // → [[3], [1], [0], [2]]
+ *
+ * // Elements with equal data-stagger-order values animate together
+ * resolver.resolveGroups(elements, { source: 'attribute', attribute: 'stagger-order' });
+ * // → [[0, 2], [1], [3]]
+ * ```
+ */
+
+import type {
+    CustomStaggerOrderConfig,
+    CustomStaggerMetric,
+    Point
+} from '../types/StaggerTypes.ts';
+
+// Module name for logging
+const MODULE_NAME = "CustomOrderResolver";
+
+/** Metric values closer than this (px) animate together */
+const METRIC_GROUP_TOLERANCE = 1;
+
+/** Last pointer position seen on the page (viewport coordinates) */
+let lastPointerPosition: Point | null = null;
+let isTrackingPointer = false;
+
+/**
+ * Start tracking the pointer position for pointer-distance orders
+ *
+ * @description
+ * Installs a single passive listener. Call it when a pointer-distance order is configured
+ * so the position is already known when the first trigger fires; resolution calls it too
+ * as a safety net. Pointer-down is tracked so click/tap triggers use the exact tap point.
+ */
+export function ensurePointerTracking(): void {
+    if (isTrackingPointer || typeof document === 'undefined') return;
+
+    const track = (event: PointerEvent) => {
+        lastPointerPosition = { x: event.clientX, y: event.clientY };
+    };
+
+    document.addEventListener('pointermove', track, { passive: true });
+    document.addEventListener('pointerdown', track, { passive: true });
+    isTrackingPointer = true;
+}
+
+/**
+ * Custom stagger order resolution
+ *
+ * @description
+ * Turns a CustomStaggerOrderConfig into groups of element indices. Each group animates
+ * at the same time; groups are returned in animation order. Shared by timed staggering
+ * (LinearStagger) and scroll stagger offsets (ScrollAnimationCoordinator).
+ *
+ * **Sources:**
+ * - index-list: Explicit indices, one group per listed element
+ * - attribute: Numeric data-* values, equal values share a group
+ * - metric: Measured width/height/area/pointer distance, equal values share a group
+ *
+ * Elements a sequence does not cover are appended in DOM order, one group each.
+ */
+export class CustomOrderResolver {
+    /**
+     * Resolve element groups for a custom order
+     *
+     * @param elements - Elements being staggered
+     * @param config - Custom order configuration (missing config = DOM order)
+     * @returns Element index groups in animation order
+     */
+    resolveGroups(elements: HTMLElement[], config?: CustomStaggerOrderConfig): number[][] {
+        if (elements.length === 0) return [];
+
+        if (!config) {
+            console.warn(`🔀 [${MODULE_NAME}] Custom order selected without a sequence, using DOM order`);
+            return this.createDomOrderGroups(elements.length);
+        }
+
+        switch (config.source) {
+            case 'index-list':
+                return this.resolveIndexList(elements.length, config.indices);
+
+            case 'attribute':
+                return this.resolveAttribute(elements, config.attribute, config.descending === true);
+
+            case 'metric':
+                return this.resolveMetric(elements, config.metric || 'area', config.descending === true);
+
+            default:
+                console.warn(`🔀 [${MODULE_NAME}] Unknown custom order source: ${(config as any).source}, using DOM order`);
+                return this.createDomOrderGroups(elements.length);
+        }
+    }
+
+    /**
+     * Resolve an explicit index list ("3,1,0,2" or [3, 1, 0, 2])
+     *
+     * @description
+     * Out-of-range, non-numeric and duplicate entries are ignored.
+     */
+    private resolveIndexList(elementCount: number, indices?: string | number[]): number[][] {
+        const rawIndices = Array.isArray(indices)
+            ? indices
+            : (indices || '').split(/[\s,]+/).filter(Boolean).map(Number);
+
+        const ordered: number[] = [];
+        const seen = new Set<number>();
+
+        rawIndices.forEach((value) => {
+            const index = Math.floor(value);
+            if (!Number.isFinite(value) || index < 0 || index >= elementCount || seen.has(index)) return;
+            seen.add(index);
+            ordered.push(index);
+        });
+
+        if (ordered.length === 0) {
+            console.warn(`🔀 [${MODULE_NAME}] Index list "${indices}" matched no elements, using DOM order`);
+        }
+
+        const groups = ordered.map(index => [index]);
+        return this.appendRemaining(groups, elementCount, seen);
+    }
+
+    /**
+     * Resolve order from a numeric attribute on each element
+     *
+     * @description
+     * The "data-" prefix is optional ("stagger-order" reads data-stagger-order).
+     * Elements without a numeric value follow in DOM order.
+     */
+    private resolveAttribute(elements: HTMLElement[], attribute: string | undefined, descending: boolean): number[][] {
+        const name = (attribute || '').trim();
+        if (!name) {
+            console.warn(`🔀 [${MODULE_NAME}] Attribute order without attribute name, using DOM order`);
+            return this.createDomOrderGroups(elements.length);
+        }
+
+        const attributeName = name.startsWith('data-') ? name : `data-${name}`;
+        const values = elements.map((element) => {
+            const raw = element.getAttribute(attributeName);
+            const value = raw === null || raw.trim() === '' ? NaN : Number(raw);
+            return Number.isFinite(value) ? value : null;
+        });
+
+        return this.groupByValue(values, descending, 0);
+    }
+
+    /**
+     * Resolve order from a measured element metric
+     */
+    private resolveMetric(elements: HTMLElement[], metric: CustomStaggerMetric, descending: boolean): number[][] {
+        if (metric === 'pointer-distance') {
+            ensurePointerTracking();
+        }
+
+        const pointer = metric === 'pointer-distance' ? this.getPointerPosition() : null;
+
+        const values = elements.map((element) => {
+            const rect = element.getBoundingClientRect();
+            switch (metric) {
+                case 'width':
+                    return rect.width;
+                case 'height':
+                    return rect.height;
+                case 'area':
+                    // Square root keeps the grouping tolerance in pixels
+                    return Math.sqrt(rect.width * rect.height);
+                case 'pointer-distance': {
+                    const centerX = rect.left + rect.width / 2;
+                    const centerY = rect.top + rect.height / 2;
+                    return Math.hypot(centerX - pointer!.x, centerY - pointer!.y);
+                }
+                default:
+                    return null;
+            }
+        });
+
+        return this.groupByValue(values, descending, METRIC_GROUP_TOLERANCE);
+    }
+
+    /**
+     * Group element indices by value and sort the groups
+     *
+     * @param values - Value per element (null = not covered by the sequence)
+     * @param descending - Sort high → low
+     * @param tolerance - Values within this distance share a group (0 = exact match)
+     */
+    private groupByValue(values: (number | null)[], descending: boolean, tolerance: number): number[][] {
+        const covered = values
+            .map((value, index) => ({ value, index }))
+            .filter((entry): entry is { value: number; index: number } => entry.value !== null)
+            .sort((a, b) => descending ? b.value - a.value : a.value - b.value);
+
+        const groups: number[][] = [];
+        const seen = new Set<number>();
+        let groupValue: number | null = null;
+
+        covered.forEach(({ value, index }) => {
+            if (groupValue === null || Math.abs(value - groupValue) > tolerance) {
+                groups.push([]);
+                groupValue = value;
+            }
+            groups[groups.length - 1].push(index);
+            seen.add(index);
+        });
+
+        return this.appendRemaining(groups, values.length, seen);
+    }
+
+    /**
+     * Append elements the sequence did not cover, in DOM order
+     */
+    private appendRemaining(groups: number[][], elementCount: number, seen: Set<number>): number[][] {
+        for (let index = 0; index < elementCount; index++) {
+            if (!seen.has(index)) {
+                groups.push([index]);
+            }
+        }
+        return groups;
+    }
+
+    /**
+     * One group per element in DOM order
+     */
+    private createDomOrderGroups(elementCount: number): number[][] {
+        return Array.from({ length: elementCount }, (_, index) => [index]);
+    }
+
+    /**
+     * Last pointer position, or the viewport center before the pointer has moved
+     */
+    private getPointerPosition(): Point {
+        if (lastPointerPosition) return lastPointerPosition;
+
+        if (typeof window === 'undefined') return { x: 0, y: 0 };
+        return { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+    }
+}
@@ -29,6 +29,18 @@
  *     backward: 'edges-in'
  *   }
  * }, 'backward');
+ * 
+ * // Custom sequence
+ * const customResult = stagger.calculateTimedDelays(elements, {
+ *   enabled: true,
+ *   delay: 0.1,
+ *   strategy: 'linear',
+ *   order: {
+ *     forward: 'custom',
+ *     backward: 'custom',
+ *     custom: { source: 'index-list', indices: '3,1,0,2' }
+ *   }
+ * }, 'forward');
  * ```
  */
 
@@ -39,6 +51,7 @@ import type {
     StaggerOrder, 
     ElementPosition 
 } from '../types/StaggerTypes.ts';
+import { CustomOrderResolver } from '../order/CustomOrderResolver.ts';
 
 /**
  * Element group for simultaneous animation
@@ -66,6 +79,7 @@ interface ElementGroup {
  * - Basic orders: first-to-last, last-to-first
  * - Spatial orders: center-out, edges-in
  * - Random orders: randomized sequence with optional seed
+ * - Custom orders: index lists, data-* attributes or measured metrics
  * - Directional configuration: different orders for forward vs backward animations
  * 
  * @version 2.0.0 - Enhanced with advanced order calculations
@@ -226,8 +240,7 @@ export class LinearStagger {
                 return this.createRandomGroups(elements.length, config.advanced?.random?.seed);
 
             case 'custom':
-                console.warn('Custom order not yet implemented, falling back to first-to-last');
-                return this.createLinearGroups(elements.length, false);
+                return this.createCustomGroups(elements, config);
 
             default:
                 console.warn(`Unknown order type: ${order}, falling back to first-to-last`);
@@ -334,6 +347,22 @@ export class LinearStagger {
         }));
     }
 
+    /**
+     * Create groups from a custom sequence (StaggerConfig.order.custom)
+     * 
+     * @param elements - Element array
+     * @param config - Stagger configuration holding the custom order
+     * @returns Array of groups in custom sequence order
+     */
+    private createCustomGroups(elements: HTMLElement[], config: StaggerConfig): ElementGroup[] {
+        const groups = new CustomOrderResolver().resolveGroups(elements, config.order.custom);
+
+        return groups.map((groupElements, groupOrderIndex) => ({
+            elements: groupElements,
+            groupOrderIndex
+        }));
+    }
+
     /**
      * @deprecated Use calculateElementGroups instead
      * Legacy method maintained for potential backward compatibility
@@ -46,10 +46,68 @@ export type StaggerStrategy = 'linear' | 'grid' | 'random';
  * - center-out: Center elements animate first, then outward
  * - edges-in: Edge elements animate first, then inward
  * - random: Elements animate in randomized order (with optional seed)
- * - custom: User-defined animation sequence (future feature)
+ * - custom: User-defined animation sequence (see CustomStaggerOrderConfig)
  */
 export type StaggerOrder = 'first-to-last' | 'last-to-first' | 'center-out' | 'edges-in' | 'random' | 'custom';
 
+/**
+ * Source of a custom stagger sequence
+ * 
+ * @description
+ * - index-list: Explicit element indices, e.g. "3,1,0,2"
+ * - attribute: Numeric data-* attribute read from each animated element
+ * - metric: Sort by a measured element metric (size or pointer distance)
+ */
+export type CustomStaggerOrderSource = 'index-list' | 'attribute' | 'metric';
+
+/**
+ * Measured metrics for metric-based custom orders
+ * 
+ * @description
+ * - width / height / area: Element bounding box size
+ * - pointer-distance: Distance from the last known pointer position to the element center
+ */
+export type CustomStaggerMetric = 'width' | 'height' | 'area' | 'pointer-distance';
+
+/**
+ * Custom stagger order configuration
+ * 
+ * @description
+ * Defines the sequence used when an order resolves to 'custom'. Elements that share
+ * the same attribute value or metric animate together. Elements the sequence does
+ * not cover (missing from the list, missing attribute) follow in DOM order.
+ * 
+ * @since 2.1.0
+ * 
+ * @example
+ * ```typescript
+ * // Explicit sequence
+ * const listOrder: CustomStaggerOrderConfig = { source: 'index-list', indices: '3,1,0,2' };
+ * 
+ * // <div data-stagger-order="2"> ... read from each element
+ * const attributeOrder: CustomStaggerOrderConfig = { source: 'attribute', attribute: 'data-stagger-order' };
+ * 
+ * // Largest cards first
+ * const metricOrder: CustomStaggerOrderConfig = { source: 'metric', metric: 'area', descending: true };
+ * ```
+ */
+export interface CustomStaggerOrderConfig {
+    /** Where the sequence comes from */
+    source: CustomStaggerOrderSource;
+    
+    /** Element indices in animation order (index-list source) */
+    indices?: string | number[];
+    
+    /** Attribute holding a numeric order value (attribute source, "data-" prefix optional) */
+    attribute?: string;
+    
+    /** Measured metric to sort by (metric source) */
+    metric?: CustomStaggerMetric;
+    
+    /** Sort attribute values / metrics from high to low instead of low to high */
+    descending?: boolean;
+}
+
 /**
  * Directional stagger configuration
  * 
@@ -74,6 +132,9 @@ export interface DirectionalStaggerConfig {
     
     /** Element order when animation progresses backward (1 → 0) */
     backward: StaggerOrder;
+    
+    /** Sequence used by whichever direction resolves to 'custom' */
+    custom?: CustomStaggerOrderConfig;
 }
 
 /**
@@ -286,6 +286,11 @@ export class LineMaskingService {
             // Move line element inside mask container
             maskContainer.appendChild(lineElement);
             
+            // ♿ The mask now sits where the line was - keep split text hidden from screen readers
+            if (lineElement.getAttribute('aria-hidden') === 'true') {
+                maskContainer.setAttribute('aria-hidden', 'true');
+            }
+            
             // 🔍 PRESERVE: Maintain element ID for animation continuity
             if (config.preserveElementIds !== false) {
                 const originalId = lineElement.getAttribute('data-fame-element-id');
@@ -43,6 +43,7 @@ import {
     domOperationMonitor,
     ElementCreationData 
 } from '../dom/BatchDOMOperations.ts';
+import { TextSegmentationService } from './services/TextSegmentationService.ts';
 
 /**
  * Processing chunk for non-blocking operations
@@ -217,6 +218,8 @@ export async function processTextNonBlocking(
 async function generateElementsData(element: HTMLElement, config: TextProcessingConfig): Promise<ElementData[]> {
     const elementsData: ElementData[] = [];
     const text = element.textContent || '';
+    const segmentation = TextSegmentationService.getInstance();
+    const locale = segmentation.resolveLocale(element, config.locale);
     
     switch (config.animateBy) {
         case 'lines':
@@ -233,8 +236,8 @@ async function generateElementsData(element: HTMLElement, config: TextProcessing
             break;
             
         case 'words':
-            // Split into words preserving spaces
-            const words = text.split(/(\s+)/);
+            // Split into words preserving spaces (language-aware for CJK/Thai)
+            const words = segmentation.segmentWords(text, locale);
             words.forEach((word, index) => {
                 if (word) { // Skip empty strings
                     elementsData.push({
@@ -248,8 +251,8 @@ async function generateElementsData(element: HTMLElement, config: TextProcessing
             break;
             
         case 'characters':
-            // Split into characters
-            const chars = Array.from(text);
+            // Split into grapheme clusters (emoji sequences, accents stay whole)
+            const chars = segmentation.segmentGraphemes(text, locale);
             chars.forEach((char, index) => {
                 elementsData.push({
                     type: 'character',
@@ -50,6 +50,8 @@ import { StylePreservationService, type StyleInfo } from "./services/StylePreser
 import { HTMLParsingService } from "./services/HTMLParsingService.ts"
 import { PositionMappingService } from "./services/PositionMappingService.ts"
 import { ReactCallbackManager, type TextSplitCompleteCallback } from "./services/ReactCallbackManager.ts"
+import { AccessibleTextService } from "./services/AccessibleTextService.ts"
+import { TextSegmentationService } from "./services/TextSegmentationService.ts"
 
 /**
  * Simple text splitting service
@@ -75,6 +77,12 @@ export class TextSplitter {
     /** Instance of ReactCallbackManager for handling React integration callbacks */
     private reactCallbackManager: ReactCallbackManager | null = null
 
+    /** Instance of AccessibleTextService for keeping split text readable by screen readers */
+    private accessibleTextService: AccessibleTextService | null = null
+
+    /** Instance of TextSegmentationService for grapheme/word segmentation */
+    private textSegmentationService: TextSegmentationService | null = null
+
     /** 🔥 NEW: Debug flag for resize-related logging */
     private static DEBUG_RESIZE = true
 
@@ -101,6 +109,12 @@ export class TextSplitter {
             // Initialize ReactCallbackManager for React integration callbacks
             TextSplitter.instance.reactCallbackManager = ReactCallbackManager.getInstance()
 
+            // Initialize AccessibleTextService for screen reader text
+            TextSplitter.instance.accessibleTextService = AccessibleTextService.getInstance()
+
+            // Initialize TextSegmentationService for locale-aware grapheme/word splitting
+            TextSplitter.instance.textSegmentationService = TextSegmentationService.getInstance()
+
             // 🚨 CACHE BUSTING: Register instance globally for cleanup
             if (typeof window !== "undefined") {
                 ;(window as any).__FAME_TEXT_SPLITTER_INSTANCE__ =
@@ -246,7 +260,10 @@ export class TextSplitter {
             this.originalHTML.set(elementId, element.innerHTML)
         }
 
-        const originalText = element.textContent || ""
+        // ♿ Ignore the visually-hidden copy if the element is already split
+        const originalText = this.accessibleTextService
+            ? this.accessibleTextService.getReadableText(element)
+            : element.textContent || ""
         if (!originalText.trim()) {
             return this.createFailureResult(element, "No text content")
         }
@@ -352,6 +369,16 @@ export class TextSplitter {
                     )
             }
 
+            // ♿ STEP 4: Expose the original text once, hide the split spans from screen readers
+            // Runs on every split, so responsive re-splits keep the accessible text
+            if (this.accessibleTextService) {
+                this.accessibleTextService.applyAccessibleText(
+                    element,
+                    originalText,
+                    config.accessibleText
+                )
+            }
+
             // ✅ ENABLED: Responsive splitting - delegated to ResponsiveTextManager
             // 🚨 INFINITE LOOP PREVENTION: Only register if not already in a re-split
             if (this.responsiveTextManager && !config._isReSplit) {
@@ -621,6 +648,11 @@ export class TextSplitter {
             console.warn(`🎨 [TextSplitter] Could not find original element for font size capture, using fallback: ${actualFontSize}`)
         }
 
+        // 🌐 Locale for grapheme segmentation (config → lang attribute → document)
+        const locale = this.textSegmentationService
+            ? this.textSegmentationService.resolveLocale(originalElement, config.locale)
+            : config.locale
+
         lineFoundation.forEach((maskContainer, lineIndex) => {
             // Find the text line element inside the mask container
             const textLineElement = maskContainer.querySelector(
@@ -666,7 +698,13 @@ export class TextSplitter {
             // Clear the text line and create character elements
             textLineElement.innerHTML = ""
 
-            const characters = Array.from(lineText)
+            // 🌐 Grapheme clusters keep emoji sequences, flags and combining accents together
+            const characters = this.textSegmentationService
+                ? this.textSegmentationService.segmentGraphemes(lineText, locale)
+                : Array.from(lineText)
+
+            // UTF-16 offset of the current grapheme within the line (position maps are per code unit)
+            let charOffset = 0
 
             characters.forEach((char, charIndex) => {
                 const charElement = document.createElement(
@@ -696,17 +734,18 @@ export class TextSplitter {
                 }
 
                 // 🔥 CRITICAL FIX: Use position map for accurate original text position
-                const splitPosition = splitTextOffset + charIndex
-                const originalPosition =
-                    positionMap[splitPosition] !== undefined
-                        ? positionMap[splitPosition]
-                        : splitPosition // Fallback to split position if map unavailable
+                // Graphemes can span several code units - map the whole range
+                const splitPosition = splitTextOffset + charOffset
+                const charRange = this.positionMappingService
+                    ? this.positionMappingService.mapSegmentRange(positionMap, splitPosition, char.length)
+                    : { startIndex: splitPosition, endIndex: splitPosition + char.length }
+                charOffset += char.length
 
                 // Find if this character overlaps with any captured styled elements using ORIGINAL position
                 const applicableStyle = capturedStyles.find((styleInfo) => {
                     const isInRange =
-                        originalPosition >= styleInfo.startIndex &&
-                        originalPosition < styleInfo.endIndex
+                        charRange.startIndex < styleInfo.endIndex &&
+                        charRange.endIndex > styleInfo.startIndex
                     return isInRange
                 })
 
@@ -771,6 +810,11 @@ export class TextSplitter {
             console.warn(`🎨 [TextSplitter] Could not find original element for font size capture, using fallback: ${actualFontSize}`)
         }
 
+        // 🌐 Locale for word segmentation (config → lang attribute → document)
+        const locale = this.textSegmentationService
+            ? this.textSegmentationService.resolveLocale(originalElement, config.locale)
+            : config.locale
+
         lineFoundation.forEach((maskContainer, lineIndex) => {
             // Find the text line element inside the mask container
             const textLineElement = maskContainer.querySelector(
@@ -816,7 +860,10 @@ export class TextSplitter {
             // Clear the text line and create word elements
             textLineElement.innerHTML = ""
 
-            const words = lineText.split(/(\s+)/) // Keep spaces
+            // 🌐 Language-aware word boundaries (CJK/Thai have no spaces), whitespace kept as segments
+            const words = this.textSegmentationService
+                ? this.textSegmentationService.segmentWords(lineText, locale)
+                : lineText.split(/(\s+)/) // Keep spaces
             let currentCharIndex = splitTextOffset
 
             words.forEach((word, wordIndex) => {
@@ -849,16 +896,13 @@ export class TextSplitter {
                 }
 
                 // 🔥 CRITICAL FIX: Use position map for accurate original text position
-                const wordStartSplitIndex = currentCharIndex
-                const wordEndSplitIndex = currentCharIndex + word.length
+                const wordRange = this.positionMappingService
+                    ? this.positionMappingService.mapSegmentRange(positionMap, currentCharIndex, word.length)
+                    : { startIndex: currentCharIndex, endIndex: currentCharIndex + word.length }
 
                 // Map word positions from split text to original text
-                const wordStartOriginalIndex = positionMap[wordStartSplitIndex] !== undefined 
-                    ? positionMap[wordStartSplitIndex] 
-                    : wordStartSplitIndex;
-                const wordEndOriginalIndex = positionMap[wordEndSplitIndex - 1] !== undefined 
-                    ? positionMap[wordEndSplitIndex - 1] + 1 
-                    : wordEndSplitIndex;
+                const wordStartOriginalIndex = wordRange.startIndex;
+                const wordEndOriginalIndex = wordRange.endIndex;
 
                 // Find if this word overlaps with any captured styled elements using ORIGINAL positions
                 const applicableStyle = capturedStyles.find((styleInfo) => {
@@ -1194,6 +1238,11 @@ export class TextSplitter {
             const originalHTML = this.originalHTML.get(elementId)
 
             if (originalHTML) {
+                // ♿ Remove the accessible text layer (restores any original aria-label)
+                if (this.accessibleTextService) {
+                    this.accessibleTextService.removeAccessibleText(element)
+                }
+
                 // Restore original HTML (automatically removes line foundation structure)
                 element.innerHTML = originalHTML
                 this.originalHTML.delete(elementId)
@@ -1391,7 +1440,12 @@ export class TextSplitter {
          const elementId = this.getElementId(element);
          
          // 1. Capture the original plain text content BEFORE any changes
-         const originalText = element.textContent || "";
+         // ♿ Readable text excludes the visually-hidden copy; drop the a11y layer so its
+         // aria-label isn't copied onto the fresh element as if it were the author's
+         const originalText = this.accessibleTextService
+             ? this.accessibleTextService.getReadableText(element)
+             : element.textContent || "";
+         this.accessibleTextService?.removeAccessibleText(element);
          
          try {
              
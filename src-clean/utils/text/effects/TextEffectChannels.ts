@@ -0,0 +1,138 @@
+/**
+ * @file TextEffectChannels.ts
+ * @description Turns TextProcessingConfig.textEffects into master timeline channels
+ *
+ * @version 1.0.0
+ * @since 2.3.0
+ *
+ * @description
+ * Every enabled text effect becomes a regular AnimationProperty whose value runs from
+ * 0 (effect start) to 1 (final text). Because it lives in the master timeline next to
+ * translateX/opacity/etc., the effect automatically follows:
+ * - stagger (each split element plays its own timeline)
+ * - scrubbed scroll progress (value is read at the scroll-mapped time)
+ * - reverse modes (backward playback and easing preservation swap 0 ↔ 1)
+ * - reduced motion (SKIP_TO_END lands on 1 = final text)
+ *
+ * The channel name encodes the effect type plus a hash of its configuration, so
+ * StyleApplicator can look the configuration up when the value is applied:
+ * `textEffect:textScramble:k3j9a1`
+ *
+ * @example
+ * ```typescript
+ * const channels = createTextEffectProperties(textProcessing.textEffects, 0.8);
+ * // [{ property: 'textEffect:typewriter:1x2y3z', from: 0, to: 1, duration: 0.8, ... }]
+ *
+ * isTextEffectProperty('textEffect:typewriter:1x2y3z'); // true
+ * getTextEffectForProperty('textEffect:typewriter:1x2y3z'); // TextEffect
+ * ```
+ */
+
+import { AnimationProperty, TextEffect, TextEffectType } from '../../../types/index.ts';
+
+/** Prefix shared by all text effect channel names */
+export const TEXT_EFFECT_PROPERTY_PREFIX = 'textEffect:';
+
+/** Channel duration when neither the effect nor the slot provides one (seconds) */
+const DEFAULT_EFFECT_DURATION = 1;
+
+/** Channel name → effect configuration */
+const registeredEffects = new Map<string, TextEffect>();
+
+/**
+ * Check whether a property name is a text effect channel
+ */
+export function isTextEffectProperty(property: string): boolean {
+    return property.startsWith(TEXT_EFFECT_PROPERTY_PREFIX);
+}
+
+/**
+ * Get the effect configuration behind a channel name
+ * @returns Registered effect, or undefined for unknown channels
+ */
+export function getTextEffectForProperty(property: string): TextEffect | undefined {
+    return registeredEffects.get(property);
+}
+
+/**
+ * Register an effect and return its channel name
+ * Identical configurations share one channel name, so re-initialization does not grow the registry.
+ */
+export function registerTextEffect(effect: TextEffect): string {
+    const channel = `${TEXT_EFFECT_PROPERTY_PREFIX}${effect.type}:${hashConfiguration(effect)}`;
+    registeredEffects.set(channel, effect);
+    return channel;
+}
+
+/**
+ * Build timeline channels for the enabled text effects
+ *
+ * @param textEffects - Effects from TextProcessingConfig
+ * @param slotDuration - Span of the slot's property timeline in seconds (default channel length)
+ * @returns AnimationProperty channels (progress 0 → 1)
+ */
+export function createTextEffectProperties(
+    textEffects: TextEffect[] | undefined,
+    slotDuration: number
+): AnimationProperty[] {
+    if (!textEffects || textEffects.length === 0) return [];
+
+    const defaultDuration = slotDuration > 0 ? slotDuration : DEFAULT_EFFECT_DURATION;
+    const seenTypes = new Set<TextEffectType>();
+    const properties: AnimationProperty[] = [];
+
+    textEffects.forEach((effect) => {
+        if (!effect || !effect.enabled || !isKnownEffectType(effect.type)) return;
+
+        // One channel per effect type - later duplicates would only fight over the same text
+        if (seenTypes.has(effect.type)) {
+            console.warn(`✨ [TextEffects] Duplicate ${effect.type} effect ignored`);
+            return;
+        }
+        seenTypes.add(effect.type);
+
+        const channel = registerTextEffect(effect);
+
+        // EffectTimingConfig is in milliseconds, timeline channels in seconds
+        const duration = effect.timing && effect.timing.duration > 0
+            ? effect.timing.duration / 1000
+            : defaultDuration;
+        const delay = effect.timing && effect.timing.delay > 0
+            ? effect.timing.delay / 1000
+            : 0;
+
+        properties.push({
+            property: channel,
+            from: 0,
+            to: 1,
+            unit: '',
+            duration,
+            delay,
+            easing: effect.timing?.easing || 'linear',
+            instanceId: channel,
+        });
+    });
+
+    return properties;
+}
+
+//=======================================
+//        INTERNAL HELPERS
+//=======================================
+
+function isKnownEffectType(type: unknown): type is TextEffectType {
+    return Object.values(TextEffectType).includes(type as TextEffectType);
+}
+
+/**
+ * Short, stable hash of the effect configuration (djb2, base36)
+ */
+function hashConfiguration(effect: TextEffect): string {
+    const source = JSON.stringify({ config: effect.config || {}, timing: effect.timing || null });
+
+    let hash = 5381;
+    for (let i = 0; i < source.length; i++) {
+        hash = ((hash << 5) + hash + source.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(36);
+}
@@ -0,0 +1,378 @@
+/**
+ * @file TextEffectRenderer.ts
+ * @description Renders text effect channels (scramble, typewriter, reveal, glitch) onto elements
+ *
+ * @version 1.0.0
+ * @since 2.3.0
+ *
+ * @description
+ * Receives text effect channel values from StyleApplicator.applyProperty() and renders
+ * them onto the animated element. The renderer is stateless with respect to time: the
+ * output depends only on the channel progress (0 → 1), which is what lets the effects
+ * follow stagger, scroll scrubbing and reverse playback.
+ *
+ * Text effects compose on the same element in a fixed order:
+ * typewriter (what is visible) → scramble (what is resolved) → glitch (noise on top).
+ * Reveal only clips the element and never touches the text.
+ *
+ * The original text nodes are captured on first use, so effects also work on elements
+ * with nested markup (lines with <strong>/<em>) - only text node data is rewritten.
+ *
+ * @example
+ * ```typescript
+ * // Called by applyProperty() for every `textEffect:*` channel
+ * textEffectRenderer.applyChannel(element, 'textEffect:textScramble:k3j9a1', 0.4);
+ * ```
+ */
+
+import { TextEffect, TextEffectType } from '../../../types/index.ts';
+import { TextSegmentationService } from '../services/TextSegmentationService.ts';
+import { getTextEffectForProperty } from './TextEffectChannels.ts';
+
+/** Default scramble alphabet (same as the standalone scramble component) */
+export const DEFAULT_SCRAMBLE_CHARS =
+    'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789!@#$%^&*()_+-=[]{}|;:,.<>?';
+
+/** Default glitch alphabet */
+const DEFAULT_GLITCH_CHARS = '!<>-_\\/[]{}=+*^?#░▒▓';
+
+/** Default glyph refresh speed (1 = once per second, 100 = every 50ms) */
+const DEFAULT_SPEED = 56;
+
+/** Default share of unresolved glyphs that glitch at peak intensity */
+const DEFAULT_GLITCH_INTENSITY = 0.35;
+
+/** Marker of the visually-hidden accessible text copy (never animated) */
+const ACCESSIBLE_COPY_SELECTOR = '[data-fame-a11y-text]';
+
+/**
+ * Per-element rendering state
+ */
+interface TextEffectElementState {
+    /** Text nodes captured on first use */
+    textNodes: Text[];
+    /** Original graphemes per text node */
+    graphemes: string[][];
+    /** Inline styles to restore when effects finish */
+    originalStyles: {
+        color: string;
+        textShadow: string;
+        clipPath: string;
+        visibility: string;
+    };
+    /** Latest progress per effect type */
+    channels: Map<TextEffectType, { effect: TextEffect; progress: number }>;
+    /** Random glyph caches, refreshed at the effect's speed */
+    glyphCache: Map<TextEffectType, { tick: number; glyphs: Array<string | null> }>;
+}
+
+/**
+ * Renders text effect channels onto DOM elements
+ */
+class TextEffectRenderer {
+    private states = new WeakMap<HTMLElement, TextEffectElementState>();
+    private segmentation = TextSegmentationService.getInstance();
+
+    /**
+     * Apply a text effect channel value
+     * @param element - Animated element
+     * @param channel - Channel name (`textEffect:<type>:<hash>`)
+     * @param value - Channel progress (0 = start, 1 = final text)
+     */
+    applyChannel(element: HTMLElement, channel: string, value: unknown): void {
+        const effect = getTextEffectForProperty(channel);
+        if (!effect) {
+            console.warn(`✨ [TextEffectRenderer] Unknown text effect channel: ${channel}`);
+            return;
+        }
+
+        const state = this.getState(element);
+        if (!state) return;
+
+        const numericValue = Number(value);
+        const progress = isNaN(numericValue) ? 1 : Math.max(0, Math.min(1, numericValue));
+
+        state.channels.set(effect.type, { effect, progress });
+
+        if (effect.type === TextEffectType.REVEAL) {
+            this.renderReveal(element, state, effect, progress);
+            return;
+        }
+
+        this.renderText(element, state);
+    }
+
+    //=======================================
+    //        TEXT EFFECTS
+    //=======================================
+
+    /**
+     * Compose typewriter → scramble → glitch and write the result into the text nodes
+     */
+    private renderText(element: HTMLElement, state: TextEffectElementState): void {
+        const original = state.graphemes.reduce<string[]>((all, nodeGraphemes) => all.concat(nodeGraphemes), []);
+        const total = original.length;
+        const display: string[] = original.slice();
+        let isScrambled = false;
+        let cursor = '';
+
+        // ⌨️ TYPEWRITER: graphemes beyond the visible count are removed
+        const typewriter = state.channels.get(TextEffectType.TYPEWRITER);
+        let visibleCount = total;
+        if (typewriter) {
+            visibleCount = typewriter.progress >= 1 ? total : Math.ceil(typewriter.progress * total);
+
+            if (total === 1) {
+                // Single split character: keep its box, only hide the glyph
+                element.style.visibility = visibleCount > 0 ? state.originalStyles.visibility : 'hidden';
+                visibleCount = total;
+            } else if (typewriter.progress > 0 && typewriter.progress < 1) {
+                cursor = String(typewriter.effect.config?.cursor ?? '');
+            }
+        }
+
+        // 🔀 SCRAMBLE: resolved left to right, the rest shows random glyphs
+        const scramble = state.channels.get(TextEffectType.TEXT_SCRAMBLE);
+        if (scramble && scramble.progress < 1) {
+            const resolvedCount = Math.floor(scramble.progress * total);
+            const glyphs = this.getScrambleGlyphs(state, scramble.effect, original);
+
+            for (let i = resolvedCount; i < total; i++) {
+                const glyph = glyphs[i];
+                if (glyph !== null) {
+                    display[i] = glyph;
+                    isScrambled = true;
+                }
+            }
+        }
+
+        // ⚡ GLITCH: noise that peaks mid-channel and settles on the original text
+        const glitch = state.channels.get(TextEffectType.GLITCH);
+        let glitchStrength = 0;
+        if (glitch && glitch.progress > 0 && glitch.progress < 1) {
+            const intensity = this.readNumber(glitch.effect.config?.intensity, DEFAULT_GLITCH_INTENSITY, 0, 1);
+            glitchStrength = intensity * Math.sin(Math.PI * glitch.progress);
+
+            const glyphs = this.getGlitchGlyphs(state, glitch.effect, original, glitchStrength);
+            glyphs.forEach((glyph, i) => {
+                if (glyph !== null) display[i] = glyph;
+            });
+        }
+
+        this.writeText(state, display.slice(0, visibleCount), cursor);
+
+        // 🎨 Scramble color while any glyph is scrambled
+        const scrambleColor = scramble?.effect.config?.scrambleColor;
+        if (scrambleColor) {
+            element.style.color = isScrambled ? String(scrambleColor) : state.originalStyles.color;
+        }
+
+        // 📺 RGB split while glitching
+        if (glitch) {
+            if (glitchStrength > 0.01) {
+                const offset = (glitchStrength * 4 * (Math.random() < 0.5 ? -1 : 1)).toFixed(2);
+                element.style.textShadow = `${offset}px 0 rgba(255, 0, 80, 0.75), ${-Number(offset)}px 0 rgba(0, 220, 255, 0.75)`;
+            } else {
+                element.style.textShadow = state.originalStyles.textShadow;
+            }
+        }
+    }
+
+    /**
+     * Scrambled glyph per grapheme (null = show original), refreshed at the effect's speed
+     * Mirrors the standalone scramble component: below 100% only non-space glyphs scramble.
+     */
+    private getScrambleGlyphs(
+        state: TextEffectElementState,
+        effect: TextEffect,
+        original: string[]
+    ): Array<string | null> {
+        const tick = this.getTick(effect);
+        const cached = state.glyphCache.get(TextEffectType.TEXT_SCRAMBLE);
+        if (cached && cached.tick === tick && cached.glyphs.length === original.length) {
+            return cached.glyphs;
+        }
+
+        const alphabet = String(effect.config?.chars || DEFAULT_SCRAMBLE_CHARS);
+        const percentage = this.readNumber(effect.config?.percentage, 100, 0, 100);
+
+        const glyphs = original.map((char) => {
+            if (percentage < 100 && !char.trim()) return null;
+            if (percentage < 100 && Math.random() * 100 >= percentage) return null;
+            return this.randomCharDifferentFrom(alphabet, char);
+        });
+
+        state.glyphCache.set(TextEffectType.TEXT_SCRAMBLE, { tick, glyphs });
+        return glyphs;
+    }
+
+    /**
+     * Glitched glyph per grapheme (null = show original)
+     */
+    private getGlitchGlyphs(
+        state: TextEffectElementState,
+        effect: TextEffect,
+        original: string[],
+        strength: number
+    ): Array<string | null> {
+        const tick = this.getTick(effect);
+        const cached = state.glyphCache.get(TextEffectType.GLITCH);
+        if (cached && cached.tick === tick && cached.glyphs.length === original.length) {
+            return cached.glyphs;
+        }
+
+        const alphabet = String(effect.config?.chars || DEFAULT_GLITCH_CHARS);
+        const glyphs = original.map((char) => {
+            if (!char.trim() || Math.random() >= strength) return null;
+            return this.randomCharDifferentFrom(alphabet, char);
+        });
+
+        state.glyphCache.set(TextEffectType.GLITCH, { tick, glyphs });
+        return glyphs;
+    }
+
+    /**
+     * Write graphemes back into the captured text nodes (markup stays untouched)
+     */
+    private writeText(state: TextEffectElementState, display: string[], cursor: string): void {
+        let offset = 0;
+        let lastVisibleNode = -1;
+
+        const nodeTexts = state.graphemes.map((nodeGraphemes, index) => {
+            const text = display.slice(offset, offset + nodeGraphemes.length).join('');
+            offset += nodeGraphemes.length;
+            if (text) lastVisibleNode = index;
+            return text;
+        });
+
+        if (cursor) {
+            nodeTexts[Math.max(lastVisibleNode, 0)] += cursor;
+        }
+
+        state.textNodes.forEach((node, index) => {
+            if (node.data !== nodeTexts[index]) node.data = nodeTexts[index];
+        });
+    }
+
+    //=======================================
+    //        REVEAL EFFECT
+    //=======================================
+
+    /**
+     * Clip the element open in the configured direction
+     */
+    private renderReveal(
+        element: HTMLElement,
+        state: TextEffectElementState,
+        effect: TextEffect,
+        progress: number
+    ): void {
+        if (progress >= 1) {
+            element.style.clipPath = state.originalStyles.clipPath;
+            return;
+        }
+
+        const hidden = `${((1 - progress) * 100).toFixed(2)}%`;
+        switch (effect.config?.direction) {
+            case 'right':
+                element.style.clipPath = `inset(0 0 0 ${hidden})`;
+                break;
+            case 'up':
+                element.style.clipPath = `inset(${hidden} 0 0 0)`;
+                break;
+            case 'down':
+                element.style.clipPath = `inset(0 0 ${hidden} 0)`;
+                break;
+            default:
+                // 'left': reveal from left to right
+                element.style.clipPath = `inset(0 ${hidden} 0 0)`;
+        }
+    }
+
+    //=======================================
+    //        STATE & HELPERS
+    //=======================================
+
+    /**
+     * Get (or capture) the rendering state of an element
+     * Re-captures when the element's text nodes were replaced (e.g. responsive re-split).
+     */
+    private getState(element: HTMLElement): TextEffectElementState | null {
+        const existing = this.states.get(element);
+        if (existing && existing.textNodes.every((node) => element.contains(node))) {
+            return existing;
+        }
+
+        const textNodes = this.collectTextNodes(element);
+        if (textNodes.length === 0) return null;
+
+        const locale = this.segmentation.resolveLocale(element);
+        const state: TextEffectElementState = {
+            textNodes,
+            graphemes: textNodes.map((node) => this.segmentation.segmentGraphemes(node.data, locale)),
+            originalStyles: existing?.originalStyles || {
+                color: element.style.color,
+                textShadow: element.style.textShadow,
+                clipPath: element.style.clipPath,
+                visibility: element.style.visibility,
+            },
+            channels: new Map(),
+            glyphCache: new Map(),
+        };
+
+        this.states.set(element, state);
+        return state;
+    }
+
+    private collectTextNodes(element: HTMLElement): Text[] {
+        const nodes: Text[] = [];
+        const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT, {
+            acceptNode: (node) => {
+                const parent = node.parentElement;
+                return parent && parent.closest(ACCESSIBLE_COPY_SELECTOR)
+                    ? NodeFilter.FILTER_REJECT
+                    : NodeFilter.FILTER_ACCEPT;
+            },
+        });
+
+        while (walker.nextNode()) {
+            nodes.push(walker.currentNode as Text);
+        }
+        return nodes;
+    }
+
+    /**
+     * Glyph refresh tick - speed 1 refreshes every second, 100 every 50ms
+     */
+    private getTick(effect: TextEffect): number {
+        const speed = this.readNumber(effect.config?.speed, DEFAULT_SPEED, 1, 100);
+        const intervalMs = (1 + (0.95 / 99) * (1 - speed)) * 1000;
+        return Math.floor(performance.now() / intervalMs);
+    }
+
+    private randomCharDifferentFrom(alphabet: string, original: string): string {
+        const chars = Array.from(alphabet);
+        if (chars.length === 0) return original;
+        if (chars.length === 1) return chars[0];
+
+        let candidate = chars[Math.floor(Math.random() * chars.length)];
+        for (let i = 0; i < 5 && candidate === original; i++) {
+            candidate = chars[Math.floor(Math.random() * chars.length)];
+        }
+        if (candidate === original) {
+            candidate = chars[(chars.indexOf(candidate) + 1) % chars.length];
+        }
+        return candidate;
+    }
+
+    private readNumber(value: unknown, fallback: number, min: number, max: number): number {
+        const numeric = Number(value);
+        if (value === undefined || value === null || value === '' || isNaN(numeric)) {
+            return fallback;
+        }
+        return Math.max(min, Math.min(max, numeric));
+    }
+}
+
+/** Shared text effect renderer */
+export const textEffectRenderer = new TextEffectRenderer();
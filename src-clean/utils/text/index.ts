@@ -12,6 +12,14 @@
 
 export { TextSplitter } from './TextSplitter.ts';
 export { LineMaskingService } from './LineMaskingService.ts';
+export { AccessibleTextService } from './services/AccessibleTextService.ts';
+export { TextSegmentationService } from './services/TextSegmentationService.ts';
+export {
+    TEXT_EFFECT_PROPERTY_PREFIX,
+    createTextEffectProperties,
+    isTextEffectProperty
+} from './effects/TextEffectChannels.ts';
+export { textEffectRenderer } from './effects/TextEffectRenderer.ts';
 
 // Re-export types for convenience
 export type {
@@ -20,6 +28,7 @@ export type {
     TextSplitResult,
     TextCanvasConfig,
     TextCanvasFallback,
+    TextAccessibilityMode,
     TextEffect,
     TextEffectType,
     EffectTimingConfig
@@ -0,0 +1,226 @@
+/**
+ * @file AccessibleTextService.ts
+ * @description Keeps split text readable for screen readers
+ *
+ * @version 1.0.0
+ * @since 2.3.0
+ *
+ * Splitting replaces a headline with a stack of character/word/line spans, which
+ * screen readers announce letter by letter. This service exposes the original text
+ * once - through aria-label or a visually-hidden copy - and marks every split span
+ * aria-hidden. It is re-applied on every (responsive) re-split and undone by
+ * TextSplitter.cleanupSplitText().
+ *
+ * @example
+ * ```typescript
+ * const accessibleText = AccessibleTextService.getInstance();
+ *
+ * // After splitting
+ * accessibleText.applyAccessibleText(element, originalText, TextAccessibilityMode.AUTO);
+ *
+ * // Text without the visually-hidden copy
+ * const text = accessibleText.getReadableText(element);
+ *
+ * // Before restoring the original HTML
+ * accessibleText.removeAccessibleText(element);
+ * ```
+ *
+ * @architecture
+ * - **Singleton Pattern**: Shared by TextSplitter and HTMLParsingService
+ * - **DOM-Only State**: Everything needed for cleanup is stored in data attributes,
+ *   so it survives element rebuilds and splitter resets
+ */
+
+import { TextAccessibilityMode } from "../../../types/index.ts";
+
+/** Marker for the visually-hidden text copy */
+const A11Y_COPY_ATTRIBUTE = "data-fame-a11y-text";
+
+/** Strategy that was applied to the split root */
+const A11Y_MODE_ATTRIBUTE = "data-fame-a11y";
+
+/** Original aria-label of the split root (restored on cleanup) */
+const ORIGINAL_ARIA_LABEL_ATTRIBUTE = "data-fame-original-aria-label";
+
+/** Sentinel for "element had no aria-label" */
+const NO_ARIA_LABEL = "__none__";
+
+/** Elements whose aria-label is announced without an explicit role */
+const NAMEABLE_TAGS = new Set(["H1", "H2", "H3", "H4", "H5", "H6", "A", "BUTTON", "LABEL"]);
+
+/** Roles that do not support naming via aria-label */
+const UNNAMEABLE_ROLES = new Set(["generic", "presentation", "none", "paragraph"]);
+
+/** Standard visually-hidden styles (still read by screen readers) */
+const VISUALLY_HIDDEN_STYLES: Record<string, string> = {
+    position: "absolute",
+    width: "1px",
+    height: "1px",
+    padding: "0",
+    margin: "-1px",
+    overflow: "hidden",
+    clip: "rect(0, 0, 0, 0)",
+    "clip-path": "inset(50%)",
+    "white-space": "nowrap",
+    border: "0",
+};
+
+/**
+ * AccessibleTextService
+ *
+ * Applies and removes the accessible text layer around split text.
+ */
+export class AccessibleTextService {
+    private static instance: AccessibleTextService | null = null;
+
+    /** Private constructor to enforce singleton pattern */
+    private constructor() {}
+
+    /**
+     * Get singleton instance of AccessibleTextService
+     */
+    public static getInstance(): AccessibleTextService {
+        if (!AccessibleTextService.instance) {
+            AccessibleTextService.instance = new AccessibleTextService();
+        }
+        return AccessibleTextService.instance;
+    }
+
+    /**
+     * Expose the original text once and hide the split spans
+     *
+     * Safe to call repeatedly (re-splits): the previous copy/label is replaced.
+     *
+     * @param element - Split root element
+     * @param originalText - Unsplit text content
+     * @param mode - Exposure strategy (default: AUTO)
+     */
+    public applyAccessibleText(
+        element: HTMLElement,
+        originalText: string,
+        mode: TextAccessibilityMode = TextAccessibilityMode.AUTO
+    ): void {
+        if (mode === TextAccessibilityMode.NONE || !originalText.trim()) {
+            return;
+        }
+
+        // Drop the copy from a previous split, keep the stored original aria-label
+        this.removeVisuallyHiddenCopy(element);
+
+        // Every split structure directly under the root is decorative for screen readers
+        Array.from(element.children).forEach((child) => {
+            child.setAttribute("aria-hidden", "true");
+        });
+
+        const resolvedMode = mode === TextAccessibilityMode.AUTO
+            ? this.resolveAutoMode(element)
+            : mode;
+
+        if (resolvedMode === TextAccessibilityMode.ARIA_LABEL) {
+            if (!element.hasAttribute(ORIGINAL_ARIA_LABEL_ATTRIBUTE)) {
+                element.setAttribute(
+                    ORIGINAL_ARIA_LABEL_ATTRIBUTE,
+                    element.getAttribute("aria-label") ?? NO_ARIA_LABEL
+                );
+            }
+            element.setAttribute("aria-label", originalText.trim());
+        } else {
+            element.insertBefore(this.createVisuallyHiddenCopy(originalText), element.firstChild);
+        }
+
+        element.setAttribute(A11Y_MODE_ATTRIBUTE, resolvedMode);
+    }
+
+    /**
+     * Undo applyAccessibleText (restores the original aria-label)
+     *
+     * @param element - Split root element
+     */
+    public removeAccessibleText(element: HTMLElement): void {
+        this.removeVisuallyHiddenCopy(element);
+
+        const originalLabel = element.getAttribute(ORIGINAL_ARIA_LABEL_ATTRIBUTE);
+        if (originalLabel !== null) {
+            if (originalLabel === NO_ARIA_LABEL) {
+                element.removeAttribute("aria-label");
+            } else {
+                element.setAttribute("aria-label", originalLabel);
+            }
+            element.removeAttribute(ORIGINAL_ARIA_LABEL_ATTRIBUTE);
+        }
+
+        element.removeAttribute(A11Y_MODE_ATTRIBUTE);
+    }
+
+    /**
+     * Get the element's text without the visually-hidden copy
+     * Use instead of textContent on elements that may already be split.
+     *
+     * @param element - Split root element
+     * @returns Visible text content
+     */
+    public getReadableText(element: HTMLElement): string {
+        const copy = element.querySelector(`:scope > [${A11Y_COPY_ATTRIBUTE}]`);
+        if (!copy) {
+            return element.textContent || "";
+        }
+
+        return Array.from(element.childNodes)
+            .filter((node) => node !== copy)
+            .map((node) => node.textContent || "")
+            .join("");
+    }
+
+    /**
+     * Check whether a node is the visually-hidden text copy
+     */
+    public isAccessibleTextCopy(node: Node): boolean {
+        return node instanceof HTMLElement && node.hasAttribute(A11Y_COPY_ATTRIBUTE);
+    }
+
+    //=======================================
+    //        INTERNAL HELPERS
+    //=======================================
+
+    /**
+     * Pick aria-label for elements that announce their name, a hidden copy otherwise
+     */
+    private resolveAutoMode(element: HTMLElement): TextAccessibilityMode {
+        const role = element.getAttribute("role");
+        if (role) {
+            return UNNAMEABLE_ROLES.has(role)
+                ? TextAccessibilityMode.VISUALLY_HIDDEN
+                : TextAccessibilityMode.ARIA_LABEL;
+        }
+
+        return NAMEABLE_TAGS.has(element.tagName)
+            ? TextAccessibilityMode.ARIA_LABEL
+            : TextAccessibilityMode.VISUALLY_HIDDEN;
+    }
+
+    private createVisuallyHiddenCopy(text: string): HTMLElement {
+        const copy = document.createElement("span");
+        copy.className = "fame-sr-only";
+        copy.setAttribute(A11Y_COPY_ATTRIBUTE, "true");
+        copy.textContent = text;
+
+        Object.entries(VISUALLY_HIDDEN_STYLES).forEach(([property, value]) => {
+            copy.style.setProperty(property, value);
+        });
+
+        return copy;
+    }
+
+    private removeVisuallyHiddenCopy(element: HTMLElement): void {
+        element
+            .querySelectorAll(`:scope > [${A11Y_COPY_ATTRIBUTE}]`)
+            .forEach((copy) => copy.remove());
+    }
+
+    /**
+     * Reset singleton instance (for testing)
+     */
+    public static resetInstance(): void {
+        AccessibleTextService.instance = null;
+    }
+}
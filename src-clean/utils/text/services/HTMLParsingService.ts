@@ -40,7 +40,9 @@
  * ```
  */
 
-
+import { TextAccessibilityMode } from "../../../types/index.ts";
+import { AccessibleTextService } from "./AccessibleTextService.ts";
+import { TextSegmentationService } from "./TextSegmentationService.ts";
 
 /**
  * Configuration options for HTML parsing operations
@@ -96,6 +98,10 @@ export interface ElementWrapConfig {
     dataAttributes: Record<string, string>;
     /** Whether elements should be inline-block display */
     inlineBlock: boolean;
+    /** How the unsplit text is exposed to screen readers (default: AUTO) */
+    accessibleText?: TextAccessibilityMode;
+    /** BCP 47 locale for grapheme/word segmentation (default: closest lang attribute) */
+    locale?: string;
 }
 
 /**
@@ -128,6 +134,12 @@ export class HTMLParsingService {
         maxProcessingTime: 5000 // 5 seconds max processing time
     };
 
+    /** Keeps wrapped text readable for screen readers */
+    private readonly accessibleTextService = AccessibleTextService.getInstance();
+
+    /** Locale-aware grapheme/word segmentation */
+    private readonly textSegmentationService = TextSegmentationService.getInstance();
+
     /** Private constructor to enforce singleton pattern */
     private constructor() {
         this.log('HTMLParsingService initialized');
@@ -498,7 +510,7 @@ export class HTMLParsingService {
      * Optimized for animation performance with proper styling and attributes.
      * 
      * **Performance Features:**
-     * - Efficient character iteration using Array.from()
+     * - Grapheme-aware iteration (emoji sequences, combining accents stay whole)
      * - Pre-configured styles for animation optimization
      * - Proper data attributes for identification and targeting
      * - Memory-conscious element creation
@@ -531,8 +543,9 @@ export class HTMLParsingService {
             ...config
         };
 
-        const text = element.textContent || "";
-        const chars = Array.from(text);
+        const text = this.accessibleTextService.getReadableText(element);
+        const locale = this.textSegmentationService.resolveLocale(element, wrapConfig.locale);
+        const chars = this.textSegmentationService.segmentGraphemes(text, locale);
         const elements: HTMLElement[] = [];
 
         this.log(`Creating ${chars.length} character elements`);
@@ -565,6 +578,9 @@ export class HTMLParsingService {
             elements.push(charEl);
         });
 
+        // ♿ Read the text once instead of letter by letter
+        this.accessibleTextService.applyAccessibleText(element, text, wrapConfig.accessibleText);
+
         this.log(`✅ Created ${elements.length} character elements`);
         return elements;
     }
@@ -581,7 +597,7 @@ export class HTMLParsingService {
      * Handles whitespace preservation and provides proper styling for animations.
      * 
      * **Features:**
-     * - Smart word boundary detection with whitespace preservation
+     * - Language-aware word boundaries (CJK/Thai) with whitespace preservation
      * - Optimized styling for transform animations
      * - Proper data attributes for targeting and identification
      * - Performance-conscious DOM manipulation
@@ -614,8 +630,9 @@ export class HTMLParsingService {
             ...config
         };
 
-        const text = element.textContent || "";
-        const words = text.split(/(\s+)/); // Keep whitespace
+        const text = this.accessibleTextService.getReadableText(element);
+        const locale = this.textSegmentationService.resolveLocale(element, wrapConfig.locale);
+        const words = this.textSegmentationService.segmentWords(text, locale); // Keep whitespace
         const elements: HTMLElement[] = [];
 
         this.log(`Creating ${words.length} word elements`);
@@ -650,6 +667,9 @@ export class HTMLParsingService {
             elements.push(wordEl);
         });
 
+        // ♿ Read the text once instead of word by word
+        this.accessibleTextService.applyAccessibleText(element, text, wrapConfig.accessibleText);
+
         this.log(`✅ Created ${elements.length} word elements`);
         return elements;
     }
@@ -703,7 +723,7 @@ export class HTMLParsingService {
             ...config
         };
 
-        const originalText = element.textContent || "";
+        const originalText = this.accessibleTextService.getReadableText(element);
         if (!originalText.trim()) {
             this.log("Empty text content, returning empty array");
             return [];
@@ -715,6 +735,9 @@ export class HTMLParsingService {
             return [];
         }
 
+        // Drop a previous visually-hidden copy so it isn't detected as text
+        this.accessibleTextService.removeAccessibleText(element);
+
         // Detect lines with HTML preservation
         const lineDetectionResult = this.detectTextLinesWithHTML(element);
         
@@ -749,6 +772,9 @@ export class HTMLParsingService {
             lineElements.push(lineWrapper);
         });
 
+        // ♿ Expose the text once, hide the line containers
+        this.accessibleTextService.applyAccessibleText(element, originalText, wrapConfig.accessibleText);
+
         this.log(`✅ Created ${lineElements.length} line elements`);
         return lineElements;
     }
@@ -458,6 +458,43 @@ export class PositionMappingService {
         return [...positionMap]; // Return copy to prevent external mutation
     }
 
+    /**
+     * Map a split text segment to its range in the original text
+     * 
+     * @param positionMap - Position map from getPositionMap()
+     * @param splitStart - UTF-16 offset of the segment in the split text
+     * @param segmentLength - UTF-16 length of the segment (grapheme or word)
+     * @returns {{ startIndex: number; endIndex: number }} Original text range (end exclusive)
+     * 
+     * @description
+     * Position maps are indexed by UTF-16 code unit, while split elements hold whole
+     * grapheme clusters or words. Mapping the first and last code unit of the segment
+     * keeps multi-unit graphemes (emoji, combining accents, conjuncts) consistent with
+     * the captured style ranges.
+     * 
+     * @example
+     * ```typescript
+     * const { startIndex, endIndex } = service.mapSegmentRange(positionMap, offset, grapheme.length);
+     * const isStyled = startIndex < style.endIndex && endIndex > style.startIndex;
+     * ```
+     */
+    public mapSegmentRange(
+        positionMap: number[],
+        splitStart: number,
+        segmentLength: number
+    ): { startIndex: number; endIndex: number } {
+        const splitEnd = splitStart + Math.max(segmentLength, 1);
+
+        const startIndex = positionMap[splitStart] !== undefined
+            ? positionMap[splitStart]
+            : splitStart;
+        const endIndex = positionMap[splitEnd - 1] !== undefined
+            ? positionMap[splitEnd - 1] + 1
+            : splitEnd;
+
+        return { startIndex, endIndex };
+    }
+
     /**
      * Check if position map exists for an element
      * 
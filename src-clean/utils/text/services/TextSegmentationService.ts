@@ -0,0 +1,362 @@
+/**
+ * @file TextSegmentationService.ts
+ * @description Grapheme and word segmentation for text splitting
+ *
+ * @version 1.0.0
+ * @since 2.3.0
+ *
+ * Splitting with `Array.from(text)` breaks user-perceived characters apart: emoji ZWJ
+ * sequences (👩‍👩‍👧), flags (🇯🇵), combining accents (é as e + ◌́) and Indic conjuncts end up
+ * in separate animated spans. Splitting words on whitespace turns Japanese, Chinese and
+ * Thai headings into one giant "word".
+ *
+ * This service segments with `Intl.Segmenter` when available and falls back to a
+ * code-point based cluster approximation otherwise. Every segment is a slice of the
+ * input, so UTF-16 offsets (used by PositionMappingService) can be derived by summing
+ * segment lengths.
+ *
+ * @example
+ * ```typescript
+ * const segmentation = TextSegmentationService.getInstance();
+ *
+ * const locale = segmentation.resolveLocale(element, config.locale);
+ * const graphemes = segmentation.segmentGraphemes('👩‍👩‍👧 café', locale);
+ * // ['👩‍👩‍👧', ' ', 'c', 'a', 'f', 'é']
+ *
+ * const words = segmentation.segmentWords('東京へようこそ', 'ja');
+ * // ['東京', 'へ', 'ようこそ']
+ * ```
+ *
+ * @architecture
+ * - **Singleton Pattern**: Segmenter instances are cached per locale and granularity
+ * - **Lossless Segments**: `segments.join('') === text` for every result
+ * - **Whitespace Runs**: Word results keep whitespace as separate segments, matching
+ *   the previous `split(/(\s+)/)` behavior that the splitters rely on
+ */
+
+/** Segmentation granularity supported by the splitters */
+type SegmentGranularity = "grapheme" | "word";
+
+/** Word segment with its word-likeness (letters/ideographs vs punctuation/space) */
+interface WordSegment {
+    segment: string;
+    isWordLike: boolean;
+}
+
+/** Matches whitespace-only segments */
+const WHITESPACE_PATTERN = /^\s+$/;
+
+/** Zero width joiner - glues emoji sequences together */
+const ZERO_WIDTH_JOINER = 0x200d;
+
+/**
+ * TextSegmentationService
+ *
+ * Locale-aware grapheme and word segmentation with a fallback for environments
+ * without `Intl.Segmenter`.
+ */
+export class TextSegmentationService {
+    private static instance: TextSegmentationService | null = null;
+
+    /** Cached Intl.Segmenter instances keyed by `${granularity}:${locale}` */
+    private segmenters: Map<string, Intl.Segmenter> = new Map();
+
+    /** Private constructor to enforce singleton pattern */
+    private constructor() {}
+
+    /**
+     * Get singleton instance of TextSegmentationService
+     */
+    public static getInstance(): TextSegmentationService {
+        if (!TextSegmentationService.instance) {
+            TextSegmentationService.instance = new TextSegmentationService();
+        }
+        return TextSegmentationService.instance;
+    }
+
+    /**
+     * Whether Intl.Segmenter is available in this environment
+     */
+    public isSegmenterSupported(): boolean {
+        return typeof Intl !== "undefined" && typeof Intl.Segmenter === "function";
+    }
+
+    /**
+     * Resolve the locale used for segmentation
+     *
+     * Priority: explicit config locale → closest `lang` attribute → document language.
+     *
+     * @param element - Element being split
+     * @param configLocale - Locale from TextProcessingConfig
+     * @returns BCP 47 locale tag, or undefined for the runtime default
+     */
+    public resolveLocale(element: HTMLElement | null, configLocale?: string): string | undefined {
+        if (configLocale && configLocale.trim()) {
+            return configLocale.trim();
+        }
+
+        const langElement = element?.closest("[lang]");
+        const lang = langElement?.getAttribute("lang")
+            || (typeof document !== "undefined" ? document.documentElement.lang : "");
+
+        return lang && lang.trim() ? lang.trim() : undefined;
+    }
+
+    /**
+     * Split text into user-perceived characters (grapheme clusters)
+     *
+     * @param text - Text to segment
+     * @param locale - Optional BCP 47 locale
+     * @returns Grapheme clusters in order
+     */
+    public segmentGraphemes(text: string, locale?: string): string[] {
+        if (!text) return [];
+
+        const segmenter = this.getSegmenter("grapheme", locale);
+        if (segmenter) {
+            return Array.from(segmenter.segment(text), (data) => data.segment);
+        }
+
+        return this.fallbackGraphemes(text);
+    }
+
+    /**
+     * Split text into words, keeping whitespace runs as separate segments
+     *
+     * Punctuation is attached to the neighbouring word ("Hello," stays one word), so
+     * space-separated scripts split exactly as before while scripts without spaces
+     * (Japanese, Chinese, Thai) split at dictionary word boundaries.
+     *
+     * @param text - Text to segment
+     * @param locale - Optional BCP 47 locale
+     * @returns Word and whitespace segments in order
+     */
+    public segmentWords(text: string, locale?: string): string[] {
+        if (!text) return [];
+
+        const segmenter = this.getSegmenter("word", locale);
+        const rawSegments: WordSegment[] = segmenter
+            ? Array.from(segmenter.segment(text), (data) => ({
+                  segment: data.segment,
+                  isWordLike: data.isWordLike === true,
+              }))
+            : this.fallbackWordSegments(text);
+
+        return this.mergeWordSegments(rawSegments);
+    }
+
+    /**
+     * Check whether a segment is whitespace only
+     */
+    public isWhitespace(segment: string): boolean {
+        return WHITESPACE_PATTERN.test(segment);
+    }
+
+    //=======================================
+    //        INTERNAL HELPERS
+    //=======================================
+
+    /**
+     * Get a cached Intl.Segmenter, or null when unsupported
+     */
+    private getSegmenter(granularity: SegmentGranularity, locale?: string): Intl.Segmenter | null {
+        if (!this.isSegmenterSupported()) return null;
+
+        const cacheKey = `${granularity}:${locale || ""}`;
+        const cached = this.segmenters.get(cacheKey);
+        if (cached) return cached;
+
+        let segmenter: Intl.Segmenter;
+        try {
+            segmenter = new Intl.Segmenter(locale, { granularity });
+        } catch (error) {
+            // Invalid locale tag - fall back to the runtime default locale
+            console.warn(`🔤 [TextSegmentationService] Invalid locale "${locale}", using default:`, error);
+            segmenter = new Intl.Segmenter(undefined, { granularity });
+        }
+
+        this.segmenters.set(cacheKey, segmenter);
+        return segmenter;
+    }
+
+    /**
+     * Merge punctuation into neighbouring words and collapse whitespace runs
+     */
+    private mergeWordSegments(rawSegments: WordSegment[]): string[] {
+        const result: string[] = [];
+        // Punctuation seen before the first word of a run (e.g. opening quotes)
+        let pendingPrefix = "";
+        // Whether the last pushed segment can take trailing punctuation
+        let lastIsWord = false;
+
+        rawSegments.forEach(({ segment, isWordLike }) => {
+            if (this.isWhitespace(segment)) {
+                if (pendingPrefix) {
+                    result.push(pendingPrefix);
+                    pendingPrefix = "";
+                }
+
+                if (result.length > 0 && this.isWhitespace(result[result.length - 1])) {
+                    result[result.length - 1] += segment;
+                } else {
+                    result.push(segment);
+                }
+                lastIsWord = false;
+                return;
+            }
+
+            if (isWordLike) {
+                result.push(pendingPrefix + segment);
+                pendingPrefix = "";
+                lastIsWord = true;
+                return;
+            }
+
+            // Punctuation/symbols: trail the previous word, or lead the next one
+            if (lastIsWord) {
+                result[result.length - 1] += segment;
+            } else {
+                pendingPrefix += segment;
+            }
+        });
+
+        if (pendingPrefix) {
+            result.push(pendingPrefix);
+        }
+
+        return result;
+    }
+
+    /**
+     * Approximate grapheme clusters without Intl.Segmenter
+     *
+     * Joins combining marks, variation selectors, emoji modifiers, ZWJ sequences,
+     * regional indicator pairs and virama-joined Indic conjuncts onto their base.
+     */
+    private fallbackGraphemes(text: string): string[] {
+        const clusters: string[] = [];
+        const codePoints = Array.from(text);
+
+        let current = "";
+        let joinNext = false;
+        let regionalIndicatorCount = 0;
+
+        codePoints.forEach((char) => {
+            const codePoint = char.codePointAt(0) || 0;
+            const isRegionalIndicator = codePoint >= 0x1f1e6 && codePoint <= 0x1f1ff;
+
+            const attaches =
+                current !== "" &&
+                (joinNext ||
+                    this.isExtendingCodePoint(codePoint) ||
+                    (isRegionalIndicator && regionalIndicatorCount % 2 === 1));
+
+            if (attaches) {
+                current += char;
+            } else {
+                if (current) clusters.push(current);
+                current = char;
+                regionalIndicatorCount = 0;
+            }
+
+            if (isRegionalIndicator) regionalIndicatorCount++;
+            joinNext = codePoint === ZERO_WIDTH_JOINER || this.isVirama(codePoint);
+        });
+
+        if (current) clusters.push(current);
+        return clusters;
+    }
+
+    /**
+     * Approximate word segments without Intl.Segmenter
+     *
+     * Splits on whitespace; ideographic and kana runs are split per grapheme since
+     * there is no dictionary to find real word boundaries.
+     */
+    private fallbackWordSegments(text: string): WordSegment[] {
+        const segments: WordSegment[] = [];
+
+        text.split(/(\s+)/).forEach((part) => {
+            if (!part) return;
+
+            if (this.isWhitespace(part)) {
+                segments.push({ segment: part, isWordLike: false });
+                return;
+            }
+
+            let run = "";
+            this.fallbackGraphemes(part).forEach((grapheme) => {
+                const codePoint = grapheme.codePointAt(0) || 0;
+                if (this.isIdeographicCodePoint(codePoint)) {
+                    if (run) segments.push({ segment: run, isWordLike: true });
+                    segments.push({ segment: grapheme, isWordLike: true });
+                    run = "";
+                } else {
+                    run += grapheme;
+                }
+            });
+
+            if (run) segments.push({ segment: run, isWordLike: true });
+        });
+
+        return segments;
+    }
+
+    /** Code points that extend the previous cluster */
+    private isExtendingCodePoint(codePoint: number): boolean {
+        return (
+            (codePoint >= 0x0300 && codePoint <= 0x036f) || // Combining diacritical marks
+            (codePoint >= 0x0483 && codePoint <= 0x0489) || // Cyrillic combining marks
+            (codePoint >= 0x0591 && codePoint <= 0x05c7) || // Hebrew points
+            (codePoint >= 0x0610 && codePoint <= 0x061a) || // Arabic marks
+            (codePoint >= 0x064b && codePoint <= 0x065f) ||
+            (codePoint >= 0x0900 && codePoint <= 0x0903) || // Devanagari signs
+            (codePoint >= 0x093a && codePoint <= 0x094f) || // Devanagari vowel signs
+            (codePoint >= 0x0981 && codePoint <= 0x0983) || // Bengali signs
+            (codePoint >= 0x09bc && codePoint <= 0x09d7) || // Bengali vowel signs
+            (codePoint >= 0x0e31 && codePoint <= 0x0e3a && codePoint !== 0x0e32 && codePoint !== 0x0e33) || // Thai vowels/tones
+            (codePoint >= 0x0e47 && codePoint <= 0x0e4e) ||
+            (codePoint >= 0x1ab0 && codePoint <= 0x1aff) || // Combining marks extended
+            (codePoint >= 0x1dc0 && codePoint <= 0x1dff) || // Combining marks supplement
+            (codePoint >= 0x20d0 && codePoint <= 0x20ff) || // Combining marks for symbols
+            (codePoint >= 0xfe00 && codePoint <= 0xfe0f) || // Variation selectors
+            (codePoint >= 0xfe20 && codePoint <= 0xfe2f) || // Combining half marks
+            (codePoint >= 0x1f3fb && codePoint <= 0x1f3ff) || // Emoji skin tone modifiers
+            (codePoint >= 0xe0020 && codePoint <= 0xe007f) || // Emoji tag sequences
+            codePoint === ZERO_WIDTH_JOINER
+        );
+    }
+
+    /** Viramas join the following consonant into a conjunct */
+    private isVirama(codePoint: number): boolean {
+        return (
+            codePoint === 0x094d || // Devanagari
+            codePoint === 0x09cd || // Bengali
+            codePoint === 0x0a4d || // Gurmukhi
+            codePoint === 0x0acd || // Gujarati
+            codePoint === 0x0b4d || // Oriya
+            codePoint === 0x0bcd || // Tamil
+            codePoint === 0x0c4d || // Telugu
+            codePoint === 0x0ccd || // Kannada
+            codePoint === 0x0d4d // Malayalam
+        );
+    }
+
+    /** Han, Hiragana and Katakana code points (written without spaces) */
+    private isIdeographicCodePoint(codePoint: number): boolean {
+        return (
+            (codePoint >= 0x3040 && codePoint <= 0x30ff) || // Hiragana + Katakana
+            (codePoint >= 0x3400 && codePoint <= 0x4dbf) || // CJK extension A
+            (codePoint >= 0x4e00 && codePoint <= 0x9fff) || // CJK unified ideographs
+            (codePoint >= 0xf900 && codePoint <= 0xfaff) || // CJK compatibility ideographs
+            (codePoint >= 0x20000 && codePoint <= 0x2fa1f) // CJK extensions B+
+        );
+    }
+
+    /**
+     * Reset singleton instance (for testing)
+     */
+    public static resetInstance(): void {
+        TextSegmentationService.instance = null;
+    }
+}